@@ -0,0 +1,91 @@
+import { createClient } from "@/utils/supabase/server";
+import { notFound, redirect } from "next/navigation";
+import { isAdminUser } from "@/utils/admin";
+import { getPromptVersionReport } from "@/utils/supabase/prompt-reports";
+import { PROMPT_TEMPLATES } from "@/utils/chinese-names/prompts";
+
+const PLAN_LABELS: Record<string, string> = { "1": "Standard", "4": "Premium" };
+
+function formatRate(count: number, total: number) {
+  return total > 0 ? `${((count / total) * 100).toFixed(1)}%` : "—";
+}
+
+export default async function PromptVersionsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ days?: string }>;
+}) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return redirect("/sign-in");
+  }
+
+  if (!isAdminUser(user)) {
+    notFound();
+  }
+
+  const days = parseInt((await searchParams).days || "");
+  const since = days > 0 ? new Date(Date.now() - days * 86400000) : undefined;
+  const rows = await getPromptVersionReport(since);
+
+  return (
+    <div className="flex-1 w-full flex flex-col gap-6 px-4 sm:px-8 container">
+      <div className="mt-6 sm:mt-8">
+        <h1 className="text-2xl sm:text-3xl font-bold mb-2">Prompt Versions</h1>
+        <p className="text-sm sm:text-base text-muted-foreground">
+          Likes, saves and selections per prompt version
+          {since ? ` for batches from the last ${days} days` : " for all batches"}. Rates are per generated name.
+        </p>
+      </div>
+
+      <div className="rounded-xl border bg-card overflow-x-auto mb-6">
+        <table className="w-full text-sm">
+          <thead className="border-b bg-muted/50 text-left">
+            <tr>
+              <th className="p-3 font-medium">Version</th>
+              <th className="p-3 font-medium">Plan</th>
+              <th className="p-3 font-medium text-right">Batches</th>
+              <th className="p-3 font-medium text-right">Names</th>
+              <th className="p-3 font-medium text-right">Fallbacks</th>
+              <th className="p-3 font-medium text-right">Likes</th>
+              <th className="p-3 font-medium text-right">Saves</th>
+              <th className="p-3 font-medium text-right">Selections</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="p-6 text-center text-muted-foreground">
+                  No batches in this period.
+                </td>
+              </tr>
+            ) : (
+              rows.map((row) => (
+                <tr key={`${row.promptVersion}-${row.planType}`} className="border-b last:border-0">
+                  <td className="p-3">
+                    <div className="font-medium">{row.promptVersion}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {PROMPT_TEMPLATES[row.promptVersion]?.description ?? "Not in the template registry"}
+                    </div>
+                  </td>
+                  <td className="p-3">{PLAN_LABELS[row.planType] ?? row.planType}</td>
+                  <td className="p-3 text-right">{row.batches}</td>
+                  <td className="p-3 text-right">{row.names}</td>
+                  <td className="p-3 text-right">{formatRate(row.fallbackNames, row.names)}</td>
+                  <td className="p-3 text-right">{row.likes} ({formatRate(row.likes, row.names)})</td>
+                  <td className="p-3 text-right">{row.saves} ({formatRate(row.saves, row.names)})</td>
+                  <td className="p-3 text-right">{row.selections} ({formatRate(row.selections, row.names)})</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { isAdminUser } from '@/utils/admin';
+import { getLLMCostReport } from '@/utils/supabase/llm-usage';
+
+// LLM cost and margin per plan type, day and user; `?days=30` limits it to recent generations
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminUser(user)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const days = parseInt(searchParams.get('days') || '');
+    const since = days > 0 ? new Date(Date.now() - days * 86400000) : undefined;
+
+    return NextResponse.json(await getLLMCostReport(since));
+
+  } catch (error) {
+    console.error('LLM cost report error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load LLM cost report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { isAdminUser } from '@/utils/admin';
+import { getPromptVersionReport } from '@/utils/supabase/prompt-reports';
+
+// Per prompt version quality report; `?days=30` limits it to recent batches
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminUser(user)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const days = parseInt(searchParams.get('days') || '');
+    const since = days > 0 ? new Date(Date.now() - days * 86400000) : undefined;
+
+    const versions = await getPromptVersionReport(since);
+
+    return NextResponse.json({
+      versions,
+      since: since?.toISOString() ?? null,
+    });
+
+  } catch (error) {
+    console.error('Prompt version report error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load prompt version report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import ErrorHandler from '@/utils/error-handler';
+import { generateNameComparison, isPDFGenerationAvailable } from '@/utils/pdf-generator';
+import { loadComparedNames } from '@/utils/chinese-names/compare';
+import { compareNamesInputSchema, formatSchemaIssues } from '@/utils/chinese-names/schema';
+
+// Ensure this route runs on the Node.js runtime (Puppeteer requires Node features)
+export const runtime = 'nodejs';
+
+// Export the comparison as a landscape PDF; names are reloaded so the PDF matches what was saved
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required for PDF export' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = compareNamesInputSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      const validationError = ErrorHandler.validationError(
+        'Please choose two to four names to compare.',
+        { issues: formatSchemaIssues(parsed.error) }
+      );
+      return NextResponse.json(ErrorHandler.toErrorResponse(validationError), { status: 400 });
+    }
+
+    const names = await loadComparedNames(supabase, user.id, parsed.data.ids);
+    if (names.length < 2) {
+      return NextResponse.json({ error: 'Names not found' }, { status: 404 });
+    }
+
+    const isAvailable = await isPDFGenerationAvailable();
+    if (!isAvailable) {
+      return NextResponse.json(
+        { error: 'PDF generation service is currently unavailable. Please try again later.' },
+        { status: 503 }
+      );
+    }
+
+    const { buffer: pdfBuffer, fileName } = await generateNameComparison(names);
+
+    return new NextResponse(pdfBuffer, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(fileName)}"`,
+        'Content-Length': pdfBuffer.length.toString(),
+      },
+    });
+
+  } catch (error) {
+    console.error('Comparison PDF API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to export the comparison. Please try again.',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import ErrorHandler from '@/utils/error-handler';
+import { loadComparedNames, parseCompareIds } from '@/utils/chinese-names/compare';
+import { compareNamesInputSchema, formatSchemaIssues } from '@/utils/chinese-names/schema';
+
+// Up to four saved or generated names for the side-by-side comparison page
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = compareNamesInputSchema.safeParse({
+      ids: parseCompareIds(request.nextUrl.searchParams.get('ids')),
+    });
+
+    if (!parsed.success) {
+      const validationError = ErrorHandler.validationError(
+        'Please choose two to four names to compare.',
+        { issues: formatSchemaIssues(parsed.error) }
+      );
+      return NextResponse.json(ErrorHandler.toErrorResponse(validationError), { status: 400 });
+    }
+
+    const names = await loadComparedNames(supabase, user.id, parsed.data.ids);
+
+    return NextResponse.json({
+      names,
+      count: names.length
+    });
+
+  } catch (error) {
+    console.error('Name comparison API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load names for comparison' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,37 +1,47 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { createClient } from '@/utils/supabase/server';
-import OpenAI from 'openai';
-import { getCachedEnvConfig } from '@/utils/env-config';
 import ErrorHandler, { ErrorType } from '@/utils/error-handler';
-
-// Defer environment access and OpenAI initialization to request time
-
-interface GenerateNameRequest {
-  englishName: string;
-  gender: 'male' | 'female' | 'other';
-  birthYear?: string;
-  personalityTraits?: string;
-  namePreferences?: string;
-  planType: '1' | '4'; // 1 = Standard, 4 = Premium
-  // Batch continuation parameters
-  continueBatch?: boolean; // true if continuing existing batch
-  batchId?: string; // batch ID to continue
-}
-
-interface NameData {
-  chinese: string;
-  pinyin: string;
-  characters: Array<{
-    character: string;
-    pinyin: string;
-    meaning: string;
-    explanation: string;
-  }>;
-  meaning: string;
-  culturalNotes: string;
-  personalityMatch: string;
-  style: string;
-}
+import { generateNames, isGenerationMode } from '@/utils/chinese-names/generator';
+import { getProviderForPlan } from '@/utils/llm/providers';
+import { getLLMAccess } from '@/utils/chinese-names/llm-access';
+import { DEFAULT_PROMPT_VERSION, getPromptTemplateForPlan, PROMPT_TEMPLATES } from '@/utils/chinese-names/prompts';
+import { CORPUS_PROVIDER } from '@/utils/chinese-names/name-corpus';
+import { createUsageTracker } from '@/utils/llm/usage';
+import { createEventStream, wantsEventStream, SSE_HEADERS } from '@/utils/chinese-names/stream';
+import { findSurname, isSurnameStrategy } from '@/utils/chinese-names/surnames';
+import { isOutputLanguage } from '@/utils/chinese-names/languages';
+import { analyzeBirthChart, getBirthInputError } from '@/utils/chinese-names/bazi';
+import { getConstraintsError } from '@/utils/chinese-names/constraints';
+import { generateFamilyNames, getFamilyConstraints, getFamilyCreditCost, getFamilyNameCount } from '@/utils/chinese-names/family';
+import { BRAND_NAME_COUNT, generateBrandNames, hasBrandAccess } from '@/utils/chinese-names/brand';
+import { screenGenerationRequest, toScreeningError } from '@/utils/chinese-names/input-screening';
+import { brandRequestSchema, familyRequestSchema, formatSchemaIssues } from '@/utils/chinese-names/schema';
+import { reserveCredits } from '@/utils/supabase/subscriptions';
+import { commitReservation, getGenerationBilling, releaseReservation } from '@/utils/chinese-names/billing';
+import { loadExistingNames, recordGenerationUsage, saveGeneration } from '@/utils/chinese-names/batches';
+import {
+  completeGenerationJob,
+  createGenerationJob,
+  failGenerationJob,
+  updateGenerationJobNames,
+} from '@/utils/supabase/generation-jobs';
+import {
+  IDEMPOTENCY_REPLAYED_HEADER,
+  replayStoredResponse,
+  withIdempotency,
+  type IdempotencyHandle,
+  type StoredResponse,
+} from '@/utils/idempotency';
+import type { NameRejection } from '@/utils/chinese-names/homophone-filter';
+import type { BaziAnalysis, GenerateNameRequest, GenerateNameResponse, GenerationJob, NameData } from '@/types/chinese-names';
+import type { GenerateNamesOptions } from '@/utils/chinese-names/generator';
+
+// Large Premium and family batches (and async jobs, which run in `after()` within this
+// same invocation) need more than the default function timeout; a job cut off here is
+// failed and refunded by the stall check in utils/supabase/generation-jobs.ts
+export const maxDuration = 300;
+
+// Defer environment access and LLM provider initialization to request time
 
 export async function POST(request: NextRequest) {
   if (process.env.NODE_ENV === 'development') {
@@ -44,8 +54,90 @@ export async function POST(request: NextRequest) {
     // Check if user is authenticated for paid features
     const { data: { user }, error: authError } = await supabase.auth.getUser();
 
-    const body: GenerateNameRequest = await request.json();
-    const { englishName, gender, birthYear, personalityTraits, namePreferences, planType, continueBatch, batchId } = body;
+    let body: GenerateNameRequest = await request.json();
+
+    // Free text goes into the prompt: sanitize it and reject injection attempts and abuse
+    const screening = screenGenerationRequest(body);
+    if (!screening.ok) {
+      console.warn('Generation input rejected:', screening.rejection);
+      return NextResponse.json(ErrorHandler.toErrorResponse(toScreeningError(screening.rejection)), { status: 400 });
+    }
+    body = screening.body;
+
+    // Brand mode: names for a business instead of a person, on plans that include it
+    if (body.brand !== undefined) {
+      if (!user) {
+        const authenticationError = ErrorHandler.authenticationError('Please sign in to generate business names.');
+        return NextResponse.json(ErrorHandler.toErrorResponse(authenticationError), { status: 401 });
+      }
+
+      if (body.family !== undefined) {
+        const validationError = ErrorHandler.validationError('Please choose either family or business naming, not both.');
+        return NextResponse.json(ErrorHandler.toErrorResponse(validationError), { status: 400 });
+      }
+
+      const parsedBrand = brandRequestSchema.safeParse(body.brand);
+      if (!parsedBrand.success) {
+        const validationError = ErrorHandler.validationError(
+          'Please describe your brand: its English name, industry, one to five brand values and target market.',
+          { issues: formatSchemaIssues(parsedBrand.error) }
+        );
+        return NextResponse.json(ErrorHandler.toErrorResponse(validationError), { status: 400 });
+      }
+
+      if (!(await hasBrandAccess(user.id))) {
+        const authorizationError = ErrorHandler.createError(
+          ErrorType.AUTHORIZATION,
+          'Business name generation is included in the Enterprise plan. Please upgrade to use it.',
+          'Subscription tier does not include business name generation',
+          { code: 'PLAN_FEATURE_REQUIRED', suggestions: ['Upgrade to the Enterprise plan on the pricing page'] }
+        );
+        return NextResponse.json(ErrorHandler.toErrorResponse(authorizationError), { status: 403 });
+      }
+
+      body = {
+        ...body,
+        englishName: body.englishName || parsedBrand.data.englishBrandName,
+        gender: body.gender || 'other',
+        brand: parsedBrand.data,
+      };
+    }
+
+    // Family mode: check the siblings and fold the shared character and radical into the constraints
+    if (body.family !== undefined) {
+      if (!user) {
+        const authenticationError = ErrorHandler.authenticationError('Please sign in to name siblings together.');
+        return NextResponse.json(ErrorHandler.toErrorResponse(authenticationError), { status: 401 });
+      }
+
+      const parsedFamily = familyRequestSchema.safeParse(body.family);
+      if (!parsedFamily.success) {
+        const validationError = ErrorHandler.validationError(
+          'Please add two to four family members and check the shared naming options.',
+          { issues: formatSchemaIssues(parsedFamily.error) }
+        );
+        return NextResponse.json(ErrorHandler.toErrorResponse(validationError), { status: 400 });
+      }
+
+      const family = parsedFamily.data;
+      for (const member of family.members) {
+        const birthError = member.birthDate || member.birthTime ? getBirthInputError(member) : undefined;
+        if (birthError) {
+          const validationError = ErrorHandler.validationError(`${member.englishName}: ${birthError}`, { member });
+          return NextResponse.json(ErrorHandler.toErrorResponse(validationError), { status: 400 });
+        }
+      }
+
+      body = {
+        ...body,
+        englishName: body.englishName || family.members.map(member => member.englishName).join(' & '),
+        gender: body.gender || 'other',
+        family,
+        constraints: getFamilyConstraints(family, body.constraints),
+      };
+    }
+
+    const { englishName, gender, birthDate, birthTime, birthTimezone, planType, generationMode, surnameStrategy, surname, constraints, outputLanguage, continueBatch, batchId } = body;
 
     if (process.env.NODE_ENV === 'development') {
       console.log('Request body:', { englishName, gender, planType, continueBatch, batchId, hasUser: !!user });
@@ -65,570 +157,421 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(errorResponse, { status: 400 });
     }
 
-    // Initialize OpenAI client at request time (avoids build-time env access)
-    const envConfig = getCachedEnvConfig();
-    const openai = new OpenAI({
-      baseURL: envConfig.openaiBaseUrl,
-      apiKey: envConfig.openaiApiKey,
-    });
-
-    // For non-authenticated users, check IP rate limiting
-    if (!user) {
-      // Get client IP address
-      const forwarded = request.headers.get('x-forwarded-for');
-      const realIp = request.headers.get('x-real-ip');
-      const clientIp = forwarded ? forwarded.split(',')[0].trim() : realIp || '127.0.0.1';
+    if (generationMode !== undefined && !isGenerationMode(generationMode)) {
+      const validationError = ErrorHandler.validationError(
+        'Please choose a valid name style.',
+        { generationMode }
+      );
+      return NextResponse.json(ErrorHandler.toErrorResponse(validationError), { status: 400 });
+    }
 
-      if (process.env.NODE_ENV === 'development') {
-        console.log('Free generation attempt:', {
-          forwarded,
-          realIp,
-          clientIp,
-        });
-      }
+    if (outputLanguage !== undefined && !isOutputLanguage(outputLanguage)) {
+      const validationError = ErrorHandler.validationError(
+        'Please choose a supported language for the explanations.',
+        { outputLanguage }
+      );
+      return NextResponse.json(ErrorHandler.toErrorResponse(validationError), { status: 400 });
+    }
 
-      // Check IP rate limit using Supabase function
-      const { data: canGenerate, error: rateLimitError } = await supabase
-        .rpc('check_ip_rate_limit', { p_client_ip: clientIp });
+    if (surnameStrategy !== undefined && !isSurnameStrategy(surnameStrategy)) {
+      const validationError = ErrorHandler.validationError(
+        'Please choose a valid surname option.',
+        { surnameStrategy }
+      );
+      return NextResponse.json(ErrorHandler.toErrorResponse(validationError), { status: 400 });
+    }
 
-      if (process.env.NODE_ENV === 'development') {
-        console.log('Rate limit check result:', { canGenerate, rateLimitError });
-      }
+    if (surnameStrategy === 'fixed' && !findSurname(surname)) {
+      const validationError = ErrorHandler.validationError(
+        'Please choose a surname from the surname list.',
+        { surname }
+      );
+      return NextResponse.json(ErrorHandler.toErrorResponse(validationError), { status: 400 });
+    }
 
-      if (rateLimitError) {
-        console.error('Rate limit check error:', rateLimitError);
-        const errorResponse = ErrorHandler.toErrorResponse(
-          ErrorHandler.createError(
-            ErrorType.RATE_LIMIT,
-            'Unable to verify usage limit. Please try again.',
-            rateLimitError.message,
-            {
-              code: 'RATE_LIMIT_CHECK_FAILED',
-              retryable: true,
-              suggestions: ['Refresh the page and try again', 'Wait a moment before trying again'],
-            }
-          )
-        );
-        return NextResponse.json(errorResponse, { status: 500 });
+    if (constraints !== undefined) {
+      const constraintsError = getConstraintsError(constraints);
+      if (constraintsError) {
+        const validationError = ErrorHandler.validationError(constraintsError, { constraints });
+        return NextResponse.json(ErrorHandler.toErrorResponse(validationError), { status: 400 });
       }
+    }
 
-      if (!canGenerate) {
-        const rateLimitError = ErrorHandler.rateLimitError(3, 'day');
-        const errorResponse = ErrorHandler.toErrorResponse(rateLimitError);
-        return NextResponse.json(errorResponse, { status: 429 });
+    // A full birth date enables the BaZi analysis; the year alone only personalizes the prompt
+    let baziAnalysis: BaziAnalysis | undefined;
+    if (birthDate || birthTime) {
+      const birthError = getBirthInputError({ birthDate, birthTime, birthTimezone });
+      if (birthError) {
+        const validationError = ErrorHandler.validationError(birthError, { birthDate, birthTime, birthTimezone });
+        return NextResponse.json(ErrorHandler.toErrorResponse(validationError), { status: 400 });
       }
+      baziAnalysis = analyzeBirthChart({ birthDate, birthTime, birthTimezone });
     }
 
-    // Check if user has sufficient credits for paid generation
-    if (user) {
-      const creditCost = parseInt(planType);
-      console.log('Checking credits for user:', user.id, 'cost:', creditCost);
-      
-      // Get customer data from unified customers table
-      const { data: customer, error: fetchError } = await supabase
-        .from('customers')
-        .select('*')
-        .eq('user_id', user.id)
-        .single();
-
-      if (fetchError) {
-        console.error('Error fetching customer:', fetchError);
-        // Don't fail the request, just skip credit deduction for testing
-        console.log('Skipping credit checks due to fetch error');
-      } else {
-        console.log('Customer data:', { 
-          hasCustomer: !!customer, 
-          credits: customer?.credits, 
-          creditCost 
-        });
+    // A repeated Idempotency-Key replays the first result instead of charging again
+    return await withIdempotency(
+      request,
+      {
+        scope: 'chinese_names_generate',
+        owner: user ? user.id : `ip:${getClientIp(request)}`,
+        fingerprint: body,
+        replay: (stored) => replayGeneration(request, stored),
+      },
+      (idempotency) => runGeneration(request, supabase, user, body, baziAnalysis, idempotency)
+    );
 
-        // Check if customer has sufficient credits
-        if (!customer || customer.credits < creditCost) {
-          console.error('Insufficient credits:', { 
-            hasCustomer: !!customer, 
-            credits: customer?.credits, 
-            creditCost 
-          });
-          return NextResponse.json(
-            { error: 'Insufficient credits. Please purchase more credits.' },
-            { status: 403 }
-          );
-        }
+  } catch (error) {
+    const appError = ErrorHandler.handleError(error, 'name generation');
+    const errorResponse = ErrorHandler.toErrorResponse(appError, crypto.randomUUID());
 
-        // Deduct credits from customer
-        const newCredits = customer.credits - creditCost;
-        const { error: updateError } = await supabase
-          .from('customers')
-          .update({
-            credits: newCredits,
-            updated_at: new Date().toISOString()
-          })
-          .eq('user_id', user.id);
-
-        if (updateError) {
-          console.error('Credit deduction error:', updateError);
-          // Don't fail for testing, just log
-          console.log('Continuing without credit deduction for testing');
-        } else {
-          // Record credit transaction in history
-          try {
-            await supabase
-              .from('credits_history')
-              .insert({
-                customer_id: customer.id,
-                amount: creditCost,
-                type: 'subtract',
-                description: 'chinese_name_generation',
-                metadata: {
-                  operation: 'chinese_name_generation',
-                  credits_before: customer.credits,
-                  credits_after: newCredits,
-                  plan_type: planType
-                }
-              });
-          } catch (error) {
-            console.error('Failed to record credit transaction:', error);
-          }
-        }
-      }
-    }
+    // Log error for debugging
+    console.error('Name generation error:', {
+      type: appError.type,
+      message: appError.message,
+      userMessage: appError.userMessage,
+      timestamp: new Date().toISOString(),
+    });
 
-    // Common Chinese surnames
-    const commonSurnames = [
-      '王', '李', '张', '刘', '陈', '杨', '赵', '黄', '周', '吴',
-      '徐', '孙', '胡', '朱', '高', '林', '何', '郭', '马', '罗',
-      '梁', '宋', '郑', '谢', '韩', '唐', '冯', '于', '董', '萧'
-    ];
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
 
-    const generatedNames = new Set<string>();
-    const names: NameData[] = [];
-    const nameCount = user ? 6 : 3; // Free users get 3 names, authenticated users get 6
+// Client IP for anonymous rate limiting and idempotency keys
+function getClientIp(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for');
+  const realIp = request.headers.get('x-real-ip');
+  return forwarded ? forwarded.split(',')[0].trim() : realIp || '127.0.0.1';
+}
 
-    // Generate names
-    console.log('Starting name generation loop:', { nameCount, user: !!user });
-    for (let i = 0; i < nameCount; i++) {
-      try {
-        const randomSurname = commonSurnames[Math.floor(Math.random() * commonSurnames.length)];
-        const randomSeed = Date.now() + Math.random() * 10000 + i * 1000;
-        const uniquePromptId = Math.random().toString(36).substring(2, 15);
-
-        // Build personalization info
-        let personalInfo = `English Name: ${englishName}`;
-        if (birthYear) personalInfo += `\nBirth Year: ${birthYear}`;
-        if (personalityTraits && user) personalInfo += `\nPersonality Traits: ${personalityTraits}`;
-        if (namePreferences && user) personalInfo += `\nName Preferences: ${namePreferences}`;
-
-        const existingNamesString = generatedNames.size > 0 
-          ? `\n\nEXISTING NAMES TO AVOID:\n${Array.from(generatedNames).join(', ')}\n- DO NOT generate any of these names\n- Ensure complete uniqueness from existing names`
-          : '';
-
-        const prompt = `Generate a Chinese name as JSON only. No text before or after the JSON.
-
-Input Requirements:
-- ${personalInfo}
-- Gender: ${gender}
-- Generation Type: ${planType === '1' ? 'Standard' : 'Premium'}
-- Surname: Use "${randomSurname}" as the surname
-- Seed: ${randomSeed}
-- UniqueID: ${uniquePromptId}
-- Position: ${i + 1} of ${nameCount}${existingNamesString}
-
-UNIQUENESS REQUIREMENTS (CRITICAL):
-- This name must be 100% unique and different from any existing names
-- No duplicate names allowed in this generation batch
-- Each name must have distinct character combinations
-- Generate completely different names even if same gender
-
-${planType === '4' && user ? `
-PREMIUM REQUIREMENTS:
-- Deep analysis of personality traits and preferences
-- Highly personalized character selection
-- Advanced cultural matching
-- Sophisticated meaning alignment
-` : `
-STANDARD REQUIREMENTS:
-- Basic personality matching
-- Good cultural appropriateness
-- Meaningful character selection
-`}
-
-CREATIVITY REQUIREMENTS:
-- Use uncommon but beautiful Chinese characters
-- Avoid typical combinations like 雨晴, 志明, 雅文, 建华, 小明, 美丽, 伟强 etc.
-- Be innovative with character selection
-- Consider rare but meaningful characters from different radical families
-- Create unique phonetic combinations
-- Use characters from different categories (nature, virtues, colors, elements, etc.)
-
-Output only this JSON structure:
-{
-  "chinese": "姓名",
-  "pinyin": "Xìngmíng", 
-  "characters": [
-    {
-      "character": "姓",
-      "pinyin": "Xìng",
-      "meaning": "Surname meaning",
-      "explanation": "Brief explanation"
-    },
-    {
-      "character": "名",
-      "pinyin": "míng", 
-      "meaning": "Given name meaning",
-      "explanation": "Brief explanation"
-    }
-  ],
-  "meaning": "Overall name meaning",
-  "culturalNotes": "Cultural significance",
-  "personalityMatch": "Why this name suits the person's traits and preferences",
-  "style": "${planType === '4' ? 'Premium' : 'Standard'}"
+// `?async=1` runs the generation as a job that the client polls
+function wantsAsyncJob(request: NextRequest): boolean {
+  return new URL(request.url).searchParams.get('async') === '1';
 }
 
-Requirements:
-- Generate ABSOLUTELY UNIQUE personalized name
-- ${gender} appropriate 
-- Must be creative, original, and distinct
-- Zero tolerance for duplicates
-- JSON only, no other text`;
-
-        const completion = await openai.chat.completions.create({
-          model: "google/gemini-2.5-flash",
-          messages: [
-            {
-              role: "system",
-              content: `You are a Chinese naming expert specializing in ${planType === '4' ? 'premium personalized' : 'standard personalized'} name generation. IMPORTANT: Respond with ONLY valid JSON. No explanations, no markdown, no extra text. Start with { and end with }. Generate creative and unique Chinese names based on personal information.`
-            },
-            {
-              role: "user",
-              content: prompt
-            }
-          ],
-          temperature: planType === '4' ? 0.9 : 0.8,
-          max_tokens: 1200,
-          top_p: planType === '4' ? 0.95 : 0.9,
-        });
+/**
+ * Rate limiting, credit reservation, generation and saving; runs once per idempotency key
+ */
+async function runGeneration(
+  request: NextRequest,
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  user: { id: string } | null,
+  body: GenerateNameRequest,
+  baziAnalysis: BaziAnalysis | undefined,
+  idempotency: IdempotencyHandle | null
+): Promise<Response> {
+  const { englishName, gender, personalityTraits, namePreferences, planType, generationMode, surnameStrategy, surname, familyName, constraints, outputLanguage, family, brand } = body;
+  const birthYear = body.birthYear || body.birthDate?.slice(0, 4);
+
+  // Failing providers shed anonymous traffic; spend caps, open circuit breakers and (for
+  // anonymous users) a missing model configuration switch to zero-cost corpus names
+  const access = await getLLMAccess(!!user, planType);
+
+  if (access.mode === 'shed' || (access.mode === 'offline' && brand)) {
+    const retryAfterSeconds = access.mode === 'shed' ? access.retryAfterSeconds : 60;
+    const unavailableError = ErrorHandler.createError(
+      ErrorType.EXTERNAL_SERVICE,
+      'Name generation is busy right now. Please try again in a few minutes.',
+      `LLM access ${access.mode === 'shed' ? 'shed' : access.reason} for plan ${planType}${brand ? ' (brand mode has no offline names)' : ''}`,
+      {
+        code: 'LLM_UNAVAILABLE',
+        retryable: true,
+        suggestions: ['Wait a few minutes before trying again', ...(user ? [] : ['Sign in to keep generating while demand is high'])],
+      }
+    );
+    return NextResponse.json(ErrorHandler.toErrorResponse(unavailableError), {
+      status: 503,
+      headers: { 'Retry-After': String(retryAfterSeconds) },
+    });
+  }
 
-        const responseContent = completion.choices[0].message.content;
-        
-        if (!responseContent) {
-          throw new Error('No response from AI');
-        }
+  const offline = access.mode === 'offline';
 
-        // Parse the JSON response
-        let generatedName: NameData;
-        try {
-          // Clean and extract JSON
-          let cleanedResponse = responseContent.trim();
-          
-          const jsonStartIndex = cleanedResponse.indexOf('{');
-          const jsonEndIndex = cleanedResponse.lastIndexOf('}');
-
-          if (jsonStartIndex !== -1 && jsonEndIndex !== -1 && jsonEndIndex > jsonStartIndex) {
-            cleanedResponse = cleanedResponse.substring(jsonStartIndex, jsonEndIndex + 1);
-          } else {
-            const jsonMatch = cleanedResponse.match(/\{[\s\S]*?\}/);
-            if (jsonMatch) {
-              cleanedResponse = jsonMatch[0];
-            } else {
-              throw new Error('No valid JSON object found in AI response');
-            }
-          }
-          
-          generatedName = JSON.parse(cleanedResponse);
-          
-          // Validate required fields
-          if (!generatedName.chinese || !generatedName.pinyin || !generatedName.characters) {
-            throw new Error('Missing required fields in AI response');
-          }
-          
-          // Ensure style field is set correctly
-          generatedName.style = planType === '4' ? 'Premium' : 'Standard';
-
-          // Check for duplicates
-          if (generatedNames.has(generatedName.chinese)) {
-            console.log(`Duplicate name detected: ${generatedName.chinese}, generating fallback...`);
-            generatedName = generateFallbackName(i, randomSurname, gender, planType);
-          }
+  // Resolve the provider chain and prompt version configured for this plan type
+  const provider = offline ? CORPUS_PROVIDER : getProviderForPlan(planType);
+  const promptTemplate = offline ? PROMPT_TEMPLATES[DEFAULT_PROMPT_VERSION] : getPromptTemplateForPlan(planType);
 
-          // Add to generated names set
-          generatedNames.add(generatedName.chinese);
-          
-        } catch (parseError) {
-          console.error(`Failed to parse AI response for name ${i + 1}:`, parseError);
-          // Generate fallback name
-          generatedName = generateFallbackName(i, randomSurname, gender, planType);
-          generatedNames.add(generatedName.chinese);
-        }
+  // For non-authenticated users, check IP rate limiting
+  if (!user) {
+    const clientIp = getClientIp(request);
+    const forwarded = request.headers.get('x-forwarded-for');
+    const realIp = request.headers.get('x-real-ip');
+
+    if (process.env.NODE_ENV === 'development') {
+      console.log('Free generation attempt:', {
+        forwarded,
+        realIp,
+        clientIp,
+      });
+    }
 
-        names.push(generatedName);
+    // Check IP rate limit using Supabase function
+    const { data: canGenerate, error: rateLimitError } = await supabase
+      .rpc('check_ip_rate_limit', { p_client_ip: clientIp });
 
-      } catch (error) {
-        console.error(`Error generating name ${i + 1}:`, error);
-        // Generate fallback name
-        const fallbackName = generateFallbackName(i, commonSurnames[i % commonSurnames.length], gender, planType);
-        generatedNames.add(fallbackName.chinese);
-        names.push(fallbackName);
-      }
+    if (process.env.NODE_ENV === 'development') {
+      console.log('Rate limit check result:', { canGenerate, rateLimitError });
     }
 
-    // Save generation batch and names to database for authenticated users
-    let resultBatchId: string | null = null;
-    let currentGenerationRound = 1;
-    let batch: any = null;
-    
-    if (user) {
-      try {
-        if (continueBatch && batchId) {
-          // CONTINUE EXISTING BATCH MODE
-          console.log('Continuing existing batch:', batchId);
-          
-          // Verify batch exists and belongs to user
-          const { data: existingBatch, error: fetchBatchError } = await supabase
-            .from('generation_batches')
-            .select('*')
-            .eq('id', batchId)
-            .eq('user_id', user.id)
-            .single();
-
-          if (fetchBatchError || !existingBatch) {
-            console.error('Failed to find existing batch:', fetchBatchError);
-            return NextResponse.json(
-              { error: 'Invalid batch ID or batch not found' },
-              { status: 400 }
-            );
+    if (rateLimitError) {
+      console.error('Rate limit check error:', rateLimitError);
+      const errorResponse = ErrorHandler.toErrorResponse(
+        ErrorHandler.createError(
+          ErrorType.RATE_LIMIT,
+          'Unable to verify usage limit. Please try again.',
+          rateLimitError.message,
+          {
+            code: 'RATE_LIMIT_CHECK_FAILED',
+            retryable: true,
+            suggestions: ['Refresh the page and try again', 'Wait a moment before trying again'],
           }
+        )
+      );
+      return NextResponse.json(errorResponse, { status: 500 });
+    }
+
+    if (!canGenerate) {
+      const rateLimitError = ErrorHandler.rateLimitError(3, 'day');
+      const errorResponse = ErrorHandler.toErrorResponse(rateLimitError);
+      return NextResponse.json(errorResponse, { status: 429 });
+    }
+  }
 
-          batch = existingBatch;
-          resultBatchId = batch.id;
+  // Names already in a continued batch (and saved names, on request) must not come back
+  const existingNames = user && ((body.continueBatch && body.batchId) || body.avoidSavedNames)
+    ? await loadExistingNames(supabase, user.id, body.continueBatch ? body.batchId : undefined, !!body.avoidSavedNames)
+    : [];
+
+  // Credits are reserved up front, committed (less the share of fallback names) once the
+  // names are saved, and released in full if the request fails before that
+  let reservationId: string | null = null;
+
+  // Family generations cost more, as they produce a name per sibling in every set
+  const creditCost = family ? getFamilyCreditCost(planType, family) : parseInt(planType);
+
+  // Offline names are free, so nothing is reserved
+  if (user && !offline) {
+
+    const { data: customer, error: fetchError } = await supabase
+      .from('customers')
+      .select('id')
+      .eq('user_id', user.id)
+      .single();
+
+    if (fetchError && fetchError.code !== 'PGRST116') { // PGRST116 = no customer row
+      console.error('Error fetching customer:', fetchError);
+      const errorResponse = ErrorHandler.toErrorResponse(
+        ErrorHandler.createError(
+          ErrorType.DATABASE,
+          'Unable to verify your credits. Please try again.',
+          fetchError.message,
+          { code: 'CREDIT_CHECK_FAILED', retryable: true }
+        )
+      );
+      return NextResponse.json(errorResponse, { status: 500 });
+    }
 
-          // Get the highest generation_round for this batch
-          const { data: maxRoundData, error: maxRoundError } = await supabase
-            .from('generated_names')
-            .select('generation_round')
-            .eq('batch_id', batchId)
-            .order('generation_round', { ascending: false })
-            .limit(1)
-            .single();
+    if (customer) {
+      reservationId = await reserveCredits(customer.id, creditCost, 'chinese_name_generation', { plan_type: planType, family_members: family?.members.length, brand: brand?.englishBrandName });
+    }
 
-          if (maxRoundError && maxRoundError.code !== 'PGRST116') { // PGRST116 = no rows found
-            console.error('Failed to get max generation round:', maxRoundError);
-          }
+    if (!reservationId) {
+      console.error('Insufficient credits:', { hasCustomer: !!customer, creditCost });
+      return NextResponse.json(
+        { error: 'Insufficient credits. Please purchase more credits.' },
+        { status: 403 }
+      );
+    }
+  }
 
-          currentGenerationRound = (maxRoundData?.generation_round || 0) + 1;
-          console.log('Next generation round:', currentGenerationRound);
-
-          // Update batch with new totals
-          const newNamesCount = (batch.names_count || 0) + names.length;
-          const newCreditsUsed = (batch.credits_used || 0) + parseInt(planType);
-          
-          const { error: updateBatchError } = await supabase
-            .from('generation_batches')
-            .update({
-              names_count: newNamesCount,
-              credits_used: newCreditsUsed,
-              updated_at: new Date().toISOString()
-            })
-            .eq('id', batchId);
-
-          if (updateBatchError) {
-            console.error('Failed to update batch totals:', updateBatchError);
-          } else {
-            // Update the batch object with new totals for the response
-            batch.names_count = newNamesCount;
-            batch.credits_used = newCreditsUsed;
-          }
+  const nameCount = brand ? BRAND_NAME_COUNT : family ? getFamilyNameCount(family) : user ? 6 : 3; // Free users get 3 names, authenticated users get 6
+  // Names the homophone filter turned down, kept in the batch metadata
+  const rejections: NameRejection[] = [];
+  let duplicatesAvoided = 0;
+  let namesDropped = 0;
+  // Tokens, latency and cost of every model call, stored with the generation
+  const usage = createUsageTracker();
+  const generationOptions = {
+    provider,
+    promptTemplate,
+    englishName,
+    gender,
+    birthYear,
+    personalityTraits,
+    namePreferences,
+    planType,
+    generationMode,
+    surnameStrategy,
+    surname,
+    familyName,
+    constraints,
+    baziAnalysis,
+    isAuthenticated: !!user,
+    nameCount,
+    existingNames,
+    offline,
+    outputLanguage,
+    usage,
+    onRejected: (rejection: NameRejection) => rejections.push(rejection),
+    onDuplicate: () => { duplicatesAvoided++; },
+    onDropped: () => { namesDropped++; },
+  };
+  const generate = (options: GenerateNamesOptions) =>
+    brand ? generateBrandNames({ ...options, brand })
+      : family ? generateFamilyNames({ ...options, family })
+        : generateNames(options);
+
+  // Async mode: answer with a job right away and generate after the response is sent,
+  // recording each name on the job so the client can poll for partial results
+  if (wantsAsyncJob(request)) {
+    let job: GenerationJob;
+    try {
+      job = await createGenerationJob(user?.id ?? null, body, nameCount, reservationId);
+    } catch (error) {
+      await releaseReservation(reservationId, 'job_create_failed');
+      throw error;
+    }
 
-        } else {
-          // CREATE NEW BATCH MODE
-          console.log('Creating new batch');
-          
-          const { data: newBatch, error: batchError } = await supabase
-            .from('generation_batches')
-            .insert({
-              user_id: user.id,
-              english_name: englishName,
-              gender: gender,
-              birth_year: birthYear,
-              personality_traits: personalityTraits,
-              name_preferences: namePreferences,
-              plan_type: planType,
-              credits_used: parseInt(planType),
-              names_count: names.length,
-              generation_metadata: {
-                generation_timestamp: new Date().toISOString(),
-                ai_model: "google/gemini-2.5-flash",
-                temperature: planType === '4' ? 0.9 : 0.8
-              }
-            })
-            .select()
-            .single();
-
-          if (batchError) {
-            console.error('Failed to create batch:', batchError);
-          } else {
-            batch = newBatch;
-            resultBatchId = batch.id;
-            currentGenerationRound = 1;
-          }
-        }
+    after(async () => {
+      const progress: NameData[] = [];
+      let saved: GenerateNameResponse | null = null;
 
-        // Save individual names with generation_round
-        if (resultBatchId) {
-          const namesToInsert = names.map((name, index) => ({
-            batch_id: resultBatchId,
-            chinese_name: name.chinese,
-            pinyin: name.pinyin,
-            characters: name.characters,
-            meaning: name.meaning,
-            cultural_notes: name.culturalNotes,
-            personality_match: name.personalityMatch,
-            style: name.style,
-            position_in_batch: index,
-            generation_round: currentGenerationRound
-          }));
-
-          console.log('About to insert names:', {
-            batchId: resultBatchId,
-            round: currentGenerationRound,
-            count: namesToInsert.length,
-            firstNameSample: namesToInsert[0]
-          });
+      try {
+        const names = await generate({
+          ...generationOptions,
+          onName: async (name, index) => {
+            progress[index] = name;
+            try {
+              await updateGenerationJobNames(job.id, progress.filter(Boolean));
+            } catch (error) {
+              // Progress is best effort; the final names are written on completion
+              console.error('Failed to record job progress:', { jobId: job.id, error });
+            }
+          },
+        });
 
-          const { error: namesError } = await supabase
-            .from('generated_names')
-            .insert(namesToInsert);
+        // Heartbeat around the save so a slow write is not mistaken for a stall;
+        // a job already failed as stalled has had its reservation released
+        if (!await updateGenerationJobNames(job.id, names)) {
+          console.error('Generation job stopped running before its names were saved:', { jobId: job.id });
+          await idempotency?.abandon();
+          return;
+        }
 
-          if (namesError) {
-            console.error('Failed to save generated names:', namesError);
-          } else {
-            console.log(`Successfully saved ${names.length} names to batch ${resultBatchId}, round ${currentGenerationRound}`);
-          }
+        const billing = getGenerationBilling(creditCost, names, !!reservationId, nameCount);
+        const outcome = await saveGeneration(supabase, user, body, names, provider, promptTemplate, billing, rejections, duplicatesAvoided, namesDropped, usage);
+        if (!outcome.ok) {
+          await releaseReservation(reservationId, 'save_failed');
+          await idempotency?.abandon();
+          await failGenerationJob(job.id, outcome.body);
+          return;
         }
+        await updateGenerationJobNames(job.id, names);
 
-        // Also log to the existing analytics table
-        await supabase
-          .from('name_generation_logs')
-          .insert({
-            user_id: user.id,
-            plan_type: planType,
-            credits_used: parseInt(planType),
-            names_generated: names.length,
-            english_name: englishName,
-            gender: gender,
-            birth_year: birthYear,
-            has_personality_traits: !!(personalityTraits && user),
-            has_name_preferences: !!(namePreferences && user),
-            metadata: {
-              generation_details: {
-                name_count: names.length,
-                generation_timestamp: new Date().toISOString(),
-                batch_id: resultBatchId,
-                generation_round: currentGenerationRound,
-                is_continuation: continueBatch || false
-              }
-            }
+        if (!await commitReservation(reservationId, names, billing)) {
+          await idempotency?.abandon();
+          await failGenerationJob(job.id, {
+            error: 'Name generation could not be billed. Please try again.',
+            code: 'JOB_FAILED',
           });
+          return;
+        }
+
+        saved = outcome.response;
+        const { names: savedNames, ...result } = outcome.response;
+        if (!await completeGenerationJob(job.id, savedNames, result)) {
+          console.error('Generation job stopped running before it completed:', { jobId: job.id });
+        }
       } catch (error) {
-        console.error('Failed to save generation batch:', error);
+        console.error('Generation job failed:', { jobId: job.id, error });
+        await releaseReservation(reservationId, 'generation_failed');
+        await idempotency?.abandon();
+        await failGenerationJob(job.id, {
+          error: 'Name generation failed. Please try again.',
+          code: 'JOB_FAILED',
+        }).catch(jobError => console.error('Failed to mark generation job as failed:', jobError));
+      } finally {
+        await recordGenerationUsage(user, planType, usage, saved);
       }
-    }
-
-    return NextResponse.json({ 
-      names,
-      total: names.length,
-      planType,
-      creditsUsed: user ? parseInt(planType) : 0,
-      batchId: resultBatchId,
-      generationRound: currentGenerationRound,
-      isContinuation: continueBatch || false,
-      batch: batch ? {
-        id: batch.id,
-        englishName: batch.english_name,
-        gender: batch.gender,
-        planType: batch.plan_type,
-        totalNamesGenerated: batch.names_count,
-        totalCreditsUsed: batch.credits_used,
-        createdAt: batch.created_at
-      } : null,
-      message: continueBatch 
-        ? `Generated ${names.length} more names for your batch (Round ${currentGenerationRound})!`
-        : `Generated ${names.length} unique Chinese names successfully!`
     });
 
-  } catch (error) {
-    const appError = ErrorHandler.handleError(error, 'name generation');
-    const errorResponse = ErrorHandler.toErrorResponse(appError, crypto.randomUUID());
+    return NextResponse.json(job, { status: 202 });
+  }
 
-    // Log error for debugging
-    console.error('Name generation error:', {
-      type: appError.type,
-      message: appError.message,
-      userMessage: appError.userMessage,
-      timestamp: new Date().toISOString(),
+  // Streaming mode: emit each name as soon as it is parsed, then a final summary event
+  if (wantsEventStream(request)) {
+    const stream = createEventStream(async (send) => {
+      send({ type: 'start', expected: nameCount });
+      let saved: GenerateNameResponse | null = null;
+
+      try {
+        const names = await generate({
+          ...generationOptions,
+          onName: (name, index) => send({ type: 'name', index, name }),
+        });
+
+        const billing = getGenerationBilling(creditCost, names, !!reservationId, nameCount);
+        const outcome = await saveGeneration(supabase, user, body, names, provider, promptTemplate, billing, rejections, duplicatesAvoided, namesDropped, usage);
+        if (!outcome.ok) {
+          await releaseReservation(reservationId, 'save_failed');
+          await idempotency?.abandon();
+          send({ type: 'error', error: outcome.body });
+          return;
+        }
+
+        await commitReservation(reservationId, names, billing);
+        saved = outcome.response;
+        await idempotency?.complete(outcome.response);
+        const { names: _names, ...result } = outcome.response;
+        send({ type: 'done', result });
+      } catch (error) {
+        await releaseReservation(reservationId, 'generation_failed');
+        await idempotency?.abandon();
+        throw error;
+      } finally {
+        await recordGenerationUsage(user, planType, usage, saved);
+      }
     });
 
-    return NextResponse.json(errorResponse, { status: 500 });
+    return new Response(stream, { headers: SSE_HEADERS });
   }
-}
 
-// Helper function to generate fallback names
-function generateFallbackName(index: number, surname: string, gender: string, planType: string): NameData {
-  const fallbackGivenNames = {
-    male: ['志明', '建华', '伟强', '俊杰', '文昊', '雅昆'],
-    female: ['雅文', '美丽', '慧敏', '雨晴', '诗涵', '婉如'],
-    other: ['明智', '美好', '和谐', '光明', '希望', '未来']
-  };
+  let saved: GenerateNameResponse | null = null;
+  try {
+    const names = await generate(generationOptions);
+    const billing = getGenerationBilling(creditCost, names, !!reservationId, nameCount);
+    const outcome = await saveGeneration(supabase, user, body, names, provider, promptTemplate, billing, rejections, duplicatesAvoided, namesDropped, usage);
 
-  const genderKey = gender === 'male' ? 'male' : gender === 'female' ? 'female' : 'other';
-  const givenNames = fallbackGivenNames[genderKey];
-  const selectedGivenName = givenNames[index % givenNames.length];
-
-  const surnameMap: { [key: string]: string } = {
-    '王': 'Wáng', '李': 'Lǐ', '张': 'Zhāng', '刘': 'Liú', '陈': 'Chén',
-    '杨': 'Yáng', '赵': 'Zhào', '黄': 'Huáng', '周': 'Zhōu', '吴': 'Wú',
-    '徐': 'Xú', '孙': 'Sūn', '胡': 'Hú', '朱': 'Zhū', '高': 'Gāo',
-    '林': 'Lín', '何': 'Hé', '郭': 'Guō', '马': 'Mǎ', '罗': 'Luó',
-    '梁': 'Liáng', '宋': 'Sòng', '郑': 'Zhèng', '谢': 'Xiè', '韩': 'Hán',
-    '唐': 'Táng', '冯': 'Féng', '于': 'Yú', '董': 'Dǒng', '萧': 'Xiāo'
-  };
+    if (!outcome.ok) {
+      await releaseReservation(reservationId, 'save_failed');
+      return NextResponse.json(outcome.body, { status: outcome.status });
+    }
 
-  const givenPinyinMap: { [key: string]: string } = {
-    '志明': 'Zhìmíng', '建华': 'Jiànhuá', '伟强': 'Wěiqiáng',
-    '雅文': 'Yǎwén', '美丽': 'Měilì', '慧敏': 'Huìmǐn',
-    '明智': 'Míngzhì', '美好': 'Měihǎo', '和谐': 'Héxié'
-  };
+    await commitReservation(reservationId, names, billing);
+    saved = outcome.response;
+    return NextResponse.json(outcome.response);
+  } catch (error) {
+    await releaseReservation(reservationId, 'generation_failed');
+    throw error;
+  } finally {
+    await recordGenerationUsage(user, planType, usage, saved);
+  }
+}
 
-  const chinese = `${surname}${selectedGivenName}`;
-  const surnameChar = surname;
-  const givenChar1 = selectedGivenName[0];
-  const givenChar2 = selectedGivenName[1] || '';
+/**
+ * Replay a stored generation, as an event stream when the client asked for one
+ */
+function replayGeneration(request: NextRequest, stored: StoredResponse): Response {
+  if (!wantsEventStream(request) || stored.encoding !== 'json') {
+    return replayStoredResponse(stored);
+  }
 
-  return {
-    chinese,
-    pinyin: `${surnameMap[surname] || 'Wáng'} ${givenPinyinMap[selectedGivenName] || 'Míng'}`,
-    characters: [
-      {
-        character: surnameChar,
-        pinyin: surnameMap[surname] || 'Wáng',
-        meaning: "Family surname",
-        explanation: "A traditional Chinese family name with historical significance."
-      },
-      {
-        character: givenChar1,
-        pinyin: givenChar1 === '志' ? 'Zhì' : givenChar1 === '美' ? 'Měi' : 'Míng',
-        meaning: givenChar1 === '志' ? 'Ambition' : givenChar1 === '美' ? 'Beautiful' : 'Bright',
-        explanation: `Represents ${givenChar1 === '志' ? 'ambition and determination' : givenChar1 === '美' ? 'beauty and goodness' : 'brightness and wisdom'}`
-      },
-      ...(givenChar2 ? [{
-        character: givenChar2,
-        pinyin: givenChar2 === '明' ? 'Míng' : givenChar2 === '丽' ? 'Lì' : 'Hǎo',
-        meaning: givenChar2 === '明' ? 'Bright' : givenChar2 === '丽' ? 'Beautiful' : 'Good',
-        explanation: `Symbolizes ${givenChar2 === '明' ? 'intelligence and clarity' : givenChar2 === '丽' ? 'beauty and grace' : 'virtue and excellence'}`
-      }] : [])
-    ],
-    meaning: `A ${planType === '4' ? 'premium' : 'standard'} Chinese name with positive meanings and cultural significance`,
-    culturalNotes: `Traditional Chinese name reflecting ${gender} characteristics with auspicious meanings`,
-    personalityMatch: `This fallback name maintains cultural appropriateness and positive connotations suitable for the specified preferences`,
-    style: planType === '4' ? 'Premium' : 'Standard'
-  };
+  const response = stored.body as GenerateNameResponse;
+  const stream = createEventStream(async (send) => {
+    send({ type: 'start', expected: response.names.length });
+    response.names.forEach((name, index) => send({ type: 'name', index, name }));
+    const { names: _names, ...result } = response;
+    send({ type: 'done', result });
+  });
+
+  return new Response(stream, { headers: { ...SSE_HEADERS, [IDEMPOTENCY_REPLAYED_HEADER]: 'true' } });
 }
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { getGenerationJob } from '@/utils/supabase/generation-jobs';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Poll an async generation job: names generated so far, then the final result
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { id: jobId } = await context.params;
+    const job = UUID_PATTERN.test(jobId) ? await getGenerationJob(jobId, user?.id ?? null) : null;
+
+    if (!job) {
+      return NextResponse.json({ error: 'Generation job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(job, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('Generation job API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load generation job' },
+      { status: 500 }
+    );
+  }
+}
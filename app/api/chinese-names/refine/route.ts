@@ -0,0 +1,247 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import ErrorHandler, { ErrorType } from '@/utils/error-handler';
+import { generateNames } from '@/utils/chinese-names/generator';
+import { getProviderForPlan } from '@/utils/llm/providers';
+import { getPromptTemplateForPlan } from '@/utils/chinese-names/prompts';
+import { getLLMAccess } from '@/utils/chinese-names/llm-access';
+import { findNameSurname } from '@/utils/chinese-names/surnames';
+import { planRefinement, REFINE_CREDIT_COST, REFINE_VARIANT_COUNT } from '@/utils/chinese-names/refine';
+import { refineNameInputSchema, formatSchemaIssues } from '@/utils/chinese-names/schema';
+import { screenGenerationRequest, toScreeningError } from '@/utils/chinese-names/input-screening';
+import { reserveCredits } from '@/utils/supabase/subscriptions';
+import { commitReservation, getGenerationBilling, releaseReservation } from '@/utils/chinese-names/billing';
+import { loadExistingNames, recordGenerationUsage, saveGeneration } from '@/utils/chinese-names/batches';
+import { createUsageTracker } from '@/utils/llm/usage';
+import { withIdempotency } from '@/utils/idempotency';
+import type { NameRejection } from '@/utils/chinese-names/homophone-filter';
+import type { GenerateNameRequest, GenerateNameResponse, NameData } from '@/types/chinese-names';
+
+/**
+ * Variants of a generated name ("more like this"), added to the name's batch as a new round
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = refineNameInputSchema.safeParse(body);
+
+    if (!parsed.success) {
+      const validationError = ErrorHandler.validationError(
+        'Please check your refinement options.',
+        { issues: formatSchemaIssues(parsed.error) }
+      );
+      return NextResponse.json(ErrorHandler.toErrorResponse(validationError), { status: 400 });
+    }
+
+    const { nameId, ...options } = parsed.data;
+
+    // The name must belong to one of the user's batches
+    const { data: row, error: fetchError } = await supabase
+      .from('generated_names')
+      .select('*, generation_batches!inner(*)')
+      .eq('id', nameId)
+      .eq('generation_batches.user_id', user.id)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Failed to fetch name for refinement:', fetchError);
+      return NextResponse.json({ error: 'Failed to fetch name' }, { status: 500 });
+    }
+
+    if (!row) {
+      return NextResponse.json({ error: 'Name not found' }, { status: 404 });
+    }
+
+    const batch = row.generation_batches;
+    const original: NameData = {
+      id: row.id,
+      chinese: row.chinese_name,
+      pinyin: row.pinyin,
+      characters: row.characters || [],
+      meaning: row.meaning || '',
+      culturalNotes: row.cultural_notes || '',
+      personalityMatch: row.personality_match || '',
+      style: row.style || 'Standard',
+    };
+
+    // Brand names have no surname and are generated from the brand brief instead
+    if (batch.generation_metadata?.brand) {
+      const validationError = ErrorHandler.validationError(
+        'Business names cannot be refined. Generate more names from your brand brief instead.',
+        { nameId }
+      );
+      return NextResponse.json(ErrorHandler.toErrorResponse(validationError), { status: 400 });
+    }
+
+    const surname = findNameSurname(original.chinese);
+    if (!surname) {
+      const validationError = ErrorHandler.validationError(
+        'This name cannot be refined because its surname is not in our surname list.',
+        { chinese: original.chinese }
+      );
+      return NextResponse.json(ErrorHandler.toErrorResponse(validationError), { status: 400 });
+    }
+
+    const plan = planRefinement(original, surname.readings.length, options, batch.generation_metadata?.name_constraints ?? undefined);
+    if (!plan.ok) {
+      const validationError = ErrorHandler.validationError(plan.error, { nameId, ...options });
+      return NextResponse.json(ErrorHandler.toErrorResponse(validationError), { status: 400 });
+    }
+
+    // The variants join the original's batch as a new round, with its settings
+    const storedRequest: GenerateNameRequest = {
+      englishName: batch.english_name,
+      gender: batch.gender,
+      birthYear: batch.birth_year ?? undefined,
+      personalityTraits: batch.personality_traits ?? undefined,
+      namePreferences: batch.name_preferences ?? undefined,
+      planType: batch.plan_type,
+      generationMode: batch.generation_metadata?.generation_mode ?? undefined,
+      outputLanguage: batch.generation_metadata?.output_language ?? undefined,
+      surnameStrategy: 'fixed',
+      surname: surname.surname,
+      constraints: plan.constraints,
+      continueBatch: true,
+      batchId: batch.id,
+    };
+
+    // The batch's text goes back into the prompt, and batches from before input screening were never screened
+    const screening = screenGenerationRequest(storedRequest);
+    if (!screening.ok) {
+      console.warn('Stored batch input rejected for refinement:', { batchId: batch.id, rejection: screening.rejection });
+      return NextResponse.json(ErrorHandler.toErrorResponse(toScreeningError(screening.rejection)), { status: 400 });
+    }
+    const generationRequest = screening.body;
+
+    // Variants need the model: refuse rather than charge while it is capped or failing
+    const access = await getLLMAccess(true, generationRequest.planType);
+    if (access.mode !== 'llm') {
+      const unavailableError = ErrorHandler.createError(
+        ErrorType.EXTERNAL_SERVICE,
+        'Refining names is unavailable right now. Please try again in a few minutes.',
+        `LLM access ${access.mode === 'shed' ? 'shed' : access.reason} for plan ${generationRequest.planType}`,
+        { code: 'LLM_UNAVAILABLE', retryable: true, suggestions: ['Wait a few minutes before trying again'] }
+      );
+      return NextResponse.json(ErrorHandler.toErrorResponse(unavailableError), {
+        status: 503,
+        headers: { 'Retry-After': '60' },
+      });
+    }
+
+    // A repeated Idempotency-Key replays the first variants instead of charging again
+    return await withIdempotency(
+      request,
+      { scope: 'chinese_names_refine', owner: user.id, fingerprint: parsed.data },
+      async () => {
+        const { data: customer, error: customerError } = await supabase
+          .from('customers')
+          .select('id')
+          .eq('user_id', user.id)
+          .single();
+
+        if (customerError && customerError.code !== 'PGRST116') { // PGRST116 = no customer row
+          console.error('Error fetching customer:', customerError);
+          const errorResponse = ErrorHandler.toErrorResponse(
+            ErrorHandler.createError(
+              ErrorType.DATABASE,
+              'Unable to verify your credits. Please try again.',
+              customerError.message,
+              { code: 'CREDIT_CHECK_FAILED', retryable: true }
+            )
+          );
+          return NextResponse.json(errorResponse, { status: 500 });
+        }
+
+        const reservationId = customer
+          ? await reserveCredits(customer.id, REFINE_CREDIT_COST, 'chinese_name_refinement', { name_id: nameId, batch_id: batch.id })
+          : null;
+
+        if (!reservationId) {
+          return NextResponse.json(
+            { error: 'Insufficient credits. Please purchase more credits.' },
+            { status: 403 }
+          );
+        }
+
+        const provider = getProviderForPlan(generationRequest.planType);
+        const promptTemplate = getPromptTemplateForPlan(generationRequest.planType);
+        const rejections: NameRejection[] = [];
+        let duplicatesAvoided = 0;
+        let namesDropped = 0;
+        const usage = createUsageTracker();
+        let saved: GenerateNameResponse | null = null;
+
+        try {
+          // Variants must not repeat any name from earlier rounds of the batch
+          const existingNames = await loadExistingNames(supabase, user.id, batch.id, false);
+
+          const names = await generateNames({
+            provider,
+            promptTemplate,
+            englishName: generationRequest.englishName,
+            gender: generationRequest.gender,
+            birthYear: generationRequest.birthYear,
+            personalityTraits: generationRequest.personalityTraits,
+            namePreferences: generationRequest.namePreferences,
+            planType: generationRequest.planType,
+            generationMode: generationRequest.generationMode,
+            outputLanguage: generationRequest.outputLanguage,
+            surnameStrategy: 'fixed',
+            surname: surname.surname,
+            constraints: plan.constraints,
+            baziAnalysis: batch.generation_metadata?.bazi_analysis ?? undefined,
+            refinement: plan.refinement,
+            isAuthenticated: true,
+            nameCount: REFINE_VARIANT_COUNT,
+            existingNames,
+            usage,
+            onRejected: (rejection: NameRejection) => rejections.push(rejection),
+            onDuplicate: () => { duplicatesAvoided++; },
+            onDropped: () => { namesDropped++; },
+          });
+
+          const billing = getGenerationBilling(REFINE_CREDIT_COST, names, true, REFINE_VARIANT_COUNT);
+          const outcome = await saveGeneration(supabase, user, generationRequest, names, provider, promptTemplate, billing, rejections, duplicatesAvoided, namesDropped, usage);
+
+          if (!outcome.ok) {
+            await releaseReservation(reservationId, 'save_failed');
+            return NextResponse.json(outcome.body, { status: outcome.status });
+          }
+
+          await commitReservation(reservationId, names, billing);
+          saved = outcome.response;
+          return NextResponse.json({
+            ...outcome.response,
+            message: `Generated ${names.length} variants of ${original.chinese} (Round ${outcome.response.generationRound})!`,
+          });
+        } catch (error) {
+          await releaseReservation(reservationId, 'generation_failed');
+          throw error;
+        } finally {
+          await recordGenerationUsage(user, generationRequest.planType, usage, saved);
+        }
+      }
+    );
+
+  } catch (error) {
+    const appError = ErrorHandler.handleError(error, 'name refinement');
+    const errorResponse = ErrorHandler.toErrorResponse(appError, crypto.randomUUID());
+
+    console.error('Name refinement error:', {
+      type: appError.type,
+      message: appError.message,
+      userMessage: appError.userMessage,
+      timestamp: new Date().toISOString(),
+    });
+
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
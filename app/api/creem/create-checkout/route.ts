@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { createClient } from "@/utils/supabase/server";
 import { SUBSCRIPTION_TIERS, CREDITS_TIERS } from "@/config/subscriptions";
 import { createCheckoutSession } from "@/app/actions";
+import { withIdempotency } from "@/utils/idempotency";
 
 type ProductType = "subscription" | "credits";
 
@@ -67,71 +68,12 @@ export async function POST(request: Request) {
 
     const body = (await request.json().catch(() => ({}))) as RequestBody;
 
-    // Resolve product selection and type
-    let resolved =
-      resolveFromProductId(body.productId) ||
-      resolveFromTierId(body.tierId) ||
-      null;
-
-    let type: ProductType = "credits";
-    let productId: string;
-    let credits_amount: number | undefined = body.credits_amount;
-
-    if (!resolved) {
-      // Fallback based on productType hint
-      const hint = (body.productType || "").toLowerCase();
-      if (hint === "subscription") {
-        const sub = SUBSCRIPTION_TIERS[0];
-        resolved = { productId: sub.productId, type: "subscription" };
-      } else {
-        // Treat unknown strings like "chinese-name-credits" as credits
-        const picked = pickDefaultCreditsTier();
-        resolved = { productId: picked.productId, type: "credits", credits_amount: picked.credits_amount } as any;
-      }
-    }
-
-    productId = resolved!.productId;
-    type = resolved!.type;
-    if (resolved!.credits_amount && credits_amount == null) {
-      credits_amount = resolved!.credits_amount;
-    }
-
-    // Ensure required environment variables exist
-    if (!process.env.CREEM_API_URL || !process.env.CREEM_API_KEY) {
-      return NextResponse.json(
-        {
-          error:
-            "Missing CREEM_API_URL or CREEM_API_KEY. Please set them in your environment.",
-        },
-        { status: 500 }
-      );
-    }
-
-    // Use user's email from session
-    const email = user.email || "";
-    if (!email) {
-      return NextResponse.json(
-        { error: "User email not available. Please ensure the user has a valid email." },
-        { status: 400 }
-      );
-    }
-
-    // Map non-standard productType values to supported ones
-    let normalizedType: ProductType = type;
-    if (body.productType && body.productType.toLowerCase().includes("credit")) {
-      normalizedType = "credits";
-    }
-
-    const checkoutUrl = await createCheckoutSession(
-      productId,
-      email,
-      user.id,
-      normalizedType,
-      credits_amount,
-      body.discountCode
+    // A repeated Idempotency-Key returns the first checkout session instead of opening another
+    return await withIdempotency(
+      request,
+      { scope: "creem_create_checkout", owner: user.id, fingerprint: body },
+      () => createCheckout(user, body)
     );
-
-    return NextResponse.json({ checkoutUrl });
   } catch (error) {
     console.error("Error in create-checkout route:", error);
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -141,3 +83,71 @@ export async function POST(request: Request) {
     );
   }
 }
+
+async function createCheckout(user: { id: string; email?: string }, body: RequestBody): Promise<Response> {
+  // Resolve product selection and type
+  let resolved =
+    resolveFromProductId(body.productId) ||
+    resolveFromTierId(body.tierId) ||
+    null;
+
+  let type: ProductType = "credits";
+  let productId: string;
+  let credits_amount: number | undefined = body.credits_amount;
+
+  if (!resolved) {
+    // Fallback based on productType hint
+    const hint = (body.productType || "").toLowerCase();
+    if (hint === "subscription") {
+      const sub = SUBSCRIPTION_TIERS[0];
+      resolved = { productId: sub.productId, type: "subscription" };
+    } else {
+      // Treat unknown strings like "chinese-name-credits" as credits
+      const picked = pickDefaultCreditsTier();
+      resolved = { productId: picked.productId, type: "credits", credits_amount: picked.credits_amount } as any;
+    }
+  }
+
+  productId = resolved!.productId;
+  type = resolved!.type;
+  if (resolved!.credits_amount && credits_amount == null) {
+    credits_amount = resolved!.credits_amount;
+  }
+
+  // Ensure required environment variables exist
+  if (!process.env.CREEM_API_URL || !process.env.CREEM_API_KEY) {
+    return NextResponse.json(
+      {
+        error:
+          "Missing CREEM_API_URL or CREEM_API_KEY. Please set them in your environment.",
+      },
+      { status: 500 }
+    );
+  }
+
+  // Use user's email from session
+  const email = user.email || "";
+  if (!email) {
+    return NextResponse.json(
+      { error: "User email not available. Please ensure the user has a valid email." },
+      { status: 400 }
+    );
+  }
+
+  // Map non-standard productType values to supported ones
+  let normalizedType: ProductType = type;
+  if (body.productType && body.productType.toLowerCase().includes("credit")) {
+    normalizedType = "credits";
+  }
+
+  const checkoutUrl = await createCheckoutSession(
+    productId,
+    email,
+    user.id,
+    normalizedType,
+    credits_amount,
+    body.discountCode
+  );
+
+  return NextResponse.json({ checkoutUrl });
+}
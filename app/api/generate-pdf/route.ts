@@ -1,25 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/utils/supabase/server';
 import { generateNameCertificate, isPDFGenerationAvailable } from '@/utils/pdf-generator';
+import ErrorHandler from '@/utils/error-handler';
+import { withIdempotency } from '@/utils/idempotency';
+import { nameDataSchema, formatSchemaIssues } from '@/utils/chinese-names/schema';
+import type { NameData } from '@/types/chinese-names';
 
 // Ensure this route runs on the Node.js runtime (Puppeteer requires Node features)
 export const runtime = 'nodejs';
 
-interface NameData {
-  chinese: string;
-  pinyin: string;
-  characters: Array<{
-    character: string;
-    pinyin: string;
-    meaning: string;
-    explanation: string;
-  }>;
-  meaning: string;
-  culturalNotes: string;
-  personalityMatch: string;
-  style: string;
-}
-
 interface RequestBody {
   nameData: NameData;
   userData: {
@@ -47,15 +36,26 @@ export async function POST(request: NextRequest) {
     }
 
     const body: RequestBody = await request.json();
-    const { nameData, userData } = body;
+    const { userData } = body;
 
-    if (!nameData || !userData) {
+    if (!body.nameData || !userData) {
       return NextResponse.json(
         { error: 'Missing required data: nameData and userData' },
         { status: 400 }
       );
     }
 
+    // Validate against the shared NameData contract before spending a credit
+    const parsedName = nameDataSchema.safeParse(body.nameData);
+    if (!parsedName.success) {
+      const validationError = ErrorHandler.validationError(
+        'This name is missing information needed for the certificate.',
+        { issues: formatSchemaIssues(parsedName.error) }
+      );
+      return NextResponse.json(ErrorHandler.toErrorResponse(validationError), { status: 400 });
+    }
+    const nameData = parsedName.data;
+
     if (process.env.NODE_ENV === 'development') {
       console.log('PDF generation request:', {
         user: user.id,
@@ -64,124 +64,138 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Check if PDF generation is available
-    const isAvailable = await isPDFGenerationAvailable();
-    if (!isAvailable) {
-      return NextResponse.json(
-        { error: 'PDF generation service is currently unavailable. Please try again later.' },
-        { status: 503 }
-      );
-    }
+    // A repeated Idempotency-Key returns the first certificate instead of charging another credit
+    return await withIdempotency(
+      request,
+      { scope: 'generate_pdf', owner: user.id, fingerprint: body },
+      () => createCertificate(supabase, user, nameData, userData)
+    );
 
-    // Check user credits
-    const { data: customer, error: fetchError } = await supabase
-      .from('customers')
-      .select('*')
-      .eq('user_id', user.id)
-      .single();
+  } catch (error) {
+    console.error('PDF generation API error:', error);
+    return NextResponse.json(
+      {
+        error: 'PDF generation service is temporarily unavailable. Please try again later.',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
 
-    if (fetchError) {
-      console.error('Error fetching customer:', fetchError);
-      return NextResponse.json(
-        { error: 'Unable to verify user credits' },
-        { status: 500 }
-      );
+async function createCertificate(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  user: { id: string },
+  nameData: NameData,
+  userData: RequestBody['userData']
+): Promise<Response> {
+  // Check if PDF generation is available
+  const isAvailable = await isPDFGenerationAvailable();
+  if (!isAvailable) {
+    return NextResponse.json(
+      { error: 'PDF generation service is currently unavailable. Please try again later.' },
+      { status: 503 }
+    );
+  }
+
+  // Check user credits
+  const { data: customer, error: fetchError } = await supabase
+    .from('customers')
+    .select('*')
+    .eq('user_id', user.id)
+    .single();
+
+  if (fetchError) {
+    console.error('Error fetching customer:', fetchError);
+    return NextResponse.json(
+      { error: 'Unable to verify user credits' },
+      { status: 500 }
+    );
+  }
+
+  if (!customer || customer.credits < 1) {
+    if (process.env.NODE_ENV === 'development') {
+      console.log('Insufficient credits:', {
+        hasCustomer: !!customer,
+        credits: customer?.credits
+      });
     }
+    return NextResponse.json(
+      {
+        error: 'Insufficient credits. PDF generation requires 1 credit.',
+        creditsRequired: 1,
+        currentCredits: customer?.credits || 0
+      },
+      { status: 403 }
+    );
+  }
 
-    if (!customer || customer.credits < 1) {
-      if (process.env.NODE_ENV === 'development') {
-        console.log('Insufficient credits:', {
-          hasCustomer: !!customer,
-          credits: customer?.credits
-        });
-      }
-      return NextResponse.json(
-        {
-          error: 'Insufficient credits. PDF generation requires 1 credit.',
-          creditsRequired: 1,
-          currentCredits: customer?.credits || 0
-        },
-        { status: 403 }
-      );
+  // Generate PDF using the lazy-loaded utility
+  try {
+    const { buffer: pdfBuffer, fileName } = await generateNameCertificate(nameData, userData);
+
+    if (process.env.NODE_ENV === 'development') {
+      console.log('PDF generated successfully');
     }
 
-    // Generate PDF using the lazy-loaded utility
-    try {
-      const { buffer: pdfBuffer, fileName } = await generateNameCertificate(nameData, userData);
+    // Deduct credits
+    const newCredits = customer.credits - 1;
+    const { error: updateError } = await supabase
+      .from('customers')
+      .update({
+        credits: newCredits,
+        updated_at: new Date().toISOString()
+      })
+      .eq('user_id', user.id);
+
+    if (updateError) {
+      console.error('Failed to deduct credits:', updateError);
+      // Note: PDF is generated, but credit deduction failed
+      // In production, you might want to handle this better
+    } else {
+      // Record credit transaction history
+      await supabase
+        .from('credits_history')
+        .insert({
+          customer_id: customer.id,
+          amount: 1,
+          type: 'subtract',
+          description: 'pdf_generation',
+          metadata: {
+            operation: 'pdf_generation',
+            chinese_name: nameData.chinese,
+            english_name: userData.englishName,
+            credits_before: customer.credits,
+            credits_after: newCredits,
+            generated_at: new Date().toISOString()
+          }
+        });
 
       if (process.env.NODE_ENV === 'development') {
-        console.log('PDF generated successfully');
-      }
-
-      // Deduct credits
-      const newCredits = customer.credits - 1;
-      const { error: updateError } = await supabase
-        .from('customers')
-        .update({
-          credits: newCredits,
-          updated_at: new Date().toISOString()
-        })
-        .eq('user_id', user.id);
-
-      if (updateError) {
-        console.error('Failed to deduct credits:', updateError);
-        // Note: PDF is generated, but credit deduction failed
-        // In production, you might want to handle this better
-      } else {
-        // Record credit transaction history
-        await supabase
-          .from('credits_history')
-          .insert({
-            customer_id: customer.id,
-            amount: 1,
-            type: 'subtract',
-            description: 'pdf_generation',
-            metadata: {
-              operation: 'pdf_generation',
-              chinese_name: nameData.chinese,
-              english_name: userData.englishName,
-              credits_before: customer.credits,
-              credits_after: newCredits,
-              generated_at: new Date().toISOString()
-            }
-          });
-
-        if (process.env.NODE_ENV === 'development') {
-          console.log('Credits deducted successfully:', {
-            userId: user.id,
-            creditsBefore: customer.credits,
-            creditsAfter: newCredits
-          });
-        }
+        console.log('Credits deducted successfully:', {
+          userId: user.id,
+          creditsBefore: customer.credits,
+          creditsAfter: newCredits
+        });
       }
-
-      // Return PDF response
-      return new NextResponse(pdfBuffer, {
-        status: 200,
-        headers: {
-          'Content-Type': 'application/pdf',
-          'Content-Disposition': `attachment; filename="${encodeURIComponent(fileName)}"`,
-          'Content-Length': pdfBuffer.length.toString(),
-        },
-      });
-
-    } catch (pdfError) {
-      console.error('PDF generation error:', pdfError);
-      return NextResponse.json(
-        {
-          error: 'Failed to generate PDF certificate. Please try again.',
-          details: pdfError instanceof Error ? pdfError.message : 'Unknown error'
-        },
-        { status: 500 }
-      );
     }
 
-  } catch (error) {
-    console.error('PDF generation API error:', error);
+    // Return PDF response
+    return new NextResponse(pdfBuffer, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(fileName)}"`,
+        'Content-Length': pdfBuffer.length.toString(),
+      },
+    });
+
+  } catch (pdfError) {
+    console.error('PDF generation error:', pdfError);
     return NextResponse.json(
       {
-        error: 'PDF generation service is temporarily unavailable. Please try again later.',
-        details: error instanceof Error ? error.message : 'Unknown error'
+        error: 'Failed to generate PDF certificate. Please try again.',
+        details: pdfError instanceof Error ? pdfError.message : 'Unknown error'
       },
       { status: 500 }
     );
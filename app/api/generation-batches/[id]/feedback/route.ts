@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import ErrorHandler from '@/utils/error-handler';
+import { nameFeedbackInputSchema, formatSchemaIssues } from '@/utils/chinese-names/schema';
+
+// Record a like, save or selection on a name of this batch (feeds the prompt version report)
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: batchId } = await context.params;
+    const parsed = nameFeedbackInputSchema.safeParse(await request.json().catch(() => ({})));
+
+    if (!parsed.success) {
+      const validationError = ErrorHandler.validationError(
+        'Missing or invalid feedback fields.',
+        { issues: formatSchemaIssues(parsed.error) }
+      );
+      return NextResponse.json(ErrorHandler.toErrorResponse(validationError), { status: 400 });
+    }
+
+    const { chineseName, action, active } = parsed.data;
+
+    // Verify batch exists and belongs to user
+    const { data: batch, error: batchError } = await supabase
+      .from('generation_batches')
+      .select('id')
+      .eq('id', batchId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (batchError || !batch) {
+      return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
+    }
+
+    // Only one name per batch can be the selected one
+    if (action === 'select' || !active) {
+      let removal = supabase
+        .from('name_feedback')
+        .delete()
+        .eq('batch_id', batchId)
+        .eq('user_id', user.id)
+        .eq('action', action);
+
+      if (action !== 'select') {
+        removal = removal.eq('chinese_name', chineseName);
+      }
+
+      const { error: deleteError } = await removal;
+      if (deleteError) {
+        console.error('Database error:', deleteError);
+        return NextResponse.json({ error: 'Failed to record feedback' }, { status: 500 });
+      }
+    }
+
+    if (active) {
+      const { error } = await supabase
+        .from('name_feedback')
+        .upsert(
+          { batch_id: batchId, user_id: user.id, chinese_name: chineseName, action },
+          { onConflict: 'batch_id,user_id,chinese_name,action', ignoreDuplicates: true }
+        );
+
+      if (error) {
+        console.error('Database error:', error);
+        return NextResponse.json({ error: 'Failed to record feedback' }, { status: 500 });
+      }
+    }
+
+    return NextResponse.json({ message: 'Feedback recorded' });
+
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@/utils/supabase/server';
+import { getFamilyNameFields } from '@/utils/chinese-names/family';
 
 // Get specific batch with pagination by generation rounds
 export async function GET(
@@ -103,13 +104,25 @@ export async function GET(
     
     const transformedNames = (names || []).map((name, index) => {
       const transformed = {
+        id: name.id,
         chinese: name.chinese_name || '',
         pinyin: name.pinyin || '',
         characters: name.characters || [],
         meaning: name.meaning || '',
         culturalNotes: name.cultural_notes || '',
         personalityMatch: name.personality_match || '',
-        style: name.style || 'Standard'
+        style: name.style || 'Standard',
+        isFallback: name.is_fallback || false,
+        fromCorpus: name.from_corpus || false,
+        language: name.language || 'en',
+        phoneticScore: name.phonetic_score ?? undefined,
+        traditional: name.traditional ?? undefined,
+        jyutping: name.jyutping ?? undefined,
+        wadeGiles: name.wade_giles ?? undefined,
+        baziAnalysis: batch.generation_metadata?.bazi_analysis ?? undefined,
+        fiveGrids: batch.generation_metadata?.five_grids?.[name.chinese_name] ?? undefined,
+        brand: name.brand_details ?? undefined,
+        ...getFamilyNameFields(name, batch.generation_metadata)
       };
       
       if (index === 0) {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/utils/supabase/server';
+import { getFamilyNameFields } from '@/utils/chinese-names/family';
 
 export async function GET(request: NextRequest) {
   try {
@@ -32,6 +33,7 @@ export async function GET(request: NextRequest) {
         credits_used,
         names_count,
         created_at,
+        generation_metadata,
         generated_names (
           id,
           chinese_name,
@@ -41,7 +43,17 @@ export async function GET(request: NextRequest) {
           cultural_notes,
           personality_match,
           style,
-          position_in_batch
+          position_in_batch,
+          is_fallback,
+          from_corpus,
+          language,
+          phonetic_score,
+          traditional,
+          jyutping,
+          wade_giles,
+          family_set,
+          family_member,
+          brand_details
         )
       `)
       .eq('user_id', user.id)
@@ -79,13 +91,25 @@ export async function GET(request: NextRequest) {
       names: batch.generated_names
         ?.sort((a, b) => a.position_in_batch - b.position_in_batch)
         ?.map(name => ({
+          id: name.id,
           chinese: name.chinese_name,
           pinyin: name.pinyin,
           characters: name.characters,
           meaning: name.meaning,
           culturalNotes: name.cultural_notes,
           personalityMatch: name.personality_match,
-          style: name.style
+          style: name.style,
+          isFallback: name.is_fallback || false,
+          fromCorpus: name.from_corpus || false,
+          language: name.language || 'en',
+          phoneticScore: name.phonetic_score ?? undefined,
+          traditional: name.traditional ?? undefined,
+          jyutping: name.jyutping ?? undefined,
+          wadeGiles: name.wade_giles ?? undefined,
+          baziAnalysis: batch.generation_metadata?.bazi_analysis ?? undefined,
+          fiveGrids: batch.generation_metadata?.five_grids?.[name.chinese_name] ?? undefined,
+          brand: name.brand_details ?? undefined,
+          ...getFamilyNameFields(name, batch.generation_metadata)
         })) || []
     })) || [];
 
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import ErrorHandler, { ErrorType } from '@/utils/error-handler';
+import { getProviderForPlan } from '@/utils/llm/providers';
+import { createUsageTracker } from '@/utils/llm/usage';
+import { getPromptTemplateForPlan } from '@/utils/chinese-names/prompts';
+import { getLLMAccess } from '@/utils/chinese-names/llm-access';
+import { applySavedNameTranslation } from '@/utils/chinese-names/languages';
+import { translateName } from '@/utils/chinese-names/translation';
+import { formatSchemaIssues, translateSavedNameInputSchema } from '@/utils/chinese-names/schema';
+import { recordLLMUsage } from '@/utils/supabase/llm-usage';
+import type { NameTranslation, PlanType } from '@/types/chinese-names';
+
+// Translations are free and use the Standard plan's models
+const TRANSLATION_PLAN: PlanType = '1';
+
+/**
+ * Translate the explanations of a saved name into another language, once; the
+ * translation is stored on the row and returned from then on without a model call
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: nameId } = await params;
+    const parsed = translateSavedNameInputSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      const validationError = ErrorHandler.validationError(
+        'Please choose one of the supported languages.',
+        { issues: formatSchemaIssues(parsed.error) }
+      );
+      return NextResponse.json(ErrorHandler.toErrorResponse(validationError), { status: 400 });
+    }
+
+    const { language } = parsed.data;
+
+    const { data: savedName, error: fetchError } = await supabase
+      .from('saved_names')
+      .select('*')
+      .eq('id', nameId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (fetchError || !savedName) {
+      return NextResponse.json({ error: 'Name not found' }, { status: 404 });
+    }
+
+    const stored = applySavedNameTranslation(savedName, language);
+    if (stored) {
+      return NextResponse.json({ name: stored, translated: false });
+    }
+
+    const access = await getLLMAccess(true, TRANSLATION_PLAN);
+    if (access.mode !== 'llm') {
+      const unavailableError = ErrorHandler.createError(
+        ErrorType.EXTERNAL_SERVICE,
+        'Translation is unavailable right now. Please try again in a few minutes.',
+        `LLM access ${access.mode === 'shed' ? 'shed' : access.reason} for translation`,
+        { code: 'LLM_UNAVAILABLE', retryable: true, suggestions: ['Wait a few minutes before trying again'] }
+      );
+      return NextResponse.json(ErrorHandler.toErrorResponse(unavailableError), {
+        status: 503,
+        headers: { 'Retry-After': '60' },
+      });
+    }
+
+    const usage = createUsageTracker();
+    let translation: NameTranslation;
+    try {
+      translation = await translateName(
+        {
+          chinese: savedName.chinese_name,
+          pinyin: savedName.pinyin,
+          characters: savedName.characters || [],
+          meaning: savedName.meaning || '',
+          culturalNotes: savedName.cultural_notes || '',
+          personalityMatch: savedName.personality_match || '',
+          style: savedName.generation_metadata?.style || 'Standard',
+          language: savedName.language || 'en',
+        },
+        language,
+        getProviderForPlan(TRANSLATION_PLAN),
+        getPromptTemplateForPlan(TRANSLATION_PLAN),
+        usage.calls
+      );
+    } catch (error) {
+      console.error('Translation failed:', { nameId, language, error });
+      const translationError = ErrorHandler.externalServiceError('Translation');
+      return NextResponse.json(ErrorHandler.toErrorResponse(translationError), { status: 502 });
+    } finally {
+      await recordLLMUsage({ userId: user.id, batchId: null, generationRound: null, planType: TRANSLATION_PLAN, usage, creditsCharged: 0 });
+    }
+
+    const translations = { ...(savedName.translations || {}), [language]: translation };
+    const { error: updateError } = await supabase
+      .from('saved_names')
+      .update({ translations })
+      .eq('id', nameId)
+      .eq('user_id', user.id);
+
+    if (updateError) {
+      // The translation is still returned; it is made again on the next request
+      console.error('Failed to store translation:', updateError);
+    }
+
+    return NextResponse.json({
+      name: applySavedNameTranslation({ ...savedName, translations }, language),
+      translated: true
+    });
+
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
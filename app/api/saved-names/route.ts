@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/utils/supabase/server';
+import ErrorHandler from '@/utils/error-handler';
+import { savedNameInputSchema, formatSchemaIssues } from '@/utils/chinese-names/schema';
+import { applySavedNameTranslation, isOutputLanguage } from '@/utils/chinese-names/languages';
 
 export async function GET(request: NextRequest) {
   try {
@@ -12,6 +15,13 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    // `?language=fr` shows each name in French where it was written in or translated into it
+    const language = request.nextUrl.searchParams.get('language');
+    if (language !== null && !isOutputLanguage(language)) {
+      const validationError = ErrorHandler.validationError('Unsupported language.', { language });
+      return NextResponse.json(ErrorHandler.toErrorResponse(validationError), { status: 400 });
+    }
+
     // Fetch saved names for the user
     const { data: savedNames, error } = await supabase
       .from('saved_names')
@@ -24,6 +34,17 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to fetch saved names' }, { status: 500 });
     }
 
+    if (language) {
+      // Names without a translation yet are returned as saved; POST /api/saved-names/[id]/translate adds one
+      const names = (savedNames || []).map(name => applySavedNameTranslation(name, language) ?? name);
+      return NextResponse.json({
+        names,
+        count: names.length,
+        language,
+        untranslated: names.filter(name => (name.language || 'en') !== language).map(name => name.id)
+      });
+    }
+
     return NextResponse.json({ 
       names: savedNames || [],
       count: savedNames?.length || 0
@@ -50,6 +71,16 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
+    const parsed = savedNameInputSchema.safeParse(body);
+
+    if (!parsed.success) {
+      const validationError = ErrorHandler.validationError(
+        'Missing or invalid name fields.',
+        { issues: formatSchemaIssues(parsed.error) }
+      );
+      return NextResponse.json(ErrorHandler.toErrorResponse(validationError), { status: 400 });
+    }
+
     const {
       chinese_name,
       pinyin,
@@ -57,15 +88,12 @@ export async function POST(request: NextRequest) {
       cultural_notes,
       personality_match,
       characters,
+      traditional,
+      jyutping,
+      wade_giles,
+      language,
       generation_metadata
-    } = body;
-
-    if (!chinese_name || !pinyin || !meaning) {
-      return NextResponse.json(
-        { error: 'Missing required fields: chinese_name, pinyin, meaning' },
-        { status: 400 }
-      );
-    }
+    } = parsed.data;
 
     // Check if name already exists for this user
     const { data: existing } = await supabase
@@ -93,6 +121,10 @@ export async function POST(request: NextRequest) {
         cultural_notes,
         personality_match,
         characters,
+        traditional,
+        jyutping,
+        wade_giles,
+        language,
         generation_metadata,
         is_favorite: true
       })
@@ -104,7 +136,22 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to save name' }, { status: 500 });
     }
 
-    return NextResponse.json({ 
+    // Count the save towards the prompt version of the batch it came from
+    const batchId = generation_metadata?.batch_id;
+    if (typeof batchId === 'string') {
+      const { error: feedbackError } = await supabase
+        .from('name_feedback')
+        .upsert(
+          { batch_id: batchId, user_id: user.id, chinese_name, action: 'save' },
+          { onConflict: 'batch_id,user_id,chinese_name,action', ignoreDuplicates: true }
+        );
+
+      if (feedbackError) {
+        console.error('Failed to record save feedback:', feedbackError);
+      }
+    }
+
+    return NextResponse.json({
       message: 'Name saved successfully',
       name: savedName
     }, { status: 201 });
@@ -0,0 +1,413 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useUser } from "@/hooks/use-user";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { getCharacterFacts, getTotalStrokes, parseCompareIds } from "@/utils/chinese-names/compare";
+import { saveCompareShortlist } from "@/utils/compare-shortlist";
+import type { ComparedName } from "@/types/chinese-names";
+import { ArrowLeft, Volume2, FileText, Trophy, X } from "lucide-react";
+
+const TONE_LABELS: Record<number, string> = {
+  1: "1st tone",
+  2: "2nd tone",
+  3: "3rd tone",
+  4: "4th tone",
+  5: "neutral",
+};
+
+export default function ComparePage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { user, loading } = useUser();
+  const { toast } = useToast();
+
+  const [names, setNames] = useState<ComparedName[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [playingName, setPlayingName] = useState<string | null>(null);
+  const [selectingId, setSelectingId] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const ids = parseCompareIds(searchParams.get('ids'));
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/sign-in');
+      return;
+    }
+
+    if (user) {
+      loadNames();
+    }
+  }, [user, loading, searchParams]);
+
+  const loadNames = async () => {
+    if (ids.length < 2) {
+      setNames([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/chinese-names/compare?ids=${ids.join(',')}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load names');
+      }
+      setNames(data.names || []);
+    } catch (error) {
+      console.error('Failed to load compared names:', error);
+      toast({
+        title: "Loading failed",
+        description: "Unable to load the names to compare. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    const remaining = ids.filter((entry) => entry !== id);
+    saveCompareShortlist(remaining);
+    router.replace(remaining.length > 0 ? `/compare?ids=${remaining.join(',')}` : '/compare');
+  };
+
+  const handlePlayAudio = async (name: ComparedName) => {
+    if (playingName) {
+      toast({
+        title: "Audio playing",
+        description: "Please wait for current audio to finish.",
+      });
+      return;
+    }
+
+    setPlayingName(name.chinese);
+
+    try {
+      const response = await fetch('/api/tts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          text: name.chinese
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        if (response.status === 503) {
+          throw new Error(errorData.message || 'Voice playback service is temporarily unavailable');
+        }
+        throw new Error(errorData.error || 'Failed to generate audio');
+      }
+
+      const result = await response.json();
+      if (!result.success || !result.audioData) {
+        throw new Error('Invalid audio data received');
+      }
+
+      const audioBlob = new Blob(
+        [Uint8Array.from(atob(result.audioData), c => c.charCodeAt(0))],
+        { type: 'audio/mpeg' }
+      );
+      const audioUrl = URL.createObjectURL(audioBlob);
+      const audio = new Audio(audioUrl);
+
+      audio.onended = () => {
+        setPlayingName(null);
+        URL.revokeObjectURL(audioUrl);
+      };
+      audio.onerror = () => {
+        setPlayingName(null);
+        URL.revokeObjectURL(audioUrl);
+      };
+
+      await audio.play();
+    } catch (error) {
+      console.error('Failed to play audio:', error);
+      setPlayingName(null);
+      toast({
+        title: "Playback failed",
+        description: error instanceof Error ? error.message : "Something went wrong.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Winners are chosen among saved names; a generated name is saved first
+  const handleSelect = async (name: ComparedName) => {
+    setSelectingId(name.id);
+
+    try {
+      let savedNameId = name.savedNameId;
+
+      if (!savedNameId) {
+        const saveResponse = await fetch('/api/saved-names', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            chinese_name: name.chinese,
+            pinyin: name.pinyin,
+            meaning: name.meaning,
+            cultural_notes: name.culturalNotes,
+            personality_match: name.personalityMatch,
+            characters: name.characters,
+            traditional: name.traditional,
+            jyutping: name.jyutping,
+            wade_giles: name.wadeGiles,
+            language: name.language,
+            generation_metadata: {
+              style: name.style,
+              saved_from: 'compare',
+              saved_at: new Date().toISOString(),
+            },
+          }),
+        });
+        const saveData = await saveResponse.json();
+
+        // 409: already saved under another id
+        if (saveResponse.ok) {
+          savedNameId = saveData.name.id;
+        } else if (saveResponse.status === 409) {
+          savedNameId = saveData.name_id;
+        } else {
+          throw new Error(saveData.error || 'Failed to save name');
+        }
+      }
+
+      const response = await fetch(`/api/saved-names/${savedNameId}/select`, {
+        method: 'POST',
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to select name');
+      }
+
+      setNames((current) => current.map((entry) => ({
+        ...entry,
+        savedNameId: entry.id === name.id ? savedNameId : entry.savedNameId,
+        isSelected: entry.id === name.id,
+      })));
+
+      toast({
+        title: "Name selected!",
+        description: `${name.chinese} is now your Chinese name`,
+      });
+    } catch (error) {
+      console.error('Failed to select name:', error);
+      toast({
+        title: "Selection failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSelectingId(null);
+    }
+  };
+
+  const handleExportPDF = async () => {
+    setIsExporting(true);
+
+    try {
+      const response = await fetch('/api/chinese-names/compare/pdf', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: names.map((name) => name.id) }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to export PDF');
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.style.display = 'none';
+      a.href = url;
+      a.download = `${names.map((name) => name.chinese).join('_')}_comparison.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Failed to export comparison PDF:', error);
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (loading || isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary mx-auto"></div>
+          <p className="text-muted-foreground">Loading names to compare...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (names.length < 2) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center space-y-6 max-w-md mx-auto">
+          <h1 className="text-2xl font-bold text-foreground">Nothing to Compare</h1>
+          <p className="text-muted-foreground">
+            Add two to four names to the comparison from your results, then come back here.
+          </p>
+          <Button onClick={() => router.back()}>
+            Go Back
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  // Label column plus one aligned column per name
+  const row = (label: string, render: (name: ComparedName) => React.ReactNode) => (
+    <tr className="border-b border-border align-top">
+      <th className="py-4 pr-4 text-left text-sm font-medium text-muted-foreground w-36">{label}</th>
+      {names.map((name) => (
+        <td key={name.id} className="py-4 px-3 text-sm">
+          {render(name)}
+        </td>
+      ))}
+    </tr>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container px-4 md:px-6 py-8">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <Button variant="ghost" onClick={() => router.back()} className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Button>
+            <Button onClick={handleExportPDF} disabled={isExporting} variant="outline" className="gap-2">
+              {isExporting ? (
+                <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+              ) : (
+                <FileText className="h-4 w-4" />
+              )}
+              Export PDF
+            </Button>
+          </div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="text-center space-y-2"
+          >
+            <h1 className="text-3xl font-bold tracking-tight text-foreground">Compare Names</h1>
+            <p className="text-muted-foreground">
+              Weigh your shortlist side by side and choose the one that becomes your Chinese name.
+            </p>
+          </motion.div>
+
+          <Card>
+            <CardContent className="p-4 overflow-x-auto">
+              <table className="w-full table-fixed min-w-[640px]">
+                <tbody>
+                  <tr className="border-b border-border">
+                    <th className="w-36" />
+                    {names.map((name) => (
+                      <td key={name.id} className="py-4 px-3 text-center">
+                        <div className="flex justify-end">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 w-6 p-0 text-muted-foreground"
+                            onClick={() => handleRemove(name.id)}
+                            title="Remove from comparison"
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </div>
+                        <div className="text-4xl font-serif font-bold text-primary">{name.chinese}</div>
+                        <div className="flex items-center justify-center gap-1 text-muted-foreground">
+                          {name.pinyin}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className={`h-6 w-6 p-0 ${playingName === name.chinese ? 'text-primary animate-pulse' : ''}`}
+                            onClick={() => handlePlayAudio(name)}
+                            disabled={!!playingName}
+                            title="Play pronunciation"
+                          >
+                            <Volume2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                        {name.isSelected && (
+                          <Badge className="mt-2 gap-1">
+                            <Trophy className="h-3 w-3" />
+                            Your name
+                          </Badge>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                  {row("Characters", (name) => (
+                    <div className="space-y-3">
+                      {getCharacterFacts(name).map((entry, index) => (
+                        <div key={index}>
+                          <div className="flex items-baseline gap-2">
+                            <span className="text-2xl font-serif">{entry.character}</span>
+                            <span className="text-muted-foreground">{entry.pinyin}</span>
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {TONE_LABELS[entry.tone]}{entry.strokes ? ` · ${entry.strokes} strokes` : ''}
+                          </div>
+                          <div className="text-xs">{entry.meaning}</div>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                  {row("Total strokes", (name) => getTotalStrokes(name) ?? '—')}
+                  {row("Meaning", (name) => name.meaning)}
+                  {row("Cultural notes", (name) => (
+                    <span className="text-muted-foreground">{name.culturalNotes}</span>
+                  ))}
+                  {row("Personality match", (name) => (
+                    <span className="text-muted-foreground">{name.personalityMatch}</span>
+                  ))}
+                  {row("Style", (name) => <Badge variant="outline">{name.style}</Badge>)}
+                  {row("", (name) => (
+                    <Button
+                      className="w-full"
+                      variant={name.isSelected ? "secondary" : "default"}
+                      onClick={() => handleSelect(name)}
+                      disabled={name.isSelected || !!selectingId}
+                    >
+                      {selectingId === name.id ? (
+                        <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+                      ) : name.isSelected ? (
+                        "Selected"
+                      ) : (
+                        "Choose This Name"
+                      )}
+                    </Button>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,9 @@ import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import type { NameData } from "@/types/chinese-names";
+import { ELEMENT_LABELS, FIVE_ELEMENTS } from "@/utils/chinese-names/bazi";
+import { fetchWithIdempotencyKey } from "@/utils/idempotency-key";
 import { 
   ArrowLeft, 
   Volume2, 
@@ -15,24 +18,10 @@ import {
   Sparkles,
   BookOpen,
   Heart,
-  Star
+  Star,
+  Compass
 } from "lucide-react";
 
-interface NameData {
-  chinese: string;
-  pinyin: string;
-  characters: Array<{
-    character: string;
-    pinyin: string;
-    meaning: string;
-    explanation: string;
-  }>;
-  meaning: string;
-  culturalNotes: string;
-  personalityMatch: string;
-  style: string;
-}
-
 export default function NameDetailPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -195,7 +184,7 @@ export default function NameDetailPage() {
         gender: user.user_metadata?.gender || 'other'
       };
 
-      const response = await fetch('/api/generate-pdf', {
+      const response = await fetchWithIdempotencyKey('/api/generate-pdf', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -255,6 +244,12 @@ export default function NameDetailPage() {
     );
   }
 
+  const bazi = nameData.baziAnalysis;
+  // Characters whose element fills a gap in the birth chart
+  const balancingCharacters = bazi
+    ? nameData.characters.filter((char) => char.element && bazi.favourableElements.includes(char.element))
+    : [];
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -322,6 +317,15 @@ export default function NameDetailPage() {
                   </Button>
                 )}
               </div>
+              {(nameData.traditional || nameData.jyutping || nameData.wadeGiles) && (
+                <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-1 text-sm text-muted-foreground">
+                  {nameData.traditional && nameData.traditional !== nameData.chinese && (
+                    <span>Traditional: <span className="font-serif text-base text-foreground">{nameData.traditional}</span></span>
+                  )}
+                  {nameData.jyutping && <span>Cantonese: {nameData.jyutping}</span>}
+                  {nameData.wadeGiles && <span>Wade-Giles: {nameData.wadeGiles}</span>}
+                </div>
+              )}
               <Badge variant="secondary" className="text-sm">
                 {nameData.style}
               </Badge>
@@ -400,13 +404,24 @@ export default function NameDetailPage() {
                         {char.character}
                       </div>
                       <div className="flex-1 space-y-2">
-                        <div className="text-sm text-muted-foreground">{char.pinyin}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {char.pinyin}
+                          {char.jyutping && ` · ${char.jyutping}`}
+                          {char.traditional && char.traditional !== char.character && (
+                            <span className="font-serif"> · {char.traditional}</span>
+                          )}
+                        </div>
                         <div className="font-medium text-foreground">{char.meaning}</div>
                         {char.explanation && (
                           <div className="text-sm text-muted-foreground leading-relaxed">
                             {char.explanation}
                           </div>
                         )}
+                        {char.element && (
+                          <Badge variant="outline" className="text-xs">
+                            {ELEMENT_LABELS[char.element].english} {ELEMENT_LABELS[char.element].chinese}
+                          </Badge>
+                        )}
                       </div>
                     </motion.div>
                   ))}
@@ -415,11 +430,67 @@ export default function NameDetailPage() {
             </Card>
           </motion.div>
 
+          {/* Five Elements (BaZi) Card */}
+          {bazi && (
+            <motion.div
+              initial={{ opacity: 0, y: 30 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.6, delay: 0.4 }}
+            >
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Compass className="h-5 w-5 text-primary" />
+                    Five Elements (BaZi)
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="grid grid-cols-3 md:grid-cols-4 gap-3">
+                    {bazi.pillars.map((pillar) => (
+                      <div key={pillar.pillar} className="text-center p-3 bg-muted/30 rounded-lg">
+                        <div className="text-xs uppercase tracking-wide text-muted-foreground">{pillar.pillar}</div>
+                        <div className="font-serif text-2xl text-primary">{pillar.stem}{pillar.branch}</div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="space-y-2">
+                    {FIVE_ELEMENTS.map((element) => {
+                      const count = bazi.elementCounts[element];
+                      const total = bazi.pillars.length * 2;
+                      const isFavourable = bazi.favourableElements.includes(element);
+                      return (
+                        <div key={element} className="flex items-center gap-3">
+                          <div className="w-20 text-sm">
+                            {ELEMENT_LABELS[element].english} {ELEMENT_LABELS[element].chinese}
+                          </div>
+                          <div className="flex-1 h-2 bg-muted rounded-full overflow-hidden">
+                            <div className="h-full bg-primary" style={{ width: `${(count / total) * 100}%` }} />
+                          </div>
+                          <div className="w-6 text-sm text-muted-foreground text-right">{count}</div>
+                          {isFavourable && <Badge variant="secondary" className="text-xs">Needed</Badge>}
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  <p className="text-muted-foreground leading-relaxed">
+                    Your day master is {ELEMENT_LABELS[bazi.dayMaster].english}. The chart is lightest in{" "}
+                    {bazi.favourableElements.map((element) => ELEMENT_LABELS[element].english).join(" and ")}
+                    {balancingCharacters.length > 0
+                      ? `, which this name adds through ${balancingCharacters.map((char) => char.character).join(" and ")}.`
+                      : "."}
+                  </p>
+                </CardContent>
+              </Card>
+            </motion.div>
+          )}
+
           {/* Cultural Context Card */}
           <motion.div
             initial={{ opacity: 0, y: 30 }}
             animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.6, delay: 0.4 }}
+            transition={{ duration: 0.6, delay: 0.5 }}
           >
             <Card>
               <CardHeader>
@@ -11,30 +11,9 @@ import ChineseNamePricing from "@/components/product/pricing/chinese-name-pricin
 import PopularNames from "@/components/product/popular/popular-names";
 import { saveFormData, loadFormData } from "@/utils/form-storage";
 import { useAnalytics } from "@/components/analytics-provider";
+import type { GenerationFormData } from "@/types/chinese-names";
 
-interface NameData {
-  chinese: string;
-  pinyin: string;
-  characters: Array<{
-    character: string;
-    pinyin: string;
-    meaning: string;
-    explanation: string;
-  }>;
-  meaning: string;
-  culturalNotes: string;
-  personalityMatch: string;
-  style: string;
-}
-
-interface FormData {
-  englishName: string;
-  gender: 'male' | 'female' | 'other';
-  birthYear?: string;
-  personalityTraits?: string;
-  namePreferences?: string;
-  planType: '1' | '4';
-}
+type FormData = GenerationFormData;
 
 export default function Home() {
   const router = useRouter();
@@ -71,8 +50,6 @@ export default function Home() {
 
 
   const handleGenerate = async (formData: FormData) => {
-    const startTime = Date.now();
-
     // Track generation attempt
     analytics.trackInteraction('name_generator', 'generate_attempt', {
       planType: formData.planType,
@@ -98,105 +75,31 @@ export default function Home() {
 
     setIsGenerating(true);
 
-    try {
-      const response = await fetch('/api/chinese-names/generate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(formData),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        // Handle rate limiting specifically
-        if (response.status === 429 && data.rateLimited) {
-          toast({
-            title: "Daily limit reached",
-            description: data.error || "You can generate 3 free names per day. Please sign in for unlimited access!",
-          });
-          // Show sign-in option
-          setTimeout(() => {
-            router.push('/sign-in');
-          }, 3000);
-          return;
-        }
-        throw new Error(data.error || 'Failed to generate names');
-      }
-
-      // Calculate total rounds based on generation round
-      const estimatedTotalRounds = data.isContinuation 
-        ? Math.ceil(data.batch.totalNamesGenerated / 6)
-        : data.generationRound;
-
-      // Save results to sessionStorage and redirect to results page
-      const sessionData = {
-        names: data.names,
-        formData: formData,
-        batch: data.batch,
-        generationRound: data.generationRound,
-        totalGenerationRounds: estimatedTotalRounds,
-        isHistoryMode: false,
-      };
-      
-      sessionStorage.setItem('nameGenerationResults', JSON.stringify(sessionData));
-      
-      // Mark free trial as used for non-authenticated users
-      if (!user) {
-        setHasTriedFree(true);
-        localStorage.setItem('hasTriedFreeGeneration', 'true');
-      }
-
-      // Save form data to localStorage for future use
-      saveFormData({
-        englishName: formData.englishName,
-        gender: formData.gender,
-        birthYear: formData.birthYear,
-        personalityTraits: formData.personalityTraits,
-        namePreferences: formData.namePreferences
-      });
-
-      const generationTime = Date.now() - startTime;
-
-      // Track successful generation
-      analytics.trackNameGeneration({
-        planType: formData.planType,
-        nameCount: data.names.length,
-        gender: formData.gender,
-        isAuthenticated: !!user,
-        hasPersonalityTraits: !!(formData.personalityTraits && user),
-        generationTime,
-      });
-
-      toast({
-        title: data.message || "Names generated successfully!",
-        description: `Generated ${data.names.length} unique Chinese names${data.creditsUsed ? ` using ${data.creditsUsed} credits` : ' for free'}`,
-      });
-
-      // Navigate to results page
-      router.push('/results');
-    } catch (error) {
-      const generationTime = Date.now() - startTime;
-      console.error('Generation error:', error);
-      const errorMessage = error instanceof Error ? error.message : "Something went wrong. Please try again.";
-      console.error('Detailed error:', errorMessage);
+    // Hand the request over to the results page, which runs it as a job and shows names as they are generated
+    const sessionData = {
+      names: [],
+      formData: formData,
+      batch: null,
+      generationRound: 1,
+      totalGenerationRounds: 1,
+      isHistoryMode: false,
+      pendingRequest: formData,
+    };
+
+    sessionStorage.setItem('nameGenerationResults', JSON.stringify(sessionData));
+
+    // Mark free trial as used for non-authenticated users
+    if (!user) {
+      setHasTriedFree(true);
+      localStorage.setItem('hasTriedFreeGeneration', 'true');
+    }
 
-      // Track generation error
-      analytics.trackError(errorMessage, 'name_generation', {
-        planType: formData.planType,
-        gender: formData.gender,
-        generationTime,
-        isAuthenticated: !!user,
-      });
+    // Save form data to localStorage for future use
+    const { planType: _planType, ...fieldsToSave } = formData;
+    saveFormData(fieldsToSave);
 
-      toast({
-        title: "Generation failed",
-        description: errorMessage,
-      });
-    } finally {
-      setIsGenerating(false);
-    }
+    // Navigate to results page
+    router.push('/results');
   };
 
 
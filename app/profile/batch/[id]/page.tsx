@@ -18,21 +18,8 @@ import {
   ChevronRight,
 } from "lucide-react";
 import NameCard from "@/components/product/results/name-card";
-
-interface NameData {
-  chinese: string;
-  pinyin: string;
-  characters: Array<{
-    character: string;
-    pinyin: string;
-    meaning: string;
-    explanation: string;
-  }>;
-  meaning: string;
-  culturalNotes: string;
-  personalityMatch: string;
-  style: string;
-}
+import NameSortSelect, { sortNames, type NameSortOrder } from "@/components/product/results/name-sort-select";
+import type { NameData } from "@/types/chinese-names";
 
 interface BatchDetails {
   id: string;
@@ -69,6 +56,7 @@ export default function BatchDetailsPage({ params }: BatchDetailsPageProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [isLoadingRound, setIsLoadingRound] = useState(false);
   const [likedNames, setLikedNames] = useState<Set<string>>(new Set());
+  const [sortOrder, setSortOrder] = useState<NameSortOrder>("generated");
 
   useEffect(() => {
     if (!loading && !user) {
@@ -147,7 +135,16 @@ export default function BatchDetailsPage({ params }: BatchDetailsPageProps) {
         meaning: name.meaning || '',
         culturalNotes: name.culturalNotes || name.cultural_notes || '',
         personalityMatch: name.personalityMatch || name.personality_match || '',
-        style: name.style || 'Standard'
+        style: name.style || 'Standard',
+        isFallback: name.isFallback || name.is_fallback || false,
+        fromCorpus: name.fromCorpus || name.from_corpus || false,
+        language: name.language || 'en',
+        phoneticScore: name.phoneticScore ?? name.phonetic_score ?? undefined,
+        baziAnalysis: name.baziAnalysis,
+        fiveGrids: name.fiveGrids,
+        traditional: name.traditional ?? undefined,
+        jyutping: name.jyutping ?? undefined,
+        wadeGiles: name.wadeGiles ?? name.wade_giles ?? undefined
       }));
   };
 
@@ -355,11 +352,16 @@ export default function BatchDetailsPage({ params }: BatchDetailsPageProps) {
           <div className="space-y-6">
             <div className="flex items-center justify-between">
               <h2 className="text-2xl font-bold">Generated Names</h2>
-              {totalRounds > 1 && (
-                <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                  Page {currentRound} of {totalRounds}
-                </div>
-              )}
+              <div className="flex items-center gap-4">
+                {names.some(name => name.fiveGrids) && (
+                  <NameSortSelect value={sortOrder} onChange={setSortOrder} />
+                )}
+                {totalRounds > 1 && (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    Page {currentRound} of {totalRounds}
+                  </div>
+                )}
+              </div>
             </div>
 
             {/* Pagination Controls */}
@@ -434,7 +436,7 @@ export default function BatchDetailsPage({ params }: BatchDetailsPageProps) {
                   <p className="text-muted-foreground">No names found for this generation.</p>
                 </div>
               ) : (
-                names.map((name, index) => (
+                sortNames(names, sortOrder).map((name, index) => (
                   <motion.div
                     key={name.chinese + index}
                     initial={{ opacity: 0, y: 20 }}
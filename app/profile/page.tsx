@@ -26,8 +26,11 @@ import {
   ChevronRight,
   Clock,
   Trash2,
-  AlertTriangle
+  AlertTriangle,
+  Columns3
 } from "lucide-react";
+import { loadCompareShortlist, toggleCompareShortlist } from "@/utils/compare-shortlist";
+import { MAX_COMPARE_NAMES } from "@/utils/chinese-names/compare";
 
 interface GenerationBatch {
   id: string;
@@ -77,6 +80,12 @@ export default function ProfilePage() {
   const [activeTab, setActiveTab] = useState("history");
   const [deletingBatchId, setDeletingBatchId] = useState<string | null>(null);
   const [batchToDelete, setBatchToDelete] = useState<GenerationBatch | null>(null);
+  // Ids shortlisted for the side-by-side comparison
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    setCompareIds(loadCompareShortlist());
+  }, []);
 
   useEffect(() => {
     if (!loading && !user) {
@@ -110,6 +119,19 @@ export default function ProfilePage() {
     }
   };
 
+  const handleToggleCompare = (nameId: string) => {
+    const next = toggleCompareShortlist(nameId);
+    if (!next) {
+      toast({
+        title: "Comparison is full",
+        description: `You can compare up to ${MAX_COMPARE_NAMES} names. Remove one first.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setCompareIds(next);
+  };
+
   const loadSavedNames = async () => {
     setIsLoadingSaved(true);
     try {
@@ -374,9 +396,22 @@ export default function ProfilePage() {
             <TabsContent value="saved" className="space-y-4">
               <div className="flex items-center justify-between">
                 <h2 className="text-2xl font-bold">Saved Names</h2>
-                <Badge variant="secondary">
-                  {savedNames.length} names total
-                </Badge>
+                <div className="flex items-center gap-2">
+                  {compareIds.length >= 2 && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => router.push(`/compare?ids=${compareIds.join(',')}`)}
+                      className="gap-2"
+                    >
+                      <Columns3 className="h-4 w-4" />
+                      Compare {compareIds.length}
+                    </Button>
+                  )}
+                  <Badge variant="secondary">
+                    {savedNames.length} names total
+                  </Badge>
+                </div>
               </div>
 
               {isLoadingSaved ? (
@@ -418,7 +453,20 @@ export default function ProfilePage() {
                         <CardHeader className="pb-3">
                           <div className="flex items-center justify-between">
                             <CardTitle className="text-xl font-serif">{name.chinese_name}</CardTitle>
-                            <Heart className="h-5 w-5 text-red-500 fill-current" />
+                            <div className="flex items-center gap-1">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className={`h-8 w-8 p-0 ${
+                                  compareIds.includes(name.id) ? 'text-primary' : 'text-muted-foreground hover:text-primary'
+                                }`}
+                                onClick={() => handleToggleCompare(name.id)}
+                                title={compareIds.includes(name.id) ? "Remove from comparison" : "Add to comparison"}
+                              >
+                                <Columns3 className="h-4 w-4" />
+                              </Button>
+                              <Heart className="h-5 w-5 text-red-500 fill-current" />
+                            </div>
                           </div>
                           <p className="text-muted-foreground">{name.pinyin}</p>
                         </CardHeader>
@@ -5,32 +5,15 @@ import { motion } from "framer-motion";
 import { useRouter } from "next/navigation";
 import { useUser } from "@/hooks/use-user";
 import { useToast } from "@/hooks/use-toast";
+import { useAnalytics } from "@/components/analytics-provider";
 
 import NamesGrid from "@/components/product/results/names-grid";
+import { GenerationRequestError } from "@/utils/chinese-names/stream";
+import { startGenerationJob, waitForGenerationJob } from "@/utils/chinese-names/jobs";
+import { fetchWithIdempotencyKey } from "@/utils/idempotency-key";
+import type { GenerateNameResponse, GenerationFormData, GenerationJob, NameData, RefineNameRequest } from "@/types/chinese-names";
 
-interface NameData {
-  chinese: string;
-  pinyin: string;
-  characters: Array<{
-    character: string;
-    pinyin: string;
-    meaning: string;
-    explanation: string;
-  }>;
-  meaning: string;
-  culturalNotes: string;
-  personalityMatch: string;
-  style: string;
-}
-
-interface FormData {
-  englishName: string;
-  gender: 'male' | 'female' | 'other';
-  birthYear?: string;
-  personalityTraits?: string;
-  namePreferences?: string;
-  planType: '1' | '4';
-}
+type FormData = GenerationFormData;
 
 interface SessionData {
   names: NameData[];
@@ -39,12 +22,15 @@ interface SessionData {
   generationRound: number;
   totalGenerationRounds: number;
   isHistoryMode: boolean;
+  // Set by the homepage form; the generation is streamed once this page loads
+  pendingRequest?: FormData | null;
 }
 
 export default function ResultsPage() {
   const router = useRouter();
   const { user, loading } = useUser();
   const { toast } = useToast();
+  const analytics = useAnalytics();
   
   const [generatedNames, setGeneratedNames] = useState<NameData[]>([]);
   
@@ -58,16 +44,33 @@ export default function ResultsPage() {
   
   // UI state
   const [isGenerating, setIsGenerating] = useState(false);
+  const [expectedNameCount, setExpectedNameCount] = useState(0);
   const [currentFormData, setCurrentFormData] = useState<FormData | null>(null);
   const [isLoadingHistory, setIsLoadingHistory] = useState(false);
   const [isDataLoaded, setIsDataLoaded] = useState(false);
+  const [pendingRequest, setPendingRequest] = useState<FormData | null>(null);
+  // Generation job still running when the page was (re)loaded
+  const [resumeJobId, setResumeJobId] = useState<string | null>(null);
 
   // Load data from sessionStorage on mount
   useEffect(() => {
     const loadSessionData = () => {
       try {
         const sessionDataStr = sessionStorage.getItem('nameGenerationResults');
+        const jobId = new URLSearchParams(window.location.search).get('job');
+
+        if (jobId) {
+          // A generation was running when the page was left; pick the job up again
+          setIsGenerating(true);
+          setResumeJobId(jobId);
+        }
+
         if (!sessionDataStr) {
+          if (jobId) {
+            setIsDataLoaded(true);
+            return;
+          }
+
           // No data found, redirect to home
           toast({
             title: "No data found",
@@ -89,6 +92,12 @@ export default function ResultsPage() {
         setIsInHistoryMode(sessionData.isHistoryMode || false);
         
         setIsDataLoaded(true);
+
+        if (sessionData.pendingRequest && !jobId) {
+          // Clear the pending request first so a refresh does not charge again
+          sessionStorage.setItem('nameGenerationResults', JSON.stringify({ ...sessionData, pendingRequest: null }));
+          setPendingRequest(sessionData.pendingRequest);
+        }
       } catch (error) {
         console.error('Failed to load session data:', error);
         toast({
@@ -119,6 +128,77 @@ export default function ResultsPage() {
     }
   }, [generatedNames, currentFormData, currentBatch, currentGenerationRound, totalGenerationRounds, isInHistoryMode, isDataLoaded]);
 
+  // Start the generation requested from the homepage form once auth state is known
+  useEffect(() => {
+    if (pendingRequest && !loading) {
+      setPendingRequest(null);
+      handleGenerate(pendingRequest, true);
+    }
+  }, [pendingRequest, loading]);
+
+  // Resume a job once auth state is known, so the job owner can be checked
+  useEffect(() => {
+    if (resumeJobId && !loading) {
+      setResumeJobId(null);
+      handleResumeJob(resumeJobId);
+    }
+  }, [resumeJobId, loading]);
+
+  // Poll a generation job, rendering names as they arrive. The job id stays in the
+  // URL while it runs so a refresh resumes the job instead of starting over.
+  const followJob = async (jobId: string, onProgress?: (job: GenerationJob) => void) => {
+    router.replace(`/results?job=${jobId}`, { scroll: false });
+    try {
+      return await waitForGenerationJob(jobId, (job) => {
+        setExpectedNameCount(job.expected);
+        setGeneratedNames(job.names);
+        onProgress?.(job);
+      });
+    } finally {
+      router.replace('/results', { scroll: false });
+    }
+  };
+
+  const applyGenerationResult = (data: GenerateNameResponse) => {
+    // Set current generated names
+    setGeneratedNames(data.names);
+
+    // Update batch and round information
+    if (data.batch) {
+      setCurrentBatch(data.batch);
+      setCurrentGenerationRound(data.generationRound);
+      // A new round is always the latest one; rounds differ in size (refinements add 3 names)
+      setTotalGenerationRounds(data.generationRound);
+    }
+  };
+
+  const handleResumeJob = async (jobId: string) => {
+    setIsGenerating(true);
+
+    try {
+      const data = await followJob(jobId, (job) => {
+        // The session may be gone (e.g. a new tab); the job knows its own request
+        setCurrentFormData(prev => prev ?? job.request);
+        setIsInHistoryMode(false);
+      });
+      applyGenerationResult(data);
+
+      toast({
+        title: data.message || "Names generated successfully!",
+        description: `Generated ${data.names.length} unique Chinese names${data.creditsUsed ? ` using ${data.creditsUsed} credits` : ' for free'}`,
+      });
+    } catch (error) {
+      console.error('Failed to resume generation:', error);
+      toast({
+        title: "Generation failed",
+        description: error instanceof Error ? error.message : "Something went wrong. Please try again.",
+      });
+    } finally {
+      setIsGenerating(false);
+      setExpectedNameCount(0);
+    }
+  };
+
   const handleRegenerate = async () => {
     if (!currentFormData) return;
     // Always force new batch when regenerating from button
@@ -131,6 +211,35 @@ export default function ResultsPage() {
     await handleGenerate(currentFormData, false);
   };
 
+  // "More like this": variants of a saved name, added to its batch as a new round
+  const handleRefine = async (request: RefineNameRequest) => {
+    try {
+      const response = await fetchWithIdempotencyKey('/api/chinese-names/refine', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}: Failed to refine name`);
+      }
+
+      applyGenerationResult(data as GenerateNameResponse);
+      toast({
+        title: data.message || "Variants generated!",
+        description: `Generated ${data.names.length} variants${data.creditsUsed ? ` using ${data.creditsUsed} credit` : ''}`,
+      });
+    } catch (error) {
+      console.error('Refinement error:', error);
+      toast({
+        title: "Refinement failed",
+        description: error instanceof Error ? error.message : "Something went wrong. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleGenerate = async (formData: FormData, forceNewBatch = false) => {
     setIsGenerating(true);
     
@@ -153,62 +262,60 @@ export default function ResultsPage() {
         batchId: !needsNewBatch ? currentBatch?.id : undefined
       };
 
-      const response = await fetch('/api/chinese-names/generate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
+      const startTime = Date.now();
 
-      const data = await response.json();
+      // Clear the grid and render names progressively as the job reports them
+      setGeneratedNames([]);
 
-      if (!response.ok) {
-        // Handle rate limiting specifically
-        if (response.status === 429 && data.rateLimited) {
-          toast({
-            title: "Daily limit reached",
-            description: data.error || "You can generate 3 free names per day. Please sign in for unlimited access!",
-          });
-          // Show sign-in option
-          setTimeout(() => {
-            router.push('/sign-in');
-          }, 3000);
-          return;
-        }
-        throw new Error(data.error || 'Failed to generate names');
-      }
+      const job = await startGenerationJob(requestBody);
+      setExpectedNameCount(job.expected);
 
-      // Set current generated names
-      setGeneratedNames(data.names);
-      
-      // Update batch and round information
-      if (data.batch) {
-        setCurrentBatch(data.batch);
-        setCurrentGenerationRound(data.generationRound);
-        
-        // Calculate total rounds based on total names / 6 (names per round)
-        const estimatedTotalRounds = data.isContinuation 
-          ? Math.ceil(data.batch.totalNamesGenerated / 6)
-          : data.generationRound;
-        
-        setTotalGenerationRounds(estimatedTotalRounds);
-      }
+      const data = await followJob(job.id);
+      applyGenerationResult(data);
+
+      analytics.trackNameGeneration({
+        planType: formData.planType,
+        nameCount: data.names.length,
+        gender: formData.gender,
+        isAuthenticated: !!user,
+        hasPersonalityTraits: !!(formData.personalityTraits && user),
+        generationTime: Date.now() - startTime,
+      });
 
       toast({
         title: data.message || "Names generated successfully!",
         description: `Generated ${data.names.length} unique Chinese names${data.creditsUsed ? ` using ${data.creditsUsed} credits` : ' for free'}`,
       });
     } catch (error) {
+      // Handle rate limiting specifically
+      if (error instanceof GenerationRequestError && error.status === 429 && error.data.rateLimited) {
+        toast({
+          title: "Daily limit reached",
+          description: error.message || "You can generate 3 free names per day. Please sign in for unlimited access!",
+        });
+        // Show sign-in option
+        setTimeout(() => {
+          router.push('/sign-in');
+        }, 3000);
+        return;
+      }
+
       console.error('Generation error:', error);
       const errorMessage = error instanceof Error ? error.message : "Something went wrong. Please try again.";
       console.error('Detailed error:', errorMessage);
+
+      analytics.trackError(errorMessage, 'name_generation', {
+        planType: formData.planType,
+        gender: formData.gender,
+        isAuthenticated: !!user,
+      });
       toast({
         title: "Generation failed",
         description: errorMessage,
       });
     } finally {
       setIsGenerating(false);
+      setExpectedNameCount(0);
     }
   };
 
@@ -226,9 +333,20 @@ export default function ResultsPage() {
       newForm.englishName !== oldForm.englishName ||
       newForm.gender !== oldForm.gender ||
       newForm.birthYear !== oldForm.birthYear ||
+      newForm.birthDate !== oldForm.birthDate ||
+      newForm.birthTime !== oldForm.birthTime ||
+      newForm.birthTimezone !== oldForm.birthTimezone ||
       newForm.personalityTraits !== oldForm.personalityTraits ||
       newForm.namePreferences !== oldForm.namePreferences ||
-      newForm.planType !== oldForm.planType
+      newForm.planType !== oldForm.planType ||
+      newForm.generationMode !== oldForm.generationMode ||
+      newForm.surnameStrategy !== oldForm.surnameStrategy ||
+      newForm.surname !== oldForm.surname ||
+      newForm.familyName !== oldForm.familyName ||
+      newForm.outputLanguage !== oldForm.outputLanguage ||
+      JSON.stringify(newForm.constraints) !== JSON.stringify(oldForm.constraints) ||
+      JSON.stringify(newForm.family) !== JSON.stringify(oldForm.family) ||
+      JSON.stringify(newForm.brand) !== JSON.stringify(oldForm.brand)
     );
   };
 
@@ -270,7 +388,7 @@ export default function ResultsPage() {
   }
 
   // Show error if no names (shouldn't happen due to redirect, but just in case)
-  if (generatedNames.length === 0) {
+  if (generatedNames.length === 0 && !isGenerating) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="text-center space-y-6 max-w-md mx-auto">
@@ -330,6 +448,7 @@ export default function ResultsPage() {
               onRegenerate={handleRegenerate}
               onBackToForm={handleBackToForm}
               isGenerating={isGenerating}
+              pendingCount={isGenerating ? Math.max(0, expectedNameCount - generatedNames.filter(Boolean).length) : 0}
               // Batch-internal pagination props (for same batch, different rounds)
               currentPage={currentGenerationRound - 1} // Convert to 0-based index
               totalPages={totalGenerationRounds}
@@ -347,6 +466,8 @@ export default function ResultsPage() {
               // New props for continue generation
               showContinueGeneration={!isInHistoryMode && !!currentBatch}
               onContinueGeneration={handleContinueGeneration}
+              batchId={currentBatch?.id}
+              onRefine={handleRefine}
             />
           </div>
         </div>
@@ -29,6 +29,24 @@ import { useToast } from "@/hooks/use-toast";
 import { useUser } from "@/hooks/use-user";
 import { useSubscription } from "@/hooks/use-subscription";
 import { useCredits } from "@/hooks/use-credits";
+import { SURNAMES, findSurname } from "@/utils/chinese-names/surnames";
+import { OUTPUT_LANGUAGES } from "@/utils/chinese-names/languages";
+import { outputLanguageSchema } from "@/utils/chinese-names/schema";
+import {
+  TONE_CLASS_LABELS,
+  formatTonePattern,
+  hasConstraints,
+  parseCharacterList,
+  parseTonePattern,
+} from "@/utils/chinese-names/constraints";
+import type { GenerationFormData, GenerationMode, NameConstraints, OutputLanguage, SurnameStrategy } from "@/types/chinese-names";
+
+// 平仄 patterns offered for each given-name length ("*" leaves a position free)
+const TONE_PATTERN_OPTIONS: Record<string, string[]> = {
+  "1": ["平", "仄"],
+  "2": ["平平", "平仄", "仄平", "仄仄", "*平", "*仄"],
+  "3": ["平平仄", "平仄平", "仄平平", "仄仄平", "**平", "**仄"],
+};
 
 const formSchema = z.object({
   englishName: z.string().min(2, {
@@ -37,16 +55,56 @@ const formSchema = z.object({
   gender: z.enum(["male", "female", "other"], {
     required_error: "Please select a gender.",
   }),
-  birthYear: z.string().optional(),
+  birthDate: z.string().optional(),
+  birthTime: z.string().optional(),
+  birthTimezone: z.string().optional(),
   personalityTraits: z.string().optional(),
   namePreferences: z.string().optional(),
   planType: z.enum(["1", "4"], {
     required_error: "Please select a plan type.",
   }),
+  generationMode: z.enum(["meaning", "transliteration"]),
+  outputLanguage: outputLanguageSchema,
+  surnameStrategy: z.enum(["random", "fixed", "phonetic", "meaning"]),
+  surname: z.string().optional(),
+  familyName: z.string().optional(),
+  givenNameLength: z.enum(["any", "1", "2", "3"]),
+  requiredCharacters: z.string().optional(),
+  forbiddenCharacters: z.string().optional(),
+  allowedRadicals: z.string().optional(),
+  forbiddenRadicals: z.string().optional(),
+  tonePattern: z.string().optional(),
+}).refine((values) => values.surnameStrategy !== "fixed" || !!findSurname(values.surname), {
+  message: "Please choose a surname.",
+  path: ["surname"],
+}).refine((values) => !values.birthTime || !!values.birthDate, {
+  message: "Please add your birth date to use a birth time.",
+  path: ["birthDate"],
+}).refine((values) => values.givenNameLength === "any" || parseCharacterList(values.requiredCharacters).length <= Number(values.givenNameLength), {
+  message: "The given name is too short to include all of these characters.",
+  path: ["requiredCharacters"],
 });
 
+type FormValues = z.infer<typeof formSchema>;
+
+function toNameConstraints(values: FormValues): NameConstraints | undefined {
+  const constraints: NameConstraints = {
+    givenNameLength: values.givenNameLength === "any" ? undefined : Number(values.givenNameLength),
+    requiredCharacters: parseCharacterList(values.requiredCharacters),
+    forbiddenCharacters: parseCharacterList(values.forbiddenCharacters),
+    allowedRadicals: parseCharacterList(values.allowedRadicals),
+    forbiddenRadicals: parseCharacterList(values.forbiddenRadicals),
+    tonePattern: parseTonePattern(values.tonePattern),
+  };
+  return hasConstraints(constraints) ? constraints : undefined;
+}
+
+function describeTonePattern(pattern: string): string {
+  return parseTonePattern(pattern).map((toneClass) => TONE_CLASS_LABELS[toneClass].english).join(", ");
+}
+
 interface NameGeneratorFormProps {
-  onGenerate: (data: z.infer<typeof formSchema>) => Promise<void>;
+  onGenerate: (data: GenerationFormData) => Promise<void>;
   isGenerating: boolean;
   hasTriedFree?: boolean;
   savedFormData?: any;
@@ -58,18 +116,38 @@ export default function NameGeneratorForm({ onGenerate, isGenerating, hasTriedFr
   const subscriptionData = useSubscription();
   const { credits: userCredits, loading: creditsLoading } = useCredits();
   
-  const form = useForm<z.infer<typeof formSchema>>({
+  const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       englishName: "",
       gender: "male",
-      birthYear: "",
+      birthDate: "",
+      birthTime: "",
+      birthTimezone: "",
       personalityTraits: "",
       namePreferences: "",
       planType: "1",
+      generationMode: "meaning",
+      outputLanguage: "en",
+      surnameStrategy: "random",
+      surname: "",
+      familyName: "",
+      givenNameLength: "any",
+      requiredCharacters: "",
+      forbiddenCharacters: "",
+      allowedRadicals: "",
+      forbiddenRadicals: "",
+      tonePattern: "",
     },
   });
 
+  // Default the birth timezone to the browser's (client-only, so it is set after mount)
+  useEffect(() => {
+    if (!form.getValues("birthTimezone")) {
+      form.setValue("birthTimezone", Intl.DateTimeFormat().resolvedOptions().timeZone);
+    }
+  }, [form]);
+
   // Load saved form data when component mounts or savedFormData changes
   useEffect(() => {
     if (savedFormData) {
@@ -77,10 +155,23 @@ export default function NameGeneratorForm({ onGenerate, isGenerating, hasTriedFr
       form.reset({
         englishName: savedFormData.englishName || "",
         gender: savedFormData.gender || "male",
-        birthYear: savedFormData.birthYear || "",
+        birthDate: savedFormData.birthDate || "",
+        birthTime: savedFormData.birthTime || "",
+        birthTimezone: savedFormData.birthTimezone || Intl.DateTimeFormat().resolvedOptions().timeZone,
         personalityTraits: savedFormData.personalityTraits || "",
         namePreferences: savedFormData.namePreferences || "",
         planType: "1", // Always default to standard
+        generationMode: savedFormData.generationMode || "meaning",
+        outputLanguage: savedFormData.outputLanguage || "en",
+        surnameStrategy: savedFormData.surnameStrategy || "random",
+        surname: savedFormData.surname || "",
+        familyName: savedFormData.familyName || "",
+        givenNameLength: savedFormData.constraints?.givenNameLength ? String(savedFormData.constraints.givenNameLength) as FormValues["givenNameLength"] : "any",
+        requiredCharacters: savedFormData.constraints?.requiredCharacters?.join("") || "",
+        forbiddenCharacters: savedFormData.constraints?.forbiddenCharacters?.join("") || "",
+        allowedRadicals: savedFormData.constraints?.allowedRadicals?.join("") || "",
+        forbiddenRadicals: savedFormData.constraints?.forbiddenRadicals?.join("") || "",
+        tonePattern: formatTonePattern(savedFormData.constraints?.tonePattern),
       });
       
       toast({
@@ -90,9 +181,19 @@ export default function NameGeneratorForm({ onGenerate, isGenerating, hasTriedFr
     }
   }, [savedFormData, form, toast]);
 
-  async function onSubmit(values: z.infer<typeof formSchema>) {
+  async function onSubmit(values: FormValues) {
+    const {
+      givenNameLength: _givenNameLength,
+      requiredCharacters: _requiredCharacters,
+      forbiddenCharacters: _forbiddenCharacters,
+      allowedRadicals: _allowedRadicals,
+      forbiddenRadicals: _forbiddenRadicals,
+      tonePattern: _tonePattern,
+      ...fields
+    } = values;
+
     try {
-      await onGenerate(values);
+      await onGenerate({ ...fields, constraints: toNameConstraints(values) });
     } catch (error) {
       toast({
         title: "Generation Failed",
@@ -110,6 +211,10 @@ export default function NameGeneratorForm({ onGenerate, isGenerating, hasTriedFr
     }
   };
 
+  const surnameStrategy = form.watch("surnameStrategy");
+  const selectedSurname = findSurname(form.watch("surname"));
+  const givenNameLength = form.watch("givenNameLength");
+
   // Check if user has enough credits
   const creditCost = parseInt(form.watch('planType') || '1');
   const currentCredits = userCredits?.remaining_credits || 0;
@@ -182,18 +287,101 @@ export default function NameGeneratorForm({ onGenerate, isGenerating, hasTriedFr
               </Select>
             </div>
 
-            {/* Birth Year Field */}
+            {/* Surname Field */}
+            <div className="space-y-2">
+              <Label className="text-base font-medium">Surname</Label>
+              <Select
+                onValueChange={(value) => form.setValue("surnameStrategy", value as SurnameStrategy)}
+                value={surnameStrategy}
+              >
+                <SelectTrigger className="h-12">
+                  <SelectValue placeholder="Choose how to pick your surname" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="random">Surprise me (common surnames)</SelectItem>
+                  <SelectItem value="phonetic">Sounds like my family name</SelectItem>
+                  <SelectItem value="meaning">Matches my personality and preferences</SelectItem>
+                  <SelectItem value="fixed">Let me choose</SelectItem>
+                </SelectContent>
+              </Select>
+
+              {surnameStrategy === "fixed" && (
+                <>
+                  <Select
+                    onValueChange={(value) => form.setValue("surname", value, { shouldValidate: true })}
+                    value={form.watch("surname") || undefined}
+                  >
+                    <SelectTrigger className="h-12">
+                      <SelectValue placeholder="Select a surname" />
+                    </SelectTrigger>
+                    <SelectContent className="max-h-72">
+                      {SURNAMES.map((entry) => (
+                        <SelectItem key={entry.surname} value={entry.surname}>
+                          {entry.surname} {entry.pinyin}{entry.compound ? " (compound)" : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {selectedSurname && (
+                    <p className="text-sm text-muted-foreground">{selectedSurname.origin}</p>
+                  )}
+                  {form.formState.errors.surname && (
+                    <p className="text-sm text-destructive">
+                      {form.formState.errors.surname.message}
+                    </p>
+                  )}
+                </>
+              )}
+
+              {surnameStrategy === "phonetic" && (
+                <Input
+                  id="familyName"
+                  placeholder="Family name, e.g. Smith (defaults to the last word of your name)"
+                  className="h-12"
+                  {...form.register("familyName")}
+                />
+              )}
+
+              {surnameStrategy === "meaning" && (
+                <p className="text-sm text-muted-foreground">
+                  We&apos;ll pick a surname whose meaning fits your personality traits and name preferences.
+                </p>
+              )}
+            </div>
+
+            {/* Birth Date Fields */}
             <div className="space-y-2">
-              <Label htmlFor="birthYear" className="text-base font-medium">
-                Birth Year (Optional)
+              <Label htmlFor="birthDate" className="text-base font-medium">
+                Birth Date & Time (Optional)
               </Label>
-              <Input
-                id="birthYear"
-                type="number"
-                placeholder="1990"
-                className="h-12"
-                {...form.register("birthYear")}
-              />
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                <Input
+                  id="birthDate"
+                  type="date"
+                  className="h-12"
+                  {...form.register("birthDate")}
+                />
+                <Input
+                  id="birthTime"
+                  type="time"
+                  className="h-12"
+                  {...form.register("birthTime")}
+                />
+                <Input
+                  id="birthTimezone"
+                  placeholder="Timezone, e.g. Asia/Shanghai"
+                  className="h-12"
+                  {...form.register("birthTimezone")}
+                />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Used for a BaZi (八字) Five Elements reading, so your name can add the elements your birth chart lacks.
+              </p>
+              {form.formState.errors.birthDate && (
+                <p className="text-sm text-destructive">
+                  {form.formState.errors.birthDate.message}
+                </p>
+              )}
             </div>
 
             {/* Personality Traits Field */}
@@ -228,6 +416,122 @@ export default function NameGeneratorForm({ onGenerate, isGenerating, hasTriedFr
               />
             </div>
 
+            {/* Given Name Rules */}
+            <div className="space-y-2">
+              <Label className="text-base font-medium">Given Name Rules (Optional)</Label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <Select
+                  onValueChange={(value) => {
+                    form.setValue("givenNameLength", value as FormValues["givenNameLength"]);
+                    form.setValue("tonePattern", "");
+                  }}
+                  value={givenNameLength}
+                >
+                  <SelectTrigger className="h-12">
+                    <SelectValue placeholder="Given name length" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any length</SelectItem>
+                    <SelectItem value="1">Single character</SelectItem>
+                    <SelectItem value="2">Two characters</SelectItem>
+                    <SelectItem value="3">Three characters</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select
+                  onValueChange={(value) => form.setValue("tonePattern", value === "any" ? "" : value)}
+                  value={form.watch("tonePattern") || "any"}
+                  disabled={givenNameLength === "any"}
+                >
+                  <SelectTrigger className="h-12">
+                    <SelectValue placeholder="Tone pattern (平仄)" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any tone pattern</SelectItem>
+                    {(TONE_PATTERN_OPTIONS[givenNameLength] || []).map((pattern) => (
+                      <SelectItem key={pattern} value={pattern}>
+                        {pattern} — {describeTonePattern(pattern)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  id="requiredCharacters"
+                  placeholder="Must include, e.g. 安"
+                  className="h-12"
+                  {...form.register("requiredCharacters")}
+                />
+                <Input
+                  id="forbiddenCharacters"
+                  placeholder="Never use, e.g. 伟"
+                  className="h-12"
+                  {...form.register("forbiddenCharacters")}
+                />
+                <Input
+                  id="allowedRadicals"
+                  placeholder="Only these radicals, e.g. 木 艹"
+                  className="h-12"
+                  {...form.register("allowedRadicals")}
+                />
+                <Input
+                  id="forbiddenRadicals"
+                  placeholder="Avoid radicals, e.g. 氵 (water)"
+                  className="h-12"
+                  {...form.register("forbiddenRadicals")}
+                />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Every name is checked against these rules and regenerated if it breaks one. 平 is a level tone (1st or 2nd), 仄 an oblique tone (3rd or 4th).
+              </p>
+              {form.formState.errors.requiredCharacters && (
+                <p className="text-sm text-destructive">
+                  {form.formState.errors.requiredCharacters.message}
+                </p>
+              )}
+            </div>
+
+            {/* Name Style Selection */}
+            <div className="space-y-4">
+              <Label className="text-base font-medium">Name Style</Label>
+              <RadioGroup
+                onValueChange={(value) => form.setValue("generationMode", value as GenerationMode)}
+                value={form.watch("generationMode")}
+                className="grid grid-cols-1 gap-2"
+              >
+                <div className="flex items-center space-x-2 px-4 py-3 bg-muted/50 rounded-lg hover:bg-muted/70 transition-colors">
+                  <RadioGroupItem value="meaning" id="mode-meaning" />
+                  <Label htmlFor="mode-meaning" className="font-medium cursor-pointer flex-grow">
+                    Chosen for meaning
+                  </Label>
+                </div>
+                <div className="flex items-center space-x-2 px-4 py-3 bg-muted/50 rounded-lg hover:bg-muted/70 transition-colors">
+                  <RadioGroupItem value="transliteration" id="mode-transliteration" />
+                  <Label htmlFor="mode-transliteration" className="font-medium cursor-pointer flex-grow">
+                    Sounds like my name (e.g. Catherine → 凯瑟琳)
+                  </Label>
+                </div>
+              </RadioGroup>
+            </div>
+
+            {/* Explanation Language */}
+            <div className="space-y-2">
+              <Label className="text-base font-medium">Explanation Language</Label>
+              <Select
+                onValueChange={(value) => form.setValue("outputLanguage", value as OutputLanguage)}
+                value={form.watch("outputLanguage")}
+              >
+                <SelectTrigger className="h-12">
+                  <SelectValue placeholder="Language of the name explanations" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(OUTPUT_LANGUAGES) as OutputLanguage[]).map((language) => (
+                    <SelectItem key={language} value={language}>
+                      {OUTPUT_LANGUAGES[language].nativeLabel}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             {/* Plan Type Selection */}
             <div className="space-y-4">
               <Label className="text-base font-medium">Generation Type</Label>
@@ -9,6 +9,7 @@ import { useRouter } from "next/navigation";
 import { useUser } from "@/hooks/use-user";
 import { useToast } from "@/hooks/use-toast";
 import { useState } from "react";
+import { fetchWithIdempotencyKey } from "@/utils/idempotency-key";
 
 interface PricingTier {
   id: string;
@@ -102,7 +103,8 @@ export default function ChineseNamePricing({ onScrollToForm }: ChineseNamePricin
     try {
       // Integration with the starter kit's payment system
       // This would use the existing Creem.io integration
-      const response = await fetch('/api/creem/create-checkout', {
+      // One key per click: a retried request reuses the checkout instead of opening another
+      const response = await fetchWithIdempotencyKey('/api/creem/create-checkout', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
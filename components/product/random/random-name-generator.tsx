@@ -24,6 +24,8 @@ import { Shuffle, Bookmark, BookmarkCheck } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useUser } from "@/hooks/use-user";
 import NameCard from "@/components/product/results/name-card";
+import { streamNameGeneration } from "@/utils/chinese-names/stream";
+import type { NameData } from "@/types/chinese-names";
 
 const formSchema = z.object({
   gender: z.enum(["male", "female", "neutral"], {
@@ -46,21 +48,6 @@ const formSchema = z.object({
   surnameInitial: z.string().optional(),
 });
 
-interface NameData {
-  chinese: string;
-  pinyin: string;
-  characters: Array<{
-    character: string;
-    pinyin: string;
-    meaning: string;
-    explanation: string;
-  }>;
-  meaning: string;
-  culturalNotes: string;
-  personalityMatch: string;
-  style: string;
-}
-
 // Error Boundary Component
 class NameCardErrorBoundary extends Component<
   { children: ReactNode; fallback?: ReactNode },
@@ -241,41 +228,21 @@ export default function RandomNameGenerator() {
 
         console.log('Calling API with:', requestBody);
 
-        const response = await fetch('/api/chinese-names/generate', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
+        // Stream names in so each card renders as soon as it is ready
+        const data = await streamNameGeneration(requestBody, {
+          onName: (name) => {
+            allNames = [...allNames, { ...name, style: values.style }];
+            setGeneratedNames(allNames);
           },
-          body: JSON.stringify(requestBody),
         });
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || `HTTP ${response.status}: Failed to generate names`);
-        }
-
-        const data = await response.json();
         console.log('API response:', data);
 
-        if (data.names && Array.isArray(data.names)) {
-          // Update style field to match our form values
-          const batchNames = data.names.map((name: NameData) => ({
-            ...name,
-            style: values.style
-          }));
-          
-          allNames = [...allNames, ...batchNames];
-          setGeneratedNames([...allNames]);
-
-          // Show progress toast
-          toast({
-            title: `Batch ${batch + 1}/${totalBatches} complete!`,
-            description: `Generated ${batchNames.length} names (${allNames.length}/${count} total)`,
-            duration: 2000,
-          });
-        } else {
-          throw new Error('Invalid response format from API');
-        }
+        // Show progress toast
+        toast({
+          title: `Batch ${batch + 1}/${totalBatches} complete!`,
+          description: `Generated ${data.names.length} names (${allNames.length}/${count} total)`,
+          duration: 2000,
+        });
 
         // Add delay between batches to avoid rate limiting
         if (batch < totalBatches - 1) {
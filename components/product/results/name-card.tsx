@@ -11,24 +11,12 @@ import {
   CardTitle 
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Heart, Eye, Volume2, FileText } from "lucide-react";
+import { Heart, Eye, Volume2, FileText, Wand2, Columns3 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useUser } from "@/hooks/use-user";
-
-interface NameData {
-  chinese: string;
-  pinyin: string;
-  characters: Array<{
-    character: string;
-    pinyin: string;
-    meaning: string;
-    explanation: string;
-  }>;
-  meaning: string;
-  culturalNotes: string;
-  personalityMatch: string;
-  style: string;
-}
+import { formatFiveGrids } from "@/utils/chinese-names/five-grids";
+import { fetchWithIdempotencyKey } from "@/utils/idempotency-key";
+import type { NameData } from "@/types/chinese-names";
 
 interface NameCardProps {
   name: NameData;
@@ -36,6 +24,11 @@ interface NameCardProps {
   isLiked: boolean;
   onSelect: () => void;
   onLike: () => void;
+  // Opens the "more like this" refinement; only saved names (with an id) can be refined
+  onRefine?: () => void;
+  // Shortlist for the side-by-side comparison; also needs a saved name id
+  isShortlisted?: boolean;
+  onToggleCompare?: () => void;
   enableVoicePlayback?: boolean; // Control whether to show voice playback
 }
 
@@ -45,6 +38,9 @@ export default function NameCard({
   isLiked,
   onSelect, 
   onLike,
+  onRefine,
+  isShortlisted = false,
+  onToggleCompare,
   enableVoicePlayback = true 
 }: NameCardProps) {
   const { toast } = useToast();
@@ -180,7 +176,7 @@ export default function NameCard({
         gender: user.user_metadata?.gender || 'other'
       };
 
-      const response = await fetch('/api/generate-pdf', {
+      const response = await fetchWithIdempotencyKey('/api/generate-pdf', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -260,7 +256,10 @@ export default function NameCard({
     culturalNotes: name?.culturalNotes || '',
     personalityMatch: name?.personalityMatch || '',
     style: name?.style || '',
-    characters: name?.characters || []
+    characters: name?.characters || [],
+    traditional: name?.traditional,
+    jyutping: name?.jyutping,
+    wadeGiles: name?.wadeGiles
   };
 
   const renderContent = () => {
@@ -288,7 +287,7 @@ export default function NameCard({
               )}
             </div>
             <div>
-              <h4 className="font-semibold text-sm text-foreground mb-2">Why It Suits You</h4>
+              <h4 className="font-semibold text-sm text-foreground mb-2">{name?.brand ? "Brand Fit" : "Why It Suits You"}</h4>
               <p className="text-sm text-muted-foreground leading-relaxed">
                 {isExpanded ? safeName.personalityMatch : truncateText(safeName.personalityMatch)}
               </p>
@@ -320,7 +319,11 @@ export default function NameCard({
                     {char.character}
                   </div>
                   <div className="flex-1 min-w-0">
-                    <div className="text-xs text-muted-foreground mb-1">{char.pinyin}</div>
+                    <div className="text-xs text-muted-foreground mb-1">
+                      {char.pinyin}
+                      {char.jyutping && ` · ${char.jyutping}`}
+                      {char.traditional && char.traditional !== char.character && ` · ${char.traditional}`}
+                    </div>
                     <div className="text-sm font-medium text-foreground mb-1">{char.meaning}</div>
                     {char.explanation && (
                       <div className="text-xs text-muted-foreground">
@@ -367,6 +370,35 @@ export default function NameCard({
                 {isExpanded ? 'Show less' : 'Read more'}
               </Button>
             )}
+            {name?.brand && (
+              <div className="space-y-2 pt-1">
+                <div>
+                  <h4 className="font-semibold text-sm text-foreground mb-1">Transliteration</h4>
+                  <p className="text-sm text-muted-foreground leading-relaxed">
+                    {name.brand.transliterationRationale}
+                  </p>
+                </div>
+                <div>
+                  <h4 className="font-semibold text-sm text-foreground mb-1">Connotation Check</h4>
+                  <p className="text-sm text-muted-foreground leading-relaxed">
+                    {name.brand.connotationCheck}
+                  </p>
+                </div>
+                {[
+                  { label: ".cn domain", check: name.brand.domain },
+                  { label: "WeChat ID", check: name.brand.wechat },
+                ].map(({ label, check }) => (
+                  <div key={label} className="flex items-start gap-2 text-xs" title={check.note}>
+                    <Badge variant={check.suitable ? "secondary" : "outline"} className="flex-shrink-0">
+                      {check.suitable ? "Suitable" : "Check"}
+                    </Badge>
+                    <span className="text-muted-foreground">
+                      {label}: <span className="font-mono text-foreground">{check.handle}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         );
     }
@@ -391,10 +423,34 @@ export default function NameCard({
       )}
 
       {/* Style badge */}
-      <div className="absolute top-3 left-3 z-10">
+      <div className="absolute top-3 left-3 z-10 flex gap-1">
         <Badge variant="secondary" className="bg-background/80 backdrop-blur-sm text-xs">
           {safeName.style}
         </Badge>
+        {name?.familyMember && (
+          <Badge variant="outline" className="bg-background/80 backdrop-blur-sm text-xs" title="Sibling name set">
+            Set {name.familyMember.set + 1} · {name.familyMember.englishName}
+          </Badge>
+        )}
+        {name?.fromCorpus ? (
+          <Badge variant="outline" className="bg-background/80 backdrop-blur-sm text-xs text-muted-foreground" title="Chosen from our curated name collection">
+            Curated
+          </Badge>
+        ) : name?.isFallback && (
+          <Badge variant="outline" className="bg-background/80 backdrop-blur-sm text-xs text-muted-foreground">
+            Placeholder
+          </Badge>
+        )}
+        {typeof name?.phoneticScore === 'number' && (
+          <Badge variant="outline" className="bg-background/80 backdrop-blur-sm text-xs" title="How closely this name sounds like your English name">
+            Sounds {name.phoneticScore}% alike
+          </Badge>
+        )}
+        {name?.fiveGrids && (
+          <Badge variant="outline" className="bg-background/80 backdrop-blur-sm text-xs" title={formatFiveGrids(name.fiveGrids)}>
+            五格 {name.fiveGrids.score}
+          </Badge>
+        )}
       </div>
 
       {/* Header - Fixed height */}
@@ -447,6 +503,15 @@ export default function NameCard({
           <div className="text-sm text-muted-foreground font-normal min-h-[1.25rem]">
             {safeName.pinyin}
           </div>
+          {(safeName.traditional || safeName.jyutping) && (
+            <div className="text-xs text-muted-foreground font-normal flex flex-wrap gap-x-3">
+              {safeName.traditional && safeName.traditional !== safeName.chinese && (
+                <span className="font-serif" title="Traditional Chinese">{safeName.traditional}</span>
+              )}
+              {safeName.jyutping && <span title="Cantonese (Jyutping)">{safeName.jyutping}</span>}
+              {safeName.wadeGiles && <span title="Wade-Giles">{safeName.wadeGiles}</span>}
+            </div>
+          )}
         </CardTitle>
       </CardHeader>
 
@@ -518,6 +583,36 @@ export default function NameCard({
                 )}
               </Button>
             )}
+            {user && onRefine && name?.id && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 text-muted-foreground hover:text-primary"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRefine();
+                }}
+                title="More like this (1 Credit)"
+              >
+                <Wand2 className="h-4 w-4" />
+              </Button>
+            )}
+            {user && onToggleCompare && name?.id && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className={`h-8 w-8 p-0 ${
+                  isShortlisted ? 'text-primary' : 'text-muted-foreground hover:text-primary'
+                }`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggleCompare();
+                }}
+                title={isShortlisted ? "Remove from comparison" : "Add to comparison"}
+              >
+                <Columns3 className="h-4 w-4" />
+              </Button>
+            )}
           </div>
           <Button
             variant="ghost"
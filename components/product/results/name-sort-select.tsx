@@ -0,0 +1,36 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { sortByFiveGrids } from "@/utils/chinese-names/five-grids";
+import type { NameData } from "@/types/chinese-names";
+
+export type NameSortOrder = "generated" | "fiveGrids";
+
+export function sortNames(names: NameData[], order: NameSortOrder): NameData[] {
+  return order === "fiveGrids" ? sortByFiveGrids(names) : names;
+}
+
+interface NameSortSelectProps {
+  value: NameSortOrder;
+  onChange: (value: NameSortOrder) => void;
+}
+
+export default function NameSortSelect({ value, onChange }: NameSortSelectProps) {
+  return (
+    <Select value={value} onValueChange={(order) => onChange(order as NameSortOrder)}>
+      <SelectTrigger className="h-9 w-[220px]">
+        <SelectValue placeholder="Sort names" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="generated">Sort: Generated order</SelectItem>
+        <SelectItem value="fiveGrids">Sort: Five Grids (五格) score</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
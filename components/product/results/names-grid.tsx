@@ -1,34 +1,27 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { motion } from "framer-motion";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
-import { ChevronLeft, ChevronRight, MoreHorizontal, Heart } from "lucide-react";
+import { ChevronLeft, ChevronRight, MoreHorizontal, Heart, Columns3 } from "lucide-react";
 import NameCard from "./name-card";
-
-interface NameData {
-  chinese: string;
-  pinyin: string;
-  characters: Array<{
-    character: string;
-    pinyin: string;
-    meaning: string;
-    explanation: string;
-  }>;
-  meaning: string;
-  culturalNotes: string;
-  personalityMatch: string;
-  style: string;
-}
+import NameSortSelect, { sortNames, type NameSortOrder } from "./name-sort-select";
+import RefineNameDialog from "./refine-name-dialog";
+import { loadCompareShortlist, toggleCompareShortlist } from "@/utils/compare-shortlist";
+import { MAX_COMPARE_NAMES } from "@/utils/chinese-names/compare";
+import type { NameData, NameFeedbackAction, RefineNameRequest } from "@/types/chinese-names";
 
 interface NamesGridProps {
   names: NameData[];
   onRegenerate: () => void;
   onBackToForm: () => void;
   isGenerating?: boolean;
+  // Number of names still streaming in; rendered as placeholders
+  pendingCount?: number;
   // Pagination props (now for batch-internal rounds)
   currentPage?: number;
   totalPages?: number;
@@ -46,6 +39,19 @@ interface NamesGridProps {
   // Continue generation props
   showContinueGeneration?: boolean;
   onContinueGeneration?: () => void;
+  // Saved batch of the names, used to record likes and selections
+  batchId?: string;
+  // "More like this" variants of a saved name; resolves once they are shown
+  onRefine?: (request: RefineNameRequest) => Promise<void>;
+}
+
+// Fire-and-forget: feedback only feeds the prompt version report
+function recordNameFeedback(batchId: string, chineseName: string, action: NameFeedbackAction, active = true) {
+  fetch(`/api/generation-batches/${batchId}/feedback`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ chineseName, action, active }),
+  }).catch(error => console.error("Failed to record name feedback:", error));
 }
 
 export default function NamesGrid({ 
@@ -53,6 +59,7 @@ export default function NamesGrid({
   onRegenerate, 
   onBackToForm, 
   isGenerating,
+  pendingCount = 0,
   currentPage = 0,
   totalPages = 1,
   onPageChange,
@@ -61,19 +68,38 @@ export default function NamesGrid({
   isHistoryView = false,
   currentBatchInfo,
   showContinueGeneration = false,
-  onContinueGeneration
+  onContinueGeneration,
+  batchId,
+  onRefine
 }: NamesGridProps) {
   const router = useRouter();
   const { toast } = useToast();
   const [selectedName, setSelectedName] = useState<string | null>(null);
   const [likedNames, setLikedNames] = useState<Set<string>>(new Set());
+  const [sortOrder, setSortOrder] = useState<NameSortOrder>("generated");
+  const [refiningName, setRefiningName] = useState<NameData | null>(null);
+  const [isRefining, setIsRefining] = useState(false);
+  // Ids shortlisted for comparison, across rounds and batches
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    setCompareIds(loadCompareShortlist());
+  }, []);
+
+  // Streaming leaves holes for names that have not arrived yet
+  const sortedNames = sortNames(names.filter(Boolean), sortOrder);
 
 
 
 
   const handleLike = (chinese: string) => {
     const newLikedNames = new Set(likedNames);
-    if (newLikedNames.has(chinese)) {
+    const wasLiked = newLikedNames.has(chinese);
+    if (isAuthenticated && batchId) {
+      recordNameFeedback(batchId, chinese, "like", !wasLiked);
+    }
+
+    if (wasLiked) {
       newLikedNames.delete(chinese);
       toast({
         title: "Name unliked",
@@ -91,12 +117,39 @@ export default function NamesGrid({
 
   const handleSelect = (chinese: string) => {
     setSelectedName(chinese);
+    if (isAuthenticated && batchId) {
+      recordNameFeedback(batchId, chinese, "select");
+    }
     toast({
       title: "Name selected!",
       description: `You selected ${chinese} as your Chinese name`,
     });
   };
 
+  const handleRefine = async (request: RefineNameRequest) => {
+    if (!onRefine) return;
+    setIsRefining(true);
+    try {
+      await onRefine(request);
+      setRefiningName(null);
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  const handleToggleCompare = (name: NameData) => {
+    if (!name.id) return;
+    const next = toggleCompareShortlist(name.id);
+    if (!next) {
+      toast({
+        title: "Comparison is full",
+        description: `You can compare up to ${MAX_COMPARE_NAMES} names. Remove one first.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setCompareIds(next);
+  };
 
   const handleSaveAllNames = async () => {
     if (!isAuthenticated) {
@@ -163,18 +216,27 @@ export default function NamesGrid({
                 Created: {new Date(currentBatchInfo.createdAt).toLocaleDateString()}
               </div>
             </>
+          ) : pendingCount > 0 ? (
+            <>
+              Crafting your names... {names.filter(Boolean).length} of {names.filter(Boolean).length + pendingCount} ready.
+            </>
           ) : (
             <>
               We've generated {names.length} unique names for you. Click on your favorite to select it.
             </>
           )}
         </motion.p>
-        
+
+        {names.some(name => name?.fiveGrids) && (
+          <div className="flex justify-center">
+            <NameSortSelect value={sortOrder} onChange={setSortOrder} />
+          </div>
+        )}
       </div>
 
       {/* Names Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {names.map((name, index) => (
+        {sortedNames.map((name, index) => (
           <motion.div
             key={name.chinese + index}
             initial={{ opacity: 0, y: 20 }}
@@ -188,9 +250,24 @@ export default function NamesGrid({
               isLiked={likedNames.has(name.chinese)}
               onSelect={() => handleSelect(name.chinese)}
               onLike={() => handleLike(name.chinese)}
+              onRefine={isAuthenticated && onRefine && !isGenerating ? () => setRefiningName(name) : undefined}
+              isShortlisted={!!name.id && compareIds.includes(name.id)}
+              onToggleCompare={isAuthenticated ? () => handleToggleCompare(name) : undefined}
             />
           </motion.div>
         ))}
+
+        {/* Placeholders for names that are still being generated */}
+        {Array.from({ length: pendingCount }, (_, index) => (
+          <motion.div
+            key={`pending-${index}`}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className="h-full"
+          >
+            <NameCardSkeleton />
+          </motion.div>
+        ))}
       </div>
 
       {/* Pagination Controls - Always show for authenticated users */}
@@ -312,6 +389,19 @@ export default function NamesGrid({
           </Button>
         )}
         
+        {/* Compare shortlisted names side by side */}
+        {isAuthenticated && compareIds.length >= 2 && (
+          <Button
+            onClick={() => router.push(`/compare?ids=${compareIds.join(',')}`)}
+            variant="outline"
+            size="lg"
+            className="border-primary text-primary hover:bg-primary hover:text-primary-foreground px-8"
+          >
+            <Columns3 className="h-4 w-4 mr-2" />
+            Compare {compareIds.length} Names
+          </Button>
+        )}
+
         {/* Save All Names Button for authenticated users */}
         {isAuthenticated && (
           <Button
@@ -340,6 +430,13 @@ export default function NamesGrid({
         </Button>
       </div>
 
+      <RefineNameDialog
+        name={refiningName}
+        isRefining={isRefining}
+        onOpenChange={(open) => !open && !isRefining && setRefiningName(null)}
+        onRefine={handleRefine}
+      />
+
       {/* Selected name display */}
       {selectedName && (
         <motion.div
@@ -361,4 +458,25 @@ export default function NamesGrid({
       )}
     </div>
   );
-}
\ No newline at end of file
+}
+
+function NameCardSkeleton() {
+  return (
+    <Card className="h-[500px] flex flex-col">
+      <CardContent className="p-6 pt-12 flex-1 space-y-4">
+        <Skeleton className="h-8 w-24" />
+        <Skeleton className="h-4 w-32" />
+        <div className="flex gap-2 pt-4">
+          <Skeleton className="h-6 w-16" />
+          <Skeleton className="h-6 w-16" />
+          <Skeleton className="h-6 w-20" />
+        </div>
+        <div className="space-y-2 pt-2">
+          <Skeleton className="h-4 w-full" />
+          <Skeleton className="h-4 w-5/6" />
+          <Skeleton className="h-4 w-2/3" />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { findNameSurname } from "@/utils/chinese-names/surnames";
+import { TONE_CLASS_LABELS, formatTonePattern, parseTonePattern } from "@/utils/chinese-names/constraints";
+import type { NameData, RefineNameRequest } from "@/types/chinese-names";
+
+interface RefineNameDialogProps {
+  // Name to refine; the dialog is open while it is set
+  name: NameData | null;
+  isRefining?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRefine: (request: RefineNameRequest) => void;
+}
+
+// Every 平/仄 combination for a given name of `length` characters
+function tonePatternOptions(length: number): string[] {
+  let patterns = [""];
+  for (let i = 0; i < length; i++) {
+    patterns = patterns.flatMap((pattern) => [pattern + TONE_CLASS_LABELS.ping.chinese, pattern + TONE_CLASS_LABELS.ze.chinese]);
+  }
+  return patterns;
+}
+
+export default function RefineNameDialog({ name, isRefining = false, onOpenChange, onRefine }: RefineNameDialogProps) {
+  const [keepPositions, setKeepPositions] = useState<number[]>([]);
+  const [tonePattern, setTonePattern] = useState("");
+  const [traditional, setTraditional] = useState<"same" | "more" | "less">("same");
+
+  // Start from a clean form for every name
+  useEffect(() => {
+    setKeepPositions([]);
+    setTonePattern("");
+    setTraditional("same");
+  }, [name?.id]);
+
+  const surnameLength = name ? findNameSurname(name.chinese)?.readings.length ?? 1 : 1;
+  const givenCharacters = (name?.characters || []).slice(surnameLength);
+
+  const toggleKeep = (position: number, keep: boolean) => {
+    setKeepPositions((current) => keep ? [...current, position] : current.filter((entry) => entry !== position));
+  };
+
+  const handleSubmit = () => {
+    if (!name?.id) return;
+    onRefine({
+      nameId: name.id,
+      keepPositions,
+      tonePattern: tonePattern ? parseTonePattern(tonePattern) : undefined,
+      traditional: traditional === "same" ? undefined : traditional,
+    });
+  };
+
+  return (
+    <Dialog open={!!name} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>More like {name?.chinese}</DialogTitle>
+          <DialogDescription>
+            Get 3 variants of this name, added to this batch as a new round (1 credit).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 py-2">
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Keep these characters</Label>
+            <div className="flex flex-wrap gap-4">
+              {givenCharacters.map((character, position) => (
+                <label key={position} className="flex items-center gap-2 cursor-pointer">
+                  <Checkbox
+                    checked={keepPositions.includes(position)}
+                    onCheckedChange={(checked) => toggleKeep(position, checked === true)}
+                    disabled={!keepPositions.includes(position) && keepPositions.length >= givenCharacters.length - 1}
+                  />
+                  <span className="font-serif text-lg">{character.character}</span>
+                  <span className="text-xs text-muted-foreground">{character.pinyin}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Tone pattern (平仄)</Label>
+            <Select onValueChange={(value) => setTonePattern(value === "any" ? "" : value)} value={tonePattern || "any"}>
+              <SelectTrigger>
+                <SelectValue placeholder="Keep the current tones" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any tone pattern</SelectItem>
+                {tonePatternOptions(givenCharacters.length).map((pattern) => (
+                  <SelectItem key={pattern} value={pattern}>
+                    {formatTonePattern(parseTonePattern(pattern))} — {parseTonePattern(pattern).map((toneClass) => TONE_CLASS_LABELS[toneClass].english).join(", ")}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Style</Label>
+            <Select onValueChange={(value) => setTraditional(value as typeof traditional)} value={traditional}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="same">Same style</SelectItem>
+                <SelectItem value="more">More traditional</SelectItem>
+                <SelectItem value="less">Less traditional</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isRefining}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isRefining || !name?.id}>
+            {isRefining ? (
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                Refining...
+              </div>
+            ) : (
+              "Generate Variants"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,8 @@
 import { ProductTier } from "@/types/subscriptions";
 
+// Features that also gate API behaviour, matched against the subscriber's tier
+export const BUSINESS_NAME_FEATURE = "Business name generation";
+
 export const SUBSCRIPTION_TIERS: ProductTier[] = [
   {
     name: "Starter",
@@ -47,7 +50,7 @@ export const SUBSCRIPTION_TIERS: ProductTier[] = [
       "Unlimited generations with priority processing",
       "AI-powered cultural consultation",
       "Family name generation",
-      "Business name generation",
+      BUSINESS_NAME_FEATURE,
       "Dedicated support",
       "Custom branding options",
       "API access for integrations",
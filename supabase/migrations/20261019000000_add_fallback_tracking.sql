@@ -0,0 +1,9 @@
+-- Track placeholder names used when the model output could not be repaired
+-- Fallback names are excluded from the credit charge, so they must be distinguishable in history
+
+ALTER TABLE public.generated_names
+ADD COLUMN IF NOT EXISTS is_fallback boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS generated_names_is_fallback_idx ON public.generated_names(batch_id) WHERE is_fallback;
+
+COMMENT ON COLUMN public.generated_names.is_fallback IS 'True when the AI output failed schema validation after all repair attempts and a placeholder name was stored instead.';
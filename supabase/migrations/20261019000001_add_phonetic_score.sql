@@ -0,0 +1,7 @@
+-- Sound-alike score for names generated in transliteration mode
+-- NULL for names generated by meaning, 0-100 otherwise
+
+ALTER TABLE public.generated_names
+ADD COLUMN IF NOT EXISTS phonetic_score smallint CHECK (phonetic_score BETWEEN 0 AND 100);
+
+COMMENT ON COLUMN public.generated_names.phonetic_score IS 'How closely the given name sounds like the English name (0-100); only set for transliteration mode.';
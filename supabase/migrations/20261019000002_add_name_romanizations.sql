@@ -0,0 +1,16 @@
+-- Traditional characters, Cantonese Jyutping and Wade-Giles for every name
+-- Derived offline from the bundled lexicon; NULL for rows saved before this change
+
+ALTER TABLE public.generated_names
+ADD COLUMN IF NOT EXISTS traditional text,
+ADD COLUMN IF NOT EXISTS jyutping text,
+ADD COLUMN IF NOT EXISTS wade_giles text;
+
+ALTER TABLE public.saved_names
+ADD COLUMN IF NOT EXISTS traditional text,
+ADD COLUMN IF NOT EXISTS jyutping text,
+ADD COLUMN IF NOT EXISTS wade_giles text;
+
+COMMENT ON COLUMN public.generated_names.traditional IS 'Traditional Chinese form of chinese_name, e.g. 張偉.';
+COMMENT ON COLUMN public.generated_names.jyutping IS 'Cantonese reading in Jyutping, one syllable per character, e.g. zoeng1 wai5.';
+COMMENT ON COLUMN public.generated_names.wade_giles IS 'Wade-Giles romanisation without tones, e.g. Chang Wei.';
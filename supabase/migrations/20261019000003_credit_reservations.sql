@@ -0,0 +1,213 @@
+-- Atomic credit reservations for paid generations
+-- Credits are taken in a single guarded UPDATE when a request starts, then either
+-- committed (optionally refunding the share of fallback names) or released in full
+-- when the request fails. Every step writes its credits_history row in the same
+-- transaction, so balance and history cannot drift apart.
+
+CREATE TABLE IF NOT EXISTS public.credit_reservations (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    customer_id uuid REFERENCES public.customers(id) ON DELETE CASCADE NOT NULL,
+    amount integer NOT NULL CHECK (amount > 0),
+    operation text NOT NULL,
+    status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'committed', 'released')),
+    refunded integer NOT NULL DEFAULT 0,
+    metadata jsonb DEFAULT '{}'::jsonb,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    settled_at timestamp with time zone
+);
+
+CREATE INDEX IF NOT EXISTS credit_reservations_customer_id_idx ON public.credit_reservations(customer_id);
+CREATE INDEX IF NOT EXISTS credit_reservations_pending_idx ON public.credit_reservations(created_at) WHERE status = 'pending';
+
+ALTER TABLE public.credit_reservations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own credit reservations" ON public.credit_reservations;
+CREATE POLICY "Users can view their own credit reservations"
+    ON public.credit_reservations FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.customers
+            WHERE id = credit_reservations.customer_id
+            AND user_id = auth.uid()
+        )
+    );
+
+GRANT ALL ON public.credit_reservations TO service_role;
+
+COMMENT ON TABLE public.credit_reservations IS 'Credits held for an in-flight request. pending rows older than the reservation timeout are released automatically on the next reservation.';
+
+-- Release a pending reservation and return its credits to the customer
+CREATE OR REPLACE FUNCTION public.release_credit_reservation(p_reservation_id uuid, p_reason text DEFAULT 'generation_failed')
+RETURNS boolean AS $$
+DECLARE
+    reservation public.credit_reservations%ROWTYPE;
+    credits_after integer;
+BEGIN
+    SELECT * INTO reservation
+    FROM public.credit_reservations cr
+    WHERE cr.id = p_reservation_id
+    FOR UPDATE;
+
+    -- Already committed or released: nothing to give back
+    IF NOT FOUND OR reservation.status <> 'pending' THEN
+        RETURN false;
+    END IF;
+
+    UPDATE public.customers c
+    SET credits = c.credits + reservation.amount,
+        updated_at = timezone('utc'::text, now())
+    WHERE c.id = reservation.customer_id
+    RETURNING c.credits INTO credits_after;
+
+    UPDATE public.credit_reservations
+    SET status = 'released',
+        refunded = reservation.amount,
+        settled_at = timezone('utc'::text, now())
+    WHERE id = reservation.id;
+
+    INSERT INTO public.credits_history (customer_id, amount, type, description, metadata)
+    VALUES (
+        reservation.customer_id,
+        reservation.amount,
+        'add',
+        reservation.operation || '_refund',
+        reservation.metadata || jsonb_build_object(
+            'operation', reservation.operation || '_refund',
+            'reservation_id', reservation.id,
+            'reason', p_reason,
+            'credits_before', credits_after - reservation.amount,
+            'credits_after', credits_after
+        )
+    );
+
+    RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Take credits for a request. Returns the reservation id, or NULL when the
+-- customer does not have enough credits. Reservations left pending by requests
+-- that died mid-flight are released first.
+CREATE OR REPLACE FUNCTION public.reserve_credits(
+    p_customer_id uuid,
+    p_amount integer,
+    p_operation text,
+    p_metadata jsonb DEFAULT '{}'::jsonb,
+    p_timeout interval DEFAULT interval '15 minutes'
+)
+RETURNS uuid AS $$
+DECLARE
+    stale_id uuid;
+    credits_after integer;
+    reservation_id uuid;
+BEGIN
+    IF p_amount <= 0 THEN
+        RAISE EXCEPTION 'Reservation amount must be positive, got %', p_amount;
+    END IF;
+
+    FOR stale_id IN
+        SELECT cr.id FROM public.credit_reservations cr
+        WHERE cr.customer_id = p_customer_id
+        AND cr.status = 'pending'
+        AND cr.created_at < timezone('utc'::text, now()) - p_timeout
+    LOOP
+        PERFORM public.release_credit_reservation(stale_id, 'reservation_timeout');
+    END LOOP;
+
+    -- The balance check and the deduction are one statement, so parallel requests cannot double-spend
+    UPDATE public.customers c
+    SET credits = c.credits - p_amount,
+        updated_at = timezone('utc'::text, now())
+    WHERE c.id = p_customer_id
+    AND c.credits >= p_amount
+    RETURNING c.credits INTO credits_after;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO public.credit_reservations (customer_id, amount, operation, metadata)
+    VALUES (p_customer_id, p_amount, p_operation, p_metadata)
+    RETURNING id INTO reservation_id;
+
+    INSERT INTO public.credits_history (customer_id, amount, type, description, metadata)
+    VALUES (
+        p_customer_id,
+        p_amount,
+        'subtract',
+        p_operation,
+        p_metadata || jsonb_build_object(
+            'operation', p_operation,
+            'reservation_id', reservation_id,
+            'credits_before', credits_after + p_amount,
+            'credits_after', credits_after
+        )
+    );
+
+    RETURN reservation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Keep a pending reservation, handing back p_refund of it (e.g. for fallback names).
+-- Returns the credits finally charged, or NULL when the reservation is no longer pending.
+CREATE OR REPLACE FUNCTION public.commit_credit_reservation(
+    p_reservation_id uuid,
+    p_refund integer DEFAULT 0,
+    p_metadata jsonb DEFAULT '{}'::jsonb
+)
+RETURNS integer AS $$
+DECLARE
+    reservation public.credit_reservations%ROWTYPE;
+    refund integer;
+    credits_after integer;
+BEGIN
+    SELECT * INTO reservation
+    FROM public.credit_reservations cr
+    WHERE cr.id = p_reservation_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR reservation.status <> 'pending' THEN
+        RETURN NULL;
+    END IF;
+
+    refund := LEAST(GREATEST(COALESCE(p_refund, 0), 0), reservation.amount);
+
+    IF refund > 0 THEN
+        UPDATE public.customers c
+        SET credits = c.credits + refund,
+            updated_at = timezone('utc'::text, now())
+        WHERE c.id = reservation.customer_id
+        RETURNING c.credits INTO credits_after;
+
+        INSERT INTO public.credits_history (customer_id, amount, type, description, metadata)
+        VALUES (
+            reservation.customer_id,
+            refund,
+            'add',
+            reservation.operation || '_refund',
+            reservation.metadata || p_metadata || jsonb_build_object(
+                'operation', reservation.operation || '_refund',
+                'reservation_id', reservation.id,
+                'credits_before', credits_after - refund,
+                'credits_after', credits_after
+            )
+        );
+    END IF;
+
+    UPDATE public.credit_reservations
+    SET status = 'committed',
+        refunded = refund,
+        metadata = reservation.metadata || p_metadata,
+        settled_at = timezone('utc'::text, now())
+    WHERE id = reservation.id;
+
+    RETURN reservation.amount - refund;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the server (service role) may move credits
+REVOKE EXECUTE ON FUNCTION public.reserve_credits(uuid, integer, text, jsonb, interval) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.commit_credit_reservation(uuid, integer, jsonb) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.release_credit_reservation(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.reserve_credits(uuid, integer, text, jsonb, interval) TO service_role;
+GRANT EXECUTE ON FUNCTION public.commit_credit_reservation(uuid, integer, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION public.release_credit_reservation(uuid, text) TO service_role;
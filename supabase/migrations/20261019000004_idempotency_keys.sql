@@ -0,0 +1,43 @@
+-- Idempotency keys for generate, checkout and PDF requests
+-- The first request with an Idempotency-Key header claims the key as "processing";
+-- its successful response is stored so a double click or a retry replays it instead
+-- of charging credits or creating a batch again. Rows expire after 24 hours.
+
+CREATE TABLE IF NOT EXISTS public.idempotency_keys (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    scope text NOT NULL,
+    owner text NOT NULL,
+    idempotency_key text NOT NULL,
+    request_hash text NOT NULL,
+    status text NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed')),
+    response jsonb,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    expires_at timestamp with time zone NOT NULL,
+    CONSTRAINT idempotency_keys_scope_owner_key UNIQUE (scope, owner, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idempotency_keys_expires_at_idx ON public.idempotency_keys(expires_at);
+
+-- Only the server reads and writes keys (service role bypasses RLS)
+ALTER TABLE public.idempotency_keys ENABLE ROW LEVEL SECURITY;
+GRANT ALL ON public.idempotency_keys TO service_role;
+
+COMMENT ON COLUMN public.idempotency_keys.owner IS 'User id, or ip:<address> for anonymous requests.';
+COMMENT ON COLUMN public.idempotency_keys.request_hash IS 'SHA-256 of the request payload; a key reused with a different payload is rejected.';
+COMMENT ON COLUMN public.idempotency_keys.response IS 'Stored response: status, headers, body and its encoding (json or base64).';
+
+-- Expired keys are reclaimed on reuse; this clears the rest (e.g. from a daily cron)
+CREATE OR REPLACE FUNCTION public.purge_expired_idempotency_keys()
+RETURNS integer AS $$
+DECLARE
+    deleted integer;
+BEGIN
+    DELETE FROM public.idempotency_keys
+    WHERE expires_at < timezone('utc'::text, now());
+    GET DIAGNOSTICS deleted = ROW_COUNT;
+    RETURN deleted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_idempotency_keys() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.purge_expired_idempotency_keys() TO service_role;
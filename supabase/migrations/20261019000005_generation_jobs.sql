@@ -0,0 +1,34 @@
+-- Asynchronous generation jobs
+-- POST /api/chinese-names/generate?async=1 answers with a job id and generates after the
+-- response is sent. Each name is appended to the job as soon as it is ready, so clients
+-- can poll GET /api/chinese-names/jobs/[id] for partial results and resume after a refresh.
+
+CREATE TABLE IF NOT EXISTS public.generation_jobs (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    -- NULL for anonymous (free) generations; those jobs are only reachable by id
+    user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+    request jsonb NOT NULL,
+    expected_count integer NOT NULL CHECK (expected_count > 0),
+    names jsonb NOT NULL DEFAULT '[]'::jsonb,
+    result jsonb,
+    error jsonb,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS generation_jobs_user_id_idx ON public.generation_jobs(user_id);
+CREATE INDEX IF NOT EXISTS generation_jobs_running_idx ON public.generation_jobs(updated_at) WHERE status = 'running';
+
+ALTER TABLE public.generation_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own generation jobs" ON public.generation_jobs;
+CREATE POLICY "Users can view their own generation jobs"
+    ON public.generation_jobs FOR SELECT
+    USING (auth.uid() = user_id);
+
+GRANT ALL ON public.generation_jobs TO service_role;
+
+COMMENT ON COLUMN public.generation_jobs.names IS 'Names generated so far, in batch order; grows while the job is running.';
+COMMENT ON COLUMN public.generation_jobs.result IS 'Generation summary (batch, round, credits) without the names, set when the job completes.';
+COMMENT ON COLUMN public.generation_jobs.error IS 'Error body ({ error, code }) when the job failed.';
@@ -0,0 +1,95 @@
+-- Prompt versions and per-version quality tracking
+-- Each batch records the prompt template version it was generated with. Likes, saves
+-- and selections on its names are stored in name_feedback and aggregated per version
+-- by prompt_version_report() for the admin report.
+
+ALTER TABLE public.generation_batches
+ADD COLUMN IF NOT EXISTS prompt_version text;
+
+CREATE INDEX IF NOT EXISTS generation_batches_prompt_version_idx ON public.generation_batches(prompt_version);
+
+COMMENT ON COLUMN public.generation_batches.prompt_version IS 'Prompt template version (utils/chinese-names/prompts.ts) used for this batch; NULL for batches generated before versioning.';
+
+CREATE TABLE IF NOT EXISTS public.name_feedback (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    batch_id uuid REFERENCES public.generation_batches(id) ON DELETE CASCADE NOT NULL,
+    user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    chinese_name text NOT NULL,
+    action text NOT NULL CHECK (action IN ('like', 'save', 'select')),
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    CONSTRAINT name_feedback_unique_action UNIQUE (batch_id, user_id, chinese_name, action)
+);
+
+CREATE INDEX IF NOT EXISTS name_feedback_batch_id_idx ON public.name_feedback(batch_id);
+
+ALTER TABLE public.name_feedback ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own name feedback" ON public.name_feedback;
+CREATE POLICY "Users can view their own name feedback"
+    ON public.name_feedback FOR SELECT
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can add feedback on their own batches" ON public.name_feedback;
+CREATE POLICY "Users can add feedback on their own batches"
+    ON public.name_feedback FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM public.generation_batches
+            WHERE id = name_feedback.batch_id
+            AND user_id = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "Users can remove their own name feedback" ON public.name_feedback;
+CREATE POLICY "Users can remove their own name feedback"
+    ON public.name_feedback FOR DELETE
+    USING (auth.uid() = user_id);
+
+GRANT ALL ON public.name_feedback TO service_role;
+
+-- Batches, names and feedback per prompt version and plan type, optionally since a date
+CREATE OR REPLACE FUNCTION public.prompt_version_report(p_since timestamp with time zone DEFAULT NULL)
+RETURNS TABLE (
+    prompt_version text,
+    plan_type text,
+    batches bigint,
+    names bigint,
+    fallback_names bigint,
+    likes bigint,
+    saves bigint,
+    selections bigint
+) AS $$
+    WITH name_counts AS (
+        SELECT gn.batch_id,
+               count(*) AS names,
+               count(*) FILTER (WHERE gn.is_fallback) AS fallback_names
+        FROM public.generated_names gn
+        GROUP BY gn.batch_id
+    ),
+    feedback_counts AS (
+        SELECT nf.batch_id,
+               count(*) FILTER (WHERE nf.action = 'like') AS likes,
+               count(*) FILTER (WHERE nf.action = 'save') AS saves,
+               count(*) FILTER (WHERE nf.action = 'select') AS selections
+        FROM public.name_feedback nf
+        GROUP BY nf.batch_id
+    )
+    SELECT COALESCE(gb.prompt_version, 'unversioned') AS prompt_version,
+           gb.plan_type,
+           count(*) AS batches,
+           COALESCE(sum(nc.names), 0)::bigint AS names,
+           COALESCE(sum(nc.fallback_names), 0)::bigint AS fallback_names,
+           COALESCE(sum(fc.likes), 0)::bigint AS likes,
+           COALESCE(sum(fc.saves), 0)::bigint AS saves,
+           COALESCE(sum(fc.selections), 0)::bigint AS selections
+    FROM public.generation_batches gb
+    LEFT JOIN name_counts nc ON nc.batch_id = gb.id
+    LEFT JOIN feedback_counts fc ON fc.batch_id = gb.id
+    WHERE p_since IS NULL OR gb.created_at >= p_since
+    GROUP BY 1, 2
+    ORDER BY 1, 2;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.prompt_version_report(timestamp with time zone) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.prompt_version_report(timestamp with time zone) TO service_role;
@@ -0,0 +1,20 @@
+-- Family (sibling) naming
+-- A family generation stores several coordinated name sets in one batch. Each name
+-- records the set it belongs to and the sibling it was generated for; the siblings,
+-- the shared character, radical and theme are kept in generation_metadata.family.
+
+ALTER TABLE public.generated_names
+ADD COLUMN IF NOT EXISTS family_set integer,
+ADD COLUMN IF NOT EXISTS family_member integer;
+
+ALTER TABLE public.generated_names
+DROP CONSTRAINT IF EXISTS generated_names_family_position_check;
+ALTER TABLE public.generated_names
+ADD CONSTRAINT generated_names_family_position_check
+    CHECK ((family_set IS NULL) = (family_member IS NULL) AND COALESCE(family_set, 0) >= 0 AND COALESCE(family_member, 0) >= 0);
+
+CREATE INDEX IF NOT EXISTS generated_names_family_idx ON public.generated_names(batch_id, family_set, family_member)
+    WHERE family_set IS NOT NULL;
+
+COMMENT ON COLUMN public.generated_names.family_set IS 'Family mode: 0-based name set within the generation round; NULL for single-person batches.';
+COMMENT ON COLUMN public.generated_names.family_member IS 'Family mode: 0-based index of the sibling in generation_metadata.family.members.';
@@ -0,0 +1,9 @@
+-- Business and brand naming
+-- Brand batches keep the brand brief in generation_metadata.brand. Each brand name
+-- stores the model's transliteration rationale and connotation check together with
+-- the computed .cn domain and WeChat ID checks.
+
+ALTER TABLE public.generated_names
+ADD COLUMN IF NOT EXISTS brand_details jsonb;
+
+COMMENT ON COLUMN public.generated_names.brand_details IS 'Brand mode: transliterationRationale, connotationCheck, domain and wechat checks; NULL for personal names.';
@@ -0,0 +1,9 @@
+-- Curated name corpus
+-- When the model fails, or for anonymous users while no model is available, names
+-- are built from a bundled corpus of vetted characters and given names. Corpus
+-- names replacing a failed model call stay is_fallback and are not charged.
+
+ALTER TABLE public.generated_names
+ADD COLUMN IF NOT EXISTS from_corpus boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.generated_names.from_corpus IS 'True when the name was built from the curated name corpus instead of written by the model.';
@@ -0,0 +1,91 @@
+-- LLM token and cost accounting
+-- Every generation (anonymous ones included) records one llm_usage row: the models,
+-- calls, repair retries, tokens, latency and estimated cost of its LLM calls, next to
+-- the credits it charged. Saved names also keep the usage of the calls behind them.
+-- llm_cost_report() aggregates cost and margin per plan type, day and user for admins.
+
+CREATE TABLE IF NOT EXISTS public.llm_usage (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    -- NULL for anonymous (free) generations
+    user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    batch_id uuid REFERENCES public.generation_batches(id) ON DELETE SET NULL,
+    generation_round integer,
+    plan_type text NOT NULL,
+    models text[] NOT NULL DEFAULT '{}',
+    calls integer NOT NULL DEFAULT 0,
+    retries integer NOT NULL DEFAULT 0,
+    failed_calls integer NOT NULL DEFAULT 0,
+    provider_fallbacks integer NOT NULL DEFAULT 0,
+    prompt_tokens bigint NOT NULL DEFAULT 0,
+    completion_tokens bigint NOT NULL DEFAULT 0,
+    cost_usd numeric(12, 6) NOT NULL DEFAULT 0,
+    unpriced_calls integer NOT NULL DEFAULT 0,
+    latency_ms bigint NOT NULL DEFAULT 0,
+    credits_charged integer NOT NULL DEFAULT 0,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS llm_usage_created_at_idx ON public.llm_usage(created_at);
+CREATE INDEX IF NOT EXISTS llm_usage_user_id_idx ON public.llm_usage(user_id);
+CREATE INDEX IF NOT EXISTS llm_usage_batch_id_idx ON public.llm_usage(batch_id);
+
+-- Written and read with the service role only
+ALTER TABLE public.llm_usage ENABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON public.llm_usage TO service_role;
+
+COMMENT ON TABLE public.llm_usage IS 'LLM calls, tokens and estimated cost of one generation, with the credits it charged.';
+COMMENT ON COLUMN public.llm_usage.cost_usd IS 'Estimated from the model price table (utils/llm/usage.ts); calls to unpriced models are counted in unpriced_calls and cost nothing here.';
+COMMENT ON COLUMN public.llm_usage.retries IS 'Repair retries after invalid model output; provider_fallbacks counts providers that failed before one answered.';
+
+ALTER TABLE public.generated_names
+ADD COLUMN IF NOT EXISTS llm_usage jsonb;
+
+COMMENT ON COLUMN public.generated_names.llm_usage IS 'Usage of the LLM calls behind this name: models, calls, retries, tokens, costUsd, latencyMs; NULL for names generated before cost accounting.';
+
+-- Cost, credits charged and generations per plan type, per UTC day and per user
+-- (NULL user = anonymous), plus the overall total, optionally since a date
+CREATE OR REPLACE FUNCTION public.llm_cost_report(p_since timestamp with time zone DEFAULT NULL)
+RETURNS TABLE (
+    dimension text,
+    plan_type text,
+    day date,
+    user_id uuid,
+    generations bigint,
+    calls bigint,
+    retries bigint,
+    prompt_tokens bigint,
+    completion_tokens bigint,
+    cost_usd numeric,
+    unpriced_calls bigint,
+    credits_charged bigint
+) AS $$
+    WITH usage AS (
+        SELECT u.*, (u.created_at AT TIME ZONE 'utc')::date AS usage_day
+        FROM public.llm_usage u
+        WHERE p_since IS NULL OR u.created_at >= p_since
+    )
+    SELECT CASE
+               WHEN GROUPING(usage.plan_type) = 0 THEN 'plan'
+               WHEN GROUPING(usage.usage_day) = 0 THEN 'day'
+               WHEN GROUPING(usage.user_id) = 0 THEN 'user'
+               ELSE 'total'
+           END AS dimension,
+           usage.plan_type,
+           usage.usage_day AS day,
+           usage.user_id,
+           count(*) AS generations,
+           COALESCE(sum(usage.calls), 0)::bigint AS calls,
+           COALESCE(sum(usage.retries), 0)::bigint AS retries,
+           COALESCE(sum(usage.prompt_tokens), 0)::bigint AS prompt_tokens,
+           COALESCE(sum(usage.completion_tokens), 0)::bigint AS completion_tokens,
+           COALESCE(sum(usage.cost_usd), 0) AS cost_usd,
+           COALESCE(sum(usage.unpriced_calls), 0)::bigint AS unpriced_calls,
+           COALESCE(sum(usage.credits_charged), 0)::bigint AS credits_charged
+    FROM usage
+    GROUP BY GROUPING SETS ((usage.plan_type), (usage.usage_day), (usage.user_id), ())
+    ORDER BY 1, 3 DESC, 10 DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.llm_cost_report(timestamp with time zone) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.llm_cost_report(timestamp with time zone) TO service_role;
@@ -0,0 +1,29 @@
+-- LLM spend caps
+-- llm_spend_totals() sums the estimated LLM cost of the current UTC day and calendar
+-- month per traffic class (anonymous, standard, premium), which the generate API
+-- checks against the LLM_SPEND_CAPS ceilings before calling a model.
+
+CREATE OR REPLACE FUNCTION public.llm_spend_totals()
+RETURNS TABLE (
+    traffic_class text,
+    day_cost_usd numeric,
+    month_cost_usd numeric
+) AS $$
+    SELECT CASE
+               WHEN u.user_id IS NULL THEN 'anonymous'
+               WHEN u.plan_type = '4' THEN 'premium'
+               ELSE 'standard'
+           END AS traffic_class,
+           COALESCE(sum(u.cost_usd) FILTER (
+               WHERE u.created_at >= date_trunc('day', timezone('utc'::text, now())) AT TIME ZONE 'utc'
+           ), 0) AS day_cost_usd,
+           COALESCE(sum(u.cost_usd), 0) AS month_cost_usd
+    FROM public.llm_usage u
+    WHERE u.created_at >= date_trunc('month', timezone('utc'::text, now())) AT TIME ZONE 'utc'
+    GROUP BY 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.llm_spend_totals() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.llm_spend_totals() TO service_role;
+
+COMMENT ON FUNCTION public.llm_spend_totals() IS 'Estimated LLM cost of the current UTC day and month per traffic class: anonymous (no user), premium (plan 4) and standard.';
@@ -0,0 +1,15 @@
+-- Name explanations in the user's language
+-- Generated and saved names record the language their meaning, cultural notes,
+-- personality match and character explanations were written in. Saved names also
+-- keep translations into other languages, made on demand from the saved-names API.
+
+ALTER TABLE public.generated_names
+ADD COLUMN IF NOT EXISTS language text NOT NULL DEFAULT 'en';
+
+ALTER TABLE public.saved_names
+ADD COLUMN IF NOT EXISTS language text NOT NULL DEFAULT 'en',
+ADD COLUMN IF NOT EXISTS translations jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.generated_names.language IS 'Language of the explanations: en, es, fr, de or ja. Names built offline are always explained in English.';
+COMMENT ON COLUMN public.saved_names.language IS 'Language the explanations were written in: en, es, fr, de or ja.';
+COMMENT ON COLUMN public.saved_names.translations IS 'Translations of the explanations keyed by language, e.g. {"fr": {"meaning", "culturalNotes", "personalityMatch", "characters": [{"character", "meaning", "explanation"}]}}.';
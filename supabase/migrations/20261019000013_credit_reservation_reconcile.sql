@@ -0,0 +1,95 @@
+-- Reconciliation of credit reservations whose commit failed
+-- When the names were saved but committing the reservation keeps failing, the server
+-- moves it to 'reconcile' with the intended refund. Unlike 'pending', a reconcile row
+-- is never released as stale by reserve_credits, so a failed commit cannot turn into a
+-- full refund; commit_credit_reservation settles it later.
+
+ALTER TABLE public.credit_reservations
+DROP CONSTRAINT IF EXISTS credit_reservations_status_check;
+
+ALTER TABLE public.credit_reservations
+ADD CONSTRAINT credit_reservations_status_check CHECK (status IN ('pending', 'reconcile', 'committed', 'released'));
+
+CREATE INDEX IF NOT EXISTS credit_reservations_reconcile_idx ON public.credit_reservations(created_at) WHERE status = 'reconcile';
+
+COMMENT ON COLUMN public.credit_reservations.status IS 'pending while the request runs; reconcile when the names were saved but the commit failed (refunded holds the intended refund); committed or released once settled.';
+
+-- As before, but also settles reservations waiting for reconciliation. A NULL p_refund
+-- on a reconcile row keeps the refund recorded when it was flagged.
+CREATE OR REPLACE FUNCTION public.commit_credit_reservation(
+    p_reservation_id uuid,
+    p_refund integer DEFAULT 0,
+    p_metadata jsonb DEFAULT '{}'::jsonb
+)
+RETURNS integer AS $$
+DECLARE
+    reservation public.credit_reservations%ROWTYPE;
+    refund integer;
+    credits_after integer;
+BEGIN
+    SELECT * INTO reservation
+    FROM public.credit_reservations cr
+    WHERE cr.id = p_reservation_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR reservation.status NOT IN ('pending', 'reconcile') THEN
+        RETURN NULL;
+    END IF;
+
+    refund := LEAST(GREATEST(COALESCE(
+        p_refund,
+        CASE WHEN reservation.status = 'reconcile' THEN reservation.refunded END,
+        0
+    ), 0), reservation.amount);
+
+    IF refund > 0 THEN
+        UPDATE public.customers c
+        SET credits = c.credits + refund,
+            updated_at = timezone('utc'::text, now())
+        WHERE c.id = reservation.customer_id
+        RETURNING c.credits INTO credits_after;
+
+        INSERT INTO public.credits_history (customer_id, amount, type, description, metadata)
+        VALUES (
+            reservation.customer_id,
+            refund,
+            'add',
+            reservation.operation || '_refund',
+            reservation.metadata || p_metadata || jsonb_build_object(
+                'operation', reservation.operation || '_refund',
+                'reservation_id', reservation.id,
+                'credits_before', credits_after - refund,
+                'credits_after', credits_after
+            )
+        );
+    END IF;
+
+    UPDATE public.credit_reservations
+    SET status = 'committed',
+        refunded = refund,
+        metadata = reservation.metadata || p_metadata,
+        settled_at = timezone('utc'::text, now())
+    WHERE id = reservation.id;
+
+    RETURN reservation.amount - refund;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Flag a pending reservation for reconciliation, keeping the refund its commit should give
+CREATE OR REPLACE FUNCTION public.flag_credit_reservation_for_reconcile(
+    p_reservation_id uuid,
+    p_refund integer DEFAULT 0,
+    p_metadata jsonb DEFAULT '{}'::jsonb
+)
+RETURNS boolean AS $$
+    UPDATE public.credit_reservations
+    SET status = 'reconcile',
+        refunded = LEAST(GREATEST(COALESCE(p_refund, 0), 0), amount),
+        metadata = metadata || p_metadata
+    WHERE id = p_reservation_id
+    AND status = 'pending'
+    RETURNING true;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.flag_credit_reservation_for_reconcile(uuid, integer, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.flag_credit_reservation_for_reconcile(uuid, integer, jsonb) TO service_role;
@@ -0,0 +1,80 @@
+-- Prompt version per generation round
+-- Continued rounds of a batch may use a newer prompt than its first round, so each
+-- generated name records the version it was generated with. prompt_version_report()
+-- credits names and their feedback to that version, falling back to the batch's
+-- version for names generated before this column existed.
+
+ALTER TABLE public.generated_names
+ADD COLUMN IF NOT EXISTS prompt_version text;
+
+COMMENT ON COLUMN public.generation_batches.prompt_version IS 'Prompt template version (utils/chinese-names/prompts.ts) used for the first round of this batch; NULL for batches generated before versioning.';
+COMMENT ON COLUMN public.generated_names.prompt_version IS 'Prompt template version used for the round this name was generated in; NULL for names generated before per-round versioning (see generation_batches.prompt_version).';
+
+-- Batches, names and feedback per prompt version and plan type, optionally since a date.
+-- A batch whose rounds used different versions counts towards each of them.
+CREATE OR REPLACE FUNCTION public.prompt_version_report(p_since timestamp with time zone DEFAULT NULL)
+RETURNS TABLE (
+    prompt_version text,
+    plan_type text,
+    batches bigint,
+    names bigint,
+    fallback_names bigint,
+    likes bigint,
+    saves bigint,
+    selections bigint
+) AS $$
+    WITH versioned_names AS (
+        SELECT gn.batch_id,
+               gn.chinese_name,
+               gn.is_fallback,
+               gb.plan_type,
+               COALESCE(gn.prompt_version, gb.prompt_version, 'unversioned') AS prompt_version
+        FROM public.generated_names gn
+        JOIN public.generation_batches gb ON gb.id = gn.batch_id
+        WHERE p_since IS NULL OR gb.created_at >= p_since
+    ),
+    name_counts AS (
+        SELECT vn.prompt_version,
+               vn.plan_type,
+               count(DISTINCT vn.batch_id) AS batches,
+               count(*) AS names,
+               count(*) FILTER (WHERE vn.is_fallback) AS fallback_names
+        FROM versioned_names vn
+        GROUP BY 1, 2
+    ),
+    -- Feedback goes to the version of the round that produced the name
+    feedback_counts AS (
+        SELECT COALESCE(named.prompt_version, gb.prompt_version, 'unversioned') AS prompt_version,
+               gb.plan_type,
+               count(*) FILTER (WHERE nf.action = 'like') AS likes,
+               count(*) FILTER (WHERE nf.action = 'save') AS saves,
+               count(*) FILTER (WHERE nf.action = 'select') AS selections
+        FROM public.name_feedback nf
+        JOIN public.generation_batches gb ON gb.id = nf.batch_id
+        LEFT JOIN LATERAL (
+            SELECT vn.prompt_version
+            FROM versioned_names vn
+            WHERE vn.batch_id = nf.batch_id
+            AND vn.chinese_name = nf.chinese_name
+            LIMIT 1
+        ) named ON true
+        WHERE p_since IS NULL OR gb.created_at >= p_since
+        GROUP BY 1, 2
+    )
+    SELECT COALESCE(nc.prompt_version, fc.prompt_version) AS prompt_version,
+           COALESCE(nc.plan_type, fc.plan_type) AS plan_type,
+           COALESCE(nc.batches, 0)::bigint AS batches,
+           COALESCE(nc.names, 0)::bigint AS names,
+           COALESCE(nc.fallback_names, 0)::bigint AS fallback_names,
+           COALESCE(fc.likes, 0)::bigint AS likes,
+           COALESCE(fc.saves, 0)::bigint AS saves,
+           COALESCE(fc.selections, 0)::bigint AS selections
+    FROM name_counts nc
+    FULL OUTER JOIN feedback_counts fc
+        ON fc.prompt_version = nc.prompt_version
+        AND fc.plan_type = nc.plan_type
+    ORDER BY 1, 2;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.prompt_version_report(timestamp with time zone) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.prompt_version_report(timestamp with time zone) TO service_role;
@@ -0,0 +1,45 @@
+-- Credit reservations of asynchronous generation jobs
+-- A job remembers the reservation it was charged from. When the function running the job
+-- dies (e.g. at the route's maxDuration) the job stops making progress; the first poll that
+-- finds it stalled fails it and releases the reservation in one step, instead of leaving
+-- the job running and the credits held until the customer's next reservation.
+
+ALTER TABLE public.generation_jobs
+ADD COLUMN IF NOT EXISTS reservation_id uuid REFERENCES public.credit_reservations(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.generation_jobs.reservation_id IS 'Credit reservation charged for this job; NULL for free generations.';
+
+-- Fail a running job that has made no progress for p_stall_after and release its
+-- reservation. Returns false when the job is not stalled (or already settled).
+CREATE OR REPLACE FUNCTION public.fail_stalled_generation_job(
+    p_job_id uuid,
+    p_stall_after interval,
+    p_error jsonb
+)
+RETURNS boolean AS $$
+DECLARE
+    stalled_reservation_id uuid;
+BEGIN
+    UPDATE public.generation_jobs
+    SET status = 'failed',
+        error = p_error,
+        updated_at = timezone('utc'::text, now())
+    WHERE id = p_job_id
+    AND status = 'running'
+    AND updated_at < timezone('utc'::text, now()) - p_stall_after
+    RETURNING reservation_id INTO stalled_reservation_id;
+
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    IF stalled_reservation_id IS NOT NULL THEN
+        PERFORM public.release_credit_reservation(stalled_reservation_id, 'job_stalled');
+    END IF;
+
+    RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.fail_stalled_generation_job(uuid, interval, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.fail_stalled_generation_job(uuid, interval, jsonb) TO service_role;
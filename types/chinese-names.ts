@@ -0,0 +1,222 @@
+import type { z } from 'zod';
+import type {
+  baziAnalysisSchema,
+  brandDetailsSchema,
+  fiveElementSchema,
+  fiveGridsSchema,
+  gridLuckSchema,
+  nameCharacterSchema,
+  nameDataSchema,
+  nameTranslationSchema,
+  outputLanguageSchema,
+  refineNameInputSchema,
+} from '@/utils/chinese-names/schema';
+
+// Inferred from the shared zod schema in utils/chinese-names/schema.ts
+export type NameCharacter = z.infer<typeof nameCharacterSchema>;
+export type NameData = z.infer<typeof nameDataSchema>;
+export type FiveElement = z.infer<typeof fiveElementSchema>;
+export type BaziAnalysis = z.infer<typeof baziAnalysisSchema>;
+export type FiveGrids = z.infer<typeof fiveGridsSchema>;
+export type GridLuck = z.infer<typeof gridLuckSchema>;
+export type BrandDetails = z.infer<typeof brandDetailsSchema>;
+export type OutputLanguage = z.infer<typeof outputLanguageSchema>;
+export type NameTranslation = z.infer<typeof nameTranslationSchema>;
+
+export type PlanType = '1' | '4'; // 1 = Standard, 4 = Premium
+
+// random: a common surname per name, fixed: user's choice, phonetic: sounds like
+// the English family name, meaning: matches the user's traits and preferences
+export type SurnameStrategy = 'random' | 'fixed' | 'phonetic' | 'meaning';
+
+// meaning: characters chosen for meaning, transliteration: the given name sounds
+// like the English name (Catherine → 卡瑟琳), with meaning polished by the model
+export type GenerationMode = 'meaning' | 'transliteration';
+
+// 平 (level: tones 1 and 2) or 仄 (oblique: tones 3 and 4) for one given-name character
+export type ToneClass = 'ping' | 'ze' | 'any';
+
+// Hard rules for the given name; generated names that break one are regenerated
+export interface NameConstraints {
+  givenNameLength?: number; // 1-3 characters, surname not counted
+  requiredCharacters?: string[];
+  forbiddenCharacters?: string[];
+  allowedRadicals?: string[]; // every given-name character must use one of these
+  forbiddenRadicals?: string[];
+  tonePattern?: ToneClass[]; // one entry per given-name character, in order
+  fixedCharacters?: FixedCharacter[]; // characters locked to a given-name position
+}
+
+export interface FixedCharacter {
+  position: number; // 0-based, surname not counted
+  character: string;
+}
+
+// One child in a family (sibling) generation
+export interface FamilyMember {
+  englishName: string;
+  gender: 'male' | 'female' | 'other';
+  birthDate?: string; // YYYY-MM-DD
+  birthTime?: string; // HH:mm, local time at birth
+  birthTimezone?: string; // IANA zone, e.g. Asia/Shanghai
+}
+
+// Family mode: coordinated name sets for siblings, one name per member in each set
+export interface FamilyRequest {
+  members: FamilyMember[]; // 2-4 siblings
+  sharedCharacter?: FixedCharacter; // generation character (字辈) in every sibling's given name
+  sharedRadical?: string; // radical of each sibling's own given-name characters
+  theme?: string; // e.g. "松/竹" or "mountains and rivers"
+}
+
+// Brand mode: markets a brand name is checked for (characters, dialect readings)
+export type BrandMarket = 'mainland' | 'hong_kong' | 'taiwan' | 'singapore';
+
+// Business and brand mode: a Chinese name for a company or product instead of a person
+export interface BrandRequest {
+  englishBrandName: string; // the existing brand the Chinese name should echo
+  industry: string;
+  brandValues: string[]; // 1-5 values, e.g. "trust", "craftsmanship"
+  targetMarket: BrandMarket;
+}
+
+export interface GenerateNameRequest {
+  englishName: string;
+  gender: 'male' | 'female' | 'other';
+  birthYear?: string;
+  birthDate?: string; // YYYY-MM-DD
+  birthTime?: string; // HH:mm, local time at birth
+  birthTimezone?: string; // IANA zone, e.g. Asia/Shanghai
+  personalityTraits?: string;
+  namePreferences?: string;
+  planType: PlanType;
+  generationMode?: GenerationMode;
+  surnameStrategy?: SurnameStrategy;
+  surname?: string; // Chinese surname for the fixed strategy, e.g. 欧阳
+  familyName?: string; // English family name for the phonetic strategy
+  constraints?: NameConstraints;
+  family?: FamilyRequest;
+  brand?: BrandRequest;
+  outputLanguage?: OutputLanguage; // language of the explanations, English by default
+  // Batch continuation parameters
+  continueBatch?: boolean; // true if continuing existing batch
+  batchId?: string; // batch ID to continue
+  avoidSavedNames?: boolean; // also never repeat a name the user has saved
+}
+
+// Fields collected by the generator form (everything except batch continuation)
+export type GenerationFormData = Omit<GenerateNameRequest, 'continueBatch' | 'batchId'>;
+
+export interface GenerationBatchSummary {
+  id: string;
+  englishName: string;
+  gender: string;
+  planType: string;
+  totalNamesGenerated: number;
+  totalCreditsUsed: number;
+  createdAt: string;
+}
+
+export interface GenerateNameResponse {
+  names: NameData[];
+  total: number;
+  planType: PlanType;
+  creditsUsed: number;
+  // Credits returned because some names fell back to placeholders
+  creditsRefunded: number;
+  fallbackCount: number;
+  // Repeats of names already in the batch (or saved) that were replaced or dropped
+  duplicatesAvoided: number;
+  // Names left out because no acceptable offline replacement was left
+  namesDropped: number;
+  batchId: string | null;
+  generationRound: number;
+  isContinuation: boolean;
+  batch: GenerationBatchSummary | null;
+  message: string;
+}
+
+export type GenerationResultSummary = Omit<GenerateNameResponse, 'names'>;
+
+export interface GenerationErrorBody {
+  error: string;
+  userMessage?: string;
+  code?: string;
+}
+
+// Events emitted by the streaming mode of /api/chinese-names/generate
+export type GenerationStreamEvent =
+  | { type: 'start'; expected: number }
+  | { type: 'name'; index: number; name: NameData }
+  | { type: 'done'; result: GenerationResultSummary }
+  | { type: 'error'; error: GenerationErrorBody };
+
+export type GenerationJobStatus = 'running' | 'completed' | 'failed';
+
+// Async generation job, from /api/chinese-names/generate?async=1 and /api/chinese-names/jobs/[id]
+export interface GenerationJob {
+  id: string;
+  status: GenerationJobStatus;
+  expected: number;
+  // Names generated so far, in batch order
+  names: NameData[];
+  request: GenerationFormData;
+  result: GenerationResultSummary | null;
+  error: GenerationErrorBody | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NameFeedbackAction = 'like' | 'save' | 'select';
+
+// One row of the admin prompt version report
+export interface PromptVersionReportRow {
+  promptVersion: string;
+  planType: PlanType;
+  batches: number;
+  names: number;
+  fallbackNames: number;
+  likes: number;
+  saves: number;
+  selections: number;
+}
+
+// Totals of the admin LLM cost report for one plan type, day or user, or overall
+export interface LLMCostReportRow {
+  generations: number;
+  calls: number;
+  retries: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  // Calls to models without a known price, not included in costUsd
+  unpricedCalls: number;
+  creditsCharged: number;
+  // Credits charged at the credit value, less the LLM cost
+  revenueUsd: number;
+  marginUsd: number;
+  marginPercent: number | null; // null without revenue
+}
+
+// GET /api/admin/llm-costs
+export interface LLMCostReport {
+  since: string | null;
+  creditValueUsd: number;
+  total: LLMCostReportRow;
+  byPlan: (LLMCostReportRow & { planType: PlanType })[];
+  byDay: (LLMCostReportRow & { day: string })[];
+  // Most expensive users first; userId null for anonymous generations
+  byUser: (LLMCostReportRow & { userId: string | null })[];
+}
+
+// Body of POST /api/chinese-names/refine
+export type RefineNameRequest = z.input<typeof refineNameInputSchema>;
+
+// A saved (saved_names) or generated (generated_names) name on the comparison page
+export interface ComparedName extends NameData {
+  id: string;
+  source: 'saved' | 'generated';
+  // The user's saved copy of the name, through which it is selected as the winner
+  savedNameId: string | null;
+  isSelected: boolean;
+}
@@ -0,0 +1,10 @@
+import { getCachedEnvConfig } from "@/utils/env-config";
+
+/**
+ * Admins are configured by email in ADMIN_EMAILS; nobody is an admin by default
+ */
+export function isAdminUser(user: { email?: string | null } | null): boolean {
+  const email = user?.email?.toLowerCase();
+  if (!email) return false;
+  return getCachedEnvConfig().adminEmails.includes(email);
+}
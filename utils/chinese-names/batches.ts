@@ -0,0 +1,385 @@
+/**
+ * Persistence of generated names
+ * Shared by the generate and refine routes: batches, rounds within a batch,
+ * per-name rows and the analytics log.
+ */
+
+import { getTemperature } from '@/utils/chinese-names/generator';
+import { hasConstraints } from '@/utils/chinese-names/constraints';
+import type { createClient } from '@/utils/supabase/server';
+import type { GenerationBilling } from '@/utils/chinese-names/billing';
+import type { PromptTemplate } from '@/utils/chinese-names/prompts';
+import type { LLMProvider } from '@/utils/llm/providers';
+import { summarizeUsage, type LLMUsageTracker } from '@/utils/llm/usage';
+import { recordLLMUsage } from '@/utils/supabase/llm-usage';
+import type { NameRejection } from '@/utils/chinese-names/homophone-filter';
+import type { FiveGrids, GenerateNameRequest, GenerateNameResponse, NameData, PlanType } from '@/types/chinese-names';
+
+// Five Grids per name for generation_metadata, keyed by the Chinese name
+function getFiveGridsByName(names: NameData[]): Record<string, FiveGrids> {
+  const fiveGrids: Record<string, FiveGrids> = {};
+  for (const name of names) {
+    if (name.fiveGrids) fiveGrids[name.chinese] = name.fiveGrids;
+  }
+  return fiveGrids;
+}
+
+/**
+ * Chinese names a new round must not repeat: every name already in the user's
+ * batch `batchId` and, with `includeSaved`, every name the user has saved
+ */
+export async function loadExistingNames(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  userId: string,
+  batchId: string | undefined,
+  includeSaved: boolean
+): Promise<string[]> {
+  const names = new Set<string>();
+
+  if (batchId) {
+    const { data, error } = await supabase
+      .from('generated_names')
+      .select('chinese_name, generation_batches!inner(user_id)')
+      .eq('batch_id', batchId)
+      .eq('generation_batches.user_id', userId);
+
+    if (error) throw error;
+    for (const row of data || []) names.add(row.chinese_name);
+  }
+
+  if (includeSaved) {
+    const { data, error } = await supabase
+      .from('saved_names')
+      .select('chinese_name')
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    for (const row of data || []) names.add(row.chinese_name);
+  }
+
+  return Array.from(names);
+}
+
+export type SaveGenerationOutcome =
+  | { ok: true; response: GenerateNameResponse }
+  | { ok: false; status: number; body: { error: string } };
+
+/**
+ * Record the LLM usage of a generation however it ended, so callers run it in a
+ * `finally`: `saved` is the response once the names were saved and charged,
+ * linking the usage to its batch round, and null when they were not.
+ */
+export async function recordGenerationUsage(
+  user: { id: string } | null,
+  planType: PlanType,
+  usage: LLMUsageTracker,
+  saved: GenerateNameResponse | null
+): Promise<void> {
+  await recordLLMUsage({
+    userId: user?.id ?? null,
+    batchId: saved?.batchId ?? null,
+    generationRound: saved?.batchId ? saved.generationRound : null,
+    planType,
+    usage,
+    creditsCharged: saved?.creditsUsed ?? 0,
+  });
+}
+
+/**
+ * Save a generation for an authenticated user: a new batch, or a new round of
+ * `body.batchId` when `body.continueBatch` is set. Saved names carry their
+ * generated_names id. Anonymous generations are returned without saving. The
+ * caller records the LLM usage (see recordGenerationUsage).
+ */
+export async function saveGeneration(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  user: { id: string } | null,
+  body: GenerateNameRequest,
+  names: NameData[],
+  provider: LLMProvider,
+  promptTemplate: PromptTemplate,
+  billing: GenerationBilling,
+  rejections: NameRejection[],
+  duplicatesAvoided: number = 0,
+  namesDropped: number = 0,
+  usage?: LLMUsageTracker
+): Promise<SaveGenerationOutcome> {
+  const { englishName, gender, personalityTraits, namePreferences, planType, continueBatch, batchId } = body;
+  const birthYear = body.birthYear || body.birthDate?.slice(0, 4);
+
+  const continuing = !!(continueBatch && batchId);
+  const fallbackCount = names.filter(name => name.isFallback).length;
+  // Zero-cost generation: the whole round came from the name corpus without a model call
+  const offline = names.length > 0 && names.every(name => name.fromCorpus && !name.isFallback);
+
+  let resultBatchId: string | null = null;
+  let currentGenerationRound = 1;
+  let batch: any = null;
+  let savedNames = names;
+
+  // Names that were not stored must not be paid for: the caller releases the reservation
+  const saveFailed = (): SaveGenerationOutcome => {
+    return {
+      ok: false,
+      status: 500,
+      body: { error: 'Failed to save your names. No credits were charged; please try again.' },
+    };
+  };
+
+  if (user) {
+    try {
+      if (continuing) {
+        // CONTINUE EXISTING BATCH MODE
+        console.log('Continuing existing batch:', batchId);
+
+        // Verify batch exists and belongs to user
+        const { data: existingBatch, error: fetchBatchError } = await supabase
+          .from('generation_batches')
+          .select('*')
+          .eq('id', batchId)
+          .eq('user_id', user.id)
+          .single();
+
+        if (fetchBatchError || !existingBatch) {
+          console.error('Failed to find existing batch:', fetchBatchError);
+          return {
+            ok: false,
+            status: 400,
+            body: { error: 'Invalid batch ID or batch not found' },
+          };
+        }
+
+        batch = existingBatch;
+        resultBatchId = batch.id;
+
+        // Get the highest generation_round for this batch
+        const { data: maxRoundData, error: maxRoundError } = await supabase
+          .from('generated_names')
+          .select('generation_round')
+          .eq('batch_id', batchId)
+          .order('generation_round', { ascending: false })
+          .limit(1)
+          .single();
+
+        if (maxRoundError && maxRoundError.code !== 'PGRST116') { // PGRST116 = no rows found
+          console.error('Failed to get max generation round:', maxRoundError);
+        }
+
+        currentGenerationRound = (maxRoundData?.generation_round || 0) + 1;
+        console.log('Next generation round:', currentGenerationRound);
+
+      } else {
+        // CREATE NEW BATCH MODE
+        console.log('Creating new batch');
+
+        const { data: newBatch, error: batchError } = await supabase
+          .from('generation_batches')
+          .insert({
+            user_id: user.id,
+            english_name: englishName,
+            gender: gender,
+            birth_year: birthYear,
+            personality_traits: personalityTraits,
+            name_preferences: namePreferences,
+            plan_type: planType,
+            credits_used: billing.creditsCharged,
+            names_count: names.length,
+            prompt_version: promptTemplate.version,
+            generation_metadata: {
+              generation_timestamp: new Date().toISOString(),
+              ai_model: provider.model,
+              ai_provider: provider.name,
+              temperature: getTemperature(planType),
+              generation_mode: body.generationMode || 'meaning',
+              output_language: body.outputLanguage || 'en',
+              surname_strategy: body.surnameStrategy || 'random',
+              requested_surname: body.surname || null,
+              family_name: body.familyName || null,
+              birth_date: body.birthDate || null,
+              birth_time: body.birthTime || null,
+              birth_timezone: body.birthTimezone || null,
+              name_constraints: hasConstraints(body.constraints) ? body.constraints : null,
+              // Every name carries the same chart; keep one copy on the batch
+              bazi_analysis: body.family ? null : names[0]?.baziAnalysis || null,
+              // Family mode: the siblings and one chart per sibling instead
+              family: body.family ? {
+                ...body.family,
+                bazi_analyses: body.family.members.map((_, member) =>
+                  names.find(name => name.familyMember?.member === member)?.baziAnalysis ?? null
+                )
+              } : null,
+              // Brand mode: the brief the names were generated for
+              brand: body.brand || null,
+              five_grids: getFiveGridsByName(names),
+              rejected_names: rejections
+            }
+          })
+          .select()
+          .single();
+
+        if (batchError || !newBatch) {
+          console.error('Failed to create batch:', batchError);
+          return saveFailed();
+        }
+
+        batch = newBatch;
+        resultBatchId = batch.id;
+        currentGenerationRound = 1;
+      }
+
+      // Save individual names with generation_round
+      const namesToInsert = names.map((name, index) => ({
+        batch_id: resultBatchId,
+        chinese_name: name.chinese,
+        pinyin: name.pinyin,
+        characters: name.characters,
+        meaning: name.meaning,
+        cultural_notes: name.culturalNotes,
+        personality_match: name.personalityMatch,
+        style: name.style,
+        position_in_batch: index,
+        generation_round: currentGenerationRound,
+        // Later rounds may use a newer prompt than the batch's first round
+        prompt_version: promptTemplate.version,
+        is_fallback: name.isFallback || false,
+        from_corpus: name.fromCorpus || false,
+        language: name.language || 'en',
+        phonetic_score: name.phoneticScore ?? null,
+        traditional: name.traditional ?? null,
+        jyutping: name.jyutping ?? null,
+        wade_giles: name.wadeGiles ?? null,
+        family_set: name.familyMember?.set ?? null,
+        family_member: name.familyMember?.member ?? null,
+        brand_details: name.brand ?? null,
+        llm_usage: usage?.names.has(name.chinese) ? summarizeUsage(usage.names.get(name.chinese)!) : null
+      }));
+
+      console.log('About to insert names:', {
+        batchId: resultBatchId,
+        round: currentGenerationRound,
+        count: namesToInsert.length,
+        firstNameSample: namesToInsert[0]
+      });
+
+      const { data: insertedNames, error: namesError } = await supabase
+        .from('generated_names')
+        .insert(namesToInsert)
+        .select('id, position_in_batch');
+
+      if (namesError) {
+        console.error('Failed to save generated names:', namesError);
+        if (!continuing) {
+          // Don't leave an empty batch behind
+          await supabase.from('generation_batches').delete().eq('id', resultBatchId);
+          resultBatchId = null;
+        }
+        return saveFailed();
+      }
+
+      const idByPosition = new Map((insertedNames || []).map(row => [row.position_in_batch, row.id as string]));
+      savedNames = names.map((name, index) => ({ ...name, id: idByPosition.get(index) }));
+      console.log(`Successfully saved ${names.length} names to batch ${resultBatchId}, round ${currentGenerationRound}`);
+
+      if (continuing) {
+        // Update batch with new totals
+        const newNamesCount = (batch.names_count || 0) + names.length;
+        const newCreditsUsed = (batch.credits_used || 0) + billing.creditsCharged;
+
+        const generationMetadata = {
+          ...(batch.generation_metadata || {}),
+          five_grids: { ...(batch.generation_metadata?.five_grids || {}), ...getFiveGridsByName(names) },
+          rejected_names: [...(batch.generation_metadata?.rejected_names || []), ...rejections]
+        };
+
+        const { error: updateBatchError } = await supabase
+          .from('generation_batches')
+          .update({
+            names_count: newNamesCount,
+            credits_used: newCreditsUsed,
+            generation_metadata: generationMetadata,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', batchId);
+
+        if (updateBatchError) {
+          console.error('Failed to update batch totals:', updateBatchError);
+        } else {
+          // Update the batch object with new totals for the response
+          batch.names_count = newNamesCount;
+          batch.credits_used = newCreditsUsed;
+          batch.generation_metadata = generationMetadata;
+        }
+      }
+
+      // Also log to the existing analytics table
+      await supabase
+        .from('name_generation_logs')
+        .insert({
+          user_id: user.id,
+          plan_type: planType,
+          credits_used: billing.creditsCharged,
+          names_generated: names.length,
+          english_name: englishName,
+          gender: gender,
+          birth_year: birthYear,
+          has_personality_traits: !!(personalityTraits && user),
+          has_name_preferences: !!(namePreferences && user),
+          metadata: {
+            generation_details: {
+              name_count: names.length,
+              generation_timestamp: new Date().toISOString(),
+              batch_id: resultBatchId,
+              generation_round: currentGenerationRound,
+              is_continuation: continueBatch || false,
+              fallback_count: fallbackCount,
+              credits_refunded: billing.creditsRefunded,
+              duplicates_avoided: duplicatesAvoided,
+              names_dropped: namesDropped
+            }
+          }
+        });
+    } catch (error) {
+      console.error('Failed to save generation batch:', error);
+      return saveFailed();
+    }
+  }
+
+  return {
+    ok: true,
+    response: {
+      names: savedNames,
+      total: names.length,
+      planType,
+      creditsUsed: billing.creditsCharged,
+      creditsRefunded: billing.creditsRefunded,
+      fallbackCount,
+      duplicatesAvoided,
+      namesDropped,
+      batchId: resultBatchId,
+      generationRound: currentGenerationRound,
+      isContinuation: continueBatch || false,
+      batch: batch ? {
+        id: batch.id,
+        englishName: batch.english_name,
+        gender: batch.gender,
+        planType: batch.plan_type,
+        totalNamesGenerated: batch.names_count,
+        totalCreditsUsed: batch.credits_used,
+        createdAt: batch.created_at
+      } : null,
+      message: (continueBatch
+        ? `Generated ${names.length} more names for your batch (Round ${currentGenerationRound})!`
+        : `Generated ${names.length} unique Chinese names successfully!`) +
+        (offline ? ` These names come from our curated collection while AI naming is unavailable${user ? ', at no charge' : ''}.` : '') +
+        (fallbackCount > 0
+          ? ` Includes ${fallbackCount} ${names.every(name => !name.isFallback || name.fromCorpus) ? 'curated stand-in' : 'placeholder'} name${fallbackCount === 1 ? '' : 's'}${billing.creditsRefunded > 0 ? `; ${billing.creditsRefunded} credit${billing.creditsRefunded === 1 ? '' : 's'} refunded` : ''}.`
+          : '') +
+        (duplicatesAvoided > 0
+          ? ` Skipped ${duplicatesAvoided} repeat${duplicatesAvoided === 1 ? '' : 's'} of earlier names.`
+          : '') +
+        (namesDropped > 0
+          ? ` Left out ${namesDropped} name${namesDropped === 1 ? '' : 's'} with no suitable replacement.`
+          : '')
+    }
+  };
+}
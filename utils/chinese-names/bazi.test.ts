@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeBirthChart, formatPillars, getBirthInputError } from '@/utils/chinese-names/bazi';
+
+describe('analyzeBirthChart', () => {
+  it('computes the four pillars of a known chart', () => {
+    const chart = analyzeBirthChart({ birthDate: '2000-01-01', birthTime: '12:00', birthTimezone: 'Asia/Shanghai' });
+
+    expect(formatPillars(chart)).toBe('己卯 丙子 戊午 戊午');
+    expect(chart.dayMaster).toBe('earth');
+    expect(chart.elementCounts).toEqual({ wood: 1, fire: 3, earth: 3, metal: 0, water: 1 });
+    expect(chart.favourableElements).toEqual(['metal']);
+  });
+
+  it('starts the year at 立春 rather than on 1 January or the lunar new year', () => {
+    // 立春 fell on 4 February 1984
+    expect(formatPillars(analyzeBirthChart({ birthDate: '1984-02-03' })).split(' ')[0]).toBe('癸亥');
+    expect(formatPillars(analyzeBirthChart({ birthDate: '1984-02-05' })).split(' ')[0]).toBe('甲子');
+  });
+
+  it('omits the hour pillar without a birth time', () => {
+    expect(analyzeBirthChart({ birthDate: '1984-02-05' }).pillars.map(pillar => pillar.pillar)).toEqual(['year', 'month', 'day']);
+  });
+
+  it('moves to the next day at the 子 hour (23:00)', () => {
+    const evening = analyzeBirthChart({ birthDate: '2000-01-01', birthTime: '22:59', birthTimezone: 'Asia/Shanghai' });
+    const lateNight = analyzeBirthChart({ birthDate: '2000-01-01', birthTime: '23:00', birthTimezone: 'Asia/Shanghai' });
+    const nextDay = analyzeBirthChart({ birthDate: '2000-01-02', birthTime: '12:00', birthTimezone: 'Asia/Shanghai' });
+
+    expect(evening.pillars[2]).toEqual({ pillar: 'day', stem: '戊', branch: '午' });
+    expect(lateNight.pillars[2]).toEqual(nextDay.pillars[2]);
+  });
+});
+
+describe('getBirthInputError', () => {
+  it('accepts a full date and rejects an impossible one', () => {
+    expect(getBirthInputError({ birthDate: '2000-01-01' })).toBeUndefined();
+    expect(getBirthInputError({ birthDate: '2000-02-30' })).toBeDefined();
+  });
+});
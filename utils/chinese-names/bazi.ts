@@ -0,0 +1,196 @@
+/**
+ * BaZi (八字) and Five Elements analysis
+ * Computes the four pillars from a birth date, time and timezone, tallies the
+ * Five Elements of their stems and branches, and picks the elements a name
+ * should add to balance the chart.
+ */
+
+import { lookupCharacter } from '@/utils/chinese-names/lexicon';
+import type { BaziAnalysis, FiveElement, GenerateNameRequest } from '@/types/chinese-names';
+
+export const HEAVENLY_STEMS = ['甲', '乙', '丙', '丁', '戊', '己', '庚', '辛', '壬', '癸'];
+export const EARTHLY_BRANCHES = ['子', '丑', '寅', '卯', '辰', '巳', '午', '未', '申', '酉', '戌', '亥'];
+export const FIVE_ELEMENTS: FiveElement[] = ['wood', 'fire', 'earth', 'metal', 'water'];
+
+export const ELEMENT_LABELS: Record<FiveElement, { chinese: string; english: string }> = {
+  wood: { chinese: '木', english: 'Wood' },
+  fire: { chinese: '火', english: 'Fire' },
+  earth: { chinese: '土', english: 'Earth' },
+  metal: { chinese: '金', english: 'Metal' },
+  water: { chinese: '水', english: 'Water' },
+};
+
+const STEM_ELEMENTS: FiveElement[] = ['wood', 'wood', 'fire', 'fire', 'earth', 'earth', 'metal', 'metal', 'water', 'water'];
+const BRANCH_ELEMENTS: FiveElement[] = ['water', 'earth', 'wood', 'wood', 'earth', 'fire', 'fire', 'earth', 'metal', 'metal', 'earth', 'water'];
+
+// Radicals that give a character its element in traditional name analysis
+export const ELEMENT_RADICALS: Record<FiveElement, string[]> = {
+  wood: ['木', '艹', '竹', '禾', '米', '纟', '糸'],
+  fire: ['火', '灬', '日', '光', '心', '忄', '赤'],
+  earth: ['土', '山', '石', '田', '阝', '黄'],
+  metal: ['金', '钅', '王', '玉', '刂', '戈', '斤'],
+  water: ['氵', '水', '冫', '雨', '鱼', '川'],
+};
+
+const DEFAULT_TIMEZONE = 'UTC';
+
+// 1900-01-01 was a 甲戌 day, index 10 in the sixty-day cycle
+const DAY_CYCLE_EPOCH = Date.UTC(1900, 0, 1);
+const DAY_CYCLE_EPOCH_INDEX = 10;
+
+type BirthInput = Pick<GenerateNameRequest, 'birthDate' | 'birthTime' | 'birthTimezone'>;
+
+function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * User-facing reason the birth fields cannot be used, or undefined when they are valid
+ */
+export function getBirthInputError(input: BirthInput): string | undefined {
+  const dateMatch = input.birthDate?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!dateMatch) return 'Please enter your birth date as YYYY-MM-DD.';
+
+  const [year, month, day] = dateMatch.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day || year < 1900 || date.getTime() > Date.now()) {
+    return 'Please enter a real birth date between 1900 and today.';
+  }
+
+  if (input.birthTime && !/^([01]\d|2[0-3]):[0-5]\d$/.test(input.birthTime)) {
+    return 'Please enter your birth time as HH:mm (24-hour clock).';
+  }
+
+  if (input.birthTimezone && !isValidTimezone(input.birthTimezone)) {
+    return 'Please choose a valid timezone for your place of birth.';
+  }
+
+  return undefined;
+}
+
+// Minutes the zone is ahead of UTC at the given instant
+function getTimezoneOffset(timeZone: string, utcMillis: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(new Date(utcMillis));
+  const part = (type: string) => parseInt(parts.find(entry => entry.type === type)?.value || '0', 10);
+
+  const asUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'));
+  return Math.round((asUtc - utcMillis) / 60000);
+}
+
+function localTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): number {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  // Second pass settles births near a daylight-saving change
+  const firstGuess = wallClock - getTimezoneOffset(timeZone, wallClock) * 60000;
+  return wallClock - getTimezoneOffset(timeZone, firstGuess) * 60000;
+}
+
+/**
+ * Apparent solar longitude in degrees (low-precision formula from Meeus,
+ * accurate to about 0.01°, i.e. within minutes of each solar term)
+ */
+function solarLongitude(utcMillis: number): number {
+  // Julian centuries since J2000.0
+  const t = (utcMillis / 86400000 + 2440587.5 - 2451545) / 36525;
+  const meanLongitude = 280.46646 + 36000.76983 * t + 0.0003032 * t * t;
+  const meanAnomaly = ((357.52911 + 35999.05029 * t - 0.0001537 * t * t) * Math.PI) / 180;
+  const center =
+    (1.914602 - 0.004817 * t - 0.000014 * t * t) * Math.sin(meanAnomaly) +
+    (0.019993 - 0.000101 * t) * Math.sin(2 * meanAnomaly) +
+    0.000289 * Math.sin(3 * meanAnomaly);
+  const omega = ((125.04 - 1934.136 * t) * Math.PI) / 180;
+  const apparent = meanLongitude + center - 0.00569 - 0.00478 * Math.sin(omega);
+  return ((apparent % 360) + 360) % 360;
+}
+
+function mod(value: number, divisor: number): number {
+  return ((value % divisor) + divisor) % divisor;
+}
+
+/**
+ * Four pillars and Five Elements balance for a birth. Months start at the
+ * solar terms (立春 at 315° solar longitude opens the year), the day changes
+ * at 23:00 with the start of the 子 hour, and the hour pillar is omitted when
+ * no birth time is known. Expects input that passed getBirthInputError.
+ */
+export function analyzeBirthChart(input: BirthInput): BaziAnalysis {
+  const [year, month, day] = (input.birthDate || '').split('-').map(Number);
+  const hasTime = !!input.birthTime;
+  const [hour, minute] = hasTime ? (input.birthTime as string).split(':').map(Number) : [12, 0];
+  const timeZone = input.birthTimezone || DEFAULT_TIMEZONE;
+
+  // Solar month: 0 = 寅 month (立春 to 惊蛰) ... 11 = 丑 month (小寒 to 立春)
+  const longitude = solarLongitude(localTimeToUtc(year, month, day, hour, minute, timeZone));
+  const monthIndex = Math.floor(mod(longitude - 315, 360) / 30);
+
+  // Births in January or early February before 立春 belong to the previous year
+  const solarYear = month <= 2 && monthIndex >= 10 ? year - 1 : year;
+  const yearStem = mod(solarYear - 4, 10);
+  const yearBranch = mod(solarYear - 4, 12);
+
+  const monthStem = mod((yearStem % 5) * 2 + 2 + monthIndex, 10);
+  const monthBranch = mod(monthIndex + 2, 12);
+
+  const daysSinceEpoch = Math.round((Date.UTC(year, month - 1, day) - DAY_CYCLE_EPOCH) / 86400000);
+  const dayIndex = mod(DAY_CYCLE_EPOCH_INDEX + daysSinceEpoch + (hasTime && hour >= 23 ? 1 : 0), 60);
+  const dayStem = dayIndex % 10;
+  const dayBranch = dayIndex % 12;
+
+  const pillars: BaziAnalysis['pillars'] = [
+    { pillar: 'year', stem: HEAVENLY_STEMS[yearStem], branch: EARTHLY_BRANCHES[yearBranch] },
+    { pillar: 'month', stem: HEAVENLY_STEMS[monthStem], branch: EARTHLY_BRANCHES[monthBranch] },
+    { pillar: 'day', stem: HEAVENLY_STEMS[dayStem], branch: EARTHLY_BRANCHES[dayBranch] },
+  ];
+
+  if (hasTime) {
+    const hourBranch = Math.floor((hour + 1) / 2) % 12;
+    const hourStem = mod((dayStem % 5) * 2 + hourBranch, 10);
+    pillars.push({ pillar: 'hour', stem: HEAVENLY_STEMS[hourStem], branch: EARTHLY_BRANCHES[hourBranch] });
+  }
+
+  const elementCounts: BaziAnalysis['elementCounts'] = { wood: 0, fire: 0, earth: 0, metal: 0, water: 0 };
+  for (const { stem, branch } of pillars) {
+    elementCounts[STEM_ELEMENTS[HEAVENLY_STEMS.indexOf(stem)]]++;
+    elementCounts[BRANCH_ELEMENTS[EARTHLY_BRANCHES.indexOf(branch)]]++;
+  }
+
+  // Missing elements first; a chart with all five favours its weakest ones
+  const lowest = Math.min(...FIVE_ELEMENTS.map(element => elementCounts[element]));
+  const favourableElements = FIVE_ELEMENTS.filter(element => elementCounts[element] === lowest);
+
+  return {
+    pillars,
+    elementCounts,
+    dayMaster: STEM_ELEMENTS[dayStem],
+    favourableElements,
+  };
+}
+
+/**
+ * Element of a name character, from its radical
+ */
+export function getCharacterElement(character: string): FiveElement | undefined {
+  const radical = lookupCharacter(character)?.radical;
+  if (!radical) return undefined;
+  return FIVE_ELEMENTS.find(element => ELEMENT_RADICALS[element].includes(radical));
+}
+
+export function formatPillars(analysis: BaziAnalysis): string {
+  return analysis.pillars.map(({ stem, branch }) => `${stem}${branch}`).join(' ');
+}
+
+export function formatElements(elements: FiveElement[]): string {
+  return elements.map(element => `${ELEMENT_LABELS[element].english} (${ELEMENT_LABELS[element].chinese})`).join(', ');
+}
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { commitReservation, getGenerationBilling } from '@/utils/chinese-names/billing';
+import { commitCreditReservation, flagCreditReservationForReconcile } from '@/utils/supabase/subscriptions';
+import type { NameData } from '@/types/chinese-names';
+
+vi.mock('@/utils/supabase/subscriptions', () => ({
+  commitCreditReservation: vi.fn(),
+  flagCreditReservationForReconcile: vi.fn(),
+  releaseCreditReservation: vi.fn(),
+}));
+
+const names = (valid: number, fallback: number) => [
+  ...Array.from({ length: valid }, () => ({ isFallback: false })),
+  ...Array.from({ length: fallback }, () => ({ isFallback: true })),
+] as NameData[];
+
+describe('getGenerationBilling', () => {
+  it('charges in full when every name is real', () => {
+    expect(getGenerationBilling(4, names(6, 0), true)).toEqual({ creditsCharged: 4, creditsRefunded: 0 });
+  });
+
+  it('rounds partial charges to the nearest credit', () => {
+    // 1 credit for 6 names: one fallback still leaves 5/6 of a credit to charge
+    expect(getGenerationBilling(1, names(5, 1), true)).toEqual({ creditsCharged: 1, creditsRefunded: 0 });
+    expect(getGenerationBilling(1, names(3, 3), true)).toEqual({ creditsCharged: 1, creditsRefunded: 0 });
+    expect(getGenerationBilling(1, names(1, 5), true)).toEqual({ creditsCharged: 0, creditsRefunded: 1 });
+    expect(getGenerationBilling(4, names(5, 1), true)).toEqual({ creditsCharged: 3, creditsRefunded: 1 });
+  });
+
+  it('refunds the share of names dropped from the expected count', () => {
+    expect(getGenerationBilling(4, names(3, 0), true, 6)).toEqual({ creditsCharged: 2, creditsRefunded: 2 });
+  });
+
+  it('charges nothing for free generations', () => {
+    expect(getGenerationBilling(4, names(6, 0), false)).toEqual({ creditsCharged: 0, creditsRefunded: 0 });
+  });
+});
+
+describe('commitReservation', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.mocked(commitCreditReservation).mockReset();
+    vi.mocked(flagCreditReservationForReconcile).mockReset();
+  });
+
+  const billing = { creditsCharged: 3, creditsRefunded: 1 };
+
+  it('does nothing without a reservation', async () => {
+    await commitReservation(null, names(6, 0), billing);
+
+    expect(commitCreditReservation).not.toHaveBeenCalled();
+  });
+
+  it('retries a failed commit', async () => {
+    vi.mocked(commitCreditReservation)
+      .mockRejectedValueOnce(new Error('connection reset'))
+      .mockResolvedValueOnce(3);
+
+    const commit = commitReservation('reservation-1', names(5, 1), billing);
+    await vi.runAllTimersAsync();
+    await expect(commit).resolves.toBe(true);
+
+    expect(commitCreditReservation).toHaveBeenCalledTimes(2);
+    expect(commitCreditReservation).toHaveBeenLastCalledWith('reservation-1', 1, expect.objectContaining({ fallback_count: 1 }));
+    expect(flagCreditReservationForReconcile).not.toHaveBeenCalled();
+  });
+
+  it('flags the reservation for reconciliation when every commit fails', async () => {
+    vi.mocked(commitCreditReservation).mockRejectedValue(new Error('database unavailable'));
+    vi.mocked(flagCreditReservationForReconcile).mockResolvedValue(true);
+
+    const commit = commitReservation('reservation-1', names(5, 1), billing);
+    await vi.runAllTimersAsync();
+    await commit;
+
+    expect(commitCreditReservation).toHaveBeenCalledTimes(3);
+    expect(flagCreditReservationForReconcile).toHaveBeenCalledWith('reservation-1', 1, expect.objectContaining({ names_count: 6 }));
+  });
+
+  it('never throws, even when the reservation cannot be flagged', async () => {
+    vi.mocked(commitCreditReservation).mockRejectedValue(new Error('database unavailable'));
+    vi.mocked(flagCreditReservationForReconcile).mockRejectedValue(new Error('database unavailable'));
+
+    const commit = commitReservation('reservation-1', names(6, 0), billing);
+    await vi.runAllTimersAsync();
+
+    await expect(commit).resolves.toBe(true);
+  });
+
+  it('reports a reservation that was already settled', async () => {
+    vi.mocked(commitCreditReservation).mockResolvedValue(null);
+
+    await expect(commitReservation('reservation-1', names(6, 0), billing)).resolves.toBe(false);
+    expect(commitCreditReservation).toHaveBeenCalledTimes(1);
+    expect(flagCreditReservationForReconcile).not.toHaveBeenCalled();
+  });
+});
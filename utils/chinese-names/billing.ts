@@ -0,0 +1,110 @@
+/**
+ * Credit billing for name generation
+ * Credits are reserved before generating; once the names are saved the
+ * reservation is committed, refunding the share of fallback names, and it is
+ * released in full when the request fails. A commit that keeps failing is
+ * flagged for reconciliation rather than left to be released as stale.
+ */
+
+import { CREDITS_TIERS } from '@/config/subscriptions';
+import { commitCreditReservation, flagCreditReservationForReconcile, releaseCreditReservation } from '@/utils/supabase/subscriptions';
+import type { NameData } from '@/types/chinese-names';
+
+// Attempts to commit a reservation, and the pause before each retry
+const COMMIT_ATTEMPTS = 3;
+const COMMIT_RETRY_DELAY_MS = 250;
+
+export interface GenerationBilling {
+  creditsCharged: number;
+  creditsRefunded: number;
+}
+
+/**
+ * Charge only for names the model actually produced: the cost is split
+ * across the `expected` names and the share covering fallback names, and
+ * names dropped as duplicates, is refunded. The charge rounds to the nearest
+ * credit (half a credit or more is charged), so one fallback in a 1-credit
+ * batch of 6 does not make it free, while a mostly-fallback batch costs nothing.
+ */
+export function getGenerationBilling(creditCost: number, names: NameData[], charged: boolean, expected: number = names.length): GenerationBilling {
+  if (!charged) {
+    return { creditsCharged: 0, creditsRefunded: 0 };
+  }
+
+  const validCount = names.filter(name => !name.isFallback).length;
+  const slots = Math.max(expected, names.length);
+  const creditsCharged = slots > 0 ? Math.round((creditCost * validCount) / slots) : 0;
+  return { creditsCharged, creditsRefunded: creditCost - creditsCharged };
+}
+
+/**
+ * USD earned per credit charged: the lowest per-credit price among the credit
+ * packs, so margins computed from it are a lower bound
+ */
+export function getCreditValueUsd(): number {
+  const prices = CREDITS_TIERS
+    .filter(tier => tier.creditAmount)
+    .map(tier => parseFloat(tier.priceMonthly.replace(/[^0-9.]/g, '')) / tier.creditAmount!);
+  return prices.length > 0 ? Math.min(...prices) : 0;
+}
+
+/**
+ * Finalize the credit reservation once the names are saved, refunding the fallback share.
+ * Resolves to false when the reservation was already settled (e.g. released when its
+ * job stalled), so the names were not paid for.
+ */
+export async function commitReservation(reservationId: string | null, names: NameData[], billing: GenerationBilling): Promise<boolean> {
+  if (!reservationId) return true;
+
+  const metadata = {
+    reason: billing.creditsRefunded > 0 ? 'fallback_names' : undefined,
+    fallback_count: names.filter(name => name.isFallback).length,
+    names_count: names.length,
+  };
+  let lastError: unknown = null;
+
+  for (let attempt = 1; attempt <= COMMIT_ATTEMPTS; attempt++) {
+    let charged: number | null;
+    try {
+      charged = await commitCreditReservation(reservationId, billing.creditsRefunded, metadata);
+    } catch (error) {
+      lastError = error;
+      console.warn(`Failed to commit credit reservation (attempt ${attempt}/${COMMIT_ATTEMPTS}):`, { reservationId, error });
+      if (attempt < COMMIT_ATTEMPTS) {
+        await new Promise(resolve => setTimeout(resolve, COMMIT_RETRY_DELAY_MS * attempt));
+      }
+      continue;
+    }
+
+    if (charged === null) {
+      console.error('Credit reservation was already settled; the saved names were not charged:', { reservationId });
+      return false;
+    }
+    return true;
+  }
+
+  // A pending reservation would be released as stale, giving the saved names away for free
+  try {
+    await flagCreditReservationForReconcile(reservationId, billing.creditsRefunded, { ...metadata, commit_error: String(lastError) });
+    console.error('Credit reservation flagged for reconciliation after failed commits:', { reservationId, error: lastError });
+  } catch (error) {
+    console.error('Failed to commit or flag credit reservation; reconcile it by hand:', {
+      reservationId,
+      refund: billing.creditsRefunded,
+      commitError: lastError,
+      flagError: error,
+    });
+  }
+  return true;
+}
+
+export async function releaseReservation(reservationId: string | null, reason: string): Promise<void> {
+  if (!reservationId) return;
+
+  try {
+    await releaseCreditReservation(reservationId, reason);
+    console.log('Released credit reservation:', { reservationId, reason });
+  } catch (error) {
+    console.error('Failed to release credit reservation:', { reservationId, reason, error });
+  }
+}
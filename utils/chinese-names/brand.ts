@@ -0,0 +1,315 @@
+/**
+ * Business and brand naming
+ * Generates Chinese names for a company or product from a brand brief. Brand
+ * names have no surname; the model explains the transliteration and checks
+ * connotations, while the pinyin .cn domain and WeChat ID checks are computed
+ * here. Gated to subscription tiers that include business name generation.
+ */
+
+import type { ChatMessage } from '@/utils/llm/providers';
+import { completeWithUsage, type LLMCallRecord } from '@/utils/llm/usage';
+import { BUSINESS_NAME_FEATURE } from '@/config/subscriptions';
+import { getUserSubscriptionTier } from '@/utils/supabase/subscriptions';
+import { brandAnalysisSchema, formatSchemaIssues, generatedNameSchema } from '@/utils/chinese-names/schema';
+import { formatNamePinyin, normalizeSyllable, stripTone, verifyNameReadings } from '@/utils/chinese-names/lexicon';
+import { screenName, type NameRejection } from '@/utils/chinese-names/homophone-filter';
+import { withRomanizations } from '@/utils/chinese-names/romanization';
+import { buildTransliterationCandidates, phoneticSimilarity, type TransliterationCandidate } from '@/utils/chinese-names/transliteration';
+import { extractJson, getTemperature, MAX_PROMPT_EXISTING_NAMES, MAX_REPAIR_ATTEMPTS, type GenerateNamesOptions } from '@/utils/chinese-names/generator';
+import { renderTemplate } from '@/utils/chinese-names/prompts';
+import { DEFAULT_OUTPUT_LANGUAGE, OUTPUT_LANGUAGES } from '@/utils/chinese-names/languages';
+import type { BrandDetails, BrandMarket, BrandRequest, NameData } from '@/types/chinese-names';
+
+export const BRAND_NAME_COUNT = 6;
+
+const MAX_BRAND_NAME_LENGTH = 4;
+// Pinyin domains longer than this are hard to type and remember
+const MAX_DOMAIN_LABEL_LENGTH = 12;
+// WeChat IDs: 6-20 characters starting with a letter; letters, digits, _ and -
+const WECHAT_ID_PATTERN = /^[a-z][a-z0-9_-]{5,19}$/;
+
+const MARKET_LABELS: Record<BrandMarket, string> = {
+  mainland: 'Mainland China (simplified characters)',
+  hong_kong: 'Hong Kong (traditional characters, Cantonese speakers)',
+  taiwan: 'Taiwan (traditional characters)',
+  singapore: 'Singapore (simplified characters)',
+};
+
+// Readings besides Mandarin the connotation check must cover
+const MARKET_DIALECTS: Record<BrandMarket, string> = {
+  mainland: ', or in Cantonese and other major dialects',
+  hong_kong: ', or in Cantonese',
+  taiwan: ', or in Taiwanese Hokkien',
+  singapore: ', or in Hokkien and Cantonese',
+};
+
+/**
+ * Whether the user's subscription tier advertises business name generation
+ */
+export async function hasBrandAccess(userId: string): Promise<boolean> {
+  const tier = await getUserSubscriptionTier(userId);
+  return tier?.features?.includes(BUSINESS_NAME_FEATURE) ?? false;
+}
+
+/**
+ * .cn domain and WeChat ID suitability of the name's toneless pinyin
+ */
+export function checkBrandHandles(name: NameData): Pick<BrandDetails, 'domain' | 'wechat'> {
+  const syllables = name.characters.map(entry => stripTone(normalizeSyllable(entry.pinyin)).replace(/ü/g, 'v'));
+  const label = syllables.join('');
+  // A syllable starting with a vowel blurs into the one before (xian: 西安 or 先?)
+  const ambiguous = syllables.slice(1).some(syllable => /^[aeo]/.test(syllable));
+
+  const domainNotes: string[] = [];
+  if (label.length > MAX_DOMAIN_LABEL_LENGTH) domainNotes.push(`${label.length} letters is long to type`);
+  if (ambiguous) domainNotes.push('the syllable boundary is ambiguous without an apostrophe');
+
+  const wechatSuitable = WECHAT_ID_PATTERN.test(label);
+
+  return {
+    domain: {
+      handle: `${label}.cn`,
+      suitable: domainNotes.length === 0,
+      note: domainNotes.length > 0 ? `Check before registering: ${domainNotes.join('; ')}` : 'Short, unambiguous pinyin domain',
+    },
+    wechat: {
+      handle: label.length < 6 ? `${label}_official` : label.slice(0, 20),
+      suitable: wechatSuitable,
+      note: wechatSuitable
+        ? 'The pinyin works as a WeChat ID as is'
+        : label.length < 6
+          ? 'WeChat IDs need at least 6 characters, so the pinyin needs a suffix'
+          : 'WeChat IDs allow at most 20 characters, so the pinyin must be shortened',
+    },
+  };
+}
+
+export interface GenerateBrandNamesOptions
+  extends Pick<GenerateNamesOptions, 'provider' | 'promptTemplate' | 'planType' | 'nameCount' | 'existingNames' | 'outputLanguage' | 'usage' | 'onName' | 'onRejected' | 'onDuplicate' | 'onDropped'> {
+  brand: BrandRequest;
+}
+
+/**
+ * Generate brand names for the brief, in order. Names the model cannot produce
+ * fall back to a table transliteration of the English brand name, or are
+ * dropped when no acceptable transliteration is left.
+ */
+export async function generateBrandNames(options: GenerateBrandNamesOptions): Promise<NameData[]> {
+  const { brand, nameCount, existingNames = [], usage, onName, onDropped } = options;
+  const generatedNames = new Set<string>(existingNames);
+  const names: NameData[] = [];
+
+  // Sound-alike source: the brand name as one word (Blue Harbor → blueharbor)
+  const phoneticSource = brand.englishBrandName.replace(/[^a-z]/gi, '');
+  const transliterations = buildTransliterationCandidates(phoneticSource, 'other')
+    .filter(candidate => candidate.characters.length >= 2);
+
+  for (let i = 0; i < nameCount; i++) {
+    let brandName: NameData;
+    const nameCalls: LLMCallRecord[] = [];
+
+    try {
+      brandName = await requestValidBrandName(options, i, generatedNames, phoneticSource, nameCalls);
+    } catch (error) {
+      // Placeholders are screened too, as the personal-name fallbacks are, and never
+      // repeat a name: with none left, the round has one name less
+      const fallback = transliterations
+        .map(candidate => generateBrandFallback(candidate, brand))
+        .find(name => screenName(name, 0).length === 0 && !generatedNames.has(name.chinese));
+      if (!fallback) {
+        console.warn(`No acceptable fallback for brand name ${i + 1}, dropping it:`, error);
+        onDropped?.();
+        continue;
+      }
+      console.error(`Error generating brand name ${i + 1}, using transliteration fallback:`, error);
+      brandName = fallback;
+    } finally {
+      usage?.calls.push(...nameCalls);
+    }
+
+    // The whole brand name is romanized as one word
+    brandName = withRomanizations(brandName, brandName.characters.length);
+    generatedNames.add(brandName.chinese);
+    names.push(brandName);
+    usage?.names.set(brandName.chinese, nameCalls);
+
+    if (onName) {
+      await onName(brandName, names.length - 1);
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Ask for one brand name, feeding validation errors back to the model as the
+ * personal-name generator does
+ */
+async function requestValidBrandName(
+  options: GenerateBrandNamesOptions,
+  position: number,
+  existingNames: Set<string>,
+  phoneticSource: string,
+  calls: LLMCallRecord[]
+): Promise<NameData> {
+  const { provider, promptTemplate, planType, nameCount, brand, outputLanguage = DEFAULT_OUTPUT_LANGUAGE, onRejected, onDuplicate } = options;
+
+  const messages: ChatMessage[] = [
+    { role: 'system', content: promptTemplate.brand.system },
+    {
+      role: 'user',
+      content: renderTemplate(promptTemplate.brand.user, {
+        englishBrandName: brand.englishBrandName,
+        industry: brand.industry,
+        brandValues: brand.brandValues.join(', '),
+        targetMarket: MARKET_LABELS[brand.targetMarket],
+        dialects: MARKET_DIALECTS[brand.targetMarket],
+        seed: Date.now() + Math.random() * 10000 + position * 1000,
+        position: position + 1,
+        nameCount,
+        existingNames: existingNames.size > 0
+          ? renderTemplate(promptTemplate.blocks.existingNames, { names: Array.from(existingNames).slice(-MAX_PROMPT_EXISTING_NAMES).join(', ') })
+          : '',
+        outputLanguage: outputLanguage !== DEFAULT_OUTPUT_LANGUAGE
+          ? renderTemplate(promptTemplate.blocks.outputLanguage, { language: OUTPUT_LANGUAGES[outputLanguage].label })
+          : '',
+      }),
+    },
+  ];
+
+  let issues: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const completion = await completeWithUsage(provider, {
+      messages,
+      temperature: getTemperature(planType),
+      maxTokens: 1200,
+      topP: planType === '4' ? 0.95 : 0.9,
+    }, attempt, calls);
+
+    const validation = validateBrandResponse(completion.content, existingNames, phoneticSource);
+    if (validation.name) {
+      return { ...validation.name, language: outputLanguage };
+    }
+
+    if (validation.rejection) {
+      onRejected?.(validation.rejection);
+    }
+    if (validation.duplicate) {
+      onDuplicate?.(validation.duplicate);
+    }
+
+    issues = validation.issues;
+    console.warn(`Invalid brand name response (attempt ${attempt + 1}/${MAX_REPAIR_ATTEMPTS + 1}):`, issues);
+
+    messages.push(
+      { role: 'assistant', content: completion.content || '' },
+      { role: 'user', content: renderTemplate(promptTemplate.repair, { issues: issues.join('\n- ') }) }
+    );
+  }
+
+  throw new Error(`Brand name response failed validation after ${MAX_REPAIR_ATTEMPTS + 1} attempts: ${issues.join('; ')}`);
+}
+
+function validateBrandResponse(
+  responseContent: string | null,
+  existingNames: Set<string>,
+  phoneticSource: string
+): { name?: NameData; issues: string[]; rejection?: NameRejection; duplicate?: string } {
+  if (!responseContent) {
+    return { issues: ['The response was empty'] };
+  }
+
+  let candidate: unknown;
+  try {
+    candidate = extractJson(responseContent);
+  } catch (error) {
+    return { issues: [error instanceof Error ? error.message : 'The response was not valid JSON'] };
+  }
+
+  // The brand analysis is checked apart from the name fields
+  const { brand, ...fields } = candidate && typeof candidate === 'object' ? candidate as Record<string, unknown> : {};
+  const result = generatedNameSchema.safeParse(fields);
+  const analysis = brandAnalysisSchema.safeParse(brand);
+  if (!result.success || !analysis.success) {
+    return {
+      issues: [
+        ...(result.success ? [] : formatSchemaIssues(result.error)),
+        ...(analysis.success ? [] : formatSchemaIssues(analysis.error).map(issue => `brand.${issue}`)),
+      ],
+    };
+  }
+
+  if (result.data.characters.length > MAX_BRAND_NAME_LENGTH) {
+    return { issues: [`"${result.data.chinese}" is too long; brand names must have 2 to ${MAX_BRAND_NAME_LENGTH} characters`] };
+  }
+
+  const readingCheck = verifyNameReadings(result.data);
+  if (readingCheck.unknownCharacters.length > 0) {
+    return {
+      issues: [`These characters are not in the naming dictionary: ${readingCheck.unknownCharacters.join(', ')}. Use common standard characters instead`]
+    };
+  }
+
+  // Brand pinyin is written as one word (Kěkǒukělè), and every character is screened
+  const readings = readingCheck.name.characters.map(entry => entry.pinyin);
+  const checked: NameData = { ...readingCheck.name, pinyin: formatNamePinyin(readings, readings.length) };
+  const reasons = screenName(checked, 0);
+  if (reasons.length > 0) {
+    return {
+      issues: [...reasons.map(reason => reason.message), 'Choose different characters'],
+      rejection: { chinese: checked.chinese, pinyin: checked.pinyin, reasons },
+    };
+  }
+
+  if (existingNames.has(checked.chinese)) {
+    return {
+      issues: [`"${checked.chinese}" duplicates a name already generated; choose different characters`],
+      duplicate: checked.chinese,
+    };
+  }
+
+  // Scores and handle checks are always computed here, never taken from the model
+  const name: NameData = {
+    ...checked,
+    id: undefined,
+    baziAnalysis: undefined,
+    familyMember: undefined,
+    style: 'Brand',
+    isFallback: false,
+    phoneticScore: phoneticSource ? phoneticSimilarity(phoneticSource, readings) : undefined,
+  };
+
+  return { name: { ...name, brand: { ...analysis.data, ...checkBrandHandles(name) } }, issues: [] };
+}
+
+// Fallback: the table transliteration of the brand name, without model-written meanings
+function generateBrandFallback(candidate: TransliterationCandidate, brand: BrandRequest): NameData {
+  const chinese = candidate.characters.join('');
+  const name: NameData = {
+    chinese,
+    pinyin: formatNamePinyin(candidate.readings, candidate.readings.length),
+    characters: candidate.characters.map((character, index) => ({
+      character,
+      pinyin: candidate.readings[index],
+      meaning: `Sound "${candidate.readings[index]}"`,
+      explanation: `A conventional transliteration character chosen for its sound in "${brand.englishBrandName}".`,
+    })),
+    meaning: `A Chinese rendering of "${brand.englishBrandName}" that keeps the sound of the brand name`,
+    culturalNotes: `${chinese} follows the standard characters used to transliterate foreign names into Chinese`,
+    personalityMatch: `This fallback name keeps the sound of your brand; it was not checked against your brand values`,
+    style: 'Brand',
+    isFallback: true,
+    phoneticScore: candidate.phoneticScore,
+    language: DEFAULT_OUTPUT_LANGUAGE,
+  };
+
+  return {
+    ...name,
+    brand: {
+      transliterationRationale: `Each character is the standard transliteration of a syllable of "${brand.englishBrandName}"`,
+      connotationCheck: 'Not checked: screened only against the built-in homophone list',
+      ...checkBrandHandles(name),
+    },
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * Side-by-side name comparison
+ * Loads up to four of the user's saved or generated names by id and derives
+ * the per-character facts (tone, stroke count) shown in aligned columns on
+ * the compare page and in its PDF export.
+ */
+
+import { getTone, lookupCharacter, normalizeSyllable } from '@/utils/chinese-names/lexicon';
+import type { createClient } from '@/utils/supabase/server';
+import type { BaziAnalysis, ComparedName, FiveGrids, NameCharacter, NameData, OutputLanguage } from '@/types/chinese-names';
+
+export const MAX_COMPARE_NAMES = 4;
+
+export interface CharacterFacts {
+  character: string;
+  pinyin: string;
+  // 1-4, 5 for neutral
+  tone: number;
+  // Simplified stroke count, when the character is in the dictionary
+  strokes?: number;
+  meaning: string;
+}
+
+/**
+ * Per-character row of a name: reading, tone number, strokes and meaning
+ */
+export function getCharacterFacts(name: NameData): CharacterFacts[] {
+  return name.characters.map(entry => ({
+    character: entry.character,
+    pinyin: entry.pinyin,
+    tone: getTone(normalizeSyllable(entry.pinyin)),
+    strokes: lookupCharacter(entry.character)?.strokes,
+    meaning: entry.meaning,
+  }));
+}
+
+export function getTotalStrokes(name: NameData): number | undefined {
+  const strokes = getCharacterFacts(name).map(entry => entry.strokes);
+  return strokes.every((count): count is number => count !== undefined)
+    ? strokes.reduce((total, count) => total + count, 0)
+    : undefined;
+}
+
+/**
+ * "a,b,c" from the compare page URL → ids in order, without repeats, capped at four
+ */
+export function parseCompareIds(value: string | null | undefined): string[] {
+  const ids = (value || '').split(',').map(id => id.trim()).filter(Boolean);
+  return Array.from(new Set(ids)).slice(0, MAX_COMPARE_NAMES);
+}
+
+// saved_names and generated_names share these snake_case columns
+interface NameRow {
+  id: string;
+  chinese_name: string | null;
+  pinyin: string | null;
+  characters: NameCharacter[] | null;
+  meaning: string | null;
+  cultural_notes: string | null;
+  personality_match: string | null;
+  style?: string | null;
+  traditional?: string | null;
+  jyutping?: string | null;
+  wade_giles?: string | null;
+  language?: OutputLanguage | null;
+  // saved_names keep the style in their metadata
+  generation_metadata?: { style?: string } | null;
+}
+
+interface SavedNameRow extends NameRow {
+  is_selected: boolean | null;
+}
+
+interface GeneratedNameRow extends NameRow {
+  chinese_name: string;
+  generation_batches: {
+    generation_metadata: {
+      bazi_analysis?: BaziAnalysis | null;
+      five_grids?: Record<string, FiveGrids> | null;
+    } | null;
+  } | null;
+}
+
+function toNameData(row: NameRow): NameData {
+  return {
+    chinese: row.chinese_name || '',
+    pinyin: row.pinyin || '',
+    characters: row.characters || [],
+    meaning: row.meaning || '',
+    culturalNotes: row.cultural_notes || '',
+    personalityMatch: row.personality_match || '',
+    style: row.style || row.generation_metadata?.style || 'Standard',
+    traditional: row.traditional ?? undefined,
+    jyutping: row.jyutping ?? undefined,
+    wadeGiles: row.wade_giles ?? undefined,
+    language: row.language ?? undefined,
+  };
+}
+
+/**
+ * The user's names for `ids`, in the order given. Ids are looked up in
+ * saved_names first, then in generated_names of the user's batches; unknown
+ * ids are dropped. Generated names the user has also saved carry the saved id.
+ */
+export async function loadComparedNames(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  userId: string,
+  ids: string[]
+): Promise<ComparedName[]> {
+  const { data: savedRows, error: savedError } = await supabase
+    .from('saved_names')
+    .select('*')
+    .eq('user_id', userId)
+    .in('id', ids)
+    .returns<SavedNameRow[]>();
+
+  if (savedError) {
+    throw new Error(`Failed to load saved names: ${savedError.message}`);
+  }
+
+  const savedIds = new Set((savedRows || []).map(row => row.id));
+  const generatedIds = ids.filter(id => !savedIds.has(id));
+  let generatedRows: GeneratedNameRow[] = [];
+
+  if (generatedIds.length > 0) {
+    const { data, error } = await supabase
+      .from('generated_names')
+      .select('*, generation_batches!inner(user_id, generation_metadata)')
+      .eq('generation_batches.user_id', userId)
+      .in('id', generatedIds)
+      .returns<GeneratedNameRow[]>();
+
+    if (error) {
+      throw new Error(`Failed to load generated names: ${error.message}`);
+    }
+    generatedRows = data || [];
+  }
+
+  // Saved copies of the generated names, so any of them can be picked as the winner
+  const savedCopies = new Map<string, { id: string; is_selected: boolean }>();
+  if (generatedRows.length > 0) {
+    const { data, error } = await supabase
+      .from('saved_names')
+      .select('id, chinese_name, is_selected')
+      .eq('user_id', userId)
+      .in('chinese_name', generatedRows.map(row => row.chinese_name));
+
+    if (error) {
+      console.error('Failed to look up saved copies of compared names:', error);
+    }
+    for (const row of data || []) {
+      savedCopies.set(row.chinese_name, row);
+    }
+  }
+
+  const names = new Map<string, ComparedName>();
+  for (const row of savedRows || []) {
+    names.set(row.id, {
+      ...toNameData(row),
+      id: row.id,
+      source: 'saved',
+      savedNameId: row.id,
+      isSelected: !!row.is_selected,
+    });
+  }
+  for (const row of generatedRows) {
+    const savedCopy = savedCopies.get(row.chinese_name);
+    names.set(row.id, {
+      ...toNameData(row),
+      id: row.id,
+      source: 'generated',
+      savedNameId: savedCopy?.id ?? null,
+      isSelected: !!savedCopy?.is_selected,
+      baziAnalysis: row.generation_batches?.generation_metadata?.bazi_analysis ?? undefined,
+      fiveGrids: row.generation_batches?.generation_metadata?.five_grids?.[row.chinese_name] ?? undefined,
+    });
+  }
+
+  return ids.map(id => names.get(id)).filter((name): name is ComparedName => !!name);
+}
@@ -0,0 +1,271 @@
+/**
+ * Structured given-name constraints
+ * Length, required and forbidden characters, allowed and forbidden radicals,
+ * a 平仄 tone pattern and characters locked to a position. They are described
+ * to the model in the prompt and checked on every generated name, so a name
+ * that breaks one is regenerated instead of shown. Locked characters are
+ * exempt from the radical rules, which apply to the characters around them.
+ */
+
+import { getPrimaryReading, getTone, lookupCharacter, normalizeSyllable } from '@/utils/chinese-names/lexicon';
+import type { FixedCharacter, NameConstraints, NameData, ToneClass } from '@/types/chinese-names';
+
+export const MAX_GIVEN_NAME_LENGTH = 3;
+
+export const TONE_CLASS_LABELS: Record<ToneClass, { chinese: string; english: string }> = {
+  ping: { chinese: '平', english: 'level (tone 1 or 2)' },
+  ze: { chinese: '仄', english: 'oblique (tone 3 or 4)' },
+  any: { chinese: '*', english: 'any tone' },
+};
+
+// Radicals written differently as a component and as a standalone character,
+// so "no water radical" catches 氵 as well as 水
+const RADICAL_VARIANTS: string[][] = [
+  ['水', '氵'],
+  ['心', '忄'],
+  ['手', '扌'],
+  ['火', '灬'],
+  ['金', '钅'],
+  ['玉', '王'],
+  ['犬', '犭'],
+  ['示', '礻'],
+  ['衣', '衤'],
+  ['艸', '艹'],
+  ['言', '讠'],
+  ['糸', '纟'],
+  ['食', '饣'],
+  ['刀', '刂'],
+  ['人', '亻'],
+  ['辵', '辶'],
+  ['网', '罒'],
+  ['爪', '爫'],
+  ['邑', '阜', '阝'],
+];
+
+function radicalForms(radicals: string[]): Set<string> {
+  const forms = new Set<string>();
+  for (const radical of radicals) {
+    const group = RADICAL_VARIANTS.find(variants => variants.includes(radical)) ?? [radical];
+    group.forEach(form => forms.add(form));
+  }
+  return forms;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(entry => typeof entry === 'string');
+}
+
+function isFixedCharacterList(value: unknown): value is FixedCharacter[] {
+  return Array.isArray(value) && value.every(entry =>
+    typeof entry === 'object' && entry !== null &&
+    Number.isInteger(entry.position) && entry.position >= 0 && entry.position < MAX_GIVEN_NAME_LENGTH &&
+    typeof entry.character === 'string' && Array.from(entry.character).length === 1
+  );
+}
+
+/**
+ * Characters typed into a form field, one per entry, without separators or repeats
+ */
+export function parseCharacterList(text: string | undefined): string[] {
+  const characters = Array.from(text || '').filter(character => !/[\s,，、;；。.]/.test(character));
+  return Array.from(new Set(characters));
+}
+
+/**
+ * "平仄" or "*平" → ['ping', 'ze'] / ['any', 'ping']; unknown symbols are dropped
+ */
+export function parseTonePattern(text: string | undefined): ToneClass[] {
+  return Array.from(text || '')
+    .map(symbol => (Object.keys(TONE_CLASS_LABELS) as ToneClass[]).find(toneClass => TONE_CLASS_LABELS[toneClass].chinese === symbol))
+    .filter((toneClass): toneClass is ToneClass => !!toneClass);
+}
+
+export function formatTonePattern(pattern: ToneClass[] | undefined): string {
+  return (pattern || []).map(toneClass => TONE_CLASS_LABELS[toneClass].chinese).join('');
+}
+
+/**
+ * 平 for tones 1 and 2, 仄 for tones 3 and 4; the neutral tone is neither
+ */
+export function getToneClass(syllable: string): ToneClass | undefined {
+  const tone = getTone(normalizeSyllable(syllable));
+  if (tone === 1 || tone === 2) return 'ping';
+  if (tone === 3 || tone === 4) return 'ze';
+  return undefined;
+}
+
+export function hasConstraints(constraints: NameConstraints | undefined): constraints is NameConstraints {
+  if (!constraints) return false;
+  return !!(
+    constraints.givenNameLength ||
+    constraints.requiredCharacters?.length ||
+    constraints.forbiddenCharacters?.length ||
+    constraints.allowedRadicals?.length ||
+    constraints.forbiddenRadicals?.length ||
+    constraints.tonePattern?.length ||
+    constraints.fixedCharacters?.length
+  );
+}
+
+/**
+ * User-facing reason the constraints cannot be used (malformed, or impossible
+ * to satisfy together), or undefined when they are valid
+ */
+export function getConstraintsError(constraints: NameConstraints): string | undefined {
+  if (typeof constraints !== 'object' || constraints === null || Array.isArray(constraints)) {
+    return 'Please check your name constraints.';
+  }
+
+  const { givenNameLength, requiredCharacters = [], forbiddenCharacters = [], allowedRadicals = [], forbiddenRadicals = [], tonePattern = [], fixedCharacters = [] } = constraints;
+
+  if (givenNameLength !== undefined && (!Number.isInteger(givenNameLength) || givenNameLength < 1 || givenNameLength > MAX_GIVEN_NAME_LENGTH)) {
+    return `Please choose a given-name length between 1 and ${MAX_GIVEN_NAME_LENGTH} characters.`;
+  }
+
+  const lists = [requiredCharacters, forbiddenCharacters, allowedRadicals, forbiddenRadicals];
+  if (!lists.every(list => isStringList(list) && list.every(entry => Array.from(entry).length === 1))) {
+    return 'Please enter required and forbidden characters and radicals one character at a time.';
+  }
+
+  if (!isStringList(tonePattern) || !tonePattern.every(toneClass => Object.keys(TONE_CLASS_LABELS).includes(toneClass))) {
+    return 'Please choose a valid tone pattern.';
+  }
+
+  if (!isFixedCharacterList(fixedCharacters) || new Set(fixedCharacters.map(entry => entry.position)).size !== fixedCharacters.length) {
+    return 'Please keep at most one character per given-name position.';
+  }
+
+  // Names with characters outside the dictionary are always rejected, so these could never appear
+  const lockedCharacters = fixedCharacters.map(entry => entry.character);
+  const unknown = [...requiredCharacters, ...lockedCharacters].filter(character => !lookupCharacter(character));
+  if (unknown.length > 0) {
+    return `These characters are not in our naming dictionary and cannot be required: ${unknown.join(', ')}.`;
+  }
+
+  const length = givenNameLength ?? (tonePattern.length || MAX_GIVEN_NAME_LENGTH);
+  if (tonePattern.length > 0 && tonePattern.length !== length) {
+    return 'The tone pattern needs one entry per given-name character.';
+  }
+  if (requiredCharacters.length > length) {
+    return `A ${length}-character given name cannot include all of ${requiredCharacters.join(', ')}.`;
+  }
+  if (fixedCharacters.some(entry => entry.position >= length)) {
+    return `A ${length}-character given name has no room for every kept character.`;
+  }
+  for (const { position, character } of fixedCharacters) {
+    const expected = tonePattern[position];
+    const reading = getPrimaryReading(character);
+    if (expected && expected !== 'any' && reading && getToneClass(reading) !== expected) {
+      return `${character} cannot be kept as character ${position + 1} with a ${TONE_CLASS_LABELS[expected].chinese} tone there.`;
+    }
+  }
+
+  const clashing = [...requiredCharacters, ...lockedCharacters].filter(character => forbiddenCharacters.includes(character));
+  if (clashing.length > 0) {
+    return `${clashing.join(', ')} cannot be both required and forbidden.`;
+  }
+
+  const allowed = radicalForms(allowedRadicals);
+  const forbidden = radicalForms(forbiddenRadicals);
+  for (const character of requiredCharacters) {
+    const radical = lookupCharacter(character)?.radical || '';
+    if (forbidden.has(radical) || (allowed.size > 0 && !allowed.has(radical))) {
+      return `${character} (radical ${radical}) does not fit your radical choices.`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Ways a name breaks the constraints, as model-readable repair instructions,
+ * or an empty list when it satisfies all of them. `surnameLength` is the
+ * number of surname characters at the start of the name.
+ */
+export function checkNameConstraints(name: NameData, constraints: NameConstraints, surnameLength: number = 1): string[] {
+  const issues: string[] = [];
+  const given = name.characters.slice(surnameLength);
+  const givenCharacters = given.map(entry => entry.character);
+  const expectedLength = constraints.givenNameLength ?? (constraints.tonePattern?.length || undefined);
+
+  if (expectedLength && given.length !== expectedLength) {
+    issues.push(`The given name must have exactly ${expectedLength} character${expectedLength > 1 ? 's' : ''} (got ${givenCharacters.join('') || 'none'})`);
+  }
+
+  const missing = (constraints.requiredCharacters || []).filter(character => !givenCharacters.includes(character));
+  if (missing.length > 0) {
+    issues.push(`The given name must include ${missing.join(', ')}`);
+  }
+
+  for (const { position, character } of constraints.fixedCharacters || []) {
+    if (givenCharacters[position] !== character) {
+      issues.push(`Given-name character ${position + 1} must stay ${character} (got ${givenCharacters[position] || 'none'})`);
+    }
+  }
+
+  const forbiddenUsed = givenCharacters.filter(character => constraints.forbiddenCharacters?.includes(character));
+  if (forbiddenUsed.length > 0) {
+    issues.push(`The given name must not use ${forbiddenUsed.join(', ')}`);
+  }
+
+  const allowed = radicalForms(constraints.allowedRadicals || []);
+  const forbidden = radicalForms(constraints.forbiddenRadicals || []);
+  const lockedPositions = new Set((constraints.fixedCharacters || []).map(entry => entry.position));
+  for (const [position, character] of givenCharacters.entries()) {
+    if (lockedPositions.has(position)) continue;
+    const radical = lookupCharacter(character)?.radical;
+    if (!radical) continue;
+    if (forbidden.has(radical)) {
+      issues.push(`${character} uses the ${radical} radical, which is not allowed`);
+    } else if (allowed.size > 0 && !allowed.has(radical)) {
+      issues.push(`${character} uses the ${radical} radical; given-name characters must use one of ${Array.from(allowed).join(' ')}`);
+    }
+  }
+
+  (constraints.tonePattern || []).forEach((expected, index) => {
+    const entry = given[index];
+    if (!entry || expected === 'any') return;
+    const actual = getToneClass(entry.pinyin);
+    if (actual !== expected) {
+      issues.push(`Given-name character ${index + 1} (${entry.character} ${entry.pinyin}) must be ${TONE_CLASS_LABELS[expected].chinese}, ${TONE_CLASS_LABELS[expected].english}`);
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Prompt lines stating each constraint
+ */
+export function describeConstraints(constraints: NameConstraints): string[] {
+  const lines: string[] = [];
+  const length = constraints.givenNameLength ?? (constraints.tonePattern?.length || undefined);
+
+  if (length) {
+    lines.push(`The given name has exactly ${length} character${length > 1 ? 's' : ''} (not counting the surname)`);
+  }
+  if (constraints.requiredCharacters?.length) {
+    lines.push(`The given name must include: ${constraints.requiredCharacters.join(' ')}`);
+  }
+  for (const { position, character } of constraints.fixedCharacters || []) {
+    lines.push(`Given-name character ${position + 1} must be ${character}, kept unchanged`);
+  }
+  if (constraints.forbiddenCharacters?.length) {
+    lines.push(`Never use these characters: ${constraints.forbiddenCharacters.join(' ')}`);
+  }
+  const otherThanKept = constraints.fixedCharacters?.length ? ' (other than the kept characters)' : '';
+  if (constraints.allowedRadicals?.length) {
+    lines.push(`Every given-name character${otherThanKept} must use one of these radicals: ${Array.from(radicalForms(constraints.allowedRadicals)).join(' ')}`);
+  }
+  if (constraints.forbiddenRadicals?.length) {
+    lines.push(`No given-name character${otherThanKept} may use these radicals: ${Array.from(radicalForms(constraints.forbiddenRadicals)).join(' ')}`);
+  }
+  if (constraints.tonePattern?.length) {
+    const positions = constraints.tonePattern
+      .map((toneClass, index) => `character ${index + 1}: ${TONE_CLASS_LABELS[toneClass].chinese} (${TONE_CLASS_LABELS[toneClass].english})`)
+      .join(', ');
+    lines.push(`Tone pattern (平仄) of the given name: ${positions}`);
+  }
+
+  return lines;
+}
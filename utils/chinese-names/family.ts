@@ -0,0 +1,140 @@
+/**
+ * Family (sibling) naming
+ * Generates coordinated name sets for siblings, one name per member in each
+ * set. All names share one surname and follow the same given-name rules,
+ * including a generation character (字辈) locked to its position and a shared
+ * radical; a set is generated member by member so every prompt sees the names
+ * already chosen for the other siblings.
+ */
+
+import { generateNames, type GenerateNamesOptions } from '@/utils/chinese-names/generator';
+import { createSurnamePicker } from '@/utils/chinese-names/surnames';
+import { analyzeBirthChart } from '@/utils/chinese-names/bazi';
+import type { BaziAnalysis, FamilyRequest, NameConstraints, NameData, PlanType } from '@/types/chinese-names';
+
+// Alternative name sets offered per family generation
+export const FAMILY_SET_COUNT = 3;
+
+export function getFamilyNameCount(family: FamilyRequest): number {
+  return FAMILY_SET_COUNT * family.members.length;
+}
+
+/**
+ * The plan cost per six names, so larger families cost more than one generation
+ */
+export function getFamilyCreditCost(planType: PlanType, family: FamilyRequest): number {
+  return parseInt(planType) * Math.ceil(getFamilyNameCount(family) / 6);
+}
+
+/**
+ * Rules every sibling's given name follows: `base` plus the shared character
+ * at its position (two-character names unless a length is given) and the
+ * shared radical, which replaces any allowed radicals of `base`
+ */
+export function getFamilyConstraints(family: FamilyRequest, base?: NameConstraints): NameConstraints {
+  const constraints: NameConstraints = { ...base };
+  const { sharedCharacter, sharedRadical } = family;
+
+  if (sharedCharacter) {
+    constraints.fixedCharacters = [
+      ...(base?.fixedCharacters || []).filter(entry => entry.position !== sharedCharacter.position),
+      sharedCharacter,
+    ];
+    constraints.givenNameLength = base?.givenNameLength ?? Math.max(2, sharedCharacter.position + 1);
+  }
+  if (sharedRadical) {
+    constraints.allowedRadicals = [sharedRadical];
+  }
+
+  return constraints;
+}
+
+// The family part of a batch's generation_metadata
+export interface FamilyGenerationMetadata {
+  family?: {
+    members?: { englishName?: string }[];
+    bazi_analyses?: (BaziAnalysis | null)[];
+  } | null;
+}
+
+/**
+ * Sibling and birth chart of a generated_names row in a family batch; empty
+ * for other batches, whose rows use the batch-wide chart
+ */
+export function getFamilyNameFields(
+  row: { family_set?: number | null; family_member?: number | null },
+  generationMetadata: FamilyGenerationMetadata | null | undefined
+): Pick<NameData, 'familyMember' | 'baziAnalysis'> | Record<string, never> {
+  const family = generationMetadata?.family;
+  if (!family || row.family_set == null || row.family_member == null) {
+    return {};
+  }
+
+  return {
+    familyMember: {
+      set: row.family_set,
+      member: row.family_member,
+      englishName: family.members?.[row.family_member]?.englishName ?? '',
+    },
+    baziAnalysis: family.bazi_analyses?.[row.family_member] ?? undefined,
+  };
+}
+
+export interface GenerateFamilyNamesOptions extends Omit<GenerateNamesOptions, 'family'> {
+  family: FamilyRequest;
+}
+
+/**
+ * Generate FAMILY_SET_COUNT sets of sibling names, in set order and member
+ * order within a set. Each name carries its set and member in `familyMember`.
+ */
+export async function generateFamilyNames(options: GenerateFamilyNamesOptions): Promise<NameData[]> {
+  const { family, existingNames = [], onName } = options;
+  const memberNames = family.members.map(member => member.englishName);
+  const charts: (BaziAnalysis | undefined)[] = family.members.map(member =>
+    member.birthDate ? analyzeBirthChart(member) : undefined
+  );
+
+  // Siblings share a surname; the phonetic strategy matches the first member's family name
+  const surname = createSurnamePicker({ ...options, englishName: family.members[0].englishName })().surname;
+  const names: NameData[] = [];
+
+  for (let set = 0; set < FAMILY_SET_COUNT; set++) {
+    const siblings: NameData[] = [];
+
+    for (const [index, member] of family.members.entries()) {
+      const [name]: (NameData | undefined)[] = await generateNames({
+        ...options,
+        englishName: member.englishName,
+        gender: member.gender,
+        birthYear: member.birthDate?.slice(0, 4),
+        baziAnalysis: charts[index],
+        surnameStrategy: 'fixed',
+        surname,
+        family: {
+          memberName: member.englishName,
+          memberNames: memberNames.filter((_, other) => other !== index),
+          theme: family.theme,
+          siblings,
+        },
+        existingNames: [...existingNames, ...names.map(entry => entry.chinese)],
+        nameCount: 1,
+        onName: undefined,
+      });
+      // Dropped with no acceptable name; the set goes without this sibling's name
+      if (!name) {
+        continue;
+      }
+
+      const familyName: NameData = { ...name, familyMember: { set, member: index, englishName: member.englishName } };
+      siblings.push(familyName);
+      names.push(familyName);
+
+      if (onName) {
+        await onName(familyName, names.length - 1);
+      }
+    }
+  }
+
+  return names;
+}
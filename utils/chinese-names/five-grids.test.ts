@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { calculateFiveGrids, getGridLuck, sortByFiveGrids } from '@/utils/chinese-names/five-grids';
+import type { NameData } from '@/types/chinese-names';
+
+describe('calculateFiveGrids', () => {
+  it('adds the customary 1 for a single-character surname', () => {
+    // 王 4, 小 3, 明 8 Kangxi strokes
+    const grids = calculateFiveGrids('王小明', 1);
+
+    expect(grids?.strokes).toEqual([4, 3, 8]);
+    expect(grids?.heaven.number).toBe(5);
+    expect(grids?.person.number).toBe(7);
+    expect(grids?.earth.number).toBe(11);
+    expect(grids?.outer.number).toBe(9);
+    expect(grids?.total.number).toBe(15);
+  });
+
+  it('uses both characters of a compound surname and the extra 1 for a single given name', () => {
+    // 歐 15, 陽 17, 明 8 Kangxi strokes
+    const grids = calculateFiveGrids('欧阳明', 2);
+
+    expect(grids?.heaven.number).toBe(32);
+    expect(grids?.person.number).toBe(25);
+    expect(grids?.earth.number).toBe(9);
+    expect(grids?.outer.number).toBe(16);
+    expect(grids?.total.number).toBe(40);
+  });
+
+  it('weights the luck of each grid into the score', () => {
+    // Every grid auspicious except the outer grid (weight 15)
+    expect(calculateFiveGrids('王小明', 1)?.score).toBe(85);
+  });
+
+  it('is undefined without a given name', () => {
+    expect(calculateFiveGrids('王', 1)).toBeUndefined();
+  });
+});
+
+describe('getGridLuck', () => {
+  it('wraps numbers past 81', () => {
+    expect(getGridLuck(82)).toBe(getGridLuck(2));
+    expect(getGridLuck(91)).toBe(getGridLuck(11));
+  });
+});
+
+describe('sortByFiveGrids', () => {
+  const name = (chinese: string, score?: number) =>
+    ({ chinese, fiveGrids: score === undefined ? undefined : { score } }) as NameData;
+
+  it('puts the best score first and names without grids last, keeping ties in order', () => {
+    const sorted = sortByFiveGrids([name('甲'), name('乙', 50), name('丙', 90), name('丁', 50)]);
+
+    expect(sorted.map(entry => entry.chinese)).toEqual(['丙', '乙', '丁', '甲']);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Five Grids (五格) stroke numerology
+ * Derives the heaven, person, earth, outer and total grids of a name from the
+ * Kangxi stroke counts of its characters and rates each with the
+ * eighty-one numbers (八十一数理).
+ */
+
+import { lookupCharacter } from '@/utils/chinese-names/lexicon';
+import type { FiveGrids, GridLuck, NameData } from '@/types/chinese-names';
+
+export type GridName = 'heaven' | 'person' | 'earth' | 'outer' | 'total';
+
+export const GRID_LABELS: Record<GridName, { chinese: string; english: string }> = {
+  heaven: { chinese: '天格', english: 'Heaven' },
+  person: { chinese: '人格', english: 'Person' },
+  earth: { chinese: '地格', english: 'Earth' },
+  outer: { chinese: '外格', english: 'Outer' },
+  total: { chinese: '总格', english: 'Total' },
+};
+
+export const LUCK_LABELS: Record<GridLuck, { chinese: string; english: string }> = {
+  auspicious: { chinese: '吉', english: 'Auspicious' },
+  mixed: { chinese: '半吉', english: 'Mixed' },
+  inauspicious: { chinese: '凶', english: 'Inauspicious' },
+};
+
+// Eighty-one numbers: every number not listed here is inauspicious
+const AUSPICIOUS_NUMBERS = new Set([
+  1, 3, 5, 6, 7, 8, 11, 13, 15, 16, 17, 18, 21, 23, 24, 25, 29, 31, 32, 33, 35, 37, 39, 41, 45, 47, 48, 52, 57,
+  61, 63, 65, 67, 68, 81,
+]);
+const MIXED_NUMBERS = new Set([27, 30, 36, 38, 40, 42, 49, 51, 53, 55, 58, 71, 73, 75, 77, 78]);
+
+// The heaven grid comes from the surname alone, so it weighs least
+const GRID_WEIGHTS: Record<GridName, number> = {
+  heaven: 5,
+  person: 30,
+  earth: 25,
+  outer: 15,
+  total: 25,
+};
+
+export function getGridLuck(number: number): GridLuck {
+  // Numbers past 81 wrap around (82 reads as 2)
+  const reduced = number > 81 ? ((number - 1) % 80) + 1 : number;
+  if (AUSPICIOUS_NUMBERS.has(reduced)) return 'auspicious';
+  if (MIXED_NUMBERS.has(reduced)) return 'mixed';
+  return 'inauspicious';
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+/**
+ * Five Grids for a name whose first `surnameLength` characters are the
+ * surname. Single-character parts borrow the customary extra 1 (e.g. the
+ * heaven grid of a single surname is its strokes + 1). Returns undefined when
+ * a character is missing from the lexicon.
+ */
+export function calculateFiveGrids(chinese: string, surnameLength: number = 1): FiveGrids | undefined {
+  const strokes: number[] = [];
+  for (const character of Array.from(chinese)) {
+    const entry = lookupCharacter(character);
+    if (!entry) return undefined;
+    strokes.push(entry.kangxiStrokes);
+  }
+
+  const surname = strokes.slice(0, surnameLength);
+  const given = strokes.slice(surnameLength);
+  if (surname.length === 0 || given.length === 0) return undefined;
+
+  const compound = surname.length > 1;
+  const numbers: Record<GridName, number> = {
+    heaven: compound ? sum(surname) : surname[0] + 1,
+    person: surname[surname.length - 1] + given[0],
+    earth: given.length > 1 ? sum(given) : given[0] + 1,
+    outer: (compound ? surname[0] : 1) + (given.length > 1 ? sum(given.slice(1)) : 1),
+    total: sum(strokes),
+  };
+
+  const grids = {} as Record<GridName, FiveGrids['total']>;
+  let score = 0;
+  for (const grid of Object.keys(numbers) as GridName[]) {
+    const luck = getGridLuck(numbers[grid]);
+    grids[grid] = { number: numbers[grid], luck };
+    score += GRID_WEIGHTS[grid] * (luck === 'auspicious' ? 1 : luck === 'mixed' ? 0.5 : 0);
+  }
+
+  return { strokes, ...grids, score };
+}
+
+/**
+ * Attach Five Grids to a name (left unchanged if a character is not in the lexicon)
+ */
+export function withFiveGrids(name: NameData, surnameLength: number = 1): NameData {
+  const fiveGrids = calculateFiveGrids(name.chinese, surnameLength);
+  return fiveGrids ? { ...name, fiveGrids } : name;
+}
+
+/**
+ * Names ordered by Five Grids score, best first. The sort is stable, and names
+ * without grids keep their order at the end.
+ */
+export function sortByFiveGrids(names: NameData[]): NameData[] {
+  return [...names].sort((a, b) => (b.fiveGrids?.score ?? -1) - (a.fiveGrids?.score ?? -1));
+}
+
+export function formatFiveGrids(fiveGrids: FiveGrids): string {
+  return (Object.keys(GRID_LABELS) as GridName[])
+    .map(grid => `${GRID_LABELS[grid].chinese} ${fiveGrids[grid].number} ${LUCK_LABELS[fiveGrids[grid].luck].chinese}`)
+    .join(' · ');
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from 'vitest';
+import { generateNames, type GenerateNamesOptions } from '@/utils/chinese-names/generator';
+import { DEFAULT_PROMPT_VERSION, PROMPT_TEMPLATES } from '@/utils/chinese-names/prompts';
+import { createFixtureProvider } from '@/utils/llm/fixture-provider';
+import { createUsageTracker } from '@/utils/llm/usage';
+
+const options = (overrides: Partial<GenerateNamesOptions> = {}): GenerateNamesOptions => ({
+  provider: createFixtureProvider(),
+  promptTemplate: PROMPT_TEMPLATES[DEFAULT_PROMPT_VERSION],
+  englishName: 'Alice',
+  gender: 'female',
+  planType: '1',
+  surnameStrategy: 'fixed',
+  surname: '李',
+  isAuthenticated: true,
+  nameCount: 3,
+  ...overrides,
+});
+
+describe('generateNames with the fixture provider', () => {
+  it('generates the same unique, screened names on every run', async () => {
+    const first = await generateNames(options());
+    const second = await generateNames(options());
+
+    expect(first.map(name => name.chinese)).toEqual(second.map(name => name.chinese));
+    expect(new Set(first.map(name => name.chinese)).size).toBe(3);
+    expect(first.every(name => name.chinese.startsWith('李') && !name.isFallback)).toBe(true);
+    expect(first.every(name => name.fiveGrids)).toBe(true);
+  });
+
+  it('reports each name as it is ready and records the model calls', async () => {
+    const onName = vi.fn();
+    const usage = createUsageTracker();
+
+    const names = await generateNames(options({ onName, usage }));
+
+    expect(onName).toHaveBeenCalledTimes(3);
+    expect(onName).toHaveBeenLastCalledWith(names[2], 2);
+    expect(usage.calls.length).toBeGreaterThanOrEqual(3);
+  });
+
+  it('does not repeat names from earlier rounds', async () => {
+    const earlier = await generateNames(options());
+
+    const next = await generateNames(options({ existingNames: earlier.map(name => name.chinese) }));
+
+    expect(next.some(name => earlier.some(previous => previous.chinese === name.chinese))).toBe(false);
+  });
+
+  it('drops offline names rather than break the user\'s constraints', async () => {
+    const onDropped = vi.fn();
+
+    const names = await generateNames(options({ offline: true, constraints: { givenNameLength: 1, requiredCharacters: ['明', '华'] }, onDropped }));
+
+    expect(names).toEqual([]);
+    expect(onDropped).toHaveBeenCalledTimes(3);
+  });
+});
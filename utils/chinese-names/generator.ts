@@ -0,0 +1,565 @@
+/**
+ * Chinese name generation pipeline
+ * Runs the per-name LLM calls and reports each name as soon as it is parsed,
+ * so the generate route can serve both blocking and streaming responses.
+ */
+
+import type { ChatMessage, LLMProvider } from '@/utils/llm/providers';
+import { completeWithUsage, type LLMCallRecord, type LLMUsageTracker } from '@/utils/llm/usage';
+import { formatSchemaIssues, generatedNameSchema } from '@/utils/chinese-names/schema';
+import { formatNamePinyin, verifyNameReadings } from '@/utils/chinese-names/lexicon';
+import { createSurnamePicker, type SurnameEntry } from '@/utils/chinese-names/surnames';
+import { withFiveGrids } from '@/utils/chinese-names/five-grids';
+import { screenName, type NameRejection } from '@/utils/chinese-names/homophone-filter';
+import { withRomanizations } from '@/utils/chinese-names/romanization';
+import { buildCorpusName } from '@/utils/chinese-names/name-corpus';
+import { checkNameConstraints, describeConstraints, hasConstraints } from '@/utils/chinese-names/constraints';
+import { ELEMENT_LABELS, ELEMENT_RADICALS, FIVE_ELEMENTS, formatElements, formatPillars, getCharacterElement } from '@/utils/chinese-names/bazi';
+import { renderTemplate, type PromptBlock, type PromptTemplate, type PromptVariables } from '@/utils/chinese-names/prompts';
+import { DEFAULT_OUTPUT_LANGUAGE, OUTPUT_LANGUAGES } from '@/utils/chinese-names/languages';
+import {
+  buildTransliterationCandidates,
+  getEnglishGivenName,
+  MIN_PHONETIC_SCORE,
+  phoneticSimilarity,
+  type TransliterationCandidate,
+} from '@/utils/chinese-names/transliteration';
+import type { BaziAnalysis, GenerateNameRequest, GenerationMode, NameConstraints, NameData, PlanType } from '@/types/chinese-names';
+
+// Extra attempts allowed to repair invalid or duplicate model output before falling back
+export const MAX_REPAIR_ATTEMPTS = 2;
+// Transliteration placeholders tried before giving up on one that passes the homophone filter and constraints
+const FALLBACK_SCREEN_ATTEMPTS = 6;
+// Most recent names listed in the prompt's avoid-list; older ones are still rejected as duplicates
+export const MAX_PROMPT_EXISTING_NAMES = 60;
+
+export const GENERATION_MODES: GenerationMode[] = ['meaning', 'transliteration'];
+
+export function isGenerationMode(value: unknown): value is GenerationMode {
+  return typeof value === 'string' && (GENERATION_MODES as string[]).includes(value);
+}
+
+// A saved name to build variants of, with extra prompt lines (see utils/chinese-names/refine)
+export interface NameRefinement {
+  original: NameData;
+  instructions: string[];
+}
+
+// The sibling a family-mode name is for and the names already chosen for the others (see utils/chinese-names/family)
+export interface NameFamilyContext {
+  memberName: string;
+  memberNames: string[];
+  theme?: string;
+  siblings: NameData[];
+}
+
+export interface GenerateNamesOptions
+  extends Pick<GenerateNameRequest, 'englishName' | 'gender' | 'birthYear' | 'personalityTraits' | 'namePreferences' | 'planType' | 'generationMode' | 'surnameStrategy' | 'surname' | 'familyName' | 'constraints' | 'outputLanguage'> {
+  provider: LLMProvider;
+  // Prompt version served to this plan type
+  promptTemplate: PromptTemplate;
+  isAuthenticated: boolean;
+  nameCount: number;
+  // Birth chart computed from birthDate/birthTime/birthTimezone, if given
+  baziAnalysis?: BaziAnalysis;
+  // Generate variants of an existing name instead of fresh names
+  refinement?: NameRefinement;
+  // Generate a name that belongs with the siblings' names
+  family?: NameFamilyContext;
+  // Names generated earlier that must not be repeated
+  existingNames?: string[];
+  // Build every name offline (name corpus or transliteration table) without calling the model
+  offline?: boolean;
+  // Records every model call, and the calls behind each returned name
+  usage?: LLMUsageTracker;
+  // Called with each name as soon as it is ready (including fallbacks)
+  onName?: (name: NameData, index: number) => void | Promise<void>;
+  // Called for each name the homophone filter rejected and had regenerated
+  onRejected?: (rejection: NameRejection) => void;
+  // Called for each repeat of an existing or earlier name that was replaced
+  onDuplicate?: (chinese: string) => void;
+  // Called for each name dropped because no acceptable offline name was left
+  onDropped?: () => void;
+}
+
+export function getTemperature(planType: PlanType): number {
+  return planType === '4' ? 0.9 : 0.8;
+}
+
+export async function generateNames(options: GenerateNamesOptions): Promise<NameData[]> {
+  const {
+    provider,
+    promptTemplate,
+    englishName,
+    gender,
+    birthYear,
+    personalityTraits,
+    namePreferences,
+    planType,
+    generationMode,
+    isAuthenticated,
+    nameCount,
+    baziAnalysis,
+    constraints,
+    refinement,
+    family,
+    existingNames = [],
+    offline = false,
+    outputLanguage = DEFAULT_OUTPUT_LANGUAGE,
+    usage,
+    onName,
+    onRejected,
+    onDuplicate,
+    onDropped,
+  } = options;
+
+  // A refinement must never hand back the name it started from
+  const generatedNames = new Set<string>([...existingNames, ...(refinement ? [refinement.original.chinese] : [])]);
+  const names: NameData[] = [];
+  const pickSurname = createSurnamePicker(options);
+
+  // Sound-alike candidates are computed once and offered to the model for every name
+  const transliterations = generationMode === 'transliteration' ? buildTransliterationCandidates(englishName, gender) : [];
+  const phoneticSource = transliterations.length > 0 ? getEnglishGivenName(englishName) : undefined;
+  if (generationMode === 'transliteration' && !phoneticSource) {
+    console.warn(`No transliteration found for "${englishName}", generating by meaning instead`);
+  }
+
+  // Names built without the model: the table transliteration in transliteration mode,
+  // otherwise the best unused corpus name. They are screened too; null when every
+  // option repeats an earlier name, sounds wrong or breaks the user's constraints.
+  // Their explanations are always in English.
+  const buildOfflineName = (i: number, surname: SurnameEntry): NameData | null => {
+    let name: NameData | null;
+
+    if (phoneticSource) {
+      const fallbackAt = (offset: number) =>
+        generateTransliterationFallback(transliterations[(i + offset) % transliterations.length], surname, phoneticSource, planType);
+      // Move on to the next transliteration when the surname makes it sound wrong,
+      // it breaks the user's constraints or it repeats an earlier name
+      const isUnacceptable = (candidate: NameData) =>
+        generatedNames.has(candidate.chinese) ||
+        screenName(candidate, surname.readings.length).length > 0 ||
+        (hasConstraints(constraints) && checkNameConstraints(candidate, constraints, surname.readings.length).length > 0);
+      let offset = 0;
+      name = fallbackAt(offset);
+      while (isUnacceptable(name) && ++offset < FALLBACK_SCREEN_ATTEMPTS) {
+        name = fallbackAt(offset);
+      }
+      if (isUnacceptable(name)) {
+        name = null;
+      }
+    } else {
+      const request = {
+        surname,
+        gender,
+        personalityTraits: isAuthenticated ? personalityTraits : undefined,
+        namePreferences: isAuthenticated ? namePreferences : undefined,
+        planType,
+        constraints,
+        baziAnalysis,
+        excludedNames: generatedNames,
+      };
+      // A corpus name that breaks the constraints is never used; the name is dropped instead
+      name = buildCorpusName(request);
+    }
+
+    if (!name) return null;
+    // Offline names stand in for the model's only when a model call failed
+    name = { ...name, isFallback: !offline, language: DEFAULT_OUTPUT_LANGUAGE };
+    return baziAnalysis ? withElements(name, baziAnalysis) : name;
+  };
+
+  if (process.env.NODE_ENV === 'development') {
+    console.log('Starting name generation loop:', { nameCount, user: isAuthenticated, offline });
+  }
+  for (let i = 0; i < nameCount; i++) {
+    let generatedName: NameData | null;
+    const surname = pickSurname();
+    const nameCalls: LLMCallRecord[] = [];
+
+    if (offline) {
+      generatedName = buildOfflineName(i, surname);
+    } else {
+      try {
+        const prompt = buildPrompt(promptTemplate, {
+          englishName,
+          gender,
+          birthYear,
+          personalityTraits,
+          namePreferences,
+          planType,
+          isAuthenticated,
+          surname: surname.surname,
+          position: i,
+          nameCount,
+          existingNames: Array.from(generatedNames).slice(-MAX_PROMPT_EXISTING_NAMES),
+          transliterations,
+          baziAnalysis,
+          constraints,
+          refinement,
+          family,
+          outputLanguage,
+        });
+
+        generatedName = await requestValidName(
+          provider,
+          promptTemplate,
+          prompt,
+          planType,
+          nameCalls,
+          generatedNames,
+          surname.readings,
+          phoneticSource,
+          baziAnalysis,
+          constraints,
+          onRejected,
+          onDuplicate
+        );
+        generatedName = { ...generatedName, language: outputLanguage };
+      } catch (error) {
+        console.error(`Error generating name ${i + 1}, using fallback:`, error);
+        generatedName = buildOfflineName(i, surname);
+      }
+    }
+
+    usage?.calls.push(...nameCalls);
+
+    // An unacceptable name is never stored: with no offline name left, the round has one name less
+    if (!generatedName) {
+      console.warn(`No acceptable offline name for name ${i + 1}, dropping it`);
+      onDropped?.();
+      continue;
+    }
+
+    generatedName = withRomanizations(withFiveGrids(generatedName, surname.readings.length), surname.readings.length);
+    generatedNames.add(generatedName.chinese);
+    names.push(generatedName);
+    usage?.names.set(generatedName.chinese, nameCalls);
+
+    if (onName) {
+      await onName(generatedName, names.length - 1);
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Ask the provider for a name and feed validation errors back to the model
+ * until the output matches the NameData schema or the attempts run out.
+ */
+async function requestValidName(
+  provider: LLMProvider,
+  promptTemplate: PromptTemplate,
+  prompt: string,
+  planType: PlanType,
+  calls: LLMCallRecord[],
+  existingNames: Set<string>,
+  surnameReadings: string[],
+  phoneticSource?: string,
+  baziAnalysis?: BaziAnalysis,
+  constraints?: NameConstraints,
+  onRejected?: (rejection: NameRejection) => void,
+  onDuplicate?: (chinese: string) => void
+): Promise<NameData> {
+  const messages: ChatMessage[] = [
+    {
+      role: "system",
+      content: renderTemplate(promptTemplate.system, {
+        tier: planType === '4' ? 'premium personalized' : 'standard personalized',
+      })
+    },
+    {
+      role: "user",
+      content: prompt
+    }
+  ];
+
+  let issues: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const completion = await completeWithUsage(provider, {
+      messages,
+      temperature: getTemperature(planType),
+      maxTokens: 1200,
+      topP: planType === '4' ? 0.95 : 0.9,
+    }, attempt, calls);
+
+    const responseContent = completion.content;
+    const validation = validateNameResponse(responseContent, existingNames, surnameReadings, phoneticSource, baziAnalysis, constraints);
+
+    if (validation.name) {
+      return {
+        ...validation.name,
+        // Ensure style field is set correctly
+        style: planType === '4' ? 'Premium' : 'Standard',
+        isFallback: false,
+      };
+    }
+
+    if (validation.rejection) {
+      onRejected?.(validation.rejection);
+    }
+    if (validation.duplicate) {
+      onDuplicate?.(validation.duplicate);
+    }
+
+    issues = validation.issues;
+    console.warn(`Invalid AI response (attempt ${attempt + 1}/${MAX_REPAIR_ATTEMPTS + 1}):`, issues);
+
+    messages.push(
+      { role: "assistant", content: responseContent || '' },
+      {
+        role: "user",
+        content: renderTemplate(promptTemplate.repair, { issues: issues.join('\n- ') })
+      }
+    );
+  }
+
+  throw new Error(`AI response failed validation after ${MAX_REPAIR_ATTEMPTS + 1} attempts: ${issues.join('; ')}`);
+}
+
+function validateNameResponse(
+  responseContent: string | null,
+  existingNames: Set<string>,
+  surnameReadings: string[],
+  phoneticSource?: string,
+  baziAnalysis?: BaziAnalysis,
+  constraints?: NameConstraints
+): { name?: NameData; issues: string[]; rejection?: NameRejection; duplicate?: string } {
+  if (!responseContent) {
+    return { issues: ['The response was empty'] };
+  }
+
+  let candidate: unknown;
+  try {
+    candidate = extractJson(responseContent);
+  } catch (error) {
+    return { issues: [error instanceof Error ? error.message : 'The response was not valid JSON'] };
+  }
+
+  const result = generatedNameSchema.safeParse(candidate);
+  if (!result.success) {
+    return { issues: formatSchemaIssues(result.error) };
+  }
+
+  // Names with characters outside the dictionary never reach generated_names
+  const readingCheck = verifyNameReadings(result.data, surnameReadings);
+  if (readingCheck.unknownCharacters.length > 0) {
+    return {
+      issues: [`These characters are not in the naming dictionary: ${readingCheck.unknownCharacters.join(', ')}. Use common standard characters instead`]
+    };
+  }
+
+  if (readingCheck.corrections.length > 0) {
+    console.warn('Corrected pinyin from dictionary:', readingCheck.corrections);
+  }
+
+  // Screened on the corrected readings, since that is how the name will be read aloud
+  const reasons = screenName(readingCheck.name, Math.max(surnameReadings.length, 1));
+  if (reasons.length > 0) {
+    return {
+      issues: [...reasons.map(reason => reason.message), 'Choose different given-name characters'],
+      rejection: { chinese: readingCheck.name.chinese, pinyin: readingCheck.name.pinyin, reasons },
+    };
+  }
+
+  if (hasConstraints(constraints)) {
+    const violations = checkNameConstraints(readingCheck.name, constraints, Math.max(surnameReadings.length, 1));
+    if (violations.length > 0) {
+      return { issues: [`"${readingCheck.name.chinese}" breaks the given-name rules:`, ...violations] };
+    }
+  }
+
+  // Scores and chart data are always computed here, never taken from the model
+  let name: NameData = { ...readingCheck.name, id: undefined, phoneticScore: undefined, baziAnalysis: undefined, familyMember: undefined, brand: undefined };
+  if (phoneticSource) {
+    const givenReadings = name.characters.slice(Math.max(surnameReadings.length, 1)).map(entry => entry.pinyin);
+    const phoneticScore = phoneticSimilarity(phoneticSource, givenReadings);
+    if (phoneticScore < MIN_PHONETIC_SCORE) {
+      return {
+        issues: [`The given name (${givenReadings.join(' ')}) does not sound enough like "${phoneticSource}" (similarity ${phoneticScore}/100). Choose characters whose readings echo its syllables`]
+      };
+    }
+    name = { ...name, phoneticScore };
+  }
+
+  if (baziAnalysis) {
+    name = withElements(name, baziAnalysis);
+    const givenElements = name.characters.slice(Math.max(surnameReadings.length, 1)).map(entry => entry.element);
+    if (!givenElements.some(element => element && baziAnalysis.favourableElements.includes(element))) {
+      return {
+        issues: [`No given-name character carries ${formatElements(baziAnalysis.favourableElements)}, which the birth chart lacks. Use at least one character with a radical such as ${baziAnalysis.favourableElements.map(element => ELEMENT_RADICALS[element].slice(0, 3).join(' ')).join(' / ')}`]
+      };
+    }
+  }
+
+  if (existingNames.has(name.chinese)) {
+    return {
+      issues: [`"${name.chinese}" duplicates a name already generated; choose different given-name characters`],
+      duplicate: name.chinese,
+    };
+  }
+
+  return { name, issues: [] };
+}
+
+interface PromptInput
+  extends Pick<GenerateNameRequest, 'englishName' | 'gender' | 'birthYear' | 'personalityTraits' | 'namePreferences' | 'planType'> {
+  isAuthenticated: boolean;
+  surname: string;
+  position: number;
+  nameCount: number;
+  existingNames: string[];
+  transliterations: TransliterationCandidate[];
+  baziAnalysis?: BaziAnalysis;
+  constraints?: NameConstraints;
+  refinement?: NameRefinement;
+  family?: NameFamilyContext;
+  outputLanguage?: GenerateNameRequest['outputLanguage'];
+}
+
+function buildPrompt(template: PromptTemplate, input: PromptInput): string {
+  const { englishName, gender, birthYear, personalityTraits, namePreferences, planType, isAuthenticated, surname, position, nameCount, existingNames, transliterations, baziAnalysis, constraints, refinement, family, outputLanguage } = input;
+
+  const randomSeed = Date.now() + Math.random() * 10000 + position * 1000;
+  const uniquePromptId = Math.random().toString(36).substring(2, 15);
+  const block = (name: PromptBlock, variables: PromptVariables = {}) => renderTemplate(template.blocks[name], variables);
+
+  // Build personalization info
+  let personalInfo = `English Name: ${englishName}`;
+  if (birthYear) personalInfo += `\nBirth Year: ${birthYear}`;
+  if (personalityTraits && isAuthenticated) personalInfo += `\nPersonality Traits: ${personalityTraits}`;
+  if (namePreferences && isAuthenticated) personalInfo += `\nName Preferences: ${namePreferences}`;
+
+  return renderTemplate(template.user, {
+    personalInfo,
+    gender,
+    generationType: planType === '1' ? 'Standard' : 'Premium',
+    surname,
+    compoundSurname: Array.from(surname).length > 1 ? block('compoundSurname', { surname }) : '',
+    seed: randomSeed,
+    uniqueId: uniquePromptId,
+    position: position + 1,
+    nameCount,
+    refinement: refinement
+      ? block('refinement', {
+        original: refinement.original.chinese,
+        originalPinyin: refinement.original.pinyin,
+        originalMeaning: refinement.original.meaning,
+        instructions: refinement.instructions.map(line => `\n- ${line}`).join(''),
+      })
+      : '',
+    family: family
+      ? block('family', {
+        memberName: family.memberName,
+        memberNames: family.memberNames.join(', '),
+        details: [
+          family.theme ? `Shared theme for all siblings: ${family.theme}` : '',
+          ...family.siblings.map(sibling => `Already named: ${sibling.chinese} (${sibling.pinyin}), meaning "${sibling.meaning}"`),
+        ].filter(Boolean).map(line => `\n- ${line}`).join(''),
+      })
+      : '',
+    bazi: baziAnalysis
+      ? block('bazi', {
+        pillarLabels: `year, month, day${baziAnalysis.pillars.length > 3 ? ', hour' : ''}`,
+        pillars: formatPillars(baziAnalysis),
+        elementBalance: FIVE_ELEMENTS.map(element => `${ELEMENT_LABELS[element].english} ${baziAnalysis.elementCounts[element]}`).join(', '),
+        favourableElements: baziAnalysis.favourableElements.join(', '),
+        favourableRadicals: baziAnalysis.favourableElements.map(element => `${element}: ${ELEMENT_RADICALS[element].join(' ')}`).join('; '),
+      })
+      : '',
+    constraints: hasConstraints(constraints)
+      ? block('constraints', { rules: describeConstraints(constraints).join('\n- ') })
+      : '',
+    existingNames: existingNames.length > 0
+      ? block('existingNames', { names: existingNames.join(', ') })
+      : '',
+    // English prompts stay exactly as they were before output languages
+    outputLanguage: outputLanguage && outputLanguage !== DEFAULT_OUTPUT_LANGUAGE
+      ? block('outputLanguage', { language: OUTPUT_LANGUAGES[outputLanguage].label })
+      : '',
+    requirements: block(planType === '4' && isAuthenticated ? 'premiumRequirements' : 'standardRequirements'),
+    style: transliterations.length > 0
+      ? block('transliteration', {
+        englishGivenName: getEnglishGivenName(englishName),
+        candidates: transliterations.map(candidate => `${candidate.characters.join('')} (${candidate.readings.join(' ')})`).join(', '),
+      })
+      : block('creativity'),
+    styleLabel: planType === '4' ? 'Premium' : 'Standard',
+  });
+}
+
+/**
+ * Tag every character with its element and attach the birth chart
+ */
+function withElements(name: NameData, baziAnalysis: BaziAnalysis): NameData {
+  return {
+    ...name,
+    characters: name.characters.map(entry => ({ ...entry, element: getCharacterElement(entry.character) })),
+    baziAnalysis,
+  };
+}
+
+export function extractJson(responseContent: string): unknown {
+  // Clean and extract JSON
+  let cleanedResponse = responseContent.trim();
+
+  const jsonStartIndex = cleanedResponse.indexOf('{');
+  const jsonEndIndex = cleanedResponse.lastIndexOf('}');
+
+  if (jsonStartIndex !== -1 && jsonEndIndex !== -1 && jsonEndIndex > jsonStartIndex) {
+    cleanedResponse = cleanedResponse.substring(jsonStartIndex, jsonEndIndex + 1);
+  } else {
+    const jsonMatch = cleanedResponse.match(/\{[\s\S]*?\}/);
+    if (jsonMatch) {
+      cleanedResponse = jsonMatch[0];
+    } else {
+      throw new Error('No valid JSON object found in AI response');
+    }
+  }
+
+  try {
+    return JSON.parse(cleanedResponse);
+  } catch {
+    throw new Error('The response contained malformed JSON');
+  }
+}
+
+// Fallback for transliteration mode: the table transliteration itself, without model-written meanings
+function generateTransliterationFallback(
+  candidate: TransliterationCandidate,
+  surname: SurnameEntry,
+  englishGivenName: string,
+  planType: string
+): NameData {
+  const given = candidate.characters.join('');
+
+  return {
+    chinese: `${surname.surname}${given}`,
+    pinyin: formatNamePinyin([...surname.readings, ...candidate.readings], surname.readings.length),
+    characters: [
+      ...Array.from(surname.surname).map((character, index) => ({
+        character,
+        pinyin: surname.readings[index],
+        meaning: "Family surname",
+        explanation: surname.compound
+          ? `Part of the compound surname ${surname.surname} (${surname.pinyin}).`
+          : "A traditional Chinese family name with historical significance."
+      })),
+      ...candidate.characters.map((character, index) => ({
+        character,
+        pinyin: candidate.readings[index],
+        meaning: `Sound "${candidate.readings[index]}"`,
+        explanation: `A conventional transliteration character chosen for its sound in "${englishGivenName}".`
+      }))
+    ],
+    meaning: `A Chinese rendering of "${englishGivenName}" that keeps the sound of the original name`,
+    culturalNotes: `${given} follows the standard characters used to transliterate foreign names into Chinese`,
+    personalityMatch: `This fallback name keeps the sound of your English name using well-established transliteration characters`,
+    style: planType === '4' ? 'Premium' : 'Standard',
+    isFallback: true,
+    phoneticScore: candidate.phoneticScore
+  };
+}
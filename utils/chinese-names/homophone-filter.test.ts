@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { screenName } from '@/utils/chinese-names/homophone-filter';
+import type { NameData } from '@/types/chinese-names';
+
+function name(chinese: string, pinyin: string[]): NameData {
+  return {
+    chinese,
+    pinyin: pinyin.join(' '),
+    characters: Array.from(chinese).map((character, index) => ({
+      character,
+      pinyin: pinyin[index],
+      meaning: '',
+      explanation: '',
+    })),
+    meaning: '',
+    culturalNotes: '',
+    personalityMatch: '',
+    style: 'Standard',
+  };
+}
+
+const codes = (entry: NameData, surnameLength?: number) => screenName(entry, surnameLength).map(reason => reason.code);
+
+describe('screenName', () => {
+  it('passes an ordinary name', () => {
+    expect(screenName(name('王景行', ['wáng', 'jǐng', 'xíng']))).toEqual([]);
+  });
+
+  it('flags a name that sounds like a bad phrase across surname and given name', () => {
+    expect(codes(name('杨伟', ['yáng', 'wěi']))).toContain('homophone');
+  });
+
+  it('only flags tone-sensitive homophones when the tones match', () => {
+    expect(codes(name('杨威', ['yáng', 'wēi']))).not.toContain('homophone');
+  });
+
+  it('flags taboo characters in the given name but not in the surname', () => {
+    expect(codes(name('王鬼明', ['wáng', 'guǐ', 'míng']))).toContain('taboo_character');
+    expect(codes(name('丧明', ['sāng', 'míng']), 1)).not.toContain('taboo_character');
+  });
+
+  it('flags a given name that repeats the surname sound', () => {
+    expect(codes(name('王旺', ['wáng', 'wàng']))).toEqual(['tone_collision']);
+  });
+
+  it('passes names that only echo an everyday word in toneless syllables or across the surname', () => {
+    expect(screenName(name('李尚欣', ['lǐ', 'shàng', 'xīn']))).toEqual([]);
+    expect(screenName(name('吴德华', ['wú', 'dé', 'huá']))).toEqual([]);
+    expect(screenName(name('石柏林', ['shí', 'bǎi', 'lín']))).toEqual([]);
+    expect(codes(name('李伤心', ['lǐ', 'shāng', 'xīn']))).toContain('homophone');
+  });
+
+  it('passes names with the same tone on every syllable', () => {
+    expect(screenName(name('王明阳', ['wáng', 'míng', 'yáng']))).toEqual([]);
+    expect(screenName(name('张新星', ['zhāng', 'xīn', 'xīng']))).toEqual([]);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Homophone and negative-association (谐音) filter
+ * Screens generated names against a curated offline list of embarrassing or
+ * unlucky sound-alikes, taboo characters and awkward tone patterns with the
+ * surname, so flagged names can be regenerated before anyone sees them.
+ */
+
+import { normalizeSyllable, stripTone } from '@/utils/chinese-names/lexicon';
+import type { NameData } from '@/types/chinese-names';
+
+export type NameRejectionCode = 'homophone' | 'taboo_character' | 'tone_collision';
+
+export interface NameRejectionReason {
+  code: NameRejectionCode;
+  message: string;
+}
+
+export interface NameRejection {
+  chinese: string;
+  pinyin: string;
+  reasons: NameRejectionReason[];
+}
+
+interface BadHomophone {
+  // Tone-marked readings of the phrase the name would be heard as
+  reading: string;
+  phrase: string;
+  gloss: string;
+  // Only flag when the tones match too; the toneless syllables alone are a common, harmless combination
+  exactTones?: boolean;
+  // An everyday word, only heard when the given name says it: across the surname
+  // it is a coincidence of sound (吴德华 is not 无德)
+  givenNameOnly?: boolean;
+}
+
+// Readings that spell out an insult, a bodily function or bad luck when a
+// name is said aloud; crude words wherever they fall across surname and given name
+const BAD_HOMOPHONES: BadHomophone[] = [
+  { reading: 'dù zi téng', phrase: '肚子疼', gloss: 'stomach ache' },
+  { reading: 'fàn tǒng', phrase: '饭桶', gloss: 'good-for-nothing' },
+  { reading: 'shǐ zhēn xiāng', phrase: '屎真香', gloss: 'the dung smells good' },
+  { reading: 'yáng wěi', phrase: '阳痿', gloss: 'impotence', exactTones: true },
+  { reading: 'zǎo xiè', phrase: '早泄', gloss: 'premature ejaculation' },
+  { reading: 'wú yòng', phrase: '无用', gloss: 'useless', exactTones: true, givenNameOnly: true },
+  { reading: 'wú dé', phrase: '无德', gloss: 'without virtue', exactTones: true, givenNameOnly: true },
+  { reading: 'wú chǐ', phrase: '无耻', gloss: 'shameless', exactTones: true, givenNameOnly: true },
+  { reading: 'wú néng', phrase: '无能', gloss: 'incompetent', exactTones: true, givenNameOnly: true },
+  { reading: 'fèi wù', phrase: '废物', gloss: 'trash, a loser', exactTones: true, givenNameOnly: true },
+  { reading: 'zhū tóu', phrase: '猪头', gloss: 'pig-head, an idiot' },
+  { reading: 'qín shòu', phrase: '禽兽', gloss: 'beast', exactTones: true },
+  { reading: 'hú li jīng', phrase: '狐狸精', gloss: 'vixen, a seductress' },
+  { reading: 'wèi shēng jīn', phrase: '卫生巾', gloss: 'sanitary pad' },
+  { reading: 'shén jīng bìng', phrase: '神经病', gloss: 'lunatic' },
+  { reading: 'páng guāng', phrase: '膀胱', gloss: 'bladder' },
+  { reading: 'gǒu shǐ', phrase: '狗屎', gloss: 'dog dung' },
+  { reading: 'lā shǐ', phrase: '拉屎', gloss: 'to defecate' },
+  { reading: 'pì gu', phrase: '屁股', gloss: 'buttocks' },
+  { reading: 'mǎ tǒng', phrase: '马桶', gloss: 'toilet' },
+  { reading: 'cè suǒ', phrase: '厕所', gloss: 'lavatory' },
+  { reading: 'fàn jiàn', phrase: '犯贱', gloss: 'to act cheaply' },
+  { reading: 'xià jiàn', phrase: '下贱', gloss: 'lowly, vile' },
+  { reading: 'jiàn rén', phrase: '贱人', gloss: 'slut' },
+  { reading: 'hǎo sè', phrase: '好色', gloss: 'lecherous' },
+  { reading: 'jì nǚ', phrase: '妓女', gloss: 'prostitute' },
+  { reading: 'tài jiān', phrase: '太监', gloss: 'eunuch', exactTones: true },
+  { reading: 'wáng bā', phrase: '王八', gloss: 'cuckold (an insult)' },
+  { reading: 'shǎ bī', phrase: '傻逼', gloss: 'a vulgar insult' },
+  { reading: 'jī ba', phrase: '鸡巴', gloss: 'a vulgar word for penis' },
+  { reading: 'shǎ guā', phrase: '傻瓜', gloss: 'fool', exactTones: true },
+  { reading: 'bái chī', phrase: '白痴', gloss: 'idiot', exactTones: true },
+  { reading: 'bèn dàn', phrase: '笨蛋', gloss: 'dummy', exactTones: true },
+  { reading: 'hún dàn', phrase: '混蛋', gloss: 'bastard', exactTones: true },
+  { reading: 'hú tu', phrase: '糊涂', gloss: 'muddle-headed', exactTones: true },
+  { reading: 'zhā nán', phrase: '渣男', gloss: 'a cad' },
+  { reading: 'sǐ wáng', phrase: '死亡', gloss: 'death', exactTones: true, givenNameOnly: true },
+  { reading: 'sǐ rén', phrase: '死人', gloss: 'a dead person', exactTones: true, givenNameOnly: true },
+  { reading: 'bìng sǐ', phrase: '病死', gloss: 'to die of illness', exactTones: true, givenNameOnly: true },
+  { reading: 'sòng zhōng', phrase: '送终', gloss: 'to attend a deathbed', exactTones: true, givenNameOnly: true },
+  { reading: 'shī tǐ', phrase: '尸体', gloss: 'corpse', exactTones: true, givenNameOnly: true },
+  { reading: 'mù bēi', phrase: '墓碑', gloss: 'tombstone', exactTones: true, givenNameOnly: true },
+  { reading: 'sāng lǐ', phrase: '丧礼', gloss: 'funeral', exactTones: true, givenNameOnly: true },
+  { reading: 'guǐ hún', phrase: '鬼魂', gloss: 'ghost', exactTones: true, givenNameOnly: true },
+  { reading: 'è mó', phrase: '恶魔', gloss: 'demon', exactTones: true, givenNameOnly: true },
+  { reading: 'bēi jù', phrase: '悲剧', gloss: 'tragedy', exactTones: true, givenNameOnly: true },
+  { reading: 'shāng xīn', phrase: '伤心', gloss: 'heartbroken', exactTones: true, givenNameOnly: true },
+  { reading: 'kū qì', phrase: '哭泣', gloss: 'weeping', exactTones: true, givenNameOnly: true },
+  { reading: 'shī bài', phrase: '失败', gloss: 'failure', exactTones: true, givenNameOnly: true },
+  { reading: 'pín qióng', phrase: '贫穷', gloss: 'poverty', exactTones: true, givenNameOnly: true },
+  { reading: 'méi qián', phrase: '没钱', gloss: 'penniless', exactTones: true, givenNameOnly: true },
+  { reading: 'lí hūn', phrase: '离婚', gloss: 'divorce', exactTones: true, givenNameOnly: true },
+  { reading: 'liú chǎn', phrase: '流产', gloss: 'miscarriage', exactTones: true, givenNameOnly: true },
+];
+
+// Characters never used in a given name for what they say outright
+const TABOO_CHARACTERS: Record<string, string> = {
+  '死': 'death',
+  '亡': 'death',
+  '丧': 'mourning',
+  '病': 'illness',
+  '鬼': 'ghost',
+  '尸': 'corpse',
+  '墓': 'grave',
+  '棺': 'coffin',
+  '哭': 'weeping',
+  '泪': 'tears',
+  '悲': 'sorrow',
+  '愁': 'grief',
+  '苦': 'bitterness',
+  '衰': 'decline',
+  '败': 'defeat',
+  '残': 'crippled',
+  '灾': 'disaster',
+  '祸': 'calamity',
+  '凶': 'ill omen',
+  '杀': 'killing',
+  '毒': 'poison',
+  '穷': 'poverty',
+  '贫': 'poverty',
+  '贱': 'lowliness',
+  '奴': 'slave',
+  '妓': 'prostitute',
+  '寡': 'widowhood',
+  '孤': 'loneliness',
+  '独': 'solitude',
+  '离': 'separation',
+  '屠': 'slaughter',
+  '狐': 'fox, a byword for seduction',
+  '迟': 'lateness',
+  '屎': 'dung',
+  '屁': 'flatulence',
+  '尿': 'urine',
+};
+
+function toSyllables(reading: string): string[] {
+  return reading.split(/\s+/).map(syllable => normalizeSyllable(syllable));
+}
+
+function findBadHomophones(readings: string[], surnameLength: number): BadHomophone[] {
+  const toneless = readings.map(stripTone);
+
+  return BAD_HOMOPHONES.filter(entry => {
+    const phrase = toSyllables(entry.reading);
+    const phraseToneless = phrase.map(stripTone);
+
+    for (let start = entry.givenNameOnly ? surnameLength : 0; start + phrase.length <= readings.length; start++) {
+      const matches = phrase.every((syllable, offset) =>
+        entry.exactTones
+          ? readings[start + offset] === syllable
+          : toneless[start + offset] === phraseToneless[offset]
+      );
+      if (matches) return true;
+    }
+    return false;
+  });
+}
+
+/**
+ * Reasons a name should not be offered, or an empty list when it is safe.
+ * `surnameLength` is the number of surname characters at the start of the name.
+ */
+export function screenName(name: NameData, surnameLength: number = 1): NameRejectionReason[] {
+  const reasons: NameRejectionReason[] = [];
+  const readings = name.characters.map(entry => normalizeSyllable(entry.pinyin));
+  const given = name.characters.slice(surnameLength);
+
+  for (const entry of findBadHomophones(readings, surnameLength)) {
+    reasons.push({
+      code: 'homophone',
+      message: `"${name.chinese}" sounds like ${entry.phrase} (${entry.reading}, "${entry.gloss}") when spoken`,
+    });
+  }
+
+  for (const { character } of given) {
+    const association = TABOO_CHARACTERS[character];
+    if (association) {
+      reasons.push({
+        code: 'taboo_character',
+        message: `"${name.chinese}" uses ${character}, which evokes ${association} and is avoided in given names`,
+      });
+    }
+  }
+
+  const surnameEnd = readings[surnameLength - 1];
+  const givenStart = readings[surnameLength];
+  if (surnameEnd && givenStart && stripTone(surnameEnd) === stripTone(givenStart)) {
+    reasons.push({
+      code: 'tone_collision',
+      message: `"${name.chinese}" repeats the surname's sound (${surnameEnd} ${givenStart}), which sounds like a stutter`,
+    });
+  }
+
+  return reasons;
+}
@@ -0,0 +1,197 @@
+/**
+ * Free-text input screening
+ * User text (names, traits, preferences, themes, brand briefs) is interpolated
+ * into LLM prompts, so it is screened before it reaches one: length limits,
+ * control text stripped, prompt-injection patterns and disallowed terms
+ * rejected. Used by every endpoint that sends user text to the model.
+ */
+
+import ErrorHandler, { type AppError } from '@/utils/error-handler';
+import type { GenerateNameRequest } from '@/types/chinese-names';
+
+export type InputScreeningCode = 'INPUT_TOO_LONG' | 'PROMPT_INJECTION' | 'DISALLOWED_TERM';
+
+export interface InputScreeningRejection {
+  field: string;
+  code: InputScreeningCode;
+  message: string;
+}
+
+export interface TextFieldRule {
+  label: string;
+  maxLength: number;
+  // Names and short labels: line breaks are collapsed into spaces
+  singleLine?: boolean;
+}
+
+export type TextScreeningResult =
+  | { ok: true; value: string }
+  | { ok: false; code: InputScreeningCode; message: string };
+
+export const INPUT_RULES = {
+  englishName: { label: 'Your name', maxLength: 100, singleLine: true },
+  familyName: { label: 'Family name', maxLength: 50, singleLine: true },
+  personalityTraits: { label: 'Personality traits', maxLength: 500 },
+  namePreferences: { label: 'Name preferences', maxLength: 500 },
+  familyMemberName: { label: 'Family member name', maxLength: 100, singleLine: true },
+  familyTheme: { label: 'Family theme', maxLength: 100, singleLine: true },
+  englishBrandName: { label: 'Brand name', maxLength: 100, singleLine: true },
+  industry: { label: 'Industry', maxLength: 100, singleLine: true },
+  brandValue: { label: 'Brand values', maxLength: 50, singleLine: true },
+} satisfies Record<string, TextFieldRule>;
+
+// C0/C1 control characters (except tab and line feed), zero-width and bidi override characters
+const CONTROL_CHARACTERS = /[\u0000-\u0008\u000B-\u001F\u007F-\u009F\u200B-\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF]/g;
+
+// Chat-format tokens, role prefixes and prompt delimiters that could pose as prompt structure
+const CONTROL_TEXT = [
+  /<\|[^|>]{0,40}\|>/g,
+  /\[\/?(?:INST|SYS)\]/gi,
+  /<<\/?SYS>>/gi,
+  /```+/g,
+  /\{\{|\}\}/g,
+  /^[ \t]*(?:system|assistant|user|developer)[ \t]*:/gim,
+];
+
+// Checked against the sanitized, NFKC-normalized, lowercased text
+const INJECTION_PATTERNS = [
+  // Rules and guidelines only count when they point at the prompt ("your rules"), not at tradition
+  /\b(?:ignore|disregard|forget|override|bypass)\b.{0,40}\b(?:instructions?|prompts?|(?:previous|prior|above|earlier|preceding|your|system|all)\s+(?:rules|guidelines|directions))\b/,
+  /\b(?:system|developer|hidden|original)\s+(?:prompt|message|instructions?)\b/,
+  /\b(?:new|updated|real)\s+instructions?\b/,
+  /\byou\s+are\s+now\b/,
+  /\bfrom\s+now\s+on\b.{0,20}\byou\b/,
+  /\b(?:pretend|roleplay)\s+(?:to\s+be|you\s+are|as)\b/,
+  /\bact\s+as\s+(?:an?\s+|the\s+)?(?:ai|assistant|model|chatbot|system)\b/,
+  /\b(?:respond|reply|answer|output|return)\s+(?:only\s+)?(?:with|in)\s+(?:the\s+following|this|plain\s+text|markdown)\b/,
+  /\b(?:reveal|print|repeat|show)\b.{0,30}\b(?:prompt|instructions)\b/,
+  /\b(?:jailbreak|developer\s+mode|do\s+anything\s+now)\b/,
+  /(?:忽略|无视|忘记|忘掉).{0,10}(?:指令|指示|提示|规则|要求)/,
+  /(?:系统|系統)(?:提示|指令)/,
+  /你现在是|从现在开始你/,
+];
+
+// Profanity, slurs and hate references that must never reach a name; word matches
+// allow common inflections (fucking, bitches), Chinese terms match anywhere except
+// inside 妈妈 (我妈妈的名字, 他妈妈)
+const DISALLOWED_WORDS = [
+  'fuck', 'motherfuck', 'shit', 'bitch', 'cunt', 'whore', 'slut', 'asshole',
+  'nigger', 'nigga', 'faggot', 'chink', 'retard', 'rapist', 'pedophile', 'porn',
+  'nazi', 'hitler', 'kkk',
+];
+const DISALLOWED_WORD_PATTERN = new RegExp(`\\b(?:${DISALLOWED_WORDS.join('|')})(?:s|es|er|ers|ing|ed)?\\b`);
+const DISALLOWED_CHINESE = new RegExp([
+  '傻逼', '傻屄', '操你', '肏', '(?<!妈)妈的', '他妈(?!妈)', '婊子', '贱人', '屌', '鸡巴', '王八蛋',
+  '去死', '色情', '支那', '纳粹', '希特勒', '法西斯',
+].join('|'));
+
+// Look-alike digits and symbols folded into letters before matching words (sh1t, b!tch)
+const LOOKALIKES: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's', '!': 'i' };
+
+/**
+ * Strip control characters and chat-format control text, and tidy whitespace
+ */
+export function sanitizeInput(value: string, singleLine: boolean = false): string {
+  let text = value.normalize('NFC').replace(CONTROL_CHARACTERS, '');
+  for (const pattern of CONTROL_TEXT) {
+    text = text.replace(pattern, ' ');
+  }
+
+  text = singleLine
+    ? text.replace(/\s+/g, ' ')
+    : text.replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n');
+  return text.trim();
+}
+
+/**
+ * Sanitize one text field and check it against its length limit, the
+ * injection patterns and the disallowed terms
+ */
+export function screenText(value: string, rule: TextFieldRule): TextScreeningResult {
+  const text = sanitizeInput(value, rule.singleLine);
+
+  if (Array.from(text).length > rule.maxLength) {
+    return {
+      ok: false,
+      code: 'INPUT_TOO_LONG',
+      message: `${rule.label}: please use ${rule.maxLength} characters or fewer.`,
+    };
+  }
+
+  const normalized = text.normalize('NFKC').toLowerCase();
+  if (INJECTION_PATTERNS.some(pattern => pattern.test(normalized))) {
+    return {
+      ok: false,
+      code: 'PROMPT_INJECTION',
+      message: `${rule.label}: this reads like instructions for the name generator. Please describe it in your own words.`,
+    };
+  }
+
+  const folded = normalized.replace(/[013457@$!]/g, character => LOOKALIKES[character]);
+  if (DISALLOWED_WORD_PATTERN.test(folded) || DISALLOWED_CHINESE.test(normalized)) {
+    return {
+      ok: false,
+      code: 'DISALLOWED_TERM',
+      message: `${rule.label}: this contains language we cannot use for names. Please remove it and try again.`,
+    };
+  }
+
+  return { ok: true, value: text };
+}
+
+/**
+ * Screen every free-text field of a generate request, returning the request
+ * with the sanitized text or the first rejection. Fields of the wrong type are
+ * left for the request's own validation.
+ */
+export function screenGenerationRequest(
+  body: GenerateNameRequest
+): { ok: true; body: GenerateNameRequest } | { ok: false; rejection: InputScreeningRejection } {
+  const screened: GenerateNameRequest = { ...body };
+  let rejection: InputScreeningRejection | null = null;
+
+  // Sanitizing keeps a string a string, so each field keeps its declared type
+  const screen = <T extends string | undefined>(field: string, value: T, rule: TextFieldRule): T => {
+    if (rejection || typeof value !== 'string') return value;
+    const result = screenText(value, rule);
+    if (!result.ok) {
+      rejection = { field, code: result.code, message: result.message };
+      return value;
+    }
+    return result.value as T;
+  };
+
+  screened.englishName = screen('englishName', body.englishName, INPUT_RULES.englishName);
+  screened.familyName = screen('familyName', body.familyName, INPUT_RULES.familyName);
+  screened.personalityTraits = screen('personalityTraits', body.personalityTraits, INPUT_RULES.personalityTraits);
+  screened.namePreferences = screen('namePreferences', body.namePreferences, INPUT_RULES.namePreferences);
+
+  if (body.family && typeof body.family === 'object') {
+    screened.family = {
+      ...body.family,
+      members: Array.isArray(body.family.members)
+        ? body.family.members.map((member, index) => member && typeof member === 'object'
+          ? { ...member, englishName: screen(`family.members.${index}.englishName`, member.englishName, INPUT_RULES.familyMemberName) }
+          : member)
+        : body.family.members,
+      theme: screen('family.theme', body.family.theme, INPUT_RULES.familyTheme),
+    };
+  }
+
+  if (body.brand && typeof body.brand === 'object') {
+    screened.brand = {
+      ...body.brand,
+      englishBrandName: screen('brand.englishBrandName', body.brand.englishBrandName, INPUT_RULES.englishBrandName),
+      industry: screen('brand.industry', body.brand.industry, INPUT_RULES.industry),
+      brandValues: Array.isArray(body.brand.brandValues)
+        ? body.brand.brandValues.map((value, index) => screen(`brand.brandValues.${index}`, value, INPUT_RULES.brandValue))
+        : body.brand.brandValues,
+    };
+  }
+
+  return rejection ? { ok: false, rejection } : { ok: true, body: screened };
+}
+
+export function toScreeningError(rejection: InputScreeningRejection): AppError {
+  return ErrorHandler.validationError(rejection.message, { field: rejection.field }, rejection.code);
+}
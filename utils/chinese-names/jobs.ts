@@ -0,0 +1,77 @@
+/**
+ * Client helpers for asynchronous generation jobs
+ * A job is started with POST /api/chinese-names/generate?async=1 and polled at
+ * /api/chinese-names/jobs/[id], so a page can pick it up again after a refresh.
+ */
+
+import { GenerationRequestError, type GenerationRequestErrorData } from '@/utils/chinese-names/stream';
+import { createIdempotencyKey, fetchWithIdempotencyKey } from '@/utils/idempotency-key';
+import type { GenerateNameResponse, GenerationJob } from '@/types/chinese-names';
+
+const POLL_INTERVAL_MS = 1500;
+
+async function readJobResponse(response: Response, fallbackMessage: string): Promise<GenerationJob> {
+  const data: unknown = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const body = data as GenerationRequestErrorData;
+    throw new GenerationRequestError(
+      body.error || `HTTP ${response.status}: ${fallbackMessage}`,
+      response.status,
+      body
+    );
+  }
+  return data as GenerationJob;
+}
+
+/**
+ * Start a generation job. Non-2xx responses are thrown as GenerationRequestError.
+ * Pass the same `idempotencyKey` when retrying a submit so it is charged once.
+ */
+export async function startGenerationJob(
+  requestBody: Record<string, unknown>,
+  idempotencyKey: string = createIdempotencyKey()
+): Promise<GenerationJob> {
+  const response = await fetchWithIdempotencyKey('/api/chinese-names/generate?async=1', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(requestBody),
+  }, idempotencyKey);
+
+  return readJobResponse(response, 'Failed to generate names');
+}
+
+export async function fetchGenerationJob(jobId: string): Promise<GenerationJob> {
+  const response = await fetch(`/api/chinese-names/jobs/${encodeURIComponent(jobId)}`, {
+    cache: 'no-store',
+  });
+
+  return readJobResponse(response, 'Failed to load generation job');
+}
+
+/**
+ * Poll a job until it settles and resolve with the full result. `onProgress`
+ * receives every snapshot, including the partial names of a running job.
+ */
+export async function waitForGenerationJob(
+  jobId: string,
+  onProgress?: (job: GenerationJob) => void
+): Promise<GenerateNameResponse> {
+  while (true) {
+    const job = await fetchGenerationJob(jobId);
+    onProgress?.(job);
+
+    if (job.status === 'completed' && job.result) {
+      return { ...job.result, names: job.names };
+    }
+
+    if (job.status === 'failed') {
+      throw new GenerationRequestError(
+        job.error?.error || 'Name generation failed. Please try again.',
+        500,
+        job.error || {}
+      );
+    }
+
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Cantonese readings for the bundled character dictionary
+ * Jyutping (LSHK) of the usual naming reading of every lexicon character,
+ * written as character + syllable + tone number, grouped like lexicon-data.ts.
+ * Lines starting with "#" are section comments.
+ */
+
+export const JYUTPING_SOURCE = `
+# Surnames
+王wong4 李lei5 张zoeng1 刘lau4 陈can4 杨joeng4 赵ziu6 黄wong4 周zau1 吴ng4 徐ceoi4 孙syun1 胡wu4 朱zyu1 高gou1 林lam4 何ho4 郭gwok3 马maa5 罗lo4
+梁loeng4 宋sung3 郑zeng6 谢ze6 韩hon4 唐tong4 冯fung4 于jyu1 董dung2 萧siu1 程cing4 曹cou4 袁jyun4 邓dang6 许heoi2 傅fu6 沈sam2 曾zang1 彭paang4 吕leoi5
+苏sou1 卢lou4 蒋zoeng2 蔡coi3 贾gaa2 丁ding1 魏ngai6 薛sit3 叶jip6 阎jim4 余jyu4 潘pun1 杜dou6 戴daai3 夏haa6 钟zung1 汪wong1 田tin4 任jam4 姜goeng1
+范faan6 方fong1 石sek6 姚jiu4 谭taam4 廖liu6 邹zau1 熊hung4 金gam1 陆luk6 郝kok3 孔hung2 白baak6 崔ceoi1 康hong1 毛mou4 邱jau1 秦ceon4 江gong1 史si2
+顾gu3 侯hau4 邵siu6 孟maang6 龙lung4 万maan6 段dyun6 雷leoi4 钱cin4 汤tong1 尹wan5 黎lai4 易jik6 常soeng4 武mou5 乔kiu4 贺ho6 赖laai6 龚gung1 文man4
+倪ngai4 祁kei4 陶tou4 虞jyu4
+# Compound surname characters
+欧au1 阳joeng4 司si1 诸zyu1 葛got3 上soeng6 官gun1 慕mou6 容jung4 东dung1 皇wong4 甫fu2 尉wat1 迟ci4 公gung1 令ling4 狐wu4 宇jyu5 端dyun1 木muk6
+南naam4 宫gung1 独duk6 孤gu1 申san1 屠tou4 轩hin1 辕jyun4 百baak3 里lei5 呼fu1 延jin4 离lei4 闻man4 人jan4 西sai1 门mun4 太taai3 赫hak1 连lin4
+澹daam6 台toi4
+# Sky, light and weather
+天tin1 日jat6 月jyut6 星sing1 辰san4 云wan4 雨jyu5 雪syut3 霜soeng1 露lou6 霞haa4 雯man4 霖lam4 霄siu1 霁zai3 霆ting4 震zan3 风fung1 飒saap3 光gwong1
+明ming4 晨san4 晓hiu2 晴cing4 昊hou6 昕jan1 晖fai1 晗ham4 晟sing4 曦hei1 旭juk1 昭ciu1 晶zing1 暄hyun1 昱juk1 景ging2 映jing2 智zi3 暖nyun5 时si4
+春ceon1 昌coeng1 晏aan3 曜jiu6 昂ngong4 晔jip6 旻man4 昀wan4 昶cong2 晞hei1 昆kwan1 晋zeon3 曙syu5 煜juk1 炎jim4 烨jip6 焕wun6 灿caan3 炜wai5 烁soek3
+熙hei1 然jin4 照ziu3 熠jap1 炫jyun6 耀jiu6 辉fai1 煦heoi2 焱jim6 熹hei1 炳bing2 灵ling4 虹hung4
+# Mountains, water and land
+山saan1 峰fung1 岚laam4 岩ngaam4 峻zeon3 嵘wing4 岳ngok6 峥zang1 崇sung4 崧sung1 屿zeoi6 屹ngat6 岑sam4 川cyun1 河ho4 海hoi2 洋joeng4 波bo1 涛tou4 澜laan4
+湖wu4 泉cyun4 溪kai1 源jyun4 泽zaak6 清cing1 澄cing4 洁git3 涵haam4 沐muk6 浩hou6 瀚hon6 渊jyun1 润jeon6 沛pui3 淳seon4 汐zik6 沁sam3 潇siu1 漫maan6
+泓wang4 淼miu5 汉hon3 洪hung4 济zai3 浚zeon3 涓gyun1 淑suk6 淇kei4 渝jyu4 滢jing4 滨ban1 漪ji1 潼tung4 淮waai4 洛lok6 湘soeng1 沅jyun4 汀ting1 沫mut6
+瀛jing4 洲zau1 湛zaam3 澈cit3 浠hei1 沙saa1 水seoi2 泰taai3 永wing5 磊leoi5 砚jin6 硕sek6 碧bik1 研jin4 坤kwan1 城sing4 培pui4 基gei1 坚gin1 均gwan1
+圣sing3 墨mak6 原jyun4 野je5 园jyun4 邦bong1
+# Plants
+森sam1 松cung4 柏paak3 桐tung4 梓zi2 楠naam4 桦waa6 枫fung1 柳lau5 杉caam3 樱jing1 桃tou4 梅mui4 棠tong4 榕jung4 柯o1 楷kaai2 栋dung6 材coi4 杰git6
+杭hong4 枝zi1 果gwo2 柔jau4 格gaak3 桂gwai3 梧ng4 槿gan2 朵do2 樾jyut6 桉on1 栩heoi2 楚co2 树syu6 荣wing4 芳fong1 芬fan1 芷zi2 若joek6 茗ming5
+茜sin3 莉lei6 莲lin4 菲fei1 萱hyun1 蓉jung4 蕾leoi5 薇mei4 兰laan4 菊guk1 芸wan4 英jing1 华waa4 花faa1 芝zi1 蔚wai3 蓝laam4 茂mau6 苗miu4 萌mang4
+菁zing1 芮jeoi6 苒jim5 荷ho4 蕴wan5 芊cin1 茹jyu4 莎saa1 莹jing4 萍ping4 蓓pui5 蕊jeoi5 茵jan1 菡haam5 蕙wai6 苡ji5 菀jyun2 芯sam1 莺ang1 艺ngai6
+禾wo4 秀sau3 秋cau1 穗seoi6 稼gaa3 秉bing2 穆muk6 竹zuk1 笙sang1 筠gwan1 笛dek6 筝zang1 箫siu1 筱siu2
+# Jade, metal and treasures
+玉juk6 琳lam4 琪kei4 瑶jiu4 瑾gan2 瑜jyu4 璇syun4 璐lou6 瑞seoi6 琦kei4 珊saan1 珍zan1 珠zyu1 玲ling4 琴kam4 瑛jing1 璟ging2 琛sam1 珂o1 玥jyut6
+环waan4 理lei5 瑄syun1 琬jyun2 琰jim5 璞pok3 珺gwan1 玮wai5 瑗wun6 璋zoeng1 珩hang4 珞lok6 玫mui4 瑰gwai3 钰juk6 铭ming4 锦gam2 鑫jam1 钧gwan1 铮zang1
+锐jeoi6 镇zan3 银ngan4 钦jam1 锋fung1 铎dok6 钊ciu1 鉴gaam3 宝bou2 鼎ding2
+# Birds and animals
+羽jyu5 翔coeng4 翰hon6 翊jik6 翎ling4 翼jik6 羿ngai6 鹏paang4 鸿hung4 鹤hok6 凤fung6 凰wong4 燕jin3 鸣ming4 鹰jing1 雁ngaan6 鸥au1 麟leon4 麒kei4 骏zeon3
+驰ci4 骁hiu1 骥kei3 骞hin1 腾tang4 鲲kwan1 虎fu2 彪biu1 蝶dip6
+# Virtues, learning and character
+德dak1 仁jan4 义ji6 礼lai5 信seon3 忠zung1 孝haau3 诚sing4 善sin6 慧wai6 敏man5 毅ngai6 勇jung5 恒hang4 思si1 怡ji4 悦jyut6 欣jan1 乐lok6 安on1
+宁ning4 静zing6 雅ngaa5 诗si1 书syu1 博bok3 学hok6 知zi1 言jin4 语jyu5 谦him1 谨gan2 健gin6 宏wang4 伟wai5 俊zeon3 豪hou4 雄hung4 强koeng4 刚gong1
+威wai1 志zi3 远jyun5 航hong4 舟zau1 帆faan4 行hang4 逸jat6 达daat6 道dou6 进zeon3 迪dik6 遥jiu4 逍siu1 遇jyu6 承sing4 继gai3 启kai2 新san1 立lap6
+建gin3 成sing4 功gung1 嘉gaa1 佳gaai1 家gaa1 宸san4 宣syun1 宜ji4 定ding6 实sat6 守sau2 宽fun1 寒hon4 寰waan4 哲zit3 睿jeoi6 聪cung1 颖wing6 恩jan1
+惠wai6 念nim6 意ji3 愉jyu4 忆jik1 怀waai4 惟wai4 悠jau4 憬ging2 恬tim4 性sing3 情cing4 心sam1 爱oi3 美mei5 丽lai6 慈ci4 愿jyun6 懿ji3 恺hoi2
+悟ng6 忱sam4 恪kok3 慎san6 懋mau6 敬ging3 敦deon1 斐fei2 斌ban1 彬ban1 彦jin6 孜zi1 谊ji4 诺nok6 誉jyu6 谐haai4 贤jin4 贞zing1 良loeng4 笃duk1
+纯seon4 素sou3 真zan1 致zi3 臻zeon1 卓coek3 冠gun3 超ciu1 越jyut6 跃joek6 卿hing1 君gwan1 士si6 儒jyu4 章zoeng1 竞ging6 靖zing6 齐cai4 勤kan4 劲ging6
+励lai6 勋fan1 厚hau5 裕jyu6
+# Colours, arts and refinement
+青cing1 紫zi2 红hung4 丹daan1 彤tung4 彩coi2 绿luk6 翠ceoi3 黛doi6 音jam1 韵wan5 韶siu4 歌go1 舞mou5 弦jin4 咏wing6 影jing2 香hoeng1 馨hing1 彰zoeng1
+绮ji2 绪seoi5 维wai4 绍siu6 缘jyun4 缤ban1 纪gei2 纬wai5 韬tou1 韫wan2 颂zung6 颜ngaan4 颐ji4 艳jim6 画waa6 采coi2 品ban2 雍jung1 毓juk6
+# Seasons, time and fortune
+冬dung1 年nin4 岁seoi3 长coeng4 久gau2 元jyun4 亨hang1 利lei6 祥coeng4 福fuk1 祺kei4 祯zing1 禧hei1 祖zou2 祎ji1 吉gat1 喜hei2 庆hing3 贵gwai3 富fu3
+盈jing4 益jik1 盛sing6 幸hang6 兆siu6 希hei1 望mong6 未mei6 来loi4 梦mung6 朝ziu1 夕zik6 初co1 寅jan4 庚gang1 宙zau6
+# People, family and general naming characters
+一jat1 三saam1 千cin1 子zi2 之zi1 以ji5 其kei4 亦jik6 也jaa5 乃naai5 可ho2 如jyu4 小siu2 大daai6 中zung1 正zing3 平ping4 国gwok3 民man4 军gwan1
+卫wai6 世sai3 伯baak3 仲zung6 叔suk1 季gwai3 宗zung1 和wo4 同tung4 向hoeng3 友jau5 双soeng1 唯wai4 尚soeng6 尧jiu4 尔ji5 允wan5 克hak1 冀kei3 凝jing4
+凌ling4 冰bing1 凯hoi2 凡faan4 冉jim5 央joeng1 奎fui1 奇kei4 奕jik6 弈jik6 爽song2 娅aa3 婉jyun2 婷ting4 娜naa4 娟gyun1 妍jin4 姝syu1 娴haan4 媛wun4
+嫣jin1 妙miu6 姗saan1 好hou2 婧zing6 婕zit3 婵sim4 姿zi1 娇giu1 妤jyu4 倩sin3 依ji1 伊ji1 佩pui3 俐lei6 倬coek3 优jau1 伦leon4 亮loeng6 宥jau6
+宛jyun2 巧haau2 帅seoi3 广gwong2 庭ting4 廷ting4 廉lim4 弘wang4 征zing1 徽fai1 微mei4 衡hang4 扬joeng4 振zan3 拓tok3 捷zit6 旋syun4 旖ji2 曼maan6 朗long5
+朋pang4 有jau5 胜sing3 胤jan6 欢fun1 歆jam1 牧muk6 玄jyun4 甜tim4 生sang1 畅coeng3 登dang1 皓hou6 皎gaau2 盼paan3 睦muk6 禹jyu5 穹kung4 群kwan4 羲hei1
+耘wan4 聆ling4 聿wat6 舜seon3 舒syu1 展zin2 融jung4 迎jing4 迈maai6 遂seoi6 郁juk1 隆lung4 隽zeon3 顺seon6 飞fei1 轶jat6 豫jyu6 赞zaan3 路lou6 斯si1
+甄jan1 泊bok6
+# Transliteration characters
+阿aa3 艾ngaai6 埃aai1 奥ou3 巴baa1 芭baa1 班baan1 贝bui3 本bun2 比bei2 布bou3 卡kaa1 肯hang2 库fu3 科fo1 蒂dai3 荻dik6 顿deon6 多do1 儿ji4
+法faat3 芙fu4 加gaa1 简gaan2 盖goi3 古gu2 哈haa1 霍fok3 姬gei1 居geoi1 拉laai1 莱loi4 劳lou4 玛maa5 蔓maan6 蒙mung4 米mai5 蜜mat6 莫mok6 纳naap6
+奈noi6 尼nei4 妮nei4 帕paa3 珀paak3 琼king4 萨saat3 赛coi3 桑song1 瑟sat1 丝si1 塔taap3 坦taan2 特dak6 提tai4 托tok3 瓦ngaa5 娃waa1 温wan1 沃juk1
+修sau1 辛san1 亚aa3 尤jau4 约joek3 扎zaat3 詹zim1 茱zyu1 佐zo2 查caa4
+`;
@@ -0,0 +1,81 @@
+/**
+ * Output languages for name explanations
+ * Names are explained in English unless the user picks another language: the
+ * model then writes meaning, culturalNotes, personalityMatch and the character
+ * explanations in that language. Saved names keep the language they were written
+ * in and collect translations into other languages on demand (see translation.ts).
+ */
+
+import { outputLanguageSchema } from '@/utils/chinese-names/schema';
+import type { NameCharacter, NameData, NameTranslation, OutputLanguage } from '@/types/chinese-names';
+
+export const DEFAULT_OUTPUT_LANGUAGE: OutputLanguage = 'en';
+
+// English name for prompts, native name for the language picker
+export const OUTPUT_LANGUAGES: Record<OutputLanguage, { label: string; nativeLabel: string }> = {
+  en: { label: 'English', nativeLabel: 'English' },
+  es: { label: 'Spanish', nativeLabel: 'Español' },
+  fr: { label: 'French', nativeLabel: 'Français' },
+  de: { label: 'German', nativeLabel: 'Deutsch' },
+  ja: { label: 'Japanese', nativeLabel: '日本語' },
+};
+
+export function isOutputLanguage(value: unknown): value is OutputLanguage {
+  return outputLanguageSchema.safeParse(value).success;
+}
+
+export function getNameLanguage(name: Pick<NameData, 'language'>): OutputLanguage {
+  return name.language ?? DEFAULT_OUTPUT_LANGUAGE;
+}
+
+// The translatable explanations of a name
+export function getNameTexts(name: NameData): NameTranslation {
+  return {
+    meaning: name.meaning,
+    culturalNotes: name.culturalNotes,
+    personalityMatch: name.personalityMatch,
+    characters: name.characters.map(entry => ({
+      character: entry.character,
+      meaning: entry.meaning,
+      explanation: entry.explanation,
+    })),
+  };
+}
+
+export function mergeTranslatedCharacters(characters: NameCharacter[], translation: NameTranslation): NameCharacter[] {
+  return characters.map((entry, index) => ({
+    ...entry,
+    meaning: translation.characters[index]?.meaning ?? entry.meaning,
+    explanation: translation.characters[index]?.explanation ?? entry.explanation,
+  }));
+}
+
+// saved_names columns holding the explanations, their language and the stored translations
+export interface SavedNameTextRow {
+  meaning: string;
+  cultural_notes: string | null;
+  personality_match: string | null;
+  characters: NameCharacter[];
+  language: OutputLanguage | null;
+  translations: Partial<Record<OutputLanguage, NameTranslation>> | null;
+}
+
+/**
+ * A saved_names row with its explanations in `language`, or null when the row
+ * was written in another language and has no stored translation into it
+ */
+export function applySavedNameTranslation<T extends SavedNameTextRow>(row: T, language: OutputLanguage): T | null {
+  if ((row.language ?? DEFAULT_OUTPUT_LANGUAGE) === language) return row;
+
+  const translation = row.translations?.[language];
+  if (!translation) return null;
+
+  return {
+    ...row,
+    meaning: translation.meaning,
+    cultural_notes: translation.culturalNotes,
+    personality_match: translation.personalityMatch,
+    characters: mergeTranslatedCharacters(row.characters, translation),
+    language,
+  };
+}
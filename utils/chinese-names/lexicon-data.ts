@@ -0,0 +1,945 @@
+/**
+ * Bundled character dictionary for name generation
+ * One character per line: character, readings (tone marks, naming reading
+ * first, "/"-separated), simplified stroke count, radical, approximate
+ * frequency rank in modern written Chinese (lower = more common), then an
+ * optional Kangxi column: the traditional form when it differs, followed by
+ * the Kangxi dictionary stroke count when it is not simply the simplified
+ * count with its radical written out in full (e.g. 张 → 張11, 成 → 7).
+ * Lines starting with "#" are section comments.
+ */
+
+export const LEXICON_SOURCE = `
+# Surnames
+王 wáng 4 王 60
+李 lǐ 7 木 290
+张 zhāng 7 弓 130 張11
+刘 liú 6 刂 590 劉15
+陈 chén 7 阝 480 陳16
+杨 yáng 7 木 690 楊13
+赵 zhào 9 走 860 趙14
+黄 huáng 11 黄 500 黃12
+周 zhōu 8 口 470
+吴 wú 7 口 930 吳7
+徐 xú 10 彳 1150
+孙 sūn 6 子 1000 孫10
+胡 hú 9 月 960 11
+朱 zhū 6 木 1030
+高 gāo 10 高 130
+林 lín 8 木 570
+何 hé 7 亻 520
+郭 guō 10 阝 1250
+马 mǎ 3 马 320 馬10
+罗 luó 8 罒 870 羅20
+梁 liáng 11 木 1380
+宋 sòng 7 宀 1270
+郑 zhèng 8 阝 1120 鄭19
+谢 xiè 12 讠 890 謝17
+韩 hán 12 韦 1460 韓17
+唐 táng 10 广 1230
+冯 féng 5 冫 1690 馮12
+于 yú 3 一 40
+董 dǒng 12 艹 1380
+萧 xiāo 11 艹 2000 蕭19
+程 chéng 12 禾 390
+曹 cáo 11 曰 1330
+袁 yuán 10 衣 1630
+邓 dèng 4 阝 1340 鄧19
+许 xǔ 6 讠 470 許11
+傅 fù 12 亻 1720
+沈 shěn/chén 7 氵 1370
+曾 zēng/céng 12 曰 580
+彭 péng 12 彡 1680
+吕 lǚ 6 口 2090 呂7
+苏 sū 7 艹 650 蘇22
+卢 lú 5 卜 1840 盧16
+蒋 jiǎng 12 艹 1620 蔣17
+蔡 cài 14 艹 2020
+贾 jiǎ/gǔ 10 贝 1850 賈13
+丁 dīng 2 一 1230
+魏 wèi 17 鬼 1530 18
+薛 xuē 16 艹 2270
+叶 yè 5 口 790 葉15
+阎 yán 11 门 2380 閻16
+余 yú 7 人 1280
+潘 pān 15 氵 2160
+杜 dù 7 木 1360
+戴 dài 17 戈 1290 18
+夏 xià 10 夂 1040
+钟 zhōng 9 钅 870 鍾17
+汪 wāng 7 氵 2110
+田 tián 5 田 790
+任 rén/rèn 6 亻 260
+姜 jiāng 9 女 1660
+范 fàn 8 艹 760
+方 fāng 4 方 100
+石 shí 5 石 640
+姚 yáo 9 女 1870
+谭 tán 14 讠 2410 譚19
+廖 liào 14 广 2490
+邹 zōu 7 阝 2500 鄒17
+熊 xióng 14 灬 1730
+金 jīn 8 金 540
+陆 lù 7 阝 760 陸16
+郝 hǎo 9 阝 2660
+孔 kǒng 4 子 1560
+白 bái 5 白 560
+崔 cuī 11 山 2360
+康 kāng 11 广 1320
+毛 máo 4 毛 680
+邱 qiū 7 阝 2700
+秦 qín 10 禾 1490
+江 jiāng 6 氵 580
+史 shǐ 5 口 500
+顾 gù 10 页 800 顧21
+侯 hóu 9 亻 1200
+邵 shào 7 阝 2480
+孟 mèng 8 子 1750
+龙 lóng 5 龙 1010 龍16
+万 wàn 3 一 520 萬15
+段 duàn 9 殳 760
+雷 léi 13 雨 1190
+钱 qián 10 钅 610 錢16
+汤 tāng 6 氵 1700 湯13
+尹 yǐn 4 尸 2630
+黎 lí 15 黍 1900
+易 yì 8 日 700
+常 cháng 11 巾 280
+武 wǔ 8 止 630
+乔 qiáo 6 丿 1650 喬12
+贺 hè 9 贝 1610 賀12
+赖 lài 13 贝 1860 賴16
+龚 gōng 11 龙 2800 龔22
+文 wén 4 文 180
+倪 ní 10 亻 2570
+祁 qí 6 阝 3300 8
+陶 táo 10 阝 1960
+虞 yú 13 虍 3000
+
+# Compound surname characters
+欧 ōu 8 欠 1560 歐15
+阳 yáng 6 阝 640 陽17
+司 sī 5 口 580
+诸 zhū 10 讠 1720 諸16
+葛 gě/gé 12 艹 2240
+上 shàng 3 一 16
+官 guān 8 宀 530
+慕 mù 14 心 2280 15
+容 róng 10 宀 510
+东 dōng 5 一 190 東8
+皇 huáng 9 白 1250
+甫 fǔ 7 用 3100
+尉 yù/wèi 11 寸 2900
+迟 chí 7 辶 1660 遲19
+公 gōng 4 八 150
+令 líng/lìng 5 人 830
+狐 hú 8 犭 2620
+宇 yǔ 6 宀 1260
+端 duān 14 立 1200
+木 mù 4 木 830
+南 nán 9 十 400
+宫 gōng 9 宀 1490 宮10
+独 dú 9 犭 860 獨17
+孤 gū 8 子 1850
+申 shēn 5 田 1430
+屠 tú 11 尸 2470 12
+轩 xuān 7 车 2480 軒10
+辕 yuán 14 车 3300 轅17
+百 bǎi 6 白 380
+里 lǐ 7 里 50
+呼 hū 8 口 920
+延 yán 6 廴 1530 7
+离 lí 10 亠 390 離19
+闻 wén 9 门 1020 聞14
+人 rén 2 人 7
+西 xī 6 西 300
+门 mén 3 门 230 門8
+太 tài 4 大 460
+赫 hè 14 赤 2450
+连 lián 7 辶 460 連14
+澹 tán/dàn 16 氵 3900
+台 tái 5 口 760 臺14
+
+# Sky, light and weather
+天 tiān 4 大 80
+日 rì 4 日 130
+月 yuè 4 月 310
+星 xīng 9 日 1030
+辰 chén 7 辰 2250
+云 yún 4 二 900 雲12
+雨 yǔ 8 雨 1070
+雪 xuě 11 雨 1280
+霜 shuāng 17 雨 2500
+露 lù/lòu 21 雨 870
+霞 xiá 17 雨 2340
+雯 wén 12 雨 3900
+霖 lín 16 雨 3600
+霄 xiāo 15 雨 3100
+霁 jì 14 雨 4100 霽22
+霆 tíng 14 雨 3300 15
+震 zhèn 15 雨 1380
+风 fēng 4 风 320 風9
+飒 sà 9 风 3700 颯14
+光 guāng 6 儿 240
+明 míng 8 日 200
+晨 chén 11 日 1890
+晓 xiǎo 10 日 1150 曉16
+晴 qíng 12 日 2310
+昊 hào 8 日 3800
+昕 xīn 8 日 4200
+晖 huī 10 日 3100 暉13
+晗 hán 11 日 4700
+晟 shèng 10 日 4300 11
+曦 xī 20 日 3800
+旭 xù 6 日 2740
+昭 zhāo 9 日 2400
+晶 jīng 12 日 1650
+暄 xuān 13 日 4600
+昱 yù 9 日 4600
+景 jǐng 12 日 730
+映 yìng 9 日 1310
+智 zhì 12 日 1100
+暖 nuǎn 13 日 1640
+时 shí 7 日 25 時10
+春 chūn 9 日 960
+昌 chāng 8 日 1780
+晏 yàn 10 日 3500
+曜 yào 18 日 4100
+昂 áng 8 日 2150
+晔 yè 10 日 4500 曄16
+旻 mín 8 日 5200
+昀 yún 8 日 5300
+昶 chǎng 9 日 5000
+晞 xī 11 日 5200
+昆 kūn 8 日 1900
+晋 jìn 10 日 1640 晉10
+曙 shǔ 17 日 2850 18
+煜 yù 13 火 4800
+炎 yán 8 火 1920
+烨 yè 10 火 4600 燁16
+焕 huàn 11 火 2130 煥13
+灿 càn 7 火 2440 燦17
+炜 wěi 8 火 4600 煒13
+烁 shuò 9 火 2780 爍19
+熙 xī 14 灬 2810
+然 rán 12 灬 120
+照 zhào 13 灬 710
+熠 yì 15 火 4300
+炫 xuàn 9 火 3100
+耀 yào 20 羽 1510
+辉 huī 12 光 1340 輝15
+煦 xù 13 灬 4400
+焱 yàn 12 火 5000
+熹 xī 16 灬 4700
+炳 bǐng 9 火 3200
+灵 líng 7 火 870 靈24
+虹 hóng 9 虫 2500
+
+# Mountains, water and land
+山 shān 3 山 290
+峰 fēng 10 山 1420
+岚 lán 7 山 4000 嵐12
+岩 yán 8 山 1500
+峻 jùn 10 山 2800
+嵘 róng 12 山 4200 嶸17
+岳 yuè 8 山 1900
+峥 zhēng 9 山 3800 崢11
+崇 chóng 11 山 1520
+崧 sōng 11 山 5500
+屿 yǔ 6 山 3500 嶼17
+屹 yì 6 山 3300
+岑 cén 7 山 4300
+川 chuān 3 川 1320
+河 hé 8 氵 520
+海 hǎi 10 氵 380
+洋 yáng 9 氵 1100
+波 bō 8 氵 870
+涛 tāo 10 氵 2050 濤18
+澜 lán 15 氵 3000 瀾21
+湖 hú 12 氵 1090
+泉 quán 9 水 1580
+溪 xī 13 氵 2330
+源 yuán 13 氵 760
+泽 zé 8 氵 1080 澤17
+清 qīng 11 氵 460
+澄 chéng/dèng 15 氵 3700
+洁 jié 9 氵 1650 潔16
+涵 hán 11 氵 3100
+沐 mù 7 氵 3700
+浩 hào 10 氵 1950
+瀚 hàn 19 氵 4300
+渊 yuān 11 氵 2300 淵12
+润 rùn 10 氵 1700 潤16
+沛 pèi 7 氵 3300
+淳 chún 11 氵 3600
+汐 xī 6 氵 5100
+沁 qìn 7 氵 3700
+潇 xiāo 14 氵 3300 瀟21
+漫 màn 14 氵 1470
+泓 hóng 8 氵 4600
+淼 miǎo 12 水 5300
+汉 hàn 5 氵 620 漢15
+洪 hóng 9 氵 1330
+济 jì/jǐ 9 氵 370 濟18
+浚 jùn 10 氵 4700
+涓 juān 10 氵 3900
+淑 shū 11 氵 2900
+淇 qí 11 氵 4500
+渝 yú 12 氵 3300
+滢 yíng 13 氵 5200 瀅19
+滨 bīn 13 氵 2600 濱18
+漪 yī 14 氵 4500
+潼 tóng 15 氵 4600
+淮 huái 11 氵 2650
+洛 luò 9 氵 1800
+湘 xiāng 12 氵 2600
+沅 yuán 7 氵 4400
+汀 tīng 5 氵 4100
+沫 mò 8 氵 3000
+瀛 yíng 19 氵 4300
+洲 zhōu 9 氵 1100
+湛 zhàn 12 氵 3300
+澈 chè 15 氵 3700
+浠 xī 10 氵 5700
+沙 shā 7 氵 950
+水 shuǐ 4 水 200
+泰 tài 10 水 1690
+永 yǒng 5 水 940
+磊 lěi 15 石 3500
+砚 yàn 9 石 3700 硯12
+硕 shuò 11 石 2400 碩14
+碧 bì 14 石 2350
+研 yán 9 石 520 11
+坤 kūn 8 土 3300
+城 chéng 9 土 450 10
+培 péi 11 土 1300
+基 jī 11 土 410
+坚 jiān 7 土 720 堅11
+均 jūn 7 土 1010
+圣 shèng 5 土 1150 聖13
+墨 mò 15 土 2000
+原 yuán 10 厂 350
+野 yě 11 里 1200
+园 yuán 7 囗 1030 園13
+邦 bāng 6 阝 2200
+
+# Plants
+森 sēn 12 木 1580
+松 sōng 8 木 1310
+柏 bǎi/bó 9 木 2570
+桐 tóng 10 木 3300
+梓 zǐ 11 木 4000
+楠 nán 13 木 4100
+桦 huà 10 木 4300 樺16
+枫 fēng 8 木 3300 楓13
+柳 liǔ 9 木 2000
+杉 shān 7 木 3500
+樱 yīng 15 木 3500 櫻21
+桃 táo 10 木 2200
+梅 méi 11 木 1900
+棠 táng 12 木 3800
+榕 róng 14 木 4500
+柯 kē 9 木 2500
+楷 kǎi 13 木 3500
+栋 dòng 9 木 2200 棟12
+材 cái 7 木 640
+杰 jié 8 木 1300 傑12
+杭 háng 8 木 2700
+枝 zhī 8 木 1600
+果 guǒ 8 木 220
+柔 róu 9 木 1690
+格 gé 10 木 430
+桂 guì 10 木 2400
+梧 wú 11 木 4100
+槿 jǐn 15 木 5200
+朵 duǒ 6 木 1900
+樾 yuè 16 木 5800
+桉 ān 10 木 5000
+栩 xǔ 10 木 3800
+楚 chǔ 13 木 1150
+树 shù 9 木 600 樹16
+荣 róng 9 艹 940 榮14
+芳 fāng 7 艹 1900
+芬 fēn 7 艹 2600
+芷 zhǐ 7 艹 5300
+若 ruò 8 艹 760
+茗 míng 9 艹 4600
+茜 qiàn/xī 9 艹 3800
+莉 lì 10 艹 2400
+莲 lián 10 艹 2600 蓮17
+菲 fēi 11 艹 1900
+萱 xuān 12 艹 4500
+蓉 róng 13 艹 3200
+蕾 lěi 16 艹 3600
+薇 wēi 16 艹 3400
+兰 lán 5 八 1230 蘭23
+菊 jú 11 艹 2700
+芸 yún 7 艹 3600
+英 yīng 8 艹 470
+华 huá/huà 6 十 290 華14
+花 huā 7 艹 640
+芝 zhī 6 艹 2600
+蔚 wèi 14 艹 2700
+蓝 lán 13 艹 1500 藍20
+茂 mào 8 艹 2300
+苗 miáo 8 艹 1700
+萌 méng 11 艹 2500
+菁 jīng 11 艹 4500
+芮 ruì 7 艹 5000
+苒 rǎn 8 艹 5200
+荷 hé 10 艹 1500
+蕴 yùn 15 艹 2400 蘊22
+芊 qiān 6 艹 5400
+茹 rú 9 艹 3900
+莎 shā 10 艹 2600
+莹 yíng 10 艹 3500 瑩15
+萍 píng 11 艹 2900
+蓓 bèi 13 艹 4900
+蕊 ruǐ 15 艹 3500
+茵 yīn 9 艹 3300
+菡 hàn 11 艹 5200
+蕙 huì 15 艹 5000
+苡 yǐ 8 艹 5800
+菀 wǎn 11 艹 5400
+芯 xīn 7 艹 3300
+莺 yīng 10 艹 3600 鶯21
+艺 yì 4 艹 760 藝21
+禾 hé 5 禾 3300
+秀 xiù 7 禾 1500
+秋 qiū 9 禾 1100
+穗 suì 17 禾 3300
+稼 jià 15 禾 3100
+秉 bǐng 8 禾 2700
+穆 mù 16 禾 2300
+竹 zhú 6 竹 1700
+笙 shēng 11 竹 4600
+筠 yún 13 竹 5000
+笛 dí 11 竹 2900
+筝 zhēng 12 竹 3900 箏14
+箫 xiāo 14 竹 3900 簫19
+筱 xiǎo 13 竹 4900
+
+# Jade, metal and treasures
+玉 yù 5 玉 1200
+琳 lín 12 王 3700
+琪 qí 12 王 4200
+瑶 yáo 14 王 3500 瑤15
+瑾 jǐn 15 王 4400
+瑜 yú 13 王 3300
+璇 xuán 15 王 4800
+璐 lù 17 王 5300
+瑞 ruì 13 王 1950
+琦 qí 12 王 4400
+珊 shān 9 王 2900
+珍 zhēn 9 王 1500
+珠 zhū 10 王 1500
+玲 líng 9 王 2700
+琴 qín 12 王 2100
+瑛 yīng 12 王 4300
+璟 jǐng 16 王 5700
+琛 chēn 12 王 5000
+珂 kē 9 王 4400
+玥 yuè 8 王 6000
+环 huán 8 王 700 環18
+理 lǐ 11 王 120
+瑄 xuān 13 王 5800
+琬 wǎn 12 王 5600
+琰 yǎn 12 王 5400
+璞 pú 16 王 4700
+珺 jùn 11 王 6000
+玮 wěi 8 王 4700 瑋14
+瑗 yuàn 13 王 5700
+璋 zhāng 15 王 5000
+珩 héng 10 王 6000
+珞 luò 10 王 5600
+玫 méi 8 王 3400
+瑰 guī 13 王 2700 15
+钰 yù 10 钅 5300 鈺13
+铭 míng 11 钅 2200 銘14
+锦 jǐn 13 钅 1900 錦16
+鑫 xīn 24 金 4600
+钧 jūn 9 钅 3300 鈞12
+铮 zhēng 11 钅 3900 錚16
+锐 ruì 12 钅 1600 銳15
+镇 zhèn 15 钅 800 鎮18
+银 yín 11 钅 960 銀14
+钦 qīn 9 钅 2500 欽12
+锋 fēng 12 钅 1700 鋒15
+铎 duó 10 钅 4600 鐸21
+钊 zhāo 7 钅 5000 釗10
+鉴 jiàn 13 金 1750 鑒22
+宝 bǎo 8 宀 760 寶20
+鼎 dǐng 12 鼎 2500 13
+
+# Birds and animals
+羽 yǔ 6 羽 2100
+翔 xiáng 12 羽 2600
+翰 hàn 16 羽 3400
+翊 yì 11 羽 5500
+翎 líng 11 羽 4800
+翼 yì 17 羽 1700
+羿 yì 9 羽 5000
+鹏 péng 13 鸟 2800 鵬19
+鸿 hóng 11 鸟 2700 鴻17
+鹤 hè 15 鸟 2900 鶴21
+凤 fèng 4 几 2100 鳳14
+凰 huáng 11 几 4000
+燕 yàn 16 灬 2000
+鸣 míng 8 口 1430 鳴14
+鹰 yīng 18 鸟 2700 鷹24
+雁 yàn 12 隹 3300
+鸥 ōu 9 鸟 4200 鷗22
+麟 lín 23 鹿 4300
+麒 qí 19 鹿 4700
+骏 jùn 10 马 3600 駿17
+驰 chí 6 马 2300 馳13
+骁 xiāo 9 马 4300 驍22
+骥 jì 19 马 4900 驥26
+骞 qiān 13 马 5200 騫20
+腾 téng 13 月 1900 騰20
+鲲 kūn 16 鱼 5200 鯤19
+虎 hǔ 8 虍 1600
+彪 biāo 11 彡 3300
+蝶 dié 15 虫 3300
+
+# Virtues, learning and character
+德 dé 15 彳 300
+仁 rén 4 亻 1600
+义 yì 3 丶 200 義13
+礼 lǐ 5 礻 1300 禮18
+信 xìn 9 亻 290
+忠 zhōng 8 心 1400
+孝 xiào 7 子 2200
+诚 chéng 8 讠 1000 誠14
+善 shàn 12 口 830
+慧 huì 15 心 2000
+敏 mǐn 11 攵 1600
+毅 yì 15 殳 1900
+勇 yǒng 9 力 1000
+恒 héng 9 忄 1900 恆10
+思 sī 9 心 290
+怡 yí 8 忄 3700
+悦 yuè 10 忄 2100 悅11
+欣 xīn 8 欠 1300
+乐 lè/yuè 5 丿 600 樂15
+安 ān 6 宀 350
+宁 níng 5 宀 1000 寧14
+静 jìng 14 青 870 靜16
+雅 yǎ 12 隹 2100
+诗 shī 8 讠 1000 詩13
+书 shū 4 乙 400 書10
+博 bó 12 十 1200
+学 xué 8 子 70 學16
+知 zhī 8 矢 170
+言 yán 7 言 470
+语 yǔ 9 讠 430 語14
+谦 qiān 12 讠 2500 謙17
+谨 jǐn 13 讠 2500 謹18
+健 jiàn 10 亻 1000 11
+宏 hóng 7 宀 1700
+伟 wěi 6 亻 1100 偉11
+俊 jùn 9 亻 2500
+豪 háo 14 豕 1800
+雄 xióng 12 隹 1200
+强 qiáng/qiǎng 12 弓 280 強11
+刚 gāng 6 刂 400 剛10
+威 wēi 9 戈 880
+志 zhì 7 心 560
+远 yuǎn 7 辶 480 遠17
+航 háng 10 舟 1500
+舟 zhōu 6 舟 2700
+帆 fān 6 巾 2500
+行 xíng/háng 6 行 90
+逸 yì 11 辶 2800
+达 dá 6 辶 310 達16
+道 dào 12 辶 90
+进 jìn 7 辶 90 進15
+迪 dí 8 辶 2600
+遥 yáo 13 辶 2400 遙17
+逍 xiāo 10 辶 4200
+遇 yù 12 辶 1000
+承 chéng 8 手 820
+继 jì 10 纟 690 繼20
+启 qǐ 7 户 1400 啟11
+新 xīn 13 斤 140
+立 lì 5 立 240
+建 jiàn 8 廴 310 9
+成 chéng 6 戈 50 7
+功 gōng 5 力 600
+嘉 jiā 14 口 2100
+佳 jiā 8 亻 1800
+家 jiā 10 宀 100
+宸 chén 10 宀 5000
+宣 xuān 9 宀 1100
+宜 yí 8 宀 1600
+定 dìng 8 宀 150
+实 shí 8 宀 160 實14
+守 shǒu 6 宀 1000
+宽 kuān 10 宀 1300 寬15
+寒 hán 12 宀 1300
+寰 huán 16 宀 4100
+哲 zhé 10 口 1700
+睿 ruì 14 目 4400
+聪 cōng 15 耳 1900 聰17
+颖 yǐng 13 页 2700 穎16
+恩 ēn 10 心 1600
+惠 huì 12 心 1600
+念 niàn 8 心 700
+意 yì 13 心 200
+愉 yú 12 忄 2500
+忆 yì 4 忄 1500 憶17
+怀 huái 7 忄 760 懷20
+惟 wéi 11 忄 2200
+悠 yōu 11 心 2300
+憬 jǐng 15 忄 4400
+恬 tián 9 忄 3900
+性 xìng 8 忄 110
+情 qíng 11 忄 180
+心 xīn 4 心 110
+爱 ài 10 爫 440 愛13
+美 měi 9 羊 340
+丽 lì 7 一 1300 麗19
+慈 cí 13 心 2200 14
+愿 yuàn 14 心 700 願19
+懿 yì 22 心 4500
+恺 kǎi 9 忄 4600 愷14
+悟 wù 10 忄 1800
+忱 chén 7 忄 3900
+恪 kè 9 忄 4000
+慎 shèn 13 忄 1800
+懋 mào 17 心 5000
+敬 jìng 12 攵 1300 13
+敦 dūn 12 攵 2100
+斐 fěi 12 文 4000
+斌 bīn 12 文 3500
+彬 bīn 11 彡 3300
+彦 yàn 9 彡 3300 彥9
+孜 zī 7 攵 3600
+谊 yì 10 讠 2100 誼15
+诺 nuò 10 讠 1700 諾16
+誉 yù 13 言 1600 譽21
+谐 xié 11 讠 2400 諧16
+贤 xián 8 贝 1700 賢15
+贞 zhēn 6 卜 2500 貞9
+良 liáng 7 艮 830
+笃 dǔ 9 竹 3300 篤16
+纯 chún 7 纟 1300 純10
+素 sù 10 糸 530
+真 zhēn 10 目 300
+致 zhì 10 至 640
+臻 zhēn 16 至 3900
+卓 zhuó 8 十 1900
+冠 guàn/guān 9 冖 2000
+超 chāo 12 走 700
+越 yuè 12 走 420
+跃 yuè 11 足 1500 躍21
+卿 qīng 10 卩 3400
+君 jūn 7 口 1100
+士 shì 3 士 700
+儒 rú 16 亻 2600
+章 zhāng 11 立 880
+竞 jìng 10 立 1300 競20
+靖 jìng 13 立 3600
+齐 qí 6 齐 940 齊14
+勤 qín 13 力 1800
+劲 jìn 7 力 1500 勁9
+励 lì 7 力 2200 勵17
+勋 xūn 9 力 3000 勳16
+厚 hòu 9 厂 1300
+裕 yù 12 衤 2600
+
+# Colours, arts and refinement
+青 qīng 8 青 750
+紫 zǐ 12 糸 1900
+红 hóng 6 纟 650 紅9
+丹 dān 4 丶 1800
+彤 tóng 7 彡 4500
+彩 cǎi 11 彡 1300
+绿 lǜ 11 纟 1300 綠14
+翠 cuì 14 羽 2800
+黛 dài 17 黑 3900
+音 yīn 9 音 650
+韵 yùn 13 音 2700 韻19
+韶 sháo 14 音 4300
+歌 gē 14 欠 1100
+舞 wǔ 14 舛 1400
+弦 xián 8 弓 2600
+咏 yǒng 8 口 3100 詠12
+影 yǐng 15 彡 350
+香 xiāng 9 香 1000
+馨 xīn 20 香 3600
+彰 zhāng 14 彡 2600
+绮 qǐ 11 纟 4000 綺14
+绪 xù 11 纟 1600 緒15
+维 wéi 11 纟 420 維14
+绍 shào 8 纟 1100 紹11
+缘 yuán 12 纟 1700 緣15
+缤 bīn 13 纟 4300 繽20
+纪 jì 6 纟 560 紀9
+纬 wěi 7 纟 3000 緯15
+韬 tāo 14 韦 4400 韜19
+韫 yùn 13 韦 5700 韞19
+颂 sòng 10 页 2400 頌13
+颜 yán 15 页 1200 顏18
+颐 yí 13 页 4300 頤15
+艳 yàn 10 色 2000 艷24
+画 huà 8 田 630 畫12
+采 cǎi 8 爫 690
+品 pǐn 9 口 400
+雍 yōng 13 隹 3700
+毓 yù 14 毋 4600
+
+# Seasons, time and fortune
+冬 dōng 5 夂 1700
+年 nián 6 丿 50
+岁 suì 6 山 1000 歲13
+长 cháng/zhǎng 4 长 110 長8
+久 jiǔ 3 丿 820
+元 yuán 4 儿 500
+亨 hēng 7 亠 3700
+利 lì 7 刂 210
+祥 xiáng 10 礻 1900
+福 fú 13 礻 1000
+祺 qí 12 礻 5000
+祯 zhēn 10 礻 5500 禎14
+禧 xǐ 16 礻 4300
+祖 zǔ 9 礻 960
+祎 yī 8 礻 6000 禕14
+吉 jí 6 口 1300
+喜 xǐ 12 口 700
+庆 qìng 6 广 1300 慶15
+贵 guì 9 贝 900 貴12
+富 fù 12 宀 750
+盈 yíng 9 皿 2000
+益 yì 10 皿 700
+盛 shèng/chéng 11 皿 1000 12
+幸 xìng 8 干 1400
+兆 zhào 6 儿 1900
+希 xī 7 巾 630
+望 wàng 11 月 350
+未 wèi 5 木 390
+来 lái 7 一 15 來8
+梦 mèng 11 夕 1000 夢14
+朝 zhāo/cháo 12 月 520
+夕 xī 3 夕 2700
+初 chū 7 衤 810 7
+寅 yín 11 宀 4200
+庚 gēng 8 广 3700
+宙 zhòu 8 宀 2600
+
+# People, family and general naming characters
+一 yī 1 一 2
+三 sān 3 一 130
+千 qiān 3 十 560
+子 zǐ 3 子 37
+之 zhī 3 丶 44 4
+以 yǐ 4 人 23 5
+其 qí 8 八 70
+亦 yì 6 亠 1300
+也 yě 3 乙 31
+乃 nǎi 2 丿 850
+可 kě 5 口 30
+如 rú 6 女 180
+小 xiǎo 3 小 100
+大 dà/dài 3 大 17
+中 zhōng 4 丨 14
+正 zhèng 5 止 130
+平 píng 5 干 270
+国 guó 8 囗 20 國11
+民 mín 5 氏 120
+军 jūn 6 冖 230 軍9
+卫 wèi 3 卩 730 衛15
+世 shì 5 一 160
+伯 bó 7 亻 1200
+仲 zhòng 6 亻 2500
+叔 shū 8 又 1500
+季 jì 8 子 1100
+宗 zōng 8 宀 880
+和 hé/hè 8 口 19
+同 tóng 6 冂 90
+向 xiàng 6 口 330
+友 yǒu 4 又 900
+双 shuāng 4 又 690 雙18
+唯 wéi 11 口 1600
+尚 shàng 8 小 1000
+尧 yáo 6 兀 3200 堯12
+尔 ěr 5 小 380 爾14
+允 yǔn 4 儿 2100
+克 kè 7 儿 430
+冀 jì 16 八 3200
+凝 níng 16 冫 1900
+凌 líng 10 冫 2000
+冰 bīng 6 冫 1500
+凯 kǎi 8 几 2300 凱12
+凡 fán 3 几 1100
+冉 rǎn 5 冂 3700
+央 yāng 5 大 1100
+奎 kuí 9 大 4100
+奇 qí/jī 8 大 1000
+奕 yì 9 大 4100
+弈 yì 9 廾 4200
+爽 shuǎng 11 大 2200
+娅 yà 9 女 4700 婭11
+婉 wǎn 11 女 2800
+婷 tíng 12 女 3600
+娜 nà/nuó 9 女 2000 10
+娟 juān 10 女 3300
+妍 yán 7 女 4500 9
+姝 shū 9 女 4900
+娴 xián 10 女 3900 嫻15
+媛 yuàn/yuán 12 女 4000
+嫣 yān 14 女 4000
+妙 miào 7 女 1600
+姗 shān 8 女 4600
+好 hǎo/hào 6 女 80
+婧 jìng 11 女 5000
+婕 jié 11 女 4900
+婵 chán 11 女 4600 嬋15
+姿 zī 9 女 1500
+娇 jiāo 9 女 2300 嬌15
+妤 yú 7 女 5600
+倩 qiàn 10 亻 3300
+依 yī 8 亻 830
+伊 yī 6 亻 1400
+佩 pèi 8 亻 1900
+俐 lì 9 亻 4500
+倬 zhuō 10 亻 5600
+优 yōu 6 亻 650 優17
+伦 lún 6 亻 1300 倫10
+亮 liàng 9 亠 1000
+宥 yòu 9 宀 5000
+宛 wǎn 8 宀 2500
+巧 qiǎo 5 工 1600
+帅 shuài 5 巾 1900 帥9
+广 guǎng 3 广 400 廣15
+庭 tíng 9 广 880 10
+廷 tíng 6 廴 2300 7
+廉 lián 13 广 2000
+弘 hóng 5 弓 2600
+征 zhēng 8 彳 800
+徽 huī 17 彳 2400
+微 wēi 13 彳 800
+衡 héng 16 行 1400
+扬 yáng 6 扌 1100 揚13
+振 zhèn 10 扌 1200
+拓 tuò 8 扌 2300
+捷 jié 11 扌 1700
+旋 xuán 11 方 1600
+旖 yǐ 14 方 5000
+曼 màn 11 曰 2500
+朗 lǎng 10 月 1800 11
+朋 péng 8 月 1300
+有 yǒu 6 月 8
+胜 shèng 9 月 800 勝12
+胤 yìn 9 月 4700 11
+欢 huān 6 欠 1000 歡22
+歆 xīn 13 欠 5300
+牧 mù 8 牛 2200
+玄 xuán 5 玄 2300
+甜 tián 11 甘 2300
+生 shēng 5 生 34
+畅 chàng 8 田 2000 暢14
+登 dēng 12 癶 1000
+皓 hào 12 白 3800
+皎 jiǎo 11 白 3800
+盼 pàn 9 目 2200
+睦 mù 13 目 3000
+禹 yǔ 9 禸 3300
+穹 qióng 8 穴 4000
+群 qún 13 羊 500
+羲 xī 16 羊 4300
+耘 yún 10 耒 5300
+聆 líng 11 耳 4000
+聿 yù 6 聿 6000
+舜 shùn 12 舛 3500
+舒 shū 12 舌 1900
+展 zhǎn 10 尸 330
+融 róng 16 鬲 1600
+迎 yíng 7 辶 1100
+迈 mài 6 辶 1800 邁17
+遂 suì 12 辶 1900
+郁 yù 8 阝 2500
+隆 lóng 11 阝 1400
+隽 jùn/juàn 10 隹 4300 雋13
+顺 shùn 9 页 900 順12
+飞 fēi 3 飞 490 飛9
+轶 yì 9 车 4500 軼12
+豫 yù 15 豕 2700 16
+赞 zàn 16 贝 1300 贊19
+路 lù 13 足 260
+斯 sī 12 斤 390
+甄 zhēn 13 瓦 4300 14
+泊 bó 8 氵 2200
+
+# Transliteration characters (conventional sound-alike characters for foreign names)
+阿 ā/ē 7 阝 620
+艾 ài/yì 5 艹 1700
+埃 āi 10 土 1900
+奥 ào 12 大 1000 奧13
+巴 bā 4 巳 700
+芭 bā 7 艹 3000
+班 bān 10 王 750
+贝 bèi 4 贝 1500 貝7
+本 běn 5 木 70
+比 bǐ 4 比 250
+布 bù 5 巾 590
+卡 kǎ/qiǎ 5 卜 950
+肯 kěn 8 月 1100 10
+库 kù 7 广 1200 庫10
+科 kē 9 禾 300
+蒂 dì 12 艹 2500
+荻 dí 10 艹 4500
+顿 dùn 10 页 1300 頓13
+多 duō 6 夕 80
+儿 ér 2 儿 300 兒8
+法 fǎ 8 氵 100
+芙 fú 7 艹 2900
+加 jiā 5 力 200
+简 jiǎn 13 竹 800 簡18
+盖 gài/gě 11 皿 1300 蓋16
+古 gǔ 5 口 620
+哈 hā 9 口 1400
+霍 huò 16 雨 2100
+姬 jī 10 女 2600 9
+居 jū 8 尸 1050
+拉 lā 8 扌 600
+莱 lái 10 艹 2200 萊14
+劳 láo 7 力 900 勞12
+玛 mǎ 7 王 2300 瑪15
+蔓 màn/wàn 14 艹 2700
+蒙 méng/měng 13 艹 1400
+米 mǐ 6 米 700
+蜜 mì 14 虫 2400
+莫 mò 10 艹 1200
+纳 nà 7 纟 1400 納10
+奈 nài 8 大 2000
+尼 ní 5 尸 1200
+妮 nī 8 女 2700
+帕 pà 8 巾 2300
+珀 pò 9 王 3300
+琼 qióng 12 王 2200 瓊20
+萨 sà 11 艹 2000 薩20
+赛 sài 14 贝 1500 賽17
+桑 sāng 10 木 2200
+瑟 sè 13 王 2900
+丝 sī 5 一 1600 絲12
+塔 tǎ 12 土 1700 13
+坦 tǎn 8 土 1600
+特 tè 10 牛 300
+提 tí/dī 12 扌 350
+托 tuō 6 扌 1500
+瓦 wǎ 4 瓦 1800 5
+娃 wá 9 女 2400
+温 wēn 12 氵 1100 溫14
+沃 wò 7 氵 2500
+修 xiū 9 亻 900 10
+辛 xīn 7 辛 1700
+亚 yà 6 一 750 亞8
+尤 yóu 4 尢 1500
+约 yuē 6 纟 450 約9
+扎 zhā/zā 4 扌 1700
+詹 zhān 13 言 3000
+茱 zhū 9 艹 4000
+佐 zuǒ 7 亻 2800
+查 chá/zhā 9 木 700
+`;
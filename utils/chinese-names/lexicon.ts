@@ -0,0 +1,236 @@
+/**
+ * Offline character lexicon
+ * Looks up readings, tone, stroke counts, radical, traditional form and
+ * frequency rank for name characters, and checks model-supplied pinyin against the bundled dictionary.
+ */
+
+import { LEXICON_SOURCE } from '@/utils/chinese-names/lexicon-data';
+import type { NameCharacter, NameData } from '@/types/chinese-names';
+
+export interface LexiconEntry {
+  character: string;
+  // Tone-marked readings, the usual naming reading first
+  readings: string[];
+  tones: number[];
+  // Simplified stroke count
+  strokes: number;
+  // Traditional form (the character itself when unchanged) and its Kangxi
+  // stroke count, the count used in name numerology
+  traditional: string;
+  kangxiStrokes: number;
+  radical: string;
+  frequencyRank: number;
+}
+
+export interface ReadingCorrection {
+  character: string;
+  from: string;
+  to: string;
+}
+
+export interface NameReadingCheck {
+  name: NameData;
+  unknownCharacters: string[];
+  corrections: ReadingCorrection[];
+}
+
+// Combining marks for tones 1-4 (after NFD normalization)
+const TONE_MARKS = ['\u0304', '\u0301', '\u030C', '\u0300'];
+const ZERO_INITIAL = /^[aoe]/;
+
+// Simplified-form radicals and the strokes they gain when written in full
+// (氵 → 水, 艹 → 艸, 辶 → 辵 ...), as the Kangxi dictionary counts them
+const KANGXI_RADICAL_EXTRA_STROKES: Record<string, number> = {
+  '氵': 1,
+  '扌': 1,
+  '忄': 1,
+  '犭': 1,
+  '礻': 1,
+  '衤': 1,
+  '王': 1,
+  '艹': 3,
+  '辶': 4,
+};
+// 阝 is 阜 (8 strokes) on the left of a character and 邑 (7) on the right
+const RIGHT_SIDE_YI = new Set(Array.from('郭郝邱邵邦郁'));
+
+function getKangxiStrokes(character: string, strokes: number, radical: string): number {
+  if (radical === '阝') return strokes + (RIGHT_SIDE_YI.has(character) ? 5 : 6);
+  if (character === radical) return strokes;
+  return strokes + (KANGXI_RADICAL_EXTRA_STROKES[radical] ?? 0);
+}
+
+let lexicon: Map<string, LexiconEntry> | null = null;
+
+function getLexicon(): Map<string, LexiconEntry> {
+  if (lexicon) return lexicon;
+
+  lexicon = new Map();
+  for (const line of LEXICON_SOURCE.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    const [character, readings, strokes, radical, rank, kangxi] = trimmed.split(/\s+/);
+    const readingList = readings.split('/').map(reading => reading.normalize('NFC'));
+    const simplifiedStrokes = parseInt(strokes, 10);
+    const [, traditional, kangxiStrokes] = kangxi?.match(/^(\D*)(\d+)$/) ?? [];
+
+    lexicon.set(character, {
+      character,
+      readings: readingList,
+      tones: readingList.map(getTone),
+      strokes: simplifiedStrokes,
+      traditional: traditional || character,
+      kangxiStrokes: kangxiStrokes
+        ? parseInt(kangxiStrokes, 10)
+        : getKangxiStrokes(character, simplifiedStrokes, radical),
+      radical,
+      frequencyRank: parseInt(rank, 10),
+    });
+  }
+
+  return lexicon;
+}
+
+export function lookupCharacter(character: string): LexiconEntry | undefined {
+  return getLexicon().get(character);
+}
+
+export function getPrimaryReading(character: string): string | undefined {
+  return lookupCharacter(character)?.readings[0];
+}
+
+/**
+ * Characters of `text` that are missing from the dictionary, in order, without repeats
+ */
+export function findUnknownCharacters(text: string): string[] {
+  const unknown = new Set<string>();
+  for (const character of Array.from(text)) {
+    if (!lookupCharacter(character)) unknown.add(character);
+  }
+  return Array.from(unknown);
+}
+
+/**
+ * Tone number of a syllable (1-4, 5 for neutral)
+ */
+export function getTone(syllable: string): number {
+  const decomposed = syllable.normalize('NFD');
+  const index = TONE_MARKS.findIndex(mark => decomposed.includes(mark));
+  return index === -1 ? 5 : index + 1;
+}
+
+export function stripTone(syllable: string): string {
+  return syllable
+    .normalize('NFD')
+    .replace(/[\u0300\u0301\u0304\u030C]/g, '')
+    .normalize('NFC');
+}
+
+/**
+ * Normalize a single syllable to lowercase, tone-marked form.
+ * Accepts numbered pinyin ("lv4", "jing3") as well as tone marks.
+ */
+export function normalizeSyllable(raw: string): string {
+  let syllable = raw
+    .trim()
+    .toLowerCase()
+    .normalize('NFC')
+    .replace(/u:|v/g, 'ü')
+    .replace(/[^a-z0-9\u00C0-\u024F]/g, '');
+
+  const numbered = syllable.match(/^([a-zü]+)([1-5])$/);
+  if (numbered) {
+    syllable = applyToneNumber(numbered[1], parseInt(numbered[2], 10));
+  }
+
+  return syllable;
+}
+
+function applyToneNumber(syllable: string, tone: number): string {
+  if (tone === 5) return syllable;
+
+  // Standard placement: a or e first, then the o of "ou", otherwise the last vowel
+  let index = syllable.search(/[ae]/);
+  if (index === -1) index = syllable.indexOf('ou');
+  if (index === -1) {
+    const vowels = Array.from(syllable.matchAll(/[iouü]/g));
+    index = vowels.length > 0 ? vowels[vowels.length - 1].index ?? -1 : -1;
+  }
+  if (index === -1) return syllable;
+
+  const marked = (syllable[index] + TONE_MARKS[tone - 1]).normalize('NFC');
+  return syllable.slice(0, index) + marked + syllable.slice(index + 1);
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function joinSyllables(syllables: string[]): string {
+  return syllables
+    .map((syllable, index) => (index > 0 && ZERO_INITIAL.test(stripTone(syllable)) ? `'${syllable}` : syllable))
+    .join('');
+}
+
+/**
+ * Format per-character readings as "Surname Givenname", e.g. "Ōuyáng Xī'ān"
+ */
+export function formatNamePinyin(readings: string[], surnameLength: number = 1): string {
+  const surname = capitalize(joinSyllables(readings.slice(0, surnameLength)));
+  const given = capitalize(joinSyllables(readings.slice(surnameLength)));
+  return given ? `${surname} ${given}` : surname;
+}
+
+function comparablePinyin(pinyin: string): string {
+  return pinyin.toLowerCase().normalize('NFC').replace(/[\s'’-]/g, '');
+}
+
+/**
+ * Check a name against the dictionary: per-character readings are corrected to a
+ * listed reading (keeping the model's choice when it is valid for a polyphonic
+ * character) and the full pinyin is rebuilt from them. Surname characters take
+ * the surname's own readings when given (e.g. 长孙 is Zhǎngsūn, not Chángsūn).
+ * Characters missing from the dictionary are reported so the caller can reject the name.
+ */
+export function verifyNameReadings(name: NameData, surnameReadings: string[] = []): NameReadingCheck {
+  const unknownCharacters: string[] = [];
+  const corrections: ReadingCorrection[] = [];
+  const surnameLength = Math.max(surnameReadings.length, 1);
+
+  const characters: NameCharacter[] = name.characters.map((entry, index) => {
+    const dictionaryEntry = lookupCharacter(entry.character);
+    if (!dictionaryEntry) {
+      unknownCharacters.push(entry.character);
+      return entry;
+    }
+
+    const given = normalizeSyllable(entry.pinyin);
+    const reading =
+      surnameReadings[index] ??
+      dictionaryEntry.readings.find(candidate => candidate === given) ??
+      dictionaryEntry.readings.find(candidate => stripTone(candidate) === stripTone(given)) ??
+      dictionaryEntry.readings[0];
+
+    if (reading !== given) {
+      corrections.push({ character: entry.character, from: entry.pinyin, to: reading });
+    }
+
+    return { ...entry, pinyin: reading };
+  });
+
+  if (unknownCharacters.length > 0) {
+    return { name, unknownCharacters, corrections };
+  }
+
+  const pinyin = formatNamePinyin(characters.map(entry => entry.pinyin), surnameLength);
+  if (comparablePinyin(pinyin) !== comparablePinyin(name.pinyin)) {
+    corrections.push({ character: name.chinese, from: name.pinyin, to: pinyin });
+  }
+
+  return {
+    name: { ...name, pinyin, characters },
+    unknownCharacters,
+    corrections,
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * LLM access policy for name generation
+ * Decides per request whether to call the model, serve names from the curated
+ * corpus at no cost, or shed the request, based on the provider circuit
+ * breakers and the LLM_SPEND_CAPS ceilings per traffic class. Anonymous traffic
+ * is shed first while the providers are failing; paid traffic is served offline.
+ */
+
+import { getCachedEnvConfig, type LLMTrafficClass } from '@/utils/env-config';
+import { getProviderChainState, isLLMAvailable } from '@/utils/llm/providers';
+import { getLLMSpendTotals, type LLMSpendTotals } from '@/utils/supabase/llm-usage';
+import type { PlanType } from '@/types/chinese-names';
+
+export type LLMAccess =
+  | { mode: 'llm' }
+  // Names come from the curated corpus and nothing is charged
+  | { mode: 'offline'; reason: 'unconfigured' | 'circuit-open' | 'spend-cap' }
+  // The request is refused with a retry-later response
+  | { mode: 'shed'; retryAfterSeconds: number };
+
+// Spend totals are re-read at most this often, so a cap can be overshot by about a minute of traffic
+const SPEND_TOTALS_TTL_MS = 60_000;
+
+let cachedSpendTotals: { loadedAt: number; totals: Record<LLMTrafficClass, LLMSpendTotals> } | null = null;
+
+export function getTrafficClass(isAuthenticated: boolean, planType: PlanType): LLMTrafficClass {
+  if (!isAuthenticated) return 'anonymous';
+  return planType === '4' ? 'premium' : 'standard';
+}
+
+async function getSpendTotals(): Promise<Record<LLMTrafficClass, LLMSpendTotals> | null> {
+  if (cachedSpendTotals && Date.now() - cachedSpendTotals.loadedAt < SPEND_TOTALS_TTL_MS) {
+    return cachedSpendTotals.totals;
+  }
+
+  try {
+    cachedSpendTotals = { loadedAt: Date.now(), totals: await getLLMSpendTotals() };
+    return cachedSpendTotals.totals;
+  } catch (error) {
+    // Spend accounting must not take generation down with it: without totals, caps are not enforced
+    console.error('Failed to load LLM spend totals:', error);
+    return null;
+  }
+}
+
+/**
+ * Whether a traffic class has reached its daily or monthly spend ceiling
+ */
+export async function isOverSpendCap(trafficClass: LLMTrafficClass): Promise<boolean> {
+  const cap = getCachedEnvConfig().llm.spendCaps[trafficClass];
+  if (cap.daily === undefined && cap.monthly === undefined) return false;
+
+  const totals = await getSpendTotals();
+  if (!totals) return false;
+
+  const spent = totals[trafficClass];
+  return (cap.daily !== undefined && spent.dailyUsd >= cap.daily)
+    || (cap.monthly !== undefined && spent.monthlyUsd >= cap.monthly);
+}
+
+export async function getLLMAccess(isAuthenticated: boolean, planType: PlanType): Promise<LLMAccess> {
+  if (!isLLMAvailable(planType)) {
+    // Anonymous users get corpus names; a misconfigured model still fails paid requests loudly
+    return isAuthenticated ? { mode: 'llm' } : { mode: 'offline', reason: 'unconfigured' };
+  }
+
+  // While every provider is failing, drop anonymous traffic and serve paid users offline;
+  // a provider due a trial request is tried with paid traffic only
+  const chain = getProviderChainState(planType);
+  if (chain.state !== 'closed') {
+    if (!isAuthenticated) {
+      return { mode: 'shed', retryAfterSeconds: Math.max(chain.retryAfterSeconds, 1) };
+    }
+    if (chain.state === 'open') {
+      return { mode: 'offline', reason: 'circuit-open' };
+    }
+  }
+
+  const trafficClass = getTrafficClass(isAuthenticated, planType);
+  if (await isOverSpendCap(trafficClass)) {
+    console.warn(`LLM spend cap reached for ${trafficClass} traffic; serving corpus names`);
+    return { mode: 'offline', reason: 'spend-cap' };
+  }
+
+  return { mode: 'llm' };
+}
@@ -0,0 +1,229 @@
+/**
+ * Curated given-name corpus
+ * Vetted given-name characters and classic two-character given names, one per
+ * line: the character (or given name), gender (m, f or n for neutral),
+ * comma-separated meaning themes and a short gloss, then " | " and the
+ * explanation shown on the name card. Every character must be in the lexicon,
+ * which supplies its reading, tone and element.
+ * Lines starting with "#" are section comments.
+ */
+
+export const CORPUS_CHARACTERS_SOURCE = `
+# Sky and light
+明 n light,wisdom Bright | Brightness and a clear, understanding mind
+晨 n light Morning | The fresh start of early morning
+晓 n light,wisdom Dawn | Daybreak; also to understand
+昊 m light,ambition Vast sky | The boundless summer sky
+昕 n light Sunrise | The moment the sun rises
+晖 n light Sunlight | The warm glow of sunshine
+曦 f light Morning sunlight | The first light of the sun
+旭 m light,ambition Rising sun | The sun climbing over the horizon
+昭 n light,virtue Illustrious | Shining and plain for all to see
+晴 f light,peace Clear sky | Fine, cloudless weather
+煜 m light Blazing | Brilliant, glowing light
+熙 n light,prosperity Radiant | Bright and flourishing
+辰 n light Celestial bodies | The stars and the order of time
+星 n light Star | A star shining in the night sky
+朗 m light Bright | Bright and open-hearted
+皓 m light,virtue Luminous | Pure and shining white
+亮 m light Bright | Bright, clear and honest
+彤 f light Vermilion | A warm red glow
+云 n nature,peace Cloud | Drifting clouds, free and lofty
+霖 n water,prosperity Timely rain | Rain that falls when it is most needed
+# Water
+清 n water,virtue Clear | Clean and pure like clear water
+涵 n water,virtue Magnanimous | To contain; broad-minded tolerance
+泽 n water,virtue Grace | A marsh; kindness that benefits others
+源 n water Source | The spring a river rises from
+澄 n water,peace Limpid | Still, settled and clear
+浩 m water,ambition Vast | Grand and vast like great waters
+瀚 m water,ambition Boundless | The boundless expanse of the sea
+溪 f water,nature Brook | A clear mountain stream
+沐 n water,peace Bathed | Bathed in grace and kindness
+润 n water,prosperity Enriched | Nourished and thriving
+澜 f water Waves | Great rolling waves
+渊 m water,wisdom Deep | Deep waters; profound learning
+川 m water,nature River | A river flowing steadily onward
+汐 f water Evening tide | The tide that rises at dusk
+# Mountains and plants
+峰 m nature,ambition Peak | A summit reached by effort
+岚 f nature Mountain mist | Mist drifting over the mountains
+岳 m nature,strength Lofty mountain | A great, towering mountain
+森 m nature Forest | A dense, thriving forest
+松 m nature,strength Pine | The pine, evergreen through winter
+柏 m nature,virtue Cypress | The cypress, a symbol of integrity
+桐 n nature Paulownia | The tree where phoenixes are said to rest
+梓 n nature Catalpa | A fine timber tree; one's hometown
+楠 n nature Nanmu | A precious, enduring hardwood
+枫 n nature Maple | Maple leaves glowing in autumn
+芷 f nature,virtue Angelica | A fragrant herb; noble character in classical poetry
+若 f nature Pollia | A fragrant herb of the Songs of Chu
+萱 f nature,peace Daylily | The daylily, flower that banishes care
+蕾 f nature Bud | A flower bud about to bloom
+薇 f nature,beauty Rose fern | A delicate wild flower of the Book of Songs
+兰 f nature,virtue Orchid | The orchid, emblem of refinement
+芸 f nature,wisdom Rue | A fragrant herb once kept among books
+荷 f nature,virtue Lotus | The lotus, pure though rooted in mud
+竹 n nature,virtue Bamboo | Bamboo: upright, flexible and humble
+禾 n nature,prosperity Grain | Growing grain and a good harvest
+青 n nature Azure | The colour of young growth and clear skies
+# Jade and treasures
+瑶 f beauty Precious jade | Fine jade; something treasured
+琳 f beauty Beautiful jade | Lustrous jade
+瑾 f beauty,virtue Fine jade | Jade of flawless virtue
+瑜 n beauty,virtue Jade's lustre | The lustre of fine jade; excellence
+璇 f beauty,light Fine jade | Jade; also the stars of the Big Dipper
+瑞 n prosperity Auspicious | A good omen
+琪 f beauty Fine jade | A rare, fine jade
+琛 m prosperity Treasure | A precious gem
+璟 m light,beauty Jade's glow | The radiance of jade
+珩 m virtue Jade pendant | The jade ornament worn by gentlemen
+钰 n prosperity Treasure | Precious metal and jade
+铭 m virtue,ambition Inscription | Words engraved to be remembered
+锦 n beauty,prosperity Brocade | Rich brocade; a splendid future
+# Birds and animals
+羽 n arts,ambition Feather | Feathers and flight
+翔 m ambition Soar | Soaring high in the sky
+翰 m arts,wisdom Writing brush | A fine brush; literary talent
+鹏 m ambition,strength Roc | The legendary bird that flies ten thousand li
+鸿 m ambition Swan goose | Far-flying; great ambitions
+鹤 n peace,virtue Crane | The crane, a symbol of longevity and grace
+骏 m strength Fine steed | A swift, excellent horse
+# Virtues and learning
+德 m virtue Virtue | Moral excellence
+仁 m virtue Benevolence | Humaneness, the central Confucian virtue
+诚 n virtue Sincere | Honest and sincere
+善 n virtue Kind | Goodness and kindness
+慧 f wisdom Wisdom | Wisdom and insight
+敏 n wisdom Quick-witted | Sharp and quick to learn
+毅 m strength Resolute | Firm will and perseverance
+恒 m strength,virtue Constant | Perseverance and constancy
+思 n wisdom Thought | Thoughtful reflection
+怡 f peace Joyful | Happy and content
+悦 f peace Delighted | Joy and delight
+欣 f light,peace Glad | Gladness and cheer
+安 n peace Peace | Safety and tranquility
+宁 n peace Serene | Calm and at peace
+静 f peace Quiet | Stillness and composure
+雅 f arts,beauty Elegant | Refined and graceful
+诗 f arts Poetry | Poetry and lyricism
+书 n arts,wisdom Books | Learning and letters
+博 m wisdom Erudite | Broad learning
+知 n wisdom Knowledge | Knowing and understanding
+言 n wisdom Speech | Words spoken with care
+语 f arts Words | Graceful, eloquent speech
+谦 n virtue Modest | Modesty and humility
+宏 m ambition Grand | Great and far-reaching
+俊 m beauty,strength Handsome | Talented and handsome
+志 m ambition Aspiration | Will and ambition
+远 m ambition Far | Far-reaching vision
+航 m ambition Voyage | Sailing toward distant goals
+帆 n ambition Sail | A sail catching the wind
+逸 n peace Carefree | Free and at ease
+达 m ambition,wisdom Accomplished | Reaching one's goals; seeing things through
+承 m virtue Inherit | Carrying the family legacy forward
+启 m wisdom,ambition Open | To open up and enlighten
+立 m strength Stand | Standing firm and upright
+嘉 n virtue,prosperity Excellent | Praiseworthy and fine
+佳 f beauty Fine | Good and beautiful
+宸 m ambition Palace | The lofty abode of the north star
+宜 f peace Fitting | Harmonious and well suited
+哲 m wisdom Wise | Philosophical wisdom
+睿 n wisdom Astute | Far-seeing insight
+颖 f wisdom Talented | Outstanding cleverness
+恩 n virtue Grace | Kindness and gratitude
+惠 f virtue Kind | Kindness that benefits others
+念 f virtue Cherish | Cherished thoughts and memories
+心 f virtue Heart | A sincere heart
+懿 f virtue Virtuous | Exemplary virtue
+恺 m peace Joyful | Amiable and cheerful
+斐 n arts Brilliant | Elegant and accomplished
+彬 m virtue,arts Refined | Cultured and well-mannered
+诺 n virtue Promise | Keeping one's word
+卓 m ambition Outstanding | Standing out from the crowd
+臻 n ambition Perfection | Reaching excellence
+靖 m peace Tranquil | Peace and good order
+君 n virtue Gentleman | A person of noble character
+勤 n virtue,strength Diligent | Hard work and dedication
+文 n arts,wisdom Culture | Literature, culture and refinement
+# Arts and fortune
+韵 f arts Rhyme | Rhythm, charm and poise
+歌 f arts Song | Song and celebration
+馨 f beauty,virtue Fragrance | Lasting fragrance; a good name
+彰 m virtue Manifest | Merit plain for all to see
+颂 n arts Ode | Praise and song
+元 m ambition First | The origin; first-rate
+祥 n prosperity Auspicious | Good fortune
+祺 n prosperity Blessing | Good fortune and peace
+禧 f prosperity Joy | Happiness and blessings
+盈 f prosperity Full | Fullness and abundance
+希 f ambition Hope | Hope and aspiration
+朝 m light,ambition Morning | Dawn; a new beginning
+初 f peace Beginning | The original, unspoiled state
+# General naming characters
+子 n virtue Master | A respectful term for a learned person
+正 m virtue Upright | Upright and just
+平 n peace Peaceful | Calm and even-tempered
+和 n peace Harmony | Harmony and balance
+奕 m light,ambition Radiant | Grand and spirited
+凝 f peace Focused | Composed concentration
+凯 m strength Triumphant | Victory and success
+婉 f beauty Graceful | Gentle and graceful
+婷 f beauty Poised | An elegant bearing
+妍 f beauty Lovely | Lovely and fair
+姝 f beauty Beauty | A beautiful person, from the Book of Songs
+依 f peace Close | Closeness and trust
+优 n virtue Excellent | Excellence
+弘 m ambition Broad | To broaden and expand
+扬 m ambition Raise | To spread and make known
+舒 f peace Relaxed | Ease and comfort
+展 m ambition Unfold | To unfold one's talents
+玄 n wisdom Profound | Mysterious depth
+禹 m strength,virtue Yu the Great | The sage king who tamed the floods
+羲 m wisdom Fuxi | The legendary sage Fuxi
+轩 m ambition Lofty | A high-fronted carriage; dignified bearing
+宇 m ambition Universe | Space and the eaves of a house; broad vision
+`;
+
+export const CORPUS_PAIRS_SOURCE = `
+思远 n wisdom,ambition Thinking far ahead | A mind that looks beyond the present
+子涵 n virtue,water An open-hearted soul | Learning combined with a tolerant, generous nature
+雨桐 f nature Paulownia in the rain | A fresh, gentle image of a tree washed by rain
+梓萱 f nature,peace Daylily by the catalpa | Home and a carefree heart
+浩然 m strength,virtue A vast, upright spirit | From Mencius: the 浩然之气, the moral courage that fills heaven and earth
+俊熙 m beauty,light Handsome and radiant | Talent that shines brightly
+若汐 f water,nature Like the evening tide | Calm and graceful as the tide at dusk
+欣怡 f peace,light Joyful and content | A cheerful, contented nature
+博文 m wisdom,arts Broadly learned | From the Analects: 博学于文, wide learning in letters
+明轩 m light,ambition Bright and lofty | A clear mind and dignified bearing
+嘉懿 f virtue Fine and virtuous | Praiseworthy, exemplary character
+知行 n wisdom,virtue Knowing and doing | After Wang Yangming's unity of knowledge and action
+清扬 f water,beauty Clear and graceful | From the Book of Songs: 清扬婉兮, bright eyes and a graceful brow
+一鸣 m ambition A striking first cry | From 一鸣惊人, astonishing the world at the first attempt
+致远 m ambition Reaching far | From 宁静致远: calm of mind reaches far
+静姝 f peace,beauty Quiet and lovely | From the Book of Songs: 静女其姝, a quiet and lovely maiden
+语嫣 f arts,beauty Sweet words and a lovely smile | Charming in speech and manner
+沐辰 n water,light Bathed in starlight | Blessed by the stars
+安然 n peace Calm and at ease | Serenity in every circumstance
+书瑶 f arts,beauty Books and precious jade | Learning as precious as jade
+景行 m virtue Lofty conduct | From the Book of Songs: 景行行止, following the high road of virtue
+星河 n light The Milky Way | A river of stars; vast dreams
+云舒 f nature,peace Unfurling clouds | Clouds drifting at ease, an untroubled heart
+承泽 m virtue Inheriting grace | Carrying forward the kindness of one's forebears
+睿泽 m wisdom,virtue Wise and generous | Insight that benefits others
+宇轩 m ambition Vast and lofty | Broad vision and dignified bearing
+晨曦 f light Dawn sunlight | The first light of a new day
+竹君 n virtue,nature The gentleman bamboo | Bamboo, the "gentleman" among plants, upright and humble
+怀瑾 n virtue Holding fine jade | From Qu Yuan: 怀瑾握瑜, keeping one's integrity pure
+慕白 m arts Admiring Li Bai | Aspiring to the poet's free and lofty spirit
+若水 n water,virtue Like water | From the Daodejing: 上善若水, the highest good is like water
+明远 m light,ambition Clear-sighted and far-reaching | Seeing clearly and aiming high
+嘉禾 n prosperity,nature Fine grain | An auspicious bumper harvest
+逸飞 m ambition,peace Soaring freely | Free-spirited flight toward one's goals
+一诺 n virtue A promise kept | From 一诺千金, a promise worth a thousand pieces of gold
+子墨 m arts Ink | A scholar at ease with brush and ink
+思齐 n virtue,wisdom Striving to match the worthy | From the Analects: 见贤思齐
+泽宇 m ambition,water Grace across the world | Kindness that reaches far and wide
+婉清 f beauty,water Graceful and clear | Gentle manners and a clear heart
+瑾瑜 f virtue,beauty Fine jades | Virtue and excellence, from 怀瑾握瑜
+`;
@@ -0,0 +1,278 @@
+/**
+ * Curated name corpus
+ * Builds names offline from vetted given-name characters and classic given
+ * names, tagged by gender and meaning theme. Readings, tones and elements come
+ * from the lexicon. Used when the model fails and for zero-cost generation
+ * when no model is available.
+ */
+
+import { CORPUS_CHARACTERS_SOURCE, CORPUS_PAIRS_SOURCE } from '@/utils/chinese-names/name-corpus-data';
+import { formatNamePinyin, getPrimaryReading, getTone } from '@/utils/chinese-names/lexicon';
+import { formatElements, getCharacterElement } from '@/utils/chinese-names/bazi';
+import { screenName } from '@/utils/chinese-names/homophone-filter';
+import { checkNameConstraints, hasConstraints } from '@/utils/chinese-names/constraints';
+import type { SurnameEntry } from '@/utils/chinese-names/surnames';
+import type { LLMProvider } from '@/utils/llm/providers';
+import type { BaziAnalysis, GenerateNameRequest, NameCharacter, NameData } from '@/types/chinese-names';
+
+export type NameTheme =
+  | 'light'
+  | 'water'
+  | 'nature'
+  | 'wisdom'
+  | 'virtue'
+  | 'strength'
+  | 'ambition'
+  | 'peace'
+  | 'beauty'
+  | 'arts'
+  | 'prosperity';
+
+// m / f in the data; n suits any gender
+type CorpusGender = 'm' | 'f' | 'n';
+
+export interface CorpusEntry {
+  // One character, or a whole given name for curated pairs
+  text: string;
+  gender: CorpusGender;
+  themes: NameTheme[];
+  gloss: string;
+  explanation: string;
+}
+
+// Theme labels for name notes, and the words in traits and preferences that call for them
+export const NAME_THEMES: Record<NameTheme, { label: string; keywords: string[] }> = {
+  light: { label: 'brightness', keywords: ['bright', 'sunny', 'cheerful', 'optimistic', 'happy', 'joy', 'warm', 'energetic', 'light', 'star'] },
+  water: { label: 'love of water', keywords: ['ocean', 'sea', 'water', 'river', 'swim', 'flow', 'rain'] },
+  nature: { label: 'love of nature', keywords: ['nature', 'outdoor', 'hiking', 'garden', 'flower', 'tree', 'mountain', 'forest', 'plant', 'animal'] },
+  wisdom: { label: 'wisdom', keywords: ['smart', 'wise', 'wisdom', 'intelligent', 'clever', 'curious', 'thoughtful', 'learn', 'scholar', 'study', 'knowledge', 'read'] },
+  virtue: { label: 'virtue', keywords: ['kind', 'honest', 'loyal', 'caring', 'generous', 'compassion', 'humble', 'integrity', 'respect', 'family'] },
+  strength: { label: 'strength', keywords: ['strong', 'brave', 'courage', 'bold', 'determined', 'resilient', 'athletic', 'sport', 'confident', 'tough'] },
+  ambition: { label: 'ambition', keywords: ['ambitious', 'ambition', 'leader', 'success', 'driven', 'adventur', 'travel', 'explore', 'goal', 'dream'] },
+  peace: { label: 'calm and contentment', keywords: ['calm', 'peace', 'quiet', 'serene', 'patient', 'gentle', 'relaxed', 'balanced', 'easygoing'] },
+  beauty: { label: 'grace and beauty', keywords: ['beautiful', 'beauty', 'graceful', 'grace', 'elegant', 'pretty', 'charm', 'lovely'] },
+  arts: { label: 'creativity', keywords: ['music', 'art', 'creative', 'paint', 'poet', 'poetry', 'write', 'writing', 'dance', 'literature', 'sing'] },
+  prosperity: { label: 'good fortune', keywords: ['lucky', 'luck', 'fortune', 'prosper', 'wealth', 'rich', 'business', 'blessing', 'abundan'] },
+};
+
+// Recorded as the provider of zero-cost generations, which never call a model
+export const CORPUS_PROVIDER: LLMProvider = {
+  name: 'corpus',
+  model: 'name-corpus',
+  complete: async () => {
+    throw new Error('The name corpus does not answer prompts');
+  },
+};
+
+// Random given names tried per name, on top of the curated pairs
+const COMBINATION_SAMPLES = 150;
+const DEFAULT_GIVEN_NAME_LENGTH = 2;
+// Ranking weights: the classic pairs beat ad-hoc combinations unless those match the user far better
+const THEME_MATCH_SCORE = 3;
+const MAX_SCORED_THEMES = 2;
+const PAIR_SCORE = 4;
+
+let corpus: { characters: Map<string, CorpusEntry>; pairs: CorpusEntry[] } | null = null;
+
+function parseEntries(source: string): CorpusEntry[] {
+  const entries: CorpusEntry[] = [];
+  for (const line of source.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    const [head, explanation] = trimmed.split(' | ');
+    const [text, gender, themes, ...gloss] = head.split(' ');
+    entries.push({
+      text,
+      gender: gender as CorpusGender,
+      themes: themes.split(',') as NameTheme[],
+      gloss: gloss.join(' '),
+      explanation,
+    });
+  }
+  return entries;
+}
+
+function getCorpus(): { characters: Map<string, CorpusEntry>; pairs: CorpusEntry[] } {
+  if (corpus) return corpus;
+
+  corpus = {
+    characters: new Map(parseEntries(CORPUS_CHARACTERS_SOURCE).map(entry => [entry.text, entry])),
+    pairs: parseEntries(CORPUS_PAIRS_SOURCE),
+  };
+  return corpus;
+}
+
+export function getCorpusEntry(character: string): CorpusEntry | undefined {
+  return getCorpus().characters.get(character);
+}
+
+/**
+ * Themes called for by the user's traits and preferences, in theme order
+ */
+export function inferNameThemes(...texts: (string | undefined)[]): NameTheme[] {
+  // Keywords match at the start of a word, so "art" finds "artistic" but not "smart"
+  const words = texts.filter(Boolean).join(' ').toLowerCase().split(/[^a-z]+/).filter(Boolean);
+  return (Object.keys(NAME_THEMES) as NameTheme[]).filter(theme =>
+    NAME_THEMES[theme].keywords.some(keyword => words.some(word => word.startsWith(keyword)))
+  );
+}
+
+function suitsGender(entry: CorpusEntry, gender: GenerateNameRequest['gender']): boolean {
+  if (entry.gender === 'n') return true;
+  return gender === 'male' ? entry.gender === 'm' : gender === 'female' ? entry.gender === 'f' : false;
+}
+
+function joinList(items: string[]): string {
+  return items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items[0] ?? '';
+}
+
+function pickRandom<T>(items: T[]): T | undefined {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+export interface CorpusNameRequest
+  extends Pick<GenerateNameRequest, 'gender' | 'personalityTraits' | 'namePreferences' | 'planType' | 'constraints'> {
+  surname: SurnameEntry;
+  baziAnalysis?: BaziAnalysis;
+  // Full names that must not be repeated
+  excludedNames: Set<string>;
+}
+
+/**
+ * Candidate given names: the curated pairs that fit the length, then random
+ * combinations of the gender's characters around any required or locked ones
+ */
+function buildCandidates(request: CorpusNameRequest): string[][] {
+  const { gender, constraints } = request;
+  const { characters, pairs } = getCorpus();
+  const fixed = constraints?.fixedCharacters || [];
+  const length = constraints?.givenNameLength
+    ?? (constraints?.tonePattern?.length || Math.max(DEFAULT_GIVEN_NAME_LENGTH, ...fixed.map(entry => entry.position + 1)));
+
+  const candidates = pairs
+    .filter(pair => suitsGender(pair, gender) && Array.from(pair.text).length === length)
+    .map(pair => Array.from(pair.text));
+
+  const pool = Array.from(characters.values()).filter(entry => suitsGender(entry, gender)).map(entry => entry.text);
+  for (let sample = 0; sample < COMBINATION_SAMPLES; sample++) {
+    const given: (string | undefined)[] = Array.from({ length }, (_, position) =>
+      fixed.find(entry => entry.position === position)?.character
+    );
+    // Required characters take the first free positions, in a random order
+    const required = [...(constraints?.requiredCharacters || [])].filter(character => !given.includes(character)).sort(() => Math.random() - 0.5);
+    for (const [position, character] of given.entries()) {
+      if (character) continue;
+      given[position] = required.shift() ?? pickRandom(pool.filter(option => !given.includes(option)));
+    }
+    if (given.every((character): character is string => !!character)) {
+      candidates.push(given);
+    }
+  }
+
+  return candidates;
+}
+
+function buildName(given: string[], request: CorpusNameRequest, matchedThemes: NameTheme[]): NameData {
+  const { surname, planType, baziAnalysis } = request;
+  const text = given.join('');
+  const pair = getCorpus().pairs.find(entry => entry.text === text);
+  const entries = given.map(character => getCorpusEntry(character));
+  const readings = given.map(character => getPrimaryReading(character) || '');
+
+  const characters: NameCharacter[] = [
+    ...Array.from(surname.surname).map((character, index) => ({
+      character,
+      pinyin: surname.readings[index],
+      meaning: "Family surname",
+      explanation: surname.compound
+        ? `Part of the compound surname ${surname.surname} (${surname.pinyin}).`
+        : "A traditional Chinese family name with historical significance."
+    })),
+    ...given.map((character, index) => ({
+      character,
+      pinyin: readings[index],
+      meaning: entries[index]?.gloss ?? 'Chosen character',
+      explanation: entries[index] ? `${entries[index].explanation}.` : `${character} is kept from your name rules.`,
+    })),
+  ];
+
+  const meaning = pair
+    ? pair.gloss
+    : given.length > 1
+      ? joinList(given.map((character, index) => entries[index] ? `${character} (${entries[index].gloss.toLowerCase()})` : character))
+      : entries[0]?.gloss ?? 'A name built around the character you chose';
+
+  const favoured = baziAnalysis
+    ? given.filter(character => {
+      const element = getCharacterElement(character);
+      return element && baziAnalysis.favourableElements.includes(element);
+    })
+    : [];
+  const culturalNotes = [
+    pair ? `${pair.explanation}.` : `${text} pairs established given-name characters from our curated collection.`,
+    favoured.length > 0
+      ? `${joinList(favoured)} carr${favoured.length > 1 ? 'y' : 'ies'} ${formatElements(Array.from(new Set(favoured.map(character => getCharacterElement(character)!))))}, which the birth chart favours.`
+      : '',
+  ].filter(Boolean).join(' ');
+
+  return {
+    chinese: `${surname.surname}${text}`,
+    pinyin: formatNamePinyin([...surname.readings, ...readings], surname.readings.length),
+    characters,
+    meaning,
+    culturalNotes,
+    personalityMatch: matchedThemes.length > 0
+      ? `Chosen from our curated collection for the ${joinList(matchedThemes.map(theme => NAME_THEMES[theme].label))} in your description`
+      : 'A well-loved name from our curated collection, chosen for its balanced sound and auspicious meaning',
+    style: planType === '4' ? 'Premium' : 'Standard',
+    isFallback: true,
+    fromCorpus: true,
+  };
+}
+
+/**
+ * The best unused corpus name for the request: candidates that repeat an
+ * excluded name, fail the homophone screen or break the constraints are
+ * skipped, and the rest are ranked by theme match, curated pair or shared
+ * theme, favourable elements and tonal variety. Null when no candidate passes.
+ */
+export function buildCorpusName(request: CorpusNameRequest): NameData | null {
+  const { surname, gender, personalityTraits, namePreferences, constraints, baziAnalysis, excludedNames } = request;
+  const themes = inferNameThemes(personalityTraits, namePreferences);
+  const surnameLength = surname.readings.length;
+  const { pairs } = getCorpus();
+
+  let best: { name: NameData; score: number } | null = null;
+  for (const given of buildCandidates(request)) {
+    const text = given.join('');
+    if (excludedNames.has(`${surname.surname}${text}`)) continue;
+
+    const pair = pairs.find(entry => entry.text === text && suitsGender(entry, gender));
+    const candidateThemes = new Set(pair ? pair.themes : given.flatMap(character => getCorpusEntry(character)?.themes ?? []));
+    const matchedThemes = themes.filter(theme => candidateThemes.has(theme));
+    const name = buildName(given, request, matchedThemes);
+
+    if (screenName(name, surnameLength).length > 0) continue;
+    if (hasConstraints(constraints) && checkNameConstraints(name, constraints, surnameLength).length > 0) continue;
+
+    const tones = given.map(character => getTone(getPrimaryReading(character) || ''));
+    const characterThemes = given.map(character => getCorpusEntry(character)?.themes ?? []);
+    const coherent = given.length > 1 && characterThemes[0].some(theme => characterThemes.slice(1).every(themes => themes.includes(theme)));
+    const score =
+      Math.min(matchedThemes.length, MAX_SCORED_THEMES) * THEME_MATCH_SCORE +
+      (baziAnalysis && given.some(character => {
+        const element = getCharacterElement(character);
+        return element && baziAnalysis.favourableElements.includes(element);
+      }) ? 2 : 0) +
+      (new Set(tones).size > 1 ? 1 : 0) +
+      (pair ? PAIR_SCORE : coherent ? 1 : 0) +
+      Math.random();
+
+    if (!best || score > best.score) {
+      best = { name, score };
+    }
+  }
+
+  return best?.name ?? null;
+}
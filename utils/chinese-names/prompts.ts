@@ -0,0 +1,281 @@
+/**
+ * Versioned prompt templates for name generation
+ * Templates use {{variable}} placeholders filled in by the generator. Each plan
+ * type is served one version (configurable through PROMPT_VERSION_STANDARD and
+ * PROMPT_VERSION_PREMIUM), and the version is stored on generation_batches so
+ * feedback on the names can be compared across versions.
+ */
+
+import { getCachedEnvConfig } from '@/utils/env-config';
+import type { PlanType } from '@/types/chinese-names';
+
+// Optional sections the generator renders and splices into the user prompt
+export type PromptBlock =
+  | 'compoundSurname'
+  | 'bazi'
+  | 'constraints'
+  | 'existingNames'
+  | 'refinement'
+  | 'family'
+  | 'premiumRequirements'
+  | 'standardRequirements'
+  | 'transliteration'
+  | 'creativity'
+  | 'outputLanguage';
+
+export interface PromptTemplate {
+  version: string;
+  description: string;
+  system: string;
+  user: string;
+  // Sent back to the model with the validation issues of a rejected answer
+  repair: string;
+  blocks: Record<PromptBlock, string>;
+  // Business and brand mode (see utils/chinese-names/brand); uses the same repair prompt
+  brand: {
+    system: string;
+    user: string;
+  };
+  // Translates the explanations of a saved name (see utils/chinese-names/languages)
+  translation: {
+    system: string;
+    user: string;
+  };
+}
+
+export type PromptVariables = Record<string, string | number>;
+
+const PROMPT_V1: PromptTemplate = {
+  version: 'v1',
+  description: 'Original single-name JSON prompt with uniqueness and creativity rules',
+  system: 'You are a Chinese naming expert specializing in {{tier}} name generation. IMPORTANT: Respond with ONLY valid JSON. No explanations, no markdown, no extra text. Start with { and end with }. Generate creative and unique Chinese names based on personal information.',
+  user: `Generate a Chinese name as JSON only. No text before or after the JSON.
+
+Input Requirements:
+- {{personalInfo}}
+- Gender: {{gender}}
+- Generation Type: {{generationType}}
+- Surname: Use "{{surname}}" as the surname{{compoundSurname}}
+- Seed: {{seed}}
+- UniqueID: {{uniqueId}}
+- Position: {{position}} of {{nameCount}}{{refinement}}{{family}}{{bazi}}{{constraints}}{{existingNames}}{{outputLanguage}}
+
+UNIQUENESS REQUIREMENTS (CRITICAL):
+- This name must be 100% unique and different from any existing names
+- No duplicate names allowed in this generation batch
+- Each name must have distinct character combinations
+- Generate completely different names even if same gender
+
+{{requirements}}
+
+{{style}}
+Output only this JSON structure:
+{
+  "chinese": "姓名",
+  "pinyin": "Xìngmíng",
+  "characters": [
+    {
+      "character": "姓",
+      "pinyin": "Xìng",
+      "meaning": "Surname meaning",
+      "explanation": "Brief explanation"
+    },
+    {
+      "character": "名",
+      "pinyin": "míng",
+      "meaning": "Given name meaning",
+      "explanation": "Brief explanation"
+    }
+  ],
+  "meaning": "Overall name meaning",
+  "culturalNotes": "Cultural significance",
+  "personalityMatch": "Why this name suits the person's traits and preferences",
+  "style": "{{styleLabel}}"
+}
+
+Requirements:
+- Generate ABSOLUTELY UNIQUE personalized name
+- {{gender}} appropriate
+- Must be creative, original, and distinct
+- Zero tolerance for duplicates
+- JSON only, no other text`,
+  repair: `Your previous response was rejected:
+- {{issues}}
+
+Return the corrected name as a single JSON object with the exact structure requested. JSON only.`,
+  blocks: {
+    compoundSurname: `
+- "{{surname}}" is a compound surname: keep both characters and list each one separately in characters[]`,
+    refinement: `
+
+REFINEMENT OF A NAME THE USER LIKED:
+- Original name: {{original}} ({{originalPinyin}}), meaning "{{originalMeaning}}"
+- Create a new variant in the same spirit, not the original name itself{{instructions}}`,
+    family: `
+
+SIBLING NAMES (NAMED TOGETHER AS A FAMILY):
+- This name is for {{memberName}}; the siblings are {{memberNames}}
+- It must clearly belong with the siblings' names (matching structure, style and imagery) while staying distinct{{details}}`,
+    bazi: `
+
+FIVE ELEMENTS (BAZI) REQUIREMENTS:
+- Birth chart pillars ({{pillarLabels}}): {{pillars}}
+- Element balance: {{elementBalance}}
+- Favourable elements: {{favourableElements}}
+- At least one given-name character must carry a favourable element through its radical ({{favourableRadicals}})
+- In culturalNotes, explain how the name balances the birth chart`,
+    constraints: `
+
+GIVEN NAME RULES (STRICT, names that break any rule are rejected):
+- {{rules}}`,
+    existingNames: `
+
+EXISTING NAMES TO AVOID:
+{{names}}
+- DO NOT generate any of these names
+- Ensure complete uniqueness from existing names`,
+    premiumRequirements: `
+PREMIUM REQUIREMENTS:
+- Deep analysis of personality traits and preferences
+- Highly personalized character selection
+- Advanced cultural matching
+- Sophisticated meaning alignment
+`,
+    standardRequirements: `
+STANDARD REQUIREMENTS:
+- Basic personality matching
+- Good cultural appropriateness
+- Meaningful character selection
+`,
+    transliteration: `TRANSLITERATION REQUIREMENTS:
+- The given name must sound like "{{englishGivenName}}" when read aloud in Mandarin
+- Sound-alike starting points (best match first): {{candidates}}
+- Keep the sound, but swap in characters with the same or a very close reading where they give a better meaning
+- A shorter two-character form is fine when it reads more naturally
+- In culturalNotes, say which English sound each given-name character echoes
+`,
+    creativity: `CREATIVITY REQUIREMENTS:
+- Use uncommon but beautiful Chinese characters
+- Avoid typical combinations like 雨晴, 志明, 雅文, 建华, 小明, 美丽, 伟强 etc.
+- Be innovative with character selection
+- Consider rare but meaningful characters from different radical families
+- Create unique phonetic combinations
+- Use characters from different categories (nature, virtues, colors, elements, etc.)
+`,
+    outputLanguage: `
+
+OUTPUT LANGUAGE:
+- Write all explanations (meaning, culturalNotes, personalityMatch, each character's meaning and explanation, and any other descriptions) in {{language}}
+- Keep the JSON keys in English, and chinese, pinyin, character and style exactly as specified`,
+  },
+  brand: {
+    system: 'You are a Chinese brand naming consultant who localizes international brands for Chinese-speaking markets. IMPORTANT: Respond with ONLY valid JSON. No explanations, no markdown, no extra text. Start with { and end with }.',
+    user: `Generate a Chinese brand name as JSON only. No text before or after the JSON.
+
+Brand Brief:
+- Existing English brand name: {{englishBrandName}}
+- Industry: {{industry}}
+- Brand values: {{brandValues}}
+- Target market: {{targetMarket}}
+- Seed: {{seed}}
+- Position: {{position}} of {{nameCount}}{{existingNames}}{{outputLanguage}}
+
+BRAND NAME REQUIREMENTS:
+- 2 to 4 simplified Chinese characters, with no surname
+- Where possible, echo the sound of "{{englishBrandName}}" (as 可口可乐 does for Coca-Cola) while the characters express the brand values; a meaning-led name is fine when the sound cannot be kept
+- Suited to the industry, easy to say, write and remember
+- No negative, vulgar or unlucky readings or homophones in Mandarin{{dialects}}
+- Avoid words restricted in trademarks, such as 中国, 国家, 最 or 第一
+- In brand.transliterationRationale, say which sounds of "{{englishBrandName}}" each character echoes, or why the name is meaning-led
+- In brand.connotationCheck, list the readings, homophones and associations you checked and why the name is safe
+
+Output only this JSON structure:
+{
+  "chinese": "品牌",
+  "pinyin": "Pǐnpái",
+  "characters": [
+    {
+      "character": "品",
+      "pinyin": "pǐn",
+      "meaning": "Character meaning",
+      "explanation": "Why it suits the brand"
+    },
+    {
+      "character": "牌",
+      "pinyin": "pái",
+      "meaning": "Character meaning",
+      "explanation": "Why it suits the brand"
+    }
+  ],
+  "meaning": "Overall brand name meaning",
+  "culturalNotes": "Associations in the target market",
+  "personalityMatch": "How the name reflects the brand values",
+  "style": "Brand",
+  "brand": {
+    "transliterationRationale": "Sound or meaning rationale",
+    "connotationCheck": "Connotations checked"
+  }
+}`,
+  },
+  translation: {
+    system: 'You translate the explanations of Chinese names for people who do not read Chinese. IMPORTANT: Respond with ONLY valid JSON. No explanations, no markdown, no extra text. Start with { and end with }.',
+    user: `Translate the explanations of the Chinese name {{chinese}} ({{pinyin}}) from {{sourceLanguage}} into {{language}}.
+- Keep the meaning, tone and level of detail; do not add or drop content
+- Keep Chinese characters and pinyin inside the text as they are
+- List every character of the name, in order, with its translated meaning and explanation
+
+Explanations to translate:
+{{source}}
+
+Output only this JSON structure:
+{
+  "meaning": "Overall name meaning",
+  "culturalNotes": "Cultural significance",
+  "personalityMatch": "Why the name suits the person",
+  "characters": [
+    {
+      "character": "名",
+      "meaning": "Character meaning",
+      "explanation": "Brief explanation"
+    }
+  ]
+}`,
+  },
+};
+
+export const PROMPT_TEMPLATES: Record<string, PromptTemplate> = {
+  [PROMPT_V1.version]: PROMPT_V1,
+};
+
+export const DEFAULT_PROMPT_VERSION = PROMPT_V1.version;
+
+export function getPromptTemplate(version: string): PromptTemplate | null {
+  return PROMPT_TEMPLATES[version] ?? null;
+}
+
+/**
+ * Resolve the prompt version configured for a plan type
+ * Initialized at request time (avoids build-time env access)
+ */
+export function getPromptTemplateForPlan(planType: PlanType): PromptTemplate {
+  const { prompts } = getCachedEnvConfig();
+  const version = planType === '4' ? prompts.premium : prompts.standard;
+  const template = getPromptTemplate(version);
+  if (!template) {
+    throw new Error(`Unknown prompt version "${version}" configured for plan ${planType}`);
+  }
+  return template;
+}
+
+/**
+ * Fill {{variable}} placeholders in one pass, so values (which may contain
+ * user input) are never expanded themselves. Missing variables throw.
+ */
+export function renderTemplate(template: string, variables: PromptVariables): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Prompt variable "${name}" is missing`);
+    }
+    return String(variables[name]);
+  });
+}
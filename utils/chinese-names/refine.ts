@@ -0,0 +1,71 @@
+/**
+ * Refinement of a saved name ("more like this")
+ * Turns the user's instructions (keep given-name characters, change the tone
+ * pattern, more or less traditional) into given-name constraints, which the
+ * generator enforces, plus prompt lines describing the variant wanted.
+ */
+
+import { formatTonePattern, getConstraintsError } from '@/utils/chinese-names/constraints';
+import type { NameRefinement } from '@/utils/chinese-names/generator';
+import type { NameConstraints, NameData, RefineNameRequest } from '@/types/chinese-names';
+
+export const REFINE_VARIANT_COUNT = 3;
+export const REFINE_CREDIT_COST = 1;
+
+const TRADITIONAL_INSTRUCTIONS = {
+  more: 'Make it more traditional: classical, literary characters with roots in poetry and the classics',
+  less: 'Make it less traditional: modern, fresh characters that read easily today',
+};
+
+export type RefinementPlan =
+  | { ok: true; constraints: NameConstraints; refinement: NameRefinement }
+  | { ok: false; error: string };
+
+/**
+ * Plan variants of `original`. `surnameLength` is the number of surname
+ * characters; `baseConstraints` are the rules of the original batch, which
+ * the variants keep following.
+ */
+export function planRefinement(
+  original: NameData,
+  surnameLength: number,
+  request: Omit<RefineNameRequest, 'nameId'>,
+  baseConstraints?: NameConstraints
+): RefinementPlan {
+  const given = original.characters.slice(surnameLength);
+  const keepPositions = Array.from(new Set(request.keepPositions || [])).sort();
+
+  if (keepPositions.some(position => position >= given.length)) {
+    return { ok: false, error: `${original.chinese} has only ${given.length} given-name character${given.length === 1 ? '' : 's'}.` };
+  }
+  if (keepPositions.length >= given.length) {
+    return { ok: false, error: 'Please leave at least one character to change.' };
+  }
+
+  const constraints: NameConstraints = {
+    ...baseConstraints,
+    givenNameLength: given.length,
+    tonePattern: request.tonePattern ?? baseConstraints?.tonePattern,
+    fixedCharacters: keepPositions.map(position => ({ position, character: given[position].character })),
+  };
+
+  const constraintsError = getConstraintsError(constraints);
+  if (constraintsError) {
+    return { ok: false, error: constraintsError };
+  }
+
+  const instructions: string[] = keepPositions.map(
+    position => `Keep ${given[position].character} as given-name character ${position + 1} and change the others`
+  );
+  if (request.tonePattern) {
+    instructions.push(`Give the given name the tone pattern ${formatTonePattern(request.tonePattern)} instead of the original's`);
+  }
+  if (request.traditional) {
+    instructions.push(TRADITIONAL_INSTRUCTIONS[request.traditional]);
+  }
+  if (instructions.length === 0) {
+    instructions.push('Stay close to the meaning and feel of the original name');
+  }
+
+  return { ok: true, constraints, refinement: { original, instructions } };
+}
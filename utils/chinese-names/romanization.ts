@@ -0,0 +1,151 @@
+/**
+ * Traditional characters and alternative romanisations
+ * Derives the traditional form, Cantonese Jyutping and Wade-Giles spelling of a
+ * name offline, from the lexicon's traditional column, the bundled Jyutping
+ * table and a pinyin → Wade-Giles conversion.
+ */
+
+import { JYUTPING_SOURCE } from '@/utils/chinese-names/jyutping-data';
+import { lookupCharacter, normalizeSyllable, stripTone } from '@/utils/chinese-names/lexicon';
+import type { NameData } from '@/types/chinese-names';
+
+// Pinyin initials and their Wade-Giles spelling, longest first
+const WADE_GILES_INITIALS: [string, string][] = [
+  ['zh', 'ch'],
+  ['ch', "ch'"],
+  ['sh', 'sh'],
+  ['b', 'p'],
+  ['p', "p'"],
+  ['d', 't'],
+  ['t', "t'"],
+  ['g', 'k'],
+  ['k', "k'"],
+  ['z', 'ts'],
+  ['c', "ts'"],
+  ['j', 'ch'],
+  ['q', "ch'"],
+  ['x', 'hs'],
+  ['r', 'j'],
+  ['m', 'm'],
+  ['f', 'f'],
+  ['n', 'n'],
+  ['l', 'l'],
+  ['h', 'h'],
+  ['s', 's'],
+  ['w', 'w'],
+  ['y', 'y'],
+];
+
+// Whole syllables that do not follow the initial + final rules
+const WADE_GILES_SYLLABLES: Record<string, string> = {
+  zi: 'tzu',
+  ci: "tz'u",
+  si: 'ssu',
+  zhi: 'chih',
+  chi: "ch'ih",
+  shi: 'shih',
+  ri: 'jih',
+  e: 'o',
+  er: 'erh',
+  yi: 'i',
+  ye: 'yeh',
+  yan: 'yen',
+  you: 'yu',
+  yong: 'yung',
+  yu: 'yü',
+  yue: 'yüeh',
+  yuan: 'yüan',
+  yun: 'yün',
+};
+
+let jyutping: Map<string, string> | null = null;
+
+function getJyutpingTable(): Map<string, string> {
+  if (jyutping) return jyutping;
+
+  jyutping = new Map();
+  for (const line of JYUTPING_SOURCE.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    for (const entry of trimmed.split(/\s+/)) {
+      const [character, ...reading] = Array.from(entry);
+      jyutping.set(character, reading.join(''));
+    }
+  }
+
+  return jyutping;
+}
+
+export function getJyutping(character: string): string | undefined {
+  return getJyutpingTable().get(character);
+}
+
+export function toTraditional(text: string): string {
+  return Array.from(text)
+    .map(character => lookupCharacter(character)?.traditional ?? character)
+    .join('');
+}
+
+/**
+ * Wade-Giles spelling of one pinyin syllable, without tone (e.g. "zhāng" → "chang", "qīng" → "ch'ing")
+ */
+export function toWadeGiles(syllable: string): string {
+  const plain = stripTone(normalizeSyllable(syllable));
+  if (WADE_GILES_SYLLABLES[plain]) return WADE_GILES_SYLLABLES[plain];
+
+  const [initial, spelling] = WADE_GILES_INITIALS.find(([pinyin]) => plain.startsWith(pinyin)) ?? ['', ''];
+  let final = plain.slice(initial.length);
+
+  // After j, q and x a pinyin "u" is really ü
+  if (['j', 'q', 'x'].includes(initial) && final.startsWith('u')) {
+    final = `ü${final.slice(1)}`;
+  }
+
+  final = final
+    .replace(/ong$/, 'ung')
+    .replace(/^ian$/, 'ien')
+    .replace(/^ie$/, 'ieh')
+    .replace(/^üe$/, 'üeh');
+
+  if (final === 'e' && ['g', 'k', 'h'].includes(initial)) final = 'o';
+  if (final === 'uo' && !['g', 'k', 'h', 'sh'].includes(initial)) final = 'o';
+  if (final === 'ui' && ['g', 'k'].includes(initial)) final = 'uei';
+
+  return spelling + final;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Wade-Giles for a full name, syllables of each part hyphenated: "Ou-yang Ch'ing-hsi"
+ */
+export function formatWadeGiles(readings: string[], surnameLength: number = 1): string {
+  const surname = capitalize(readings.slice(0, surnameLength).map(toWadeGiles).join('-'));
+  const given = capitalize(readings.slice(surnameLength).map(toWadeGiles).join('-'));
+  return given ? `${surname} ${given}` : surname;
+}
+
+/**
+ * Attach the traditional form, Jyutping and Wade-Giles to a name and its
+ * characters. Jyutping is left out when a character has no Cantonese reading
+ * in the table.
+ */
+export function withRomanizations(name: NameData, surnameLength: number = 1): NameData {
+  const characters = name.characters.map(entry => ({
+    ...entry,
+    traditional: toTraditional(entry.character),
+    jyutping: getJyutping(entry.character),
+  }));
+  const jyutpingReadings = characters.map(entry => entry.jyutping);
+
+  return {
+    ...name,
+    characters,
+    traditional: toTraditional(name.chinese),
+    jyutping: jyutpingReadings.every(Boolean) ? jyutpingReadings.join(' ') : undefined,
+    wadeGiles: formatWadeGiles(name.characters.map(entry => entry.pinyin), surnameLength),
+  };
+}
@@ -0,0 +1,221 @@
+/**
+ * NameData contract
+ * Single zod schema shared by the generate API, NameCard, the PDF route and
+ * saved_names so every consumer validates names the same way.
+ */
+
+import { z } from 'zod';
+
+export const fiveElementSchema = z.enum(['wood', 'fire', 'earth', 'metal', 'water']);
+
+// Languages the explanations of a name can be written in (see utils/chinese-names/languages)
+export const outputLanguageSchema = z.enum(['en', 'es', 'fr', 'de', 'ja']);
+
+export const nameCharacterSchema = z.object({
+  character: z.string().min(1),
+  pinyin: z.string().min(1),
+  meaning: z.string().min(1),
+  explanation: z.string().default(''),
+  // Five Elements attribute, set when the name was generated from a birth chart
+  element: fiveElementSchema.optional(),
+  // Traditional form and Cantonese Jyutping (e.g. 張, zoeng1), from the lexicon
+  traditional: z.string().optional(),
+  jyutping: z.string().optional(),
+});
+
+export const baziAnalysisSchema = z.object({
+  pillars: z.array(z.object({
+    pillar: z.enum(['year', 'month', 'day', 'hour']),
+    stem: z.string().length(1),
+    branch: z.string().length(1),
+  })).min(3).max(4),
+  elementCounts: z.object({
+    wood: z.number().int().min(0),
+    fire: z.number().int().min(0),
+    earth: z.number().int().min(0),
+    metal: z.number().int().min(0),
+    water: z.number().int().min(0),
+  }),
+  // Element of the day stem (日主), the "self" in the chart
+  dayMaster: fiveElementSchema,
+  favourableElements: z.array(fiveElementSchema).min(1),
+});
+
+export const gridLuckSchema = z.enum(['auspicious', 'mixed', 'inauspicious']);
+
+const gridSchema = z.object({
+  number: z.number().int().min(1),
+  luck: gridLuckSchema,
+});
+
+export const fiveGridsSchema = z.object({
+  // Kangxi stroke count of each character, in name order
+  strokes: z.array(z.number().int().min(1)).min(2),
+  heaven: gridSchema,
+  person: gridSchema,
+  earth: gridSchema,
+  outer: gridSchema,
+  total: gridSchema,
+  // 0-100, weighted towards the person, earth and total grids
+  score: z.number().min(0).max(100),
+});
+
+// Model-written part of a brand name's analysis (brand mode only)
+export const brandAnalysisSchema = z.object({
+  // Which sounds of the English brand name the characters echo, or why the name is meaning-led
+  transliterationRationale: z.string().min(1),
+  // Homophones, dialect readings and associations checked, and why the name is safe
+  connotationCheck: z.string().min(1),
+});
+
+const brandHandleSchema = z.object({
+  handle: z.string(),
+  suitable: z.boolean(),
+  note: z.string(),
+});
+
+// Brand analysis plus the .cn domain and WeChat ID checks, computed from the pinyin
+export const brandDetailsSchema = brandAnalysisSchema.extend({
+  domain: brandHandleSchema,
+  wechat: brandHandleSchema,
+});
+
+export const nameDataSchema = z.object({
+  // generated_names row id, once the name has been saved to a batch
+  id: z.string().optional(),
+  chinese: z.string().min(2),
+  pinyin: z.string().min(1),
+  characters: z.array(nameCharacterSchema).min(2),
+  meaning: z.string().min(1),
+  culturalNotes: z.string().default(''),
+  personalityMatch: z.string().default(''),
+  style: z.string().default('Standard'),
+  // True when the model output could not be repaired and a placeholder name was used
+  isFallback: z.boolean().optional(),
+  // Built from the curated name corpus rather than written by the model
+  fromCorpus: z.boolean().optional(),
+  // 0-100 sound-alike score against the English name (transliteration mode only)
+  phoneticScore: z.number().min(0).max(100).optional(),
+  // Birth chart the name was balanced against (when a birth date was given)
+  baziAnalysis: baziAnalysisSchema.optional(),
+  // Five Grids (五格) stroke numerology, computed from the lexicon
+  fiveGrids: fiveGridsSchema.optional(),
+  // Traditional characters, Cantonese Jyutping and Wade-Giles, derived offline
+  traditional: z.string().optional(),
+  jyutping: z.string().optional(),
+  wadeGiles: z.string().optional(),
+  // Family mode: the name set and sibling the name was generated for
+  familyMember: z.object({
+    set: z.number().int().min(0),
+    member: z.number().int().min(0),
+    englishName: z.string(),
+  }).optional(),
+  // Brand mode: transliteration rationale, connotation check and handle suitability
+  brand: brandDetailsSchema.optional(),
+  // Language of meaning, culturalNotes, personalityMatch and the character explanations; English when unset
+  language: outputLanguageSchema.optional(),
+});
+
+/**
+ * Schema for raw model output: the character breakdown must cover every
+ * character of the full name, in order.
+ */
+export const generatedNameSchema = nameDataSchema.superRefine((name, ctx) => {
+  const nameCharacters = Array.from(name.chinese);
+  const breakdown = name.characters.map(c => c.character).join('');
+
+  if (breakdown !== nameCharacters.join('')) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['characters'],
+      message: `characters[] must list each character of "${name.chinese}" in order (got "${breakdown}")`,
+    });
+  }
+});
+
+// saved_names rows use snake_case columns for the same contract
+export const savedNameInputSchema = z.object({
+  chinese_name: nameDataSchema.shape.chinese,
+  pinyin: nameDataSchema.shape.pinyin,
+  meaning: nameDataSchema.shape.meaning,
+  cultural_notes: z.string().optional(),
+  personality_match: z.string().optional(),
+  characters: nameDataSchema.shape.characters,
+  traditional: nameDataSchema.shape.traditional,
+  jyutping: nameDataSchema.shape.jyutping,
+  wade_giles: nameDataSchema.shape.wadeGiles,
+  language: outputLanguageSchema.default('en'),
+  generation_metadata: z.record(z.any()).optional(),
+});
+
+// Model-written translation of a name's explanations, one entry per character in order
+export const nameTranslationSchema = z.object({
+  meaning: z.string().min(1),
+  culturalNotes: z.string().default(''),
+  personalityMatch: z.string().default(''),
+  characters: z.array(z.object({
+    character: z.string().min(1),
+    meaning: z.string().min(1),
+    explanation: z.string().default(''),
+  })).min(1),
+});
+
+// On-demand translation of a saved name
+export const translateSavedNameInputSchema = z.object({
+  language: outputLanguageSchema,
+});
+
+// Family mode of the generate API; constraint consistency is checked by getConstraintsError
+export const familyRequestSchema = z.object({
+  members: z.array(z.object({
+    englishName: z.string().trim().min(1).max(100),
+    gender: z.enum(['male', 'female', 'other']),
+    birthDate: z.string().optional(),
+    birthTime: z.string().optional(),
+    birthTimezone: z.string().optional(),
+  })).min(2).max(4),
+  sharedCharacter: z.object({
+    position: z.number().int().min(0).max(2),
+    character: z.string().length(1),
+  }).optional(),
+  sharedRadical: z.string().length(1).optional(),
+  theme: z.string().trim().max(100).optional(),
+});
+
+// Brand mode of the generate API (plans that include business name generation)
+export const brandRequestSchema = z.object({
+  englishBrandName: z.string().trim().min(1).max(100),
+  industry: z.string().trim().min(1).max(100),
+  brandValues: z.array(z.string().trim().min(1).max(50)).min(1).max(5),
+  targetMarket: z.enum(['mainland', 'hong_kong', 'taiwan', 'singapore']),
+});
+
+// "More like this" on a saved name, optionally locking characters or changing its feel
+export const refineNameInputSchema = z.object({
+  nameId: z.string().uuid(),
+  // 0-based given-name positions to keep unchanged
+  keepPositions: z.array(z.number().int().min(0).max(2)).max(3).default([]),
+  // 平仄 pattern the variants should follow instead of the original tones
+  tonePattern: z.array(z.enum(['ping', 'ze', 'any'])).min(1).max(3).optional(),
+  traditional: z.enum(['more', 'less']).optional(),
+});
+
+// Saved or generated names shown side by side
+export const compareNamesInputSchema = z.object({
+  ids: z.array(z.string().uuid()).min(2).max(4),
+});
+
+// Like, save or select on a generated name, tracked per prompt version
+export const nameFeedbackInputSchema = z.object({
+  chineseName: nameDataSchema.shape.chinese,
+  action: z.enum(['like', 'save', 'select']),
+  // false withdraws the feedback (unlike)
+  active: z.boolean().default(true),
+});
+
+/**
+ * Format zod issues as short, model- and user-readable strings
+ */
+export function formatSchemaIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`);
+}
@@ -0,0 +1,176 @@
+/**
+ * Server-Sent Events helpers for streaming name generation
+ * Shared by the generate route (encoding) and client components (decoding).
+ */
+
+import type {
+  GenerateNameResponse,
+  GenerationErrorBody,
+  GenerationStreamEvent,
+  NameData,
+} from '@/types/chinese-names';
+import { createIdempotencyKey, fetchWithIdempotencyKey } from '@/utils/idempotency-key';
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+} as const;
+
+/**
+ * Check whether the client asked for the streaming response
+ */
+export function wantsEventStream(request: Request): boolean {
+  const { searchParams } = new URL(request.url);
+  if (searchParams.get('stream') === '1') {
+    return true;
+  }
+  return (request.headers.get('accept') || '').includes('text/event-stream');
+}
+
+/**
+ * Create an SSE response body; `run` receives a `send` function and the
+ * stream is closed once it settles. Unhandled errors become an `error` event.
+ */
+export function createEventStream(
+  run: (send: (event: GenerationStreamEvent) => void) => Promise<void>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+
+      const send = (event: GenerationStreamEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          // Client disconnected; keep running so the generation is still persisted
+          closed = true;
+        }
+      };
+
+      try {
+        await run(send);
+      } catch (error) {
+        console.error('Streaming generation error:', error);
+        send({
+          type: 'error',
+          error: {
+            error: 'Name generation failed. Please try again.',
+            code: 'STREAM_FAILED',
+          },
+        });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+  });
+}
+
+// JSON body of a failed request; empty when the response was not JSON
+export type GenerationRequestErrorData = Partial<GenerationErrorBody> & { rateLimited?: boolean };
+
+export class GenerationRequestError extends Error {
+  status: number;
+  data: GenerationRequestErrorData;
+
+  constructor(message: string, status: number, data: GenerationRequestErrorData) {
+    super(message);
+    this.name = 'GenerationRequestError';
+    this.status = status;
+    this.data = data;
+  }
+}
+
+interface StreamHandlers {
+  onStart?: (expected: number) => void;
+  onName?: (name: NameData, index: number) => void;
+}
+
+/**
+ * Call the generate API in streaming mode and resolve with the full result.
+ * Non-2xx responses are thrown as GenerationRequestError with the JSON body.
+ * Pass the same `idempotencyKey` when retrying a submit so it is charged once.
+ */
+export async function streamNameGeneration(
+  requestBody: Record<string, unknown>,
+  handlers: StreamHandlers = {},
+  idempotencyKey: string = createIdempotencyKey()
+): Promise<GenerateNameResponse> {
+  const response = await fetchWithIdempotencyKey('/api/chinese-names/generate?stream=1', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+    },
+    body: JSON.stringify(requestBody),
+  }, idempotencyKey);
+
+  if (!response.ok || !response.body) {
+    const data: GenerationRequestErrorData = await response.json().catch(() => ({}));
+    throw new GenerationRequestError(
+      data.error || `HTTP ${response.status}: Failed to generate names`,
+      response.status,
+      data
+    );
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const names: NameData[] = [];
+  let buffer = '';
+  let result = null as GenerateNameResponse | null;
+
+  const handleEvent = (event: GenerationStreamEvent) => {
+    switch (event.type) {
+      case 'start':
+        handlers.onStart?.(event.expected);
+        break;
+      case 'name':
+        names[event.index] = event.name;
+        handlers.onName?.(event.name, event.index);
+        break;
+      case 'done':
+        result = { ...event.result, names: names.filter(Boolean) };
+        break;
+      case 'error':
+        throw new GenerationRequestError(event.error.error, 500, event.error);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let separatorIndex = buffer.indexOf('\n\n');
+    while (separatorIndex !== -1) {
+      const rawEvent = buffer.slice(0, separatorIndex);
+      buffer = buffer.slice(separatorIndex + 2);
+
+      const data = rawEvent
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+
+      if (data) {
+        handleEvent(JSON.parse(data) as GenerationStreamEvent);
+      }
+
+      separatorIndex = buffer.indexOf('\n\n');
+    }
+  }
+
+  if (!result) {
+    throw new GenerationRequestError('Generation stream ended unexpectedly', 500, {});
+  }
+
+  return result;
+}
@@ -0,0 +1,285 @@
+/**
+ * Surname reference table and surname strategies
+ * Every generated name starts with a surname chosen here: a random common
+ * surname, one the user picked, a sound-alike of their English family name,
+ * or one whose meaning fits their traits and preferences.
+ */
+
+import { formatNamePinyin, lookupCharacter, stripTone } from '@/utils/chinese-names/lexicon';
+import type { GenerateNameRequest, SurnameStrategy } from '@/types/chinese-names';
+
+export interface SurnameEntry {
+  surname: string;
+  // One tone-marked reading per character (surname readings can differ from the usual one, e.g. 长孙 Zhǎngsūn)
+  readings: string[];
+  pinyin: string;
+  compound: boolean;
+  origin: string;
+  // English keywords used by the meaning-based strategy
+  meanings: string[];
+  // English family-name prefixes that conventionally map to this surname
+  soundsLike: string[];
+}
+
+export const SURNAME_STRATEGIES: SurnameStrategy[] = ['random', 'fixed', 'phonetic', 'meaning'];
+
+function surname(
+  chinese: string,
+  readings: string,
+  origin: string,
+  meanings: string[] = [],
+  soundsLike: string[] = []
+): SurnameEntry {
+  const readingList = readings.split(' ');
+  return {
+    surname: chinese,
+    readings: readingList,
+    pinyin: formatNamePinyin(readingList, readingList.length),
+    compound: readingList.length > 1,
+    origin,
+    meanings,
+    soundsLike,
+  };
+}
+
+export const SURNAMES: SurnameEntry[] = [
+  // Common single-character surnames
+  surname('王', 'wáng', 'Means "king". The most common surname in mainland China, with several lineages including descendants of Prince Jin of the Zhou royal house.', ['king', 'royal', 'leader', 'leadership'], ['wang', 'wong']),
+  surname('李', 'lǐ', 'Means "plum". Traditionally traced to Laozi (Li Er); the imperial surname of the Tang dynasty.', ['plum', 'blossom'], ['lee', 'leigh', 'lea', 'li']),
+  surname('张', 'zhāng', 'Means "to draw a bow". Traced to Hui, grandson of the Yellow Emperor, credited with inventing the bow.', ['archer', 'bow', 'open'], ['chang', 'zhang', 'cheung', 'jang']),
+  surname('刘', 'liú', 'The imperial surname of the Han dynasty, founded by Liu Bang.', ['dynasty', 'heritage'], ['liu', 'lau', 'lew']),
+  surname('陈', 'chén', 'From the Zhou-era State of Chen, founded by descendants of the sage-king Shun.', ['display', 'heritage'], ['chen', 'chan', 'chin']),
+  surname('杨', 'yáng', 'Means "poplar". From the State of Yang; the imperial family of the Sui dynasty.', ['poplar', 'tree', 'upright'], ['young', 'yang', 'yeung']),
+  surname('赵', 'zhào', 'The first surname in the classic Hundred Family Surnames; the ruling house of the State of Zhao and the Song dynasty.', ['classic', 'first'], ['chao', 'zhao']),
+  surname('黄', 'huáng', 'Means "yellow". From the Zhou-era State of Huang.', ['yellow', 'golden', 'gold'], ['huang', 'hwang']),
+  surname('周', 'zhōu', 'Carried by descendants of the Zhou royal house, whose dynasty lasted eight centuries.', ['complete', 'thorough'], ['chou', 'chow', 'zhou', 'jo', 'joe']),
+  surname('吴', 'wú', 'From the ancient State of Wu, founded by Taibo of the Zhou clan.', ['heritage'], ['wu', 'woo', 'wood', 'woods']),
+  surname('徐', 'xú', 'From the State of Xu, founded by descendants of Boyi, a minister of Emperor Yu.', ['gentle', 'calm', 'patient'], ['xu', 'tsui', 'tsoi']),
+  surname('孙', 'sūn', 'Means "descendant". Borne by Sun Wu (Sunzi), author of The Art of War.', ['strategy', 'strategist', 'family'], ['sun', 'soon', 'suen']),
+  surname('胡', 'hú', 'From Duke Hu of Chen, a descendant of the sage-king Shun.', ['heritage'], ['hu', 'hugh', 'hughes', 'hood']),
+  surname('朱', 'zhū', 'Means "vermilion". The imperial surname of the Ming dynasty.', ['red', 'vermilion', 'passion', 'passionate'], ['chu', 'zhu', 'chew']),
+  surname('高', 'gāo', 'Means "high, tall". From Gao Xi, a noble of the State of Qi.', ['tall', 'high', 'noble', 'ambitious', 'ambition'], ['gao', 'go', 'gough', 'gow']),
+  surname('林', 'lín', 'Means "forest". Traced to the son of the loyal minister Bi Gan, born in a forest.', ['forest', 'tree', 'trees', 'nature', 'calm'], ['lin', 'lim', 'lynn', 'lind']),
+  surname('何', 'hé', 'Arose from the surname Han (韩) as pronounced in the Jiang-Huai region.', ['harmony'], ['ho', 'hoe', 'he']),
+  surname('郭', 'guō', 'From the Zhou-era State of Guo; also means "outer city wall".', ['protective', 'protect'], ['kwok', 'guo', 'kwak']),
+  surname('马', 'mǎ', 'Means "horse". From Zhao She, titled Lord Mafu of the State of Zhao.', ['horse', 'speed', 'fast', 'freedom', 'free'], ['ma', 'mar', 'martin', 'marsh', 'mark']),
+  surname('罗', 'luó', 'From the ancient State of Luo in present-day Hubei.', ['net', 'gather'], ['lo', 'law', 'lowe', 'luo', 'lord']),
+  surname('梁', 'liáng', 'Means "beam, bridge". From the State of Liang of the Zhou era.', ['bridge', 'support', 'supportive', 'pillar'], ['leung', 'liang']),
+  surname('宋', 'sòng', 'From the State of Song, home of the descendants of the Shang kings; the ruling house of the Song dynasty.', ['heritage', 'culture'], ['song', 'soong', 'sung']),
+  surname('郑', 'zhèng', 'From the State of Zheng, founded by Duke Huan, a younger son of King Xuan of Zhou.', ['solemn', 'serious', 'earnest'], ['cheng', 'zheng', 'jung']),
+  surname('谢', 'xiè', 'Means "to thank". From the State of Xie; the renowned Xie clan of the Eastern Jin.', ['grateful', 'gratitude', 'thankful', 'kind'], ['shea', 'tse', 'shay', 'hsieh']),
+  surname('韩', 'hán', 'From the State of Han, one of the seven Warring States.', ['heritage'], ['han', 'hahn', 'hann', 'hanson']),
+  surname('唐', 'táng', 'Traced to the sage-king Yao of Tao Tang; shares its name with the Tang dynasty, a golden age of poetry.', ['poetry', 'golden', 'prosperous', 'grand'], ['tang', 'tong']),
+  surname('冯', 'féng', 'From descendants of Bi Wan enfeoffed at the city of Feng.', ['gallop', 'bold'], ['fung', 'feng', 'fenton']),
+  surname('于', 'yú', 'From the State of Yu (邘), founded by a son of King Wu of Zhou.', ['heritage'], ['yu', 'yue', 'eu']),
+  surname('董', 'dǒng', 'From Dong Fu, a dragon keeper under the sage-king Shun; means "to supervise".', ['director', 'manage', 'manager', 'responsible'], ['tung', 'dong', 'dunn']),
+  surname('萧', 'xiāo', 'From the State of Xiao; the imperial families of the Southern Qi and Liang dynasties.', ['artemisia', 'elegant'], ['shaw', 'siu', 'hsiao', 'xiao']),
+  surname('曹', 'cáo', 'From the State of Cao; borne by the statesman and poet Cao Cao.', ['poet', 'statesman'], ['tsao', 'cao', 'cho']),
+  surname('许', 'xǔ', 'From the Zhou-era State of Xu (许), descendants of Boyi; also means "to promise".', ['promise', 'trust', 'trustworthy'], ['hsu', 'hui']),
+  surname('沈', 'shěn', 'From the State of Shen (沈) of the Zhou era.', ['deep', 'thoughtful', 'calm'], ['shen', 'sham', 'shum', 'shane', 'shannon']),
+  surname('曾', 'zēng', 'Descendants of the State of Zeng; borne by Zengzi, a disciple of Confucius.', ['filial', 'family', 'scholar'], ['tsang', 'zeng', 'tseng']),
+  surname('叶', 'yè', 'Means "leaf". From Shen Zhuliang, the Lord of She (叶公) in the State of Chu.', ['leaf', 'growth', 'green', 'nature'], ['yip', 'yeh', 'ye', 'yates', 'yeats']),
+  surname('苏', 'sū', 'Means "revive". From the State of Su; borne by the poet Su Shi.', ['revive', 'renewal', 'poet', 'poetry'], ['su', 'sue', 'so', 'soo']),
+  surname('卢', 'lú', 'From the city of Lu in the State of Qi; the Lu clan of Fanyang was a great medieval family.', ['heritage'], ['lu', 'lou', 'lewis', 'louis', 'luke', 'lucas']),
+  surname('戴', 'dài', 'Means "to wear, to honour". From the posthumous title of Duke Dai of Song.', ['honor', 'honour', 'respect', 'respected'], ['dai', 'day', 'davis', 'david']),
+  surname('汤', 'tāng', 'From King Tang, founder of the Shang dynasty.', ['founder', 'generous'], ['tom', 'thom']),
+  surname('杜', 'dù', 'From the State of Du; borne by the poet Du Fu.', ['poet', 'poetry', 'steadfast'], ['du', 'doo', 'dew', 'tu']),
+  surname('丁', 'dīng', 'From the posthumous name of Duke Ding of Qi, son of Jiang Ziya.', ['strong', 'sturdy'], ['ting', 'ding', 'dean', 'deane']),
+  surname('蒋', 'jiǎng', 'From the State of Jiang (蒋), founded by a son of the Duke of Zhou.', ['heritage'], ['chiang', 'jiang']),
+  surname('潘', 'pān', 'From Ji Sun, a son of Duke Gao of Bi, enfeoffed at Pan.', ['heritage'], ['pan', 'pun', 'poon']),
+  surname('彭', 'péng', 'From Peng Zu, the legendary long-lived sage.', ['longevity', 'vigor', 'vigorous'], ['pang', 'peng', 'penn', 'pennington']),
+  surname('范', 'fàn', 'Means "model, example". From Shi Hui of the State of Jin, enfeoffed at Fan.', ['model', 'example', 'principled'], ['fan', 'van', 'vance']),
+  surname('田', 'tián', 'Means "field". The ruling house of the State of Qi during the Warring States.', ['field', 'farm', 'earth', 'grounded'], ['tian', 'tien', 'tim']),
+  surname('邓', 'dèng', 'From the State of Deng in present-day Henan.', ['heritage'], ['teng', 'deng', 'den', 'dennis']),
+  surname('姚', 'yáo', 'One of the oldest surnames; the sage-king Shun was born by the Yao ruins.', ['ancient', 'beautiful'], ['yao', 'yiu']),
+  surname('魏', 'wèi', 'From the State of Wei (魏); one of the Three Kingdoms.', ['lofty', 'grand'], ['wei', 'way', 'wade']),
+  surname('顾', 'gù', 'Means "to look after". From the ancient State of Gu.', ['caring', 'care', 'considerate', 'attentive'], ['koo', 'goo', 'gu']),
+  surname('侯', 'hóu', 'Means "marquis". From nobles of the State of Jin.', ['noble', 'nobility'], ['hou', 'howe', 'howard']),
+  surname('毛', 'máo', 'From a son of King Wen of Zhou, enfeoffed at Mao.', ['heritage'], ['mao', 'mo', 'mow']),
+  surname('康', 'kāng', 'Means "health, well-being". From Kang Shu, a son of King Wen of Zhou.', ['health', 'healthy', 'wellbeing', 'vitality'], ['kang', 'cannon']),
+  surname('邱', 'qiū', 'Originally written 丘 ("hill"); traced to Jiang Ziya, enfeoffed at Yingqiu.', ['hill', 'steady'], ['chiu', 'qiu', 'yau']),
+  surname('江', 'jiāng', 'Means "river". From the State of Jiang (江), descendants of Boyi.', ['river', 'water', 'flow', 'flowing'], ['kiang']),
+  surname('孔', 'kǒng', 'The family of Confucius (Kong Qiu).', ['confucius', 'learning', 'education', 'teacher', 'scholar'], ['kong', 'hung']),
+  surname('孟', 'mèng', 'The family of Mencius; from the Mengsun clan of the State of Lu.', ['eldest', 'philosopher', 'philosophy'], ['meng', 'mong', 'mang']),
+  surname('白', 'bái', 'Means "white". Borne by the Tang poet Bai Juyi.', ['white', 'pure', 'purity', 'honest', 'clean'], ['bai', 'bailey', 'bay', 'bye', 'pak']),
+  surname('石', 'shí', 'Means "stone". From Shi Que, a loyal minister of the State of Wei (卫).', ['stone', 'steady', 'solid', 'reliable', 'firm'], ['shih', 'shek', 'stone']),
+  surname('金', 'jīn', 'Means "gold". Traced to Shaohao, also called Jin Tian.', ['gold', 'golden', 'wealth', 'metal', 'prosperity'], ['king', 'kim', 'jin', 'gin']),
+  surname('文', 'wén', 'Means "culture, literature". From the posthumous title of King Wen of Zhou.', ['culture', 'literature', 'writing', 'writer', 'scholar', 'art', 'artistic'], ['wen', 'wayne', 'win', 'man']),
+  surname('方', 'fāng', 'Means "square, upright". From Fang Lei, a descendant of the Flame Emperor.', ['upright', 'honest', 'integrity', 'square'], ['fong', 'fang', 'fon']),
+  surname('夏', 'xià', 'Means "summer". Carried by descendants of the Xia dynasty.', ['summer', 'warm', 'warmth', 'sunny'], ['hsia', 'ha', 'har']),
+  surname('秦', 'qín', 'From the State of Qin, which unified China in 221 BCE.', ['unity', 'empire', 'history'], ['qin', 'tsin']),
+  surname('史', 'shǐ', 'Means "history". From the title of the court historians (太史).', ['history', 'historian', 'record', 'records'], ['smith', 'schmidt', 'shi', 'sze']),
+  surname('钱', 'qián', 'Means "money". From Peng Fu, an official in charge of currency under the Zhou; the royal house of Wuyue.', ['money', 'wealth', 'business', 'finance'], ['chien', 'qian']),
+  surname('龙', 'lóng', 'Means "dragon". From Long, an official of the sage-king Shun.', ['dragon', 'power', 'powerful', 'strong', 'strength'], ['long', 'lung', 'lon']),
+  surname('雷', 'léi', 'Means "thunder". From Fang Lei, a descendant of the Flame Emperor.', ['thunder', 'bold', 'energetic', 'energy'], ['lei', 'lui', 'ray', 'rae', 'lay']),
+  surname('易', 'yì', 'Means "change, ease", as in the Book of Changes (易经).', ['change', 'adaptable', 'flexible', 'easygoing'], ['yi', 'yee', 'yick']),
+  surname('常', 'cháng', 'Means "constant". From Kang Shu\'s descendants enfeoffed at Chang.', ['constant', 'loyal', 'steady', 'consistent'], ['sheung']),
+  surname('乔', 'qiáo', 'Means "tall". Originally 桥, after Mount Qiao where the Yellow Emperor was buried.', ['tall', 'lofty', 'elegant'], ['kiu', 'chiao', 'qiao']),
+  surname('安', 'ān', 'Means "peace". Associated with Parthian settlers who came along the Silk Road.', ['peace', 'peaceful', 'calm', 'safe', 'gentle'], ['an', 'ann', 'anderson', 'andrews', 'anthony']),
+  surname('贺', 'hè', 'Means "to congratulate". Changed from the surname Qing (庆) in the Eastern Han.', ['joyful', 'celebration', 'cheerful'], ['hay', 'hayes']),
+  surname('柯', 'kē', 'Means "axe handle". From Wu Ke Lu, a prince of the State of Wu.', ['craft', 'skill', 'skilled'], ['ko', 'koh', 'kerr']),
+  surname('黎', 'lí', 'Means "dawn, the multitude". From the ancient State of Li.', ['dawn', 'people'], ['lai', 'ly']),
+  surname('段', 'duàn', 'From Gongshu Duan, a prince of the State of Zheng.', ['heritage'], ['tuen', 'duan', 'don']),
+
+  // Compound surnames
+  surname('欧阳', 'ōu yáng', 'Descendants of King Goujian of Yue enfeoffed south of Mount Ouyu (阳 = sunny side); borne by the Song writer Ouyang Xiu.', ['sun', 'sunny', 'bright', 'writer'], ['ouyang', 'auyeung', 'auyang']),
+  surname('司马', 'sī mǎ', 'From the Zhou official title Minister of War; borne by the historian Sima Qian and the Jin imperial family.', ['horse', 'military', 'strategy', 'historian'], ['sima', 'szema']),
+  surname('诸葛', 'zhū gě', 'The Ge family who moved to Zhu county; borne by the strategist Zhuge Liang, a byword for wisdom.', ['wisdom', 'wise', 'clever', 'smart', 'strategy', 'strategist'], ['zhuge', 'chuko']),
+  surname('上官', 'shàng guān', 'From Prince Lan of Chu, enfeoffed at Shangguan; borne by the Tang poet Shangguan Wan\'er.', ['official', 'leader', 'poet'], ['shangguan', 'shangkuan']),
+  surname('慕容', 'mù róng', 'A Xianbei clan that founded several Yan states in the fourth century.', ['admire', 'admired', 'tolerant', 'heritage'], ['murong', 'mujung']),
+  surname('东方', 'dōng fāng', 'Means "the East". Associated with Fuxi, ruler of the east; borne by the Han wit Dongfang Shuo.', ['east', 'sunrise', 'dawn', 'morning', 'humor', 'humorous', 'witty'], ['dongfang', 'tungfang']),
+  surname('皇甫', 'huáng fǔ', 'From Huangfu (originally 皇父) of the State of Song; borne by the physician Huangfu Mi.', ['healer', 'medicine', 'noble'], ['huangfu']),
+  surname('尉迟', 'yù chí', 'A Xianbei tribal name; borne by the Tang general Yuchi Gong, later venerated as a door god.', ['guardian', 'protective', 'brave', 'loyal'], ['yuchi']),
+  surname('公孙', 'gōng sūn', 'Means "grandson of a duke"; taken by descendants of ducal houses; borne by the logician Gongsun Long.', ['noble', 'logic', 'logical', 'debate'], ['gongsun', 'kungsun']),
+  surname('令狐', 'líng hú', 'From Wei Ke of the State of Jin, enfeoffed at Linghu.', ['fox', 'clever', 'witty'], ['linghu']),
+  surname('夏侯', 'xià hóu', 'Descendants of the Xia kings who became marquises of Qi; borne by the general Xiahou Dun.', ['summer', 'loyal', 'brave'], ['xiahou', 'hsiahou']),
+  surname('宇文', 'yǔ wén', 'A Xianbei clan and the imperial family of the Northern Zhou.', ['universe', 'culture', 'literature'], ['yuwen']),
+  surname('长孙', 'zhǎng sūn', 'A branch of the Northern Wei imperial house; borne by the Tang chancellor Zhangsun Wuji.', ['eldest', 'chancellor', 'responsible'], ['zhangsun', 'changsun']),
+  surname('端木', 'duān mù', 'Borne by Duanmu Ci (Zigong), a disciple of Confucius famed for eloquence and trade.', ['upright', 'eloquent', 'merchant', 'trade'], ['duanmu', 'tuanmu']),
+  surname('南宫', 'nán gōng', 'Borne by Nangong Kuo, a minister of King Wen of Zhou.', ['south', 'palace', 'minister'], ['nangong', 'namkung']),
+  surname('轩辕', 'xuān yuán', 'The clan name of the Yellow Emperor, legendary ancestor of the Chinese people.', ['legend', 'legendary', 'heritage', 'ancestor'], ['xuanyuan', 'hsuanyuan']),
+  surname('独孤', 'dú gū', 'A Xianbei clan; borne by Empress Dugu of the Sui dynasty.', ['independent', 'unique', 'solitary'], ['dugu', 'tuku']),
+  surname('西门', 'xī mén', 'Those who lived by the west gate; borne by Ximen Bao, an official of the State of Wei famed for irrigation works.', ['west', 'gate', 'engineer'], ['ximen', 'hsimen']),
+  surname('钟离', 'zhōng lí', 'From the State of Zhongli; borne by Zhongli Quan, one of the Eight Immortals.', ['immortal', 'bell', 'spiritual'], ['zhongli', 'chungli']),
+  surname('呼延', 'hū yán', 'A noble Xiongnu clan that joined the Han people.', ['warrior', 'brave', 'call'], ['huyan']),
+  surname('赫连', 'hè lián', 'A Xiongnu clan; Helian Bobo founded the Xia state of the Sixteen Kingdoms.', ['glorious', 'illustrious', 'founder'], ['helian', 'holien']),
+  surname('澹台', 'tán tái', 'Borne by Tantai Mieming, a disciple of Confucius known for his integrity.', ['integrity', 'tranquil', 'scholar'], ['tantai']),
+  surname('百里', 'bǎi lǐ', 'Borne by Baili Xi, a celebrated minister of the State of Qin.', ['minister', 'wise', 'hundred', 'journey'], ['baili', 'paili']),
+];
+
+const SURNAME_INDEX = new Map(SURNAMES.map(entry => [entry.surname, entry]));
+
+export function findSurname(chinese: string | undefined): SurnameEntry | undefined {
+  return chinese ? SURNAME_INDEX.get(chinese.trim()) : undefined;
+}
+
+/**
+ * Surname at the start of a full name, preferring a compound surname (欧阳明 → 欧阳)
+ */
+export function findNameSurname(chinese: string): SurnameEntry | undefined {
+  const characters = Array.from(chinese);
+  return findSurname(characters.slice(0, 2).join('')) ?? findSurname(characters[0]);
+}
+
+export function isSurnameStrategy(value: unknown): value is SurnameStrategy {
+  return typeof value === 'string' && (SURNAME_STRATEGIES as string[]).includes(value);
+}
+
+function randomSurname(pool: SurnameEntry[] = SURNAMES.filter(entry => !entry.compound)): SurnameEntry {
+  return pool[Math.floor(Math.random() * pool.length)];
+}
+
+/**
+ * The English family name to match against: the explicit field, else the last
+ * word of the full English name when it has more than one word.
+ */
+export function getEnglishFamilyName(englishName: string, familyName?: string): string | undefined {
+  if (familyName?.trim()) return familyName.trim();
+  const parts = englishName.trim().split(/\s+/);
+  return parts.length > 1 ? parts[parts.length - 1] : undefined;
+}
+
+// Rough respelling of English onsets into pinyin-like letters
+function toPinyinLike(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z]/g, '')
+    .replace(/^ph/, 'f')
+    .replace(/^th/, 't')
+    .replace(/^wh/, 'w')
+    .replace(/^c(?=[aou])/, 'k')
+    .replace(/^v/, 'w')
+    .replace(/^r/, 'l');
+}
+
+function sharedPrefixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return length;
+}
+
+/**
+ * Pick the surname that sounds most like an English family name.
+ * Conventional mappings (Lee → 李, Smith → 史) win; otherwise the single-character
+ * surname whose pinyin shares the longest opening with the English name.
+ */
+export function matchPhoneticSurname(englishFamilyName: string): SurnameEntry | undefined {
+  const normalized = englishFamilyName.toLowerCase().replace(/[^a-z]/g, '');
+  if (!normalized) return undefined;
+
+  let best: SurnameEntry | undefined;
+  let bestLength = 0;
+  for (const entry of SURNAMES) {
+    for (const prefix of entry.soundsLike) {
+      if (normalized.startsWith(prefix) && prefix.length > bestLength) {
+        best = entry;
+        bestLength = prefix.length;
+      }
+    }
+  }
+  if (best) return best;
+
+  const respelled = toPinyinLike(normalized);
+  let bestScore = 1; // require more than the first letter to match
+  for (const entry of SURNAMES) {
+    if (entry.compound) continue;
+    const score = sharedPrefixLength(respelled, stripTone(entry.readings[0]));
+    const isMoreCommon = best && (lookupCharacter(entry.surname)?.frequencyRank ?? Infinity) < (lookupCharacter(best.surname)?.frequencyRank ?? Infinity);
+    if (score > bestScore || (score === bestScore && best && isMoreCommon)) {
+      best = entry;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Pick the surname whose meaning keywords best match the user's own words
+ */
+export function matchMeaningSurname(text: string): SurnameEntry | undefined {
+  const words = new Set(text.toLowerCase().match(/[a-z]+/g) || []);
+  if (words.size === 0) return undefined;
+
+  let best: SurnameEntry | undefined;
+  let bestScore = 0;
+  for (const entry of SURNAMES) {
+    const score = entry.meanings.filter(meaning => words.has(meaning)).length;
+    if (score > bestScore) {
+      best = entry;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+export type SurnameRequest = Pick<
+  GenerateNameRequest,
+  'englishName' | 'surnameStrategy' | 'surname' | 'familyName' | 'personalityTraits' | 'namePreferences'
+>;
+
+/**
+ * Build a surname picker for one generation request. The random strategy draws a
+ * new surname for every name; the others use the same surname throughout, and
+ * fall back to random when nothing matches.
+ */
+export function createSurnamePicker(request: SurnameRequest): () => SurnameEntry {
+  const strategy = request.surnameStrategy || 'random';
+  let chosen: SurnameEntry | undefined;
+
+  if (strategy === 'fixed') {
+    chosen = findSurname(request.surname);
+  } else if (strategy === 'phonetic') {
+    const familyName = getEnglishFamilyName(request.englishName, request.familyName);
+    chosen = familyName ? matchPhoneticSurname(familyName) : undefined;
+  } else if (strategy === 'meaning') {
+    chosen = matchMeaningSurname([request.personalityTraits, request.namePreferences].filter(Boolean).join(' '));
+  }
+
+  if (strategy !== 'random' && !chosen) {
+    console.warn(`No surname matched for strategy "${strategy}", using a random surname`);
+  }
+
+  return () => chosen || randomSurname();
+}
@@ -0,0 +1,87 @@
+/**
+ * On-demand translation of name explanations
+ * Asks the model to translate a name's meaning, notes and character explanations,
+ * feeding validation errors back as the generator does. The characters
+ * themselves are never changed.
+ */
+
+import type { ChatMessage, LLMProvider } from '@/utils/llm/providers';
+import { completeWithUsage, type LLMCallRecord } from '@/utils/llm/usage';
+import { formatSchemaIssues, nameTranslationSchema } from '@/utils/chinese-names/schema';
+import { extractJson, MAX_REPAIR_ATTEMPTS } from '@/utils/chinese-names/generator';
+import { renderTemplate, type PromptTemplate } from '@/utils/chinese-names/prompts';
+import { getNameLanguage, getNameTexts, OUTPUT_LANGUAGES } from '@/utils/chinese-names/languages';
+import type { NameData, NameTranslation, OutputLanguage } from '@/types/chinese-names';
+
+export async function translateName(
+  name: NameData,
+  language: OutputLanguage,
+  provider: LLMProvider,
+  promptTemplate: PromptTemplate,
+  calls: LLMCallRecord[]
+): Promise<NameTranslation> {
+  const messages: ChatMessage[] = [
+    { role: 'system', content: promptTemplate.translation.system },
+    {
+      role: 'user',
+      content: renderTemplate(promptTemplate.translation.user, {
+        chinese: name.chinese,
+        pinyin: name.pinyin,
+        sourceLanguage: OUTPUT_LANGUAGES[getNameLanguage(name)].label,
+        language: OUTPUT_LANGUAGES[language].label,
+        source: JSON.stringify(getNameTexts(name), null, 2),
+      }),
+    },
+  ];
+
+  let issues: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const completion = await completeWithUsage(provider, {
+      messages,
+      temperature: 0.3,
+      maxTokens: 1200,
+    }, attempt, calls);
+
+    const validation = validateTranslation(completion.content, name);
+    if (validation.translation) {
+      return validation.translation;
+    }
+
+    issues = validation.issues;
+    console.warn(`Invalid translation response (attempt ${attempt + 1}/${MAX_REPAIR_ATTEMPTS + 1}):`, issues);
+
+    messages.push(
+      { role: 'assistant', content: completion.content || '' },
+      { role: 'user', content: renderTemplate(promptTemplate.repair, { issues: issues.join('\n- ') }) }
+    );
+  }
+
+  throw new Error(`Translation response failed validation after ${MAX_REPAIR_ATTEMPTS + 1} attempts: ${issues.join('; ')}`);
+}
+
+function validateTranslation(responseContent: string | null, name: NameData): { translation?: NameTranslation; issues: string[] } {
+  if (!responseContent) {
+    return { issues: ['The response was empty'] };
+  }
+
+  let candidate: unknown;
+  try {
+    candidate = extractJson(responseContent);
+  } catch (error) {
+    return { issues: [error instanceof Error ? error.message : 'The response was not valid JSON'] };
+  }
+
+  const result = nameTranslationSchema.safeParse(candidate);
+  if (!result.success) {
+    return { issues: formatSchemaIssues(result.error) };
+  }
+
+  const expected = name.characters.map(entry => entry.character).join('');
+  const breakdown = result.data.characters.map(entry => entry.character).join('');
+  if (breakdown !== expected) {
+    return { issues: [`characters[] must list each character of "${expected}" in order (got "${breakdown}")`] };
+  }
+
+  return { translation: result.data, issues: [] };
+}
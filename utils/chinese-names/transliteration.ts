@@ -0,0 +1,295 @@
+/**
+ * Phonetic transliteration
+ * Maps an English given name onto sound-alike Chinese characters with a
+ * syllable-mapping table (Catherine → 卡瑟琳), and scores how closely a
+ * Chinese reading matches the English sound.
+ */
+
+import { lookupCharacter, stripTone } from '@/utils/chinese-names/lexicon';
+import type { GenerateNameRequest } from '@/types/chinese-names';
+
+export interface TransliterationCandidate {
+  characters: string[];
+  // Tone-marked reading of each character
+  readings: string[];
+  // 0-100, see phoneticSimilarity
+  phoneticScore: number;
+}
+
+// Names scoring below this no longer sound like the English name
+export const MIN_PHONETIC_SCORE = 35;
+
+// Conventional transliteration characters by toneless pinyin syllable, the most
+// established choice first (after the Xinhua foreign-name transliteration table)
+const SYLLABLE_CHARACTERS: Record<string, string> = {
+  a: '阿', ai: '艾埃爱', an: '安', ao: '奥',
+  ba: '巴芭', bai: '柏', ban: '班', bao: '宝', bei: '贝蓓', ben: '本', bi: '比碧', bo: '博伯波', bu: '布',
+  cha: '查',
+  da: '达', dai: '黛戴', dan: '丹', de: '德', deng: '登', di: '迪荻', dong: '东', du: '杜', dun: '顿', duo: '多',
+  en: '恩', er: '尔儿',
+  fa: '法', fan: '凡帆', fei: '菲斐', fen: '芬', fu: '福芙',
+  gai: '盖', ge: '格歌', gu: '古',
+  ha: '哈', hai: '海', han: '汉翰涵', he: '赫荷', heng: '亨', hua: '华', huo: '霍',
+  ji: '吉姬', jia: '加嘉佳', jian: '简', jie: '杰洁', jin: '金锦', ju: '居',
+  ka: '卡', kai: '凯恺', kang: '康', ke: '克科可', ken: '肯', ku: '库',
+  la: '拉', lai: '莱', lan: '兰岚', lang: '朗', lao: '劳', lei: '雷蕾', li: '里莉丽利黎', lian: '莲', lin: '林琳霖', ling: '灵玲', lu: '路露璐', luo: '罗洛',
+  ma: '马玛', mai: '迈', man: '曼蔓', mei: '梅美', men: '门', meng: '蒙', mi: '米蜜', min: '敏', mo: '莫墨', mu: '穆沐',
+  na: '娜纳', nai: '奈', nan: '南楠', ni: '尼妮倪', nuo: '诺',
+  ou: '欧',
+  pa: '帕', pei: '佩沛', ping: '平萍', po: '珀',
+  qi: '奇琪', qiao: '乔', qin: '琴沁', qiong: '琼',
+  rui: '瑞睿',
+  sa: '萨', sai: '赛', sang: '桑', se: '瑟', sen: '森', sha: '莎沙', shan: '珊姗山', shi: '诗史', si: '斯思丝', su: '苏',
+  ta: '塔', tai: '泰', tan: '坦', tang: '唐', te: '特', ti: '提', tuo: '托',
+  wa: '瓦娃', wei: '维威伟薇', wen: '文温', wo: '沃',
+  xi: '西希茜熙', xin: '辛欣馨', xiu: '修',
+  ya: '亚雅娅', yan: '彦燕妍', yi: '伊依怡', you: '尤优', yu: '宇玉', yue: '约',
+  zha: '扎', zhan: '詹展', zhe: '哲', zhen: '珍臻', zhu: '朱珠茱', zi: '姿紫子', zuo: '佐',
+};
+
+// Characters conventionally reserved for women's or men's names in transliteration
+const FEMININE_CHARACTERS = new Set(Array.from('芭蓓黛荻芙姬嘉洁锦莉丽莲琳玲露璐玛蔓梅美蜜妮娜佩萍珀琪琴琼莎珊姗诗丝娃薇茜熙馨雅娅燕妍依怡优玉珍珠茱姿紫岚蕾霖涵荷沁'));
+const MASCULINE_CHARACTERS = new Set(Array.from('伯博德登迪顿凡翰赫亨华霍吉杰金克科肯康朗雷里利罗洛马迈蒙穆南楠诺平奇乔瑞睿森山史斯泰坦唐特托威维伟文沃修彦尤宇约扎詹展哲臻佐'));
+
+// Vowel-less English consonants are voiced with a default vowel, e.g. the final s of Chris → 斯
+const BARE_CONSONANTS: Record<string, string> = {
+  b: 'bu', p: 'pu', m: 'mu', f: 'fu', v: 'fu', w: 'wu',
+  d: 'de', t: 'te', n: 'en', l: 'er', r: 'er',
+  g: 'ge', k: 'ke', h: 'he', j: 'ji', s: 'si', z: 'zi', y: 'yi',
+  sh: 'shi', ch: 'qi', kw: 'ku',
+};
+
+const NUCLEUS_FINALS: Record<string, string> = {
+  a: 'a', e: 'e', i: 'i', o: 'uo', u: 'u', y: 'i',
+  ai: 'ai', ay: 'ai', ei: 'ei', ey: 'ei', ae: 'ei',
+  ia: 'ia', ie: 'i', io: 'ao', ou: 'ou', ow: 'ou', au: 'ao', aw: 'ao', oa: 'uo', ue: 'u', ui: 'ui', eo: 'ao',
+};
+
+const SYLLABLE_PATTERN = /(sh|ch|kw|[bdfghjklmnprstvwyz])?([aeiouy]+)((?:ng|n|r)(?![aeiouy]))?|(sh|ch|kw|[bdfghjklmnprstvwyz])/g;
+
+/**
+ * The English name to transliterate: the first word of the full name
+ */
+export function getEnglishGivenName(englishName: string): string {
+  return englishName.trim().split(/\s+/)[0] || '';
+}
+
+/**
+ * Respell English letters so each sound has one spelling (Catherine → kaserin)
+ */
+function respellEnglish(word: string): string {
+  let respelled = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (respelled.length > 3) {
+    respelled = respelled.replace(/([^aeiouy])e$/, '$1'); // silent final e
+  }
+
+  return respelled
+    .replace(/ee|ea/g, 'i')
+    .replace(/oo/g, 'u')
+    .replace(/([b-df-hj-np-tv-z])\1/g, '$1')
+    .replace(/^th/, 't')
+    .replace(/th/g, 's')
+    .replace(/ph/g, 'f')
+    .replace(/gh/g, '')
+    .replace(/ck/g, 'k')
+    .replace(/^chr/, 'kr') // Chris, Christina
+    .replace(/qu/g, 'kw')
+    .replace(/x/g, 'ks')
+    .replace(/c(?=[eiy])/g, 's')
+    .replace(/c(?!h)/g, 'k')
+    .replace(/([^aeiou])y/g, '$1i');
+}
+
+function toPinyinSyllable(onset: string, nucleus: string, coda: string): string {
+  let final = NUCLEUS_FINALS[nucleus] ?? NUCLEUS_FINALS[nucleus[0]] ?? 'a';
+
+  if (coda === 'r') {
+    if (final === 'i' || final === 'u') final = 'e';
+  } else if (coda === 'n') {
+    final = final === 'uo' ? 'un' : `${final}n`;
+  } else if (coda === 'ng') {
+    final = final === 'uo' ? 'ong' : `${final}ng`;
+  }
+
+  let initial = onset === 'r' ? 'l' : onset === 'v' ? 'w' : onset === 'kw' ? 'k' : onset;
+
+  if (!initial) {
+    // Vowel-initial names use the conventional 阿/艾/伊/奥/乌 openings
+    if (final.startsWith('e')) return final === 'e' ? 'ai' : `ai${final.slice(1)}`;
+    if (final.startsWith('i')) return `y${final}`;
+    if (final === 'uo') return 'ao';
+    if (final.startsWith('u')) return `w${final}`;
+    return final;
+  }
+
+  if (initial === 'j') {
+    initial = /^(i|e)/.test(final) ? 'j' : 'zh';
+    if (final === 'e') final = 'ie';
+  }
+  if (['b', 'p', 'm', 'f'].includes(initial) && final === 'uo') final = 'o';
+  if (initial === 'w' && final === 'e') final = 'ei';
+
+  return initial + final;
+}
+
+/**
+ * Split an English name into pinyin syllables, e.g. Catherine → ka se lin
+ */
+export function toPinyinSyllables(englishName: string): string[] {
+  const respelled = respellEnglish(englishName);
+  const syllables: string[] = [];
+
+  for (const match of Array.from(respelled.matchAll(SYLLABLE_PATTERN))) {
+    const [, onset = '', nucleus, coda = '', bare] = match;
+    syllables.push(bare ? BARE_CONSONANTS[bare] : toPinyinSyllable(onset, nucleus, coda));
+  }
+
+  return syllables;
+}
+
+// Letters that sound alike across English and pinyin, compared at half cost
+const SOUND_CLASSES = ['aeiouyü', 'lr', 'bpmfvw', 'dtn', 'gkh', 'szcxj', 'q'];
+
+function soundClass(letter: string): number {
+  return SOUND_CLASSES.findIndex(group => group.includes(letter));
+}
+
+function letterWeight(letter: string): number {
+  return soundClass(letter) === 0 ? 0.5 : 1;
+}
+
+/**
+ * Weighted edit distance: vowels count half, and swaps within a sound class
+ * (l/r, b/p, s/x...) cost half as much as unrelated letters
+ */
+function phoneticDistance(a: string, b: string): number {
+  let previous = [0];
+  for (let j = 1; j <= b.length; j++) previous[j] = previous[j - 1] + letterWeight(b[j - 1]);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [previous[0] + letterWeight(a[i - 1])];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = a[i - 1] === b[j - 1] ? 0 : soundClass(a[i - 1]) === soundClass(b[j - 1]) ? 0.5 : 1;
+      current[j] = Math.min(
+        previous[j] + letterWeight(a[i - 1]),
+        current[j - 1] + letterWeight(b[j - 1]),
+        previous[j - 1] + substitution
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+function weightedLength(value: string): number {
+  return Array.from(value).reduce((total, letter) => total + letterWeight(letter), 0);
+}
+
+// Spell pinyin the way an English speaker would read it aloud
+function pinyinToEnglishSpelling(readings: string[]): string {
+  return readings
+    .map(reading => stripTone(reading).toLowerCase())
+    .join('')
+    .replace(/ü/g, 'u')
+    .replace(/zh/g, 'j')
+    .replace(/x/g, 's')
+    .replace(/q/g, 'ch')
+    .replace(/uo/g, 'o');
+}
+
+/**
+ * How much a Chinese given name sounds like an English name, 0-100
+ */
+export function phoneticSimilarity(englishName: string, readings: string[]): number {
+  const english = respellEnglish(englishName);
+  const chinese = pinyinToEnglishSpelling(readings);
+  if (!english || !chinese) return 0;
+
+  const distance = phoneticDistance(english, chinese);
+  const scale = Math.max(weightedLength(english), weightedLength(chinese));
+  return Math.round(Math.max(0, 1 - distance / scale) * 100);
+}
+
+/**
+ * The table syllable closest to a pinyin syllable that has no characters of its own
+ */
+function resolveSyllable(syllable: string): string {
+  if (SYLLABLE_CHARACTERS[syllable]) return syllable;
+
+  let best = 'a';
+  let bestDistance = Infinity;
+  for (const candidate of Object.keys(SYLLABLE_CHARACTERS)) {
+    // Keeping the initial matters more than keeping the vowel
+    const distance = phoneticDistance(syllable, candidate) + (candidate[0] === syllable[0] ? 0 : 1);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+function charactersFor(syllable: string, gender: GenerateNameRequest['gender']): string[] {
+  const characters = Array.from(SYLLABLE_CHARACTERS[syllable]);
+  if (gender === 'other') return characters;
+
+  const preferred = gender === 'female' ? FEMININE_CHARACTERS : MASCULINE_CHARACTERS;
+  const avoided = gender === 'female' ? MASCULINE_CHARACTERS : FEMININE_CHARACTERS;
+  const rank = (character: string) => (preferred.has(character) ? 0 : avoided.has(character) ? 2 : 1);
+
+  // Array.prototype.sort is stable, so table order breaks ties
+  return characters.sort((a, b) => rank(a) - rank(b));
+}
+
+function readingFor(character: string, syllable: string): string {
+  const readings = lookupCharacter(character)?.readings || [];
+  return readings.find(reading => stripTone(reading) === syllable) || readings[0] || syllable;
+}
+
+/**
+ * Sound-alike given names for an English name: the full transliteration (at most
+ * three characters) plus shorter two-character forms that read more naturally,
+ * each in a few character variants. Best-sounding first.
+ */
+export function buildTransliterationCandidates(
+  englishName: string,
+  gender: GenerateNameRequest['gender'],
+  limit: number = 6
+): TransliterationCandidate[] {
+  const givenName = getEnglishGivenName(englishName);
+  const syllables = toPinyinSyllables(givenName).map(resolveSyllable);
+  if (syllables.length === 0) return [];
+
+  const last = syllables.length - 1;
+  const forms: number[][] = [
+    syllables.length <= 3 ? syllables.map((_, index) => index) : [0, 1, last],
+  ];
+  if (syllables.length > 2) forms.push([0, last], [0, 1]);
+
+  const candidates: TransliterationCandidate[] = [];
+  const seen = new Set<string>();
+
+  for (let variant = 0; variant < 3; variant++) {
+    for (const form of forms) {
+      // Vary one syllable at a time so every variant still uses mostly standard characters
+      const varied = form.length > 0 ? variant % form.length : 0;
+      const characters = form.map((syllableIndex, position) => {
+        const options = charactersFor(syllables[syllableIndex], gender);
+        return options[position === varied ? variant % options.length : 0];
+      });
+
+      const key = characters.join('');
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const readings = form.map((syllableIndex, position) => readingFor(characters[position], syllables[syllableIndex]));
+      candidates.push({ characters, readings, phoneticScore: phoneticSimilarity(givenName, readings) });
+    }
+  }
+
+  return candidates
+    .sort((a, b) => b.phoneticScore - a.phoneticScore)
+    .slice(0, limit);
+}
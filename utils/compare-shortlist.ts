@@ -0,0 +1,42 @@
+// Names shortlisted for side-by-side comparison, kept in localStorage so the
+// shortlist survives switching rounds, batches and pages
+
+import { MAX_COMPARE_NAMES } from '@/utils/chinese-names/compare';
+
+const STORAGE_KEY = 'chinese_name_compare_shortlist';
+
+export function loadCompareShortlist(): string[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter((id): id is string => typeof id === 'string').slice(0, MAX_COMPARE_NAMES) : [];
+  } catch (error) {
+    console.error('Failed to load compare shortlist from localStorage:', error);
+    return [];
+  }
+}
+
+export function saveCompareShortlist(ids: string[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(ids.slice(0, MAX_COMPARE_NAMES)));
+  } catch (error) {
+    console.error('Failed to save compare shortlist to localStorage:', error);
+  }
+}
+
+/**
+ * Add or remove a name id. Returns the new shortlist, or null when it is already full.
+ */
+export function toggleCompareShortlist(id: string): string[] | null {
+  const ids = loadCompareShortlist();
+  if (ids.includes(id)) {
+    const next = ids.filter(entry => entry !== id);
+    saveCompareShortlist(next);
+    return next;
+  }
+  if (ids.length >= MAX_COMPARE_NAMES) {
+    return null;
+  }
+  const next = [...ids, id];
+  saveCompareShortlist(next);
+  return next;
+}
@@ -4,6 +4,28 @@
  * and provides helpful error messages for missing configurations.
  */
 
+export interface LLMRouteConfig {
+  provider: 'openai' | 'fixture';
+  model: string;
+}
+
+// USD per million prompt and completion tokens
+export interface LLMModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+// Traffic whose LLM spend is capped separately: anonymous users and each paid plan type
+export type LLMTrafficClass = 'anonymous' | 'standard' | 'premium';
+
+// USD ceilings on estimated LLM spend per UTC day and calendar month; unset means no ceiling
+export interface LLMSpendCap {
+  daily?: number;
+  monthly?: number;
+}
+
+const LLM_TRAFFIC_CLASSES: LLMTrafficClass[] = ['anonymous', 'standard', 'premium'];
+
 interface EnvConfig {
   // Supabase Configuration
   supabaseUrl: string;
@@ -15,6 +37,24 @@ interface EnvConfig {
   openaiBaseUrl?: string;
   openrouterApiKey?: string;
 
+  // LLM routing per plan type (ordered fallback chains)
+  llm: {
+    standard: LLMRouteConfig[];
+    premium: LLMRouteConfig[];
+    // Prices added to or overriding the built-in table (see utils/llm/usage)
+    prices: Record<string, LLMModelPrice>;
+    spendCaps: Record<LLMTrafficClass, LLMSpendCap>;
+    // Consecutive provider errors that open a provider's circuit breaker, and how long it stays open
+    breakerFailureThreshold: number;
+    breakerCooldownSeconds: number;
+  };
+
+  // Prompt template version per plan type (see utils/chinese-names/prompts)
+  prompts: {
+    standard: string;
+    premium: string;
+  };
+
   // Creem Payment Configuration
   creemApiKey: string;
   creemWebhookSecret: string;
@@ -23,6 +63,8 @@ interface EnvConfig {
   // Application Configuration
   baseUrl: string;
   nodeEnv: string;
+  // Lowercased emails allowed to open admin reports
+  adminEmails: string[];
 
   // Optional Product IDs (defaults will be used if not provided)
   creemStarterProductId?: string;
@@ -58,6 +100,83 @@ function getOptionalEnvVar(key: string, defaultValue?: string): string | undefin
   return defaultValue;
 }
 
+const DEFAULT_LLM_MODEL = 'google/gemini-2.5-flash';
+const DEFAULT_PROMPT_VERSION = 'v1';
+
+/**
+ * Parse an ordered provider chain such as
+ * "openai:google/gemini-2.5-flash,openai:openai/gpt-4o-mini,fixture"
+ */
+function parseLLMRoutes(key: string, defaultValue: string): LLMRouteConfig[] {
+  const raw = getOptionalEnvVar(key, defaultValue);
+  const routes = raw
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map((entry): LLMRouteConfig => {
+      const separatorIndex = entry.indexOf(':');
+      const provider = separatorIndex === -1 ? entry : entry.slice(0, separatorIndex);
+      const model = separatorIndex === -1 ? '' : entry.slice(separatorIndex + 1);
+
+      if (provider === 'fixture') {
+        return { provider, model: model || 'fixture-v1' };
+      }
+      if (provider === 'openai') {
+        return { provider, model: model || DEFAULT_LLM_MODEL };
+      }
+      throw new EnvValidationError(`Unknown LLM provider "${provider}" in ${key}`);
+    });
+
+  if (routes.length === 0) {
+    throw new EnvValidationError(`${key} must list at least one provider`);
+  }
+  return routes;
+}
+
+/**
+ * Parse model prices such as
+ * "google/gemini-2.5-flash=0.3/2.5,openai/gpt-4o-mini=0.15/0.6"
+ */
+function parseLLMPrices(key: string): Record<string, LLMModelPrice> {
+  const prices: Record<string, LLMModelPrice> = {};
+  for (const entry of getOptionalEnvVar(key, '').split(',').map(part => part.trim()).filter(Boolean)) {
+    const separatorIndex = entry.lastIndexOf('=');
+    const [prompt, completion] = entry.slice(separatorIndex + 1).split('/').map(Number);
+    if (separatorIndex <= 0 || !Number.isFinite(prompt) || !Number.isFinite(completion) || prompt < 0 || completion < 0) {
+      throw new EnvValidationError(`Invalid model price "${entry}" in ${key}; use model=prompt/completion in USD per million tokens`);
+    }
+    prices[entry.slice(0, separatorIndex)] = { prompt, completion };
+  }
+  return prices;
+}
+
+/**
+ * Parse spend ceilings such as "anonymous=2/40,standard=20/400,premium=/600"
+ * (daily/monthly USD per traffic class; an empty side has no ceiling)
+ */
+function parseSpendCaps(key: string): Record<LLMTrafficClass, LLMSpendCap> {
+  const caps: Record<LLMTrafficClass, LLMSpendCap> = { anonymous: {}, standard: {}, premium: {} };
+  for (const entry of getOptionalEnvVar(key, '').split(',').map(part => part.trim()).filter(Boolean)) {
+    const [trafficClass, limits = ''] = entry.split('=');
+    const [daily, monthly] = limits.split('/').map(limit => limit.trim() === '' ? undefined : Number(limit));
+    if (!LLM_TRAFFIC_CLASSES.includes(trafficClass as LLMTrafficClass) || [daily, monthly].some(limit => limit !== undefined && !(limit >= 0))) {
+      throw new EnvValidationError(`Invalid spend cap "${entry}" in ${key}; use ${LLM_TRAFFIC_CLASSES.join('|')}=daily/monthly in USD`);
+    }
+    caps[trafficClass as LLMTrafficClass] = { daily, monthly };
+  }
+  return caps;
+}
+
+function getPositiveIntEnvVar(key: string, defaultValue: number): number {
+  const raw = getOptionalEnvVar(key);
+  if (raw === undefined || raw === '') return defaultValue;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new EnvValidationError(`${key} must be a positive whole number`);
+  }
+  return value;
+}
+
 function validateUrl(url: string, key: string): string {
   try {
     new URL(url);
@@ -69,6 +188,16 @@ function validateUrl(url: string, key: string): string {
 
 export function getEnvConfig(): EnvConfig {
   try {
+    const llm = {
+      standard: parseLLMRoutes('LLM_STANDARD_PROVIDERS', `openai:${DEFAULT_LLM_MODEL}`),
+      premium: parseLLMRoutes('LLM_PREMIUM_PROVIDERS', getOptionalEnvVar('LLM_STANDARD_PROVIDERS', `openai:${DEFAULT_LLM_MODEL}`)),
+      prices: parseLLMPrices('LLM_MODEL_PRICES'),
+      spendCaps: parseSpendCaps('LLM_SPEND_CAPS'),
+      breakerFailureThreshold: getPositiveIntEnvVar('LLM_BREAKER_FAILURES', 5),
+      breakerCooldownSeconds: getPositiveIntEnvVar('LLM_BREAKER_COOLDOWN_SECONDS', 60),
+    };
+    const needsOpenAIKey = [...llm.standard, ...llm.premium].some(route => route.provider === 'openai');
+
     const config: EnvConfig = {
       // Supabase Configuration
       supabaseUrl: validateUrl(getRequiredEnvVar('NEXT_PUBLIC_SUPABASE_URL'), 'NEXT_PUBLIC_SUPABASE_URL'),
@@ -81,10 +210,17 @@ export function getEnvConfig(): EnvConfig {
         if (viaOpenRouter) return viaOpenRouter;
         const viaOpenAI = getOptionalEnvVar('OPENAI_API_KEY');
         if (viaOpenAI) return viaOpenAI;
+        // The fixture provider runs offline and needs no key
+        if (!needsOpenAIKey) return '';
         throw new EnvValidationError('Missing required environment variable: OPENROUTER_API_KEY or OPENAI_API_KEY');
       })(),
       openaiBaseUrl: getOptionalEnvVar('OPENAI_BASE_URL', 'https://openrouter.ai/api/v1'),
       openrouterApiKey: getOptionalEnvVar('OPENROUTER_API_KEY'),
+      llm,
+      prompts: {
+        standard: getOptionalEnvVar('PROMPT_VERSION_STANDARD', DEFAULT_PROMPT_VERSION),
+        premium: getOptionalEnvVar('PROMPT_VERSION_PREMIUM', getOptionalEnvVar('PROMPT_VERSION_STANDARD', DEFAULT_PROMPT_VERSION)),
+      },
 
       // Creem Payment Configuration
       creemApiKey: getRequiredEnvVar('CREEM_API_KEY'),
@@ -100,6 +236,10 @@ export function getEnvConfig(): EnvConfig {
         return validateUrl(withScheme, 'BASE_URL');
       })(),
       nodeEnv: getOptionalEnvVar('NODE_ENV', 'development'),
+      adminEmails: getOptionalEnvVar('ADMIN_EMAILS', '')
+        .split(',')
+        .map(email => email.trim().toLowerCase())
+        .filter(Boolean),
 
       // Optional Product IDs
       creemStarterProductId: getOptionalEnvVar('CREEM_STARTER_PRODUCT_ID'),
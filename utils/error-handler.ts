@@ -364,12 +364,12 @@ class ErrorHandler {
   /**
    * Create specific error types with common patterns
    */
-  static validationError(message: string, details?: any): AppError {
+  static validationError(message: string, details?: any, code?: string): AppError {
     return this.createError(
       ErrorType.VALIDATION,
       message,
       undefined,
-      { details, retryable: false, severity: ErrorSeverity.LOW }
+      { code, details, retryable: false, severity: ErrorSeverity.LOW }
     );
   }
 
@@ -1,11 +1,9 @@
 // LocalStorage工具函数，用于保存和恢复表单数据
 
-interface FormData {
-  englishName: string;
-  gender: 'male' | 'female' | 'other';
-  birthYear?: string;
-  personalityTraits?: string;
-  namePreferences?: string;
+import type { GenerationFormData } from '@/types/chinese-names';
+
+// Plan type is not restored; the form always defaults to Standard
+interface FormData extends Omit<GenerationFormData, 'planType'> {
   savedAt: number;
   expiresIn: number;
 }
@@ -0,0 +1,37 @@
+// Idempotency keys sent from the browser: one key per user action, reused for
+// every attempt of that action, so the server charges or creates it only once
+// (see utils/idempotency.ts)
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// Attempts per action when the connection drops before any response arrives
+const NETWORK_ATTEMPTS = 3;
+const NETWORK_RETRY_DELAY_MS = 1000;
+
+export function createIdempotencyKey(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * fetch with an Idempotency-Key, retrying with the same key when the request
+ * fails without a response (e.g. a dropped mobile connection). HTTP error
+ * responses are returned as they are, never retried.
+ */
+export async function fetchWithIdempotencyKey(
+  url: string,
+  init: RequestInit,
+  key: string = createIdempotencyKey()
+): Promise<Response> {
+  const headers = new Headers(init.headers);
+  headers.set(IDEMPOTENCY_HEADER, key);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fetch(url, { ...init, headers });
+    } catch (error) {
+      if (attempt >= NETWORK_ATTEMPTS || init.signal?.aborted) throw error;
+      console.warn(`Request to ${url} failed (attempt ${attempt}/${NETWORK_ATTEMPTS}), retrying with the same key:`, error);
+      await new Promise(resolve => setTimeout(resolve, NETWORK_RETRY_DELAY_MS * attempt));
+    }
+  }
+}
@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextResponse } from 'next/server';
+import { IDEMPOTENCY_HEADER, IDEMPOTENCY_REPLAYED_HEADER, withIdempotency } from '@/utils/idempotency';
+
+type Row = Record<string, unknown>;
+
+// In-memory idempotency_keys table covering the queries withIdempotency makes
+const table: Row[] = [];
+
+function createQuery() {
+  const filters: [string, unknown][] = [];
+  let operation: 'select' | 'insert' | 'update' | 'delete' = 'select';
+  let payload: Row = {};
+
+  const matches = (row: Row) => filters.every(([column, value]) => row[column] === value);
+  const run = () => {
+    if (operation === 'insert') {
+      const duplicate = table.some(row =>
+        row.scope === payload.scope && row.owner === payload.owner && row.idempotency_key === payload.idempotency_key
+      );
+      if (duplicate) return { data: null, error: { code: '23505', message: 'duplicate key' } };
+      const row = { id: `key-${table.length + 1}`, created_at: new Date().toISOString(), response: null, ...payload };
+      table.push(row);
+      return { data: row, error: null };
+    }
+    if (operation === 'update') {
+      table.filter(matches).forEach(row => Object.assign(row, payload));
+      return { data: null, error: null };
+    }
+    if (operation === 'delete') {
+      for (let i = table.length - 1; i >= 0; i--) {
+        if (matches(table[i])) table.splice(i, 1);
+      }
+      return { data: null, error: null };
+    }
+    const row = table.find(matches);
+    return row ? { data: row, error: null } : { data: null, error: { code: 'PGRST116', message: 'no rows' } };
+  };
+
+  const query = {
+    insert: (row: Row) => { operation = 'insert'; payload = row; return query; },
+    update: (patch: Row) => { operation = 'update'; payload = patch; return query; },
+    delete: () => { operation = 'delete'; return query; },
+    select: () => query,
+    eq: (column: string, value: unknown) => { filters.push([column, value]); return query; },
+    single: async () => run(),
+    then: (resolve: (result: ReturnType<typeof run>) => unknown) => Promise.resolve(run()).then(resolve),
+  };
+  return query;
+}
+
+vi.mock('@/utils/supabase/service-role', () => ({
+  createServiceRoleClient: () => ({ from: () => createQuery() }),
+}));
+
+const request = (key?: string) =>
+  new Request('http://localhost/api/generate-pdf', {
+    method: 'POST',
+    headers: key ? { [IDEMPOTENCY_HEADER]: key } : {},
+  });
+
+const options = (fingerprint: unknown) => ({ scope: 'generate_pdf' as const, owner: 'user-1', fingerprint });
+
+describe('withIdempotency', () => {
+  beforeEach(() => {
+    table.length = 0;
+  });
+
+  it('runs the handler as usual without a key', async () => {
+    const handler = vi.fn(async () => NextResponse.json({ credits: 1 }));
+
+    await withIdempotency(request(), options({ name: '李清禾' }), handler);
+    await withIdempotency(request(), options({ name: '李清禾' }), handler);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(table).toHaveLength(0);
+  });
+
+  it('replays the first response for a repeated key instead of running again', async () => {
+    const handler = vi.fn(async () => NextResponse.json({ charged: 1 }));
+
+    const first = await withIdempotency(request('key-a'), options({ name: '李清禾' }), handler);
+    const repeat = await withIdempotency(request('key-a'), options({ name: '李清禾' }), handler);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(await first.json()).toEqual({ charged: 1 });
+    expect(await repeat.json()).toEqual({ charged: 1 });
+    expect(repeat.headers.get(IDEMPOTENCY_REPLAYED_HEADER)).toBe('true');
+  });
+
+  it('rejects a key reused for a different request', async () => {
+    const handler = vi.fn(async () => NextResponse.json({ charged: 1 }));
+
+    await withIdempotency(request('key-a'), options({ name: '李清禾' }), handler);
+    const reused = await withIdempotency(request('key-a'), options({ name: '王景行' }), handler);
+
+    expect(reused.status).toBe(422);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('answers 409 while the first request with the key is still running', async () => {
+    let concurrent: Response | undefined;
+    await withIdempotency(request('key-a'), options({ name: '李清禾' }), async () => {
+      concurrent = await withIdempotency(request('key-a'), options({ name: '李清禾' }), async () => NextResponse.json({}));
+      return NextResponse.json({ charged: 1 });
+    });
+
+    expect(concurrent?.status).toBe(409);
+  });
+
+  it('releases the key after a failure so a retry runs again', async () => {
+    const handler = vi.fn()
+      .mockResolvedValueOnce(NextResponse.json({ error: 'Failed' }, { status: 500 }))
+      .mockResolvedValueOnce(NextResponse.json({ charged: 1 }));
+
+    const failed = await withIdempotency(request('key-a'), options({ name: '李清禾' }), handler);
+    const retry = await withIdempotency(request('key-a'), options({ name: '李清禾' }), handler);
+
+    expect(failed.status).toBe(500);
+    expect(retry.status).toBe(200);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Idempotency keys for POST routes
+ * A client may send an `Idempotency-Key` header. The first request with a key
+ * runs and its successful response is stored in idempotency_keys; repeats of
+ * the same request within the TTL replay that response instead of charging or
+ * creating anything again. Keys are scoped to a route and to the caller.
+ */
+
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import ErrorHandler, { ErrorType } from '@/utils/error-handler';
+import { createServiceRoleClient } from '@/utils/supabase/service-role';
+import { IDEMPOTENCY_HEADER } from '@/utils/idempotency-key';
+
+export { IDEMPOTENCY_HEADER };
+export const IDEMPOTENCY_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+const IDEMPOTENCY_TTL_HOURS = 24;
+// A request still "processing" after this long died mid-flight; its key may be claimed again
+const STALE_PROCESSING_MINUTES = 10;
+const MAX_KEY_LENGTH = 255;
+const UNIQUE_VIOLATION = '23505';
+
+// Response headers worth keeping for a replay
+const STORED_HEADERS = ['content-type', 'content-disposition'];
+
+export type IdempotencyScope = 'chinese_names_generate' | 'chinese_names_refine' | 'creem_create_checkout' | 'generate_pdf';
+
+export interface StoredResponse {
+  status: number;
+  headers: Record<string, string>;
+  // Parsed JSON, or base64 for binary bodies such as a PDF
+  body: unknown;
+  encoding: 'json' | 'base64';
+}
+
+export interface IdempotencyHandle {
+  // Store the result of a response the wrapper cannot read itself (e.g. a stream)
+  complete: (body: unknown, status?: number) => Promise<void>;
+  // Forget the key so a retry runs the request again
+  abandon: () => Promise<void>;
+}
+
+interface IdempotencyOptions {
+  scope: IdempotencyScope;
+  // User id, or the client IP for anonymous requests
+  owner: string;
+  // Request content a repeat must match, usually the parsed body
+  fingerprint: unknown;
+  // Custom replay, e.g. to re-emit a stored result as an event stream
+  replay?: (stored: StoredResponse) => Response;
+}
+
+interface IdempotencyRow {
+  id: string;
+  request_hash: string;
+  status: 'processing' | 'completed';
+  response: StoredResponse | null;
+  created_at: string;
+  expires_at: string;
+}
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>;
+
+function hashFingerprint(fingerprint: unknown): string {
+  return createHash('sha256').update(JSON.stringify(fingerprint ?? null)).digest('hex');
+}
+
+function isReclaimable(row: IdempotencyRow): boolean {
+  const now = Date.now();
+  if (new Date(row.expires_at).getTime() <= now) return true;
+  return row.status === 'processing' && now - new Date(row.created_at).getTime() > STALE_PROCESSING_MINUTES * 60000;
+}
+
+/**
+ * Insert the key as "processing", or return the row that already holds it
+ */
+async function claimKey(
+  supabase: ServiceClient,
+  options: IdempotencyOptions,
+  key: string,
+  requestHash: string
+): Promise<{ id: string } | { existing: IdempotencyRow }> {
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const { data, error } = await supabase
+      .from('idempotency_keys')
+      .insert({
+        scope: options.scope,
+        owner: options.owner,
+        idempotency_key: key,
+        request_hash: requestHash,
+        status: 'processing',
+        expires_at: new Date(Date.now() + IDEMPOTENCY_TTL_HOURS * 3600000).toISOString(),
+      })
+      .select('id')
+      .single();
+
+    if (!error) return { id: data.id };
+    if (error.code !== UNIQUE_VIOLATION) throw error;
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('idempotency_keys')
+      .select('id, request_hash, status, response, created_at, expires_at')
+      .eq('scope', options.scope)
+      .eq('owner', options.owner)
+      .eq('idempotency_key', key)
+      .single();
+
+    if (fetchError) throw fetchError;
+    if (!isReclaimable(existing)) return { existing };
+
+    await supabase.from('idempotency_keys').delete().eq('id', existing.id);
+  }
+
+  throw new Error('Could not claim idempotency key');
+}
+
+async function captureResponse(response: Response): Promise<StoredResponse | null> {
+  const contentType = response.headers.get('content-type') || '';
+  // Streams are stored by the handler through IdempotencyHandle.complete
+  if (contentType.includes('text/event-stream')) return null;
+
+  const headers: Record<string, string> = {};
+  for (const name of STORED_HEADERS) {
+    const value = response.headers.get(name);
+    if (value) headers[name] = value;
+  }
+
+  const copy = response.clone();
+  if (contentType.includes('application/json')) {
+    return { status: response.status, headers, body: await copy.json(), encoding: 'json' };
+  }
+  return { status: response.status, headers, body: Buffer.from(await copy.arrayBuffer()).toString('base64'), encoding: 'base64' };
+}
+
+/**
+ * Rebuild a stored response, marked with the Idempotent-Replayed header
+ */
+export function replayStoredResponse(stored: StoredResponse): Response {
+  const headers = { ...stored.headers, [IDEMPOTENCY_REPLAYED_HEADER]: 'true' };
+  if (stored.encoding === 'base64') {
+    return new NextResponse(Buffer.from(stored.body as string, 'base64'), { status: stored.status, headers });
+  }
+  return NextResponse.json(stored.body, { status: stored.status, headers });
+}
+
+/**
+ * Run `handler` at most once per Idempotency-Key. Requests without the header
+ * run as usual. Only successful (2xx) responses are stored; failures release
+ * the key so the client can retry.
+ */
+export async function withIdempotency(
+  request: Request,
+  options: IdempotencyOptions,
+  handler: (idempotency: IdempotencyHandle | null) => Promise<Response>
+): Promise<Response> {
+  const key = request.headers.get(IDEMPOTENCY_HEADER)?.trim();
+  if (!key) return handler(null);
+
+  if (key.length > MAX_KEY_LENGTH) {
+    const validationError = ErrorHandler.validationError(
+      `The ${IDEMPOTENCY_HEADER} header must be at most ${MAX_KEY_LENGTH} characters.`,
+      { length: key.length }
+    );
+    return NextResponse.json(ErrorHandler.toErrorResponse(validationError), { status: 400 });
+  }
+
+  const supabase = createServiceRoleClient();
+  const requestHash = hashFingerprint(options.fingerprint);
+  const claim = await claimKey(supabase, options, key, requestHash);
+
+  if ('existing' in claim) {
+    const { existing } = claim;
+    if (existing.request_hash !== requestHash) {
+      const conflict = ErrorHandler.createError(
+        ErrorType.CONFLICT,
+        'This request key was already used for a different request.',
+        `${IDEMPOTENCY_HEADER} reused with a different payload`,
+        { code: 'IDEMPOTENCY_KEY_REUSED', retryable: false }
+      );
+      return NextResponse.json(ErrorHandler.toErrorResponse(conflict), { status: 422 });
+    }
+
+    if (existing.status === 'completed' && existing.response) {
+      return (options.replay ?? replayStoredResponse)(existing.response);
+    }
+
+    const inProgress = ErrorHandler.createError(
+      ErrorType.CONFLICT,
+      'This request is still being processed. Please wait a moment.',
+      `${IDEMPOTENCY_HEADER} is already in progress`,
+      { code: 'IDEMPOTENCY_KEY_IN_PROGRESS', retryable: true }
+    );
+    return NextResponse.json(ErrorHandler.toErrorResponse(inProgress), { status: 409 });
+  }
+
+  const store = async (response: StoredResponse) => {
+    const { error } = await supabase
+      .from('idempotency_keys')
+      .update({ status: 'completed', response })
+      .eq('id', claim.id);
+    if (error) console.error('Failed to store idempotent response:', error);
+  };
+
+  const handle: IdempotencyHandle = {
+    complete: (body, status = 200) =>
+      store({ status, headers: { 'content-type': 'application/json' }, body, encoding: 'json' }),
+    abandon: async () => {
+      const { error } = await supabase.from('idempotency_keys').delete().eq('id', claim.id);
+      if (error) console.error('Failed to release idempotency key:', error);
+    },
+  };
+
+  let response: Response;
+  try {
+    response = await handler(handle);
+  } catch (error) {
+    await handle.abandon();
+    throw error;
+  }
+
+  if (!response.ok) {
+    await handle.abandon();
+    return response;
+  }
+
+  const stored = await captureResponse(response);
+  if (stored) await store(stored);
+  return response;
+}
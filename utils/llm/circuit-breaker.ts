@@ -0,0 +1,102 @@
+/**
+ * Circuit breakers for LLM providers
+ * After LLM_BREAKER_FAILURES consecutive errors a provider is skipped for
+ * LLM_BREAKER_COOLDOWN_SECONDS, then one trial request decides whether it is
+ * healthy again. State is kept per server instance, keyed by provider and model.
+ */
+
+import { getCachedEnvConfig } from '@/utils/env-config';
+import type { LLMProvider } from '@/utils/llm/providers';
+
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+interface Breaker {
+  failures: number;
+  openedAt: number | null;
+  // A half-open breaker lets a single trial request through at a time
+  trialInFlight: boolean;
+}
+
+const breakers = new Map<string, Breaker>();
+
+export class CircuitOpenError extends Error {
+  constructor(key: string) {
+    super(`Circuit breaker open for LLM provider ${key}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+function getBreakerKey(provider: Pick<LLMProvider, 'name' | 'model'>): string {
+  return `${provider.name}:${provider.model}`;
+}
+
+function getBreaker(key: string): Breaker {
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = { failures: 0, openedAt: null, trialInFlight: false };
+    breakers.set(key, breaker);
+  }
+  return breaker;
+}
+
+function getCooldownMs(): number {
+  return getCachedEnvConfig().llm.breakerCooldownSeconds * 1000;
+}
+
+export function getBreakerState(provider: Pick<LLMProvider, 'name' | 'model'>): BreakerState {
+  const breaker = breakers.get(getBreakerKey(provider));
+  if (!breaker || breaker.openedAt === null) return 'closed';
+  return Date.now() - breaker.openedAt >= getCooldownMs() ? 'half-open' : 'open';
+}
+
+/**
+ * Seconds until the earliest of these providers may be tried again (0 if one can be tried now)
+ */
+export function getRetryAfterSeconds(providers: Pick<LLMProvider, 'name' | 'model'>[]): number {
+  const waits = providers.map(provider => {
+    const openedAt = breakers.get(getBreakerKey(provider))?.openedAt ?? null;
+    return openedAt === null ? 0 : Math.max(0, openedAt + getCooldownMs() - Date.now());
+  });
+  return Math.ceil(Math.min(...waits) / 1000);
+}
+
+/**
+ * Wrap a provider so that its errors feed its breaker and an open breaker
+ * fails fast with CircuitOpenError, letting a provider chain move on
+ */
+export function withCircuitBreaker(provider: LLMProvider): LLMProvider {
+  const key = getBreakerKey(provider);
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    async complete(request) {
+      const breaker = getBreaker(key);
+      const state = getBreakerState(provider);
+
+      if (state === 'open' || (state === 'half-open' && breaker.trialInFlight)) {
+        throw new CircuitOpenError(key);
+      }
+
+      breaker.trialInFlight = state === 'half-open';
+
+      try {
+        const result = await provider.complete(request);
+        breaker.failures = 0;
+        breaker.openedAt = null;
+        return result;
+      } catch (error) {
+        breaker.failures++;
+        if (state === 'half-open' || breaker.failures >= getCachedEnvConfig().llm.breakerFailureThreshold) {
+          if (breaker.openedAt === null || state === 'half-open') {
+            console.error(`Opening circuit breaker for LLM provider ${key} after ${breaker.failures} consecutive errors`);
+          }
+          breaker.openedAt = Date.now();
+        }
+        throw error;
+      } finally {
+        if (state === 'half-open') breaker.trialInFlight = false;
+      }
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { buildFixtureName, createFixtureProvider, FIXTURE_MODEL } from '@/utils/llm/fixture-provider';
+import { nameDataSchema } from '@/utils/chinese-names/schema';
+
+const prompt = (lines: string[]) => lines.join('\n');
+
+const basePrompt = prompt([
+  'English Name: Alice',
+  'Gender: female',
+  'Surname: Use "李"',
+  'Position: 1',
+]);
+
+describe('buildFixtureName', () => {
+  it('returns the same name for the same prompt inputs', () => {
+    expect(buildFixtureName(basePrompt)).toEqual(buildFixtureName(basePrompt));
+  });
+
+  it('returns a name that passes the NameData schema with the requested surname', () => {
+    const result = nameDataSchema.safeParse(buildFixtureName(basePrompt));
+
+    expect(result.success).toBe(true);
+    expect(result.data?.chinese.startsWith('李')).toBe(true);
+    expect(result.data?.characters[0]).toMatchObject({ character: '李', pinyin: 'lǐ' });
+  });
+
+  it('moves on to another name for the next position', () => {
+    const next = buildFixtureName(basePrompt.replace('Position: 1', 'Position: 2'));
+
+    expect(next.chinese).not.toBe(buildFixtureName(basePrompt).chinese);
+  });
+
+  it('never offers a name from the existing names', () => {
+    const first = buildFixtureName(basePrompt).chinese as string;
+    const retry = buildFixtureName(prompt([basePrompt, 'EXISTING NAMES TO AVOID:', `${first}, 李思源`]));
+
+    expect(retry.chinese).not.toBe(first);
+  });
+
+  it('never offers a name the repair feedback rejected', () => {
+    const first = buildFixtureName(basePrompt).chinese as string;
+    const repaired = buildFixtureName(prompt([basePrompt, `- "${first}" sounds like something unfortunate`]));
+
+    expect(repaired.chinese).not.toBe(first);
+  });
+});
+
+describe('createFixtureProvider', () => {
+  it('answers with JSON and reports token usage without any network access', async () => {
+    const provider = createFixtureProvider();
+    const completion = await provider.complete({ messages: [{ role: 'user', content: basePrompt }] });
+
+    expect(provider.model).toBe(FIXTURE_MODEL);
+    expect(JSON.parse(completion.content as string)).toEqual(buildFixtureName(basePrompt));
+    expect(completion.usage?.promptTokens).toBeGreaterThan(0);
+  });
+});
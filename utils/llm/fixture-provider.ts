@@ -0,0 +1,165 @@
+/**
+ * Deterministic fixture provider
+ * Answers name-generation prompts from a small built-in table without any
+ * network access, so the generate → save → PDF flow can run locally and in tests.
+ * The same prompt inputs (name, gender, surname, position) always yield the same name.
+ */
+
+import type { ChatCompletionRequest, ChatCompletionResult, LLMProvider } from '@/utils/llm/providers';
+import { formatNamePinyin, getPrimaryReading } from '@/utils/chinese-names/lexicon';
+import { findSurname } from '@/utils/chinese-names/surnames';
+import { getCharacterElement } from '@/utils/chinese-names/bazi';
+
+export const FIXTURE_MODEL = 'fixture-v1';
+
+interface FixtureCharacter {
+  character: string;
+  pinyin: string;
+  meaning: string;
+  explanation: string;
+}
+
+interface FixtureGivenName {
+  characters: FixtureCharacter[];
+  meaning: string;
+}
+
+const char = (character: string, pinyin: string, meaning: string, explanation: string): FixtureCharacter => ({
+  character, pinyin, meaning, explanation,
+});
+
+const FIXTURE_GIVEN_NAMES: Record<'male' | 'female' | 'other', FixtureGivenName[]> = {
+  male: [
+    { characters: [char('景', 'jǐng', 'Scenery', 'A broad, bright view'), char('行', 'xíng', 'To walk', 'Steady progress on one\'s path')], meaning: 'One who walks toward a bright horizon' },
+    { characters: [char('承', 'chéng', 'To inherit', 'Carrying family virtues forward'), char('远', 'yuǎn', 'Far', 'Far-reaching ambition')], meaning: 'Carrying the family legacy far' },
+    { characters: [char('知', 'zhī', 'To know', 'Wisdom and understanding'), char('砚', 'yàn', 'Inkstone', 'Scholarship and calligraphy')], meaning: 'A learned and thoughtful scholar' },
+    { characters: [char('澄', 'chéng', 'Clear', 'Clear as still water'), char('川', 'chuān', 'River', 'Flowing and enduring')], meaning: 'A clear, steadily flowing river' },
+    { characters: [char('屹', 'yì', 'Towering', 'Standing firm like a mountain'), char('舟', 'zhōu', 'Boat', 'Navigating life with skill')], meaning: 'A steady vessel that stands firm' },
+    { characters: [char('朗', 'lǎng', 'Bright', 'Open and cheerful'), char('逸', 'yì', 'At ease', 'Free and unhurried')], meaning: 'Bright, open and at ease' },
+  ],
+  female: [
+    { characters: [char('清', 'qīng', 'Pure', 'Clarity of heart'), char('禾', 'hé', 'Grain', 'Growth and harvest')], meaning: 'Pure and nourishing like fresh grain' },
+    { characters: [char('若', 'ruò', 'As if', 'Gentle and graceful'), char('溪', 'xī', 'Brook', 'A gentle mountain stream')], meaning: 'As gentle as a mountain brook' },
+    { characters: [char('书', 'shū', 'Book', 'Learning and refinement'), char('瑶', 'yáo', 'Jade', 'Precious and beautiful')], meaning: 'Refined and precious like jade' },
+    { characters: [char('映', 'yìng', 'To reflect', 'Reflecting light'), char('雪', 'xuě', 'Snow', 'Purity and calm')], meaning: 'Light reflected on fresh snow' },
+    { characters: [char('芷', 'zhǐ', 'Angelica', 'A fragrant herb from classical poetry'), char('宁', 'níng', 'Peaceful', 'Calm and serene')], meaning: 'A fragrant and peaceful spirit' },
+    { characters: [char('语', 'yǔ', 'Words', 'Eloquence'), char('桐', 'tóng', 'Paulownia', 'A tree that welcomes the phoenix')], meaning: 'Eloquent and welcoming of good fortune' },
+  ],
+  other: [
+    { characters: [char('安', 'ān', 'Peace', 'Safety and calm'), char('然', 'rán', 'Natural', 'At ease with oneself')], meaning: 'Naturally calm and at peace' },
+    { characters: [char('之', 'zhī', 'Classical particle', 'Elegant literary tone'), char('遥', 'yáo', 'Distant', 'Far-reaching vision')], meaning: 'An elegant, far-reaching vision' },
+    { characters: [char('一', 'yī', 'One', 'Unity and focus'), char('帆', 'fān', 'Sail', 'Smooth progress')], meaning: 'Smooth sailing with a single focus' },
+    { characters: [char('云', 'yún', 'Cloud', 'Freedom and lightness'), char('舒', 'shū', 'Relaxed', 'Unhurried and open')], meaning: 'Free and unhurried as drifting clouds' },
+    { characters: [char('沐', 'mù', 'To bathe', 'Bathed in blessings'), char('晴', 'qíng', 'Clear sky', 'Optimism')], meaning: 'Bathed in clear sunlight' },
+    { characters: [char('思', 'sī', 'To think', 'Thoughtfulness'), char('源', 'yuán', 'Source', 'Remembering one\'s roots')], meaning: 'Thoughtful and mindful of one\'s roots' },
+  ],
+};
+
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
+
+function matchPrompt(prompt: string, pattern: RegExp): string | undefined {
+  return prompt.match(pattern)?.[1]?.trim();
+}
+
+/**
+ * Build a name for a generation prompt using only stable prompt inputs
+ */
+export function buildFixtureName(prompt: string): Record<string, unknown> {
+  const englishName = matchPrompt(prompt, /English Name:\s*(.+)/) || 'Guest';
+  const genderValue = matchPrompt(prompt, /Gender:\s*(\w+)/);
+  const gender = genderValue === 'male' || genderValue === 'female' ? genderValue : 'other';
+  const surname = matchPrompt(prompt, /Surname: Use "(.+?)"/) || '王';
+  const position = parseInt(matchPrompt(prompt, /Position:\s*(\d+)/) || '1', 10);
+  const style = matchPrompt(prompt, /"style":\s*"(\w+)"/) || 'Standard';
+  const avoid = new Set(
+    (matchPrompt(prompt, /EXISTING NAMES TO AVOID:\n(.+)/) || '')
+      .split(',')
+      .map(name => name.trim())
+      .filter(Boolean)
+  );
+  // Repair feedback quotes the rejected name first ("- "杨伟" sounds like ..."); never offer it again
+  for (const [, rejected] of Array.from(prompt.matchAll(/^- "(\S+?)"/gm))) {
+    avoid.add(rejected);
+  }
+
+  // Transliteration prompts list sound-alike candidates as "卡瑟琳 (kǎ sè lín)"
+  const soundAlikes: FixtureGivenName[] = Array.from(
+    (matchPrompt(prompt, /Sound-alike starting points \(best match first\):\s*(.+)/) || '').matchAll(/(\S+) \(([^)]+)\)/g)
+  ).map(([, characters, readings]) => {
+    const readingList = readings.split(' ');
+    return {
+      characters: Array.from(characters).map((character, index) =>
+        char(character, readingList[index], `Sound "${readingList[index]}"`, `Echoes a syllable of ${englishName}`)
+      ),
+      meaning: `A sound-alike rendering of ${englishName}`,
+    };
+  });
+
+  // Birth-chart prompts ask for a favourable element; prefer given names that carry one
+  const favourable = (matchPrompt(prompt, /Favourable elements:\s*(.+)/) || '').split(',').map(element => element.trim()).filter(Boolean);
+  const pool = soundAlikes.length > 0 ? soundAlikes : FIXTURE_GIVEN_NAMES[gender];
+  const balancing = pool.filter(candidate =>
+    candidate.characters.some(c => favourable.includes(getCharacterElement(c.character) || ''))
+  );
+  const candidates = balancing.length > 0 ? balancing : pool;
+  const start = hashString(`${englishName}|${gender}|${surname}`) + position - 1;
+
+  let given = candidates[start % candidates.length];
+  for (let offset = 0; offset < candidates.length; offset++) {
+    const candidate = candidates[(start + offset) % candidates.length];
+    const chinese = surname + candidate.characters.map(c => c.character).join('');
+    if (!avoid.has(chinese)) {
+      given = candidate;
+      break;
+    }
+  }
+
+  const surnameReadings = findSurname(surname)?.readings
+    || Array.from(surname).map(character => getPrimaryReading(character) || 'wáng');
+  const chinese = surname + given.characters.map(c => c.character).join('');
+
+  return {
+    chinese,
+    pinyin: formatNamePinyin([...surnameReadings, ...given.characters.map(c => c.pinyin)], surnameReadings.length),
+    characters: [
+      ...Array.from(surname).map((character, index) => ({
+        character,
+        pinyin: surnameReadings[index],
+        meaning: 'Family surname',
+        explanation: 'A traditional Chinese family name.',
+      })),
+      ...given.characters,
+    ],
+    meaning: given.meaning,
+    culturalNotes: `A fixture name for ${englishName}, composed from classical naming characters.`,
+    personalityMatch: `Chosen deterministically for ${englishName} to exercise the generation flow offline.`,
+    style,
+  };
+}
+
+export function createFixtureProvider(model: string = FIXTURE_MODEL): LLMProvider {
+  return {
+    name: 'fixture',
+    model,
+    async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+      const prompt = request.messages.filter(message => message.role === 'user').map(message => message.content).join('\n');
+      const content = JSON.stringify(buildFixtureName(prompt));
+
+      return {
+        content,
+        provider: 'fixture',
+        model,
+        usage: {
+          promptTokens: Math.ceil(prompt.length / 4),
+          completionTokens: Math.ceil(content.length / 4),
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,177 @@
+/**
+ * LLM provider layer
+ * Wraps chat-completion backends behind a single interface so routes can pick
+ * a model per plan type, chain fallbacks and run fully offline with fixtures.
+ */
+
+import OpenAI from 'openai';
+import { getCachedEnvConfig, type LLMRouteConfig } from '@/utils/env-config';
+import { createFixtureProvider } from '@/utils/llm/fixture-provider';
+import { getBreakerState, getRetryAfterSeconds, withCircuitBreaker, type BreakerState } from '@/utils/llm/circuit-breaker';
+import type { PlanType } from '@/types/chinese-names';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+}
+
+export interface ChatCompletionResult {
+  content: string | null;
+  provider: string;
+  model: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+  // Providers in a chain that failed before this one answered
+  fallbacks?: number;
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  complete(request: ChatCompletionRequest): Promise<ChatCompletionResult>;
+}
+
+/**
+ * Provider for any OpenAI-compatible endpoint (OpenRouter by default)
+ */
+export function createOpenAIProvider(model: string, options: { apiKey: string; baseURL?: string }): LLMProvider {
+  const client = new OpenAI({
+    baseURL: options.baseURL,
+    apiKey: options.apiKey,
+  });
+
+  return {
+    name: 'openai',
+    model,
+    async complete(request) {
+      const completion = await client.chat.completions.create({
+        model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        top_p: request.topP,
+      });
+
+      return {
+        content: completion.choices[0]?.message?.content ?? null,
+        provider: 'openai',
+        model: completion.model || model,
+        usage: completion.usage ? {
+          promptTokens: completion.usage.prompt_tokens,
+          completionTokens: completion.usage.completion_tokens,
+        } : undefined,
+      };
+    },
+  };
+}
+
+/**
+ * Try each provider in order until one returns content
+ */
+export function createProviderChain(providers: LLMProvider[]): LLMProvider {
+  if (providers.length === 0) {
+    throw new Error('At least one LLM provider must be configured');
+  }
+
+  if (providers.length === 1) {
+    return providers[0];
+  }
+
+  const [primary] = providers;
+
+  return {
+    name: providers.map(provider => provider.name).join('>'),
+    model: primary.model,
+    async complete(request) {
+      let lastError: unknown = null;
+
+      for (const [index, provider] of providers.entries()) {
+        try {
+          const result = await provider.complete(request);
+          if (result.content) {
+            return { ...result, fallbacks: index };
+          }
+          lastError = new Error(`Empty response from ${provider.name}:${provider.model}`);
+        } catch (error) {
+          lastError = error;
+        }
+        console.warn(`LLM provider ${provider.name}:${provider.model} failed, trying next fallback:`, lastError);
+      }
+
+      throw lastError instanceof Error ? lastError : new Error('All LLM providers failed');
+    },
+  };
+}
+
+function createProvider(route: LLMRouteConfig): LLMProvider {
+  switch (route.provider) {
+    case 'fixture':
+      return withCircuitBreaker(createFixtureProvider(route.model));
+    case 'openai':
+    default: {
+      const envConfig = getCachedEnvConfig();
+      return withCircuitBreaker(createOpenAIProvider(route.model, {
+        apiKey: envConfig.openaiApiKey,
+        baseURL: envConfig.openaiBaseUrl,
+      }));
+    }
+  }
+}
+
+function getRoutesForPlan(planType: PlanType): LLMRouteConfig[] {
+  const { llm } = getCachedEnvConfig();
+  return planType === '4' ? llm.premium : llm.standard;
+}
+
+/**
+ * Build the provider chain configured for a plan type
+ * Initialized at request time (avoids build-time env access)
+ */
+export function getProviderForPlan(planType: PlanType): LLMProvider {
+  return createProviderChain(getRoutesForPlan(planType).map(createProvider));
+}
+
+/**
+ * Circuit breaker state of a plan's provider chain: closed while any provider
+ * is healthy, half-open while one is due a trial request, open when none is
+ */
+export function getProviderChainState(planType: PlanType): { state: BreakerState; retryAfterSeconds: number } {
+  const routes = getRoutesForPlan(planType).map(route => ({ name: route.provider, model: route.model }));
+  const states = routes.map(getBreakerState);
+  const state = states.includes('closed') ? 'closed' : states.includes('half-open') ? 'half-open' : 'open';
+  return { state, retryAfterSeconds: getRetryAfterSeconds(routes) };
+}
+
+// Last availability seen per plan type, so a missing provider is logged once rather than per request
+const lastAvailability = new Map<PlanType, boolean>();
+
+/**
+ * Whether a model can be reached for a plan type: false when its provider
+ * chain cannot be configured (e.g. no API key is set)
+ */
+export function isLLMAvailable(planType: PlanType): boolean {
+  let available = true;
+  try {
+    getProviderForPlan(planType);
+  } catch (error) {
+    available = false;
+    if (lastAvailability.get(planType) !== false) {
+      console.error(`No LLM provider available for plan ${planType}:`, error);
+    }
+  }
+
+  if (available && lastAvailability.get(planType) === false) {
+    console.log(`LLM provider available again for plan ${planType}`);
+  }
+  lastAvailability.set(planType, available);
+  return available;
+}
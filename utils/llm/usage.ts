@@ -0,0 +1,147 @@
+/**
+ * LLM usage and cost accounting
+ * Times every completion and records its tokens, model, retry position and
+ * estimated cost, so each generation can be stored with what it cost us.
+ */
+
+import { getCachedEnvConfig, type LLMModelPrice } from '@/utils/env-config';
+import { FIXTURE_MODEL } from '@/utils/llm/fixture-provider';
+import type { ChatCompletionRequest, ChatCompletionResult, LLMProvider } from '@/utils/llm/providers';
+
+// USD per million tokens, from the OpenRouter price list; LLM_MODEL_PRICES adds or overrides models
+export const MODEL_PRICES: Record<string, LLMModelPrice> = {
+  'google/gemini-2.5-flash': { prompt: 0.3, completion: 2.5 },
+  'google/gemini-2.5-flash-lite': { prompt: 0.1, completion: 0.4 },
+  'google/gemini-2.5-pro': { prompt: 1.25, completion: 10 },
+  'openai/gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'openai/gpt-4o': { prompt: 2.5, completion: 10 },
+  'openai/gpt-4.1-mini': { prompt: 0.4, completion: 1.6 },
+  [FIXTURE_MODEL]: { prompt: 0, completion: 0 },
+};
+
+export interface LLMCallRecord {
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  // 0 for the first request for a name, then one per repair retry
+  attempt: number;
+  // Providers in the chain that failed before one answered
+  fallbacks: number;
+  failed: boolean;
+  // Null when the model has no known price
+  costUsd: number | null;
+}
+
+export interface LLMUsageSummary {
+  models: string[];
+  calls: number;
+  retries: number;
+  failedCalls: number;
+  providerFallbacks: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  unpricedCalls: number;
+  latencyMs: number;
+}
+
+// Every model call of one generation, and the calls behind each name it returned
+export interface LLMUsageTracker {
+  calls: LLMCallRecord[];
+  names: Map<string, LLMCallRecord[]>;
+}
+
+export function createUsageTracker(): LLMUsageTracker {
+  return { calls: [], names: new Map() };
+}
+
+const warnedUnpricedModels = new Set<string>();
+
+/**
+ * Price of a model, matching dated or unprefixed model ids
+ * (gpt-4o-mini-2024-07-18) to the longest known id they start with
+ */
+export function getModelPrice(model: string): LLMModelPrice | undefined {
+  const prices = { ...MODEL_PRICES, ...getCachedEnvConfig().llm.prices };
+  if (prices[model]) return prices[model];
+
+  const bareModel = model.slice(model.indexOf('/') + 1);
+  const match = Object.keys(prices)
+    .filter(id => bareModel.startsWith(id.slice(id.indexOf('/') + 1)))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices[match] : undefined;
+}
+
+export function estimateCostUsd(model: string, promptTokens: number, completionTokens: number): number | null {
+  const price = getModelPrice(model);
+  if (!price) {
+    if (!warnedUnpricedModels.has(model)) {
+      warnedUnpricedModels.add(model);
+      console.warn(`No price for LLM model "${model}"; add it to LLM_MODEL_PRICES for cost accounting`);
+    }
+    return null;
+  }
+  return (promptTokens * price.prompt + completionTokens * price.completion) / 1_000_000;
+}
+
+/**
+ * Run a completion and add its record to `calls`; failed calls are recorded
+ * (without tokens) and rethrown
+ */
+export async function completeWithUsage(
+  provider: LLMProvider,
+  request: ChatCompletionRequest,
+  attempt: number,
+  calls: LLMCallRecord[]
+): Promise<ChatCompletionResult> {
+  const startedAt = Date.now();
+
+  try {
+    const completion = await provider.complete(request);
+    const promptTokens = completion.usage?.promptTokens ?? 0;
+    const completionTokens = completion.usage?.completionTokens ?? 0;
+
+    calls.push({
+      provider: completion.provider,
+      model: completion.model,
+      promptTokens,
+      completionTokens,
+      latencyMs: Date.now() - startedAt,
+      attempt,
+      fallbacks: completion.fallbacks ?? 0,
+      failed: false,
+      costUsd: estimateCostUsd(completion.model, promptTokens, completionTokens),
+    });
+    return completion;
+  } catch (error) {
+    calls.push({
+      provider: provider.name,
+      model: provider.model,
+      promptTokens: 0,
+      completionTokens: 0,
+      latencyMs: Date.now() - startedAt,
+      attempt,
+      fallbacks: 0,
+      failed: true,
+      costUsd: 0,
+    });
+    throw error;
+  }
+}
+
+export function summarizeUsage(calls: LLMCallRecord[]): LLMUsageSummary {
+  return {
+    models: Array.from(new Set(calls.filter(call => !call.failed).map(call => call.model))),
+    calls: calls.length,
+    retries: calls.filter(call => call.attempt > 0).length,
+    failedCalls: calls.filter(call => call.failed).length,
+    providerFallbacks: calls.reduce((sum, call) => sum + call.fallbacks, 0),
+    promptTokens: calls.reduce((sum, call) => sum + call.promptTokens, 0),
+    completionTokens: calls.reduce((sum, call) => sum + call.completionTokens, 0),
+    costUsd: calls.reduce((sum, call) => sum + (call.costUsd ?? 0), 0),
+    unpricedCalls: calls.filter(call => call.costUsd === null).length,
+    latencyMs: calls.reduce((sum, call) => sum + call.latencyMs, 0),
+  };
+}
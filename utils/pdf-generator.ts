@@ -3,20 +3,7 @@
  * This ensures Puppeteer is only loaded when PDF generation is actually needed
  */
 
-interface NameData {
-  chinese: string;
-  pinyin: string;
-  characters: Array<{
-    character: string;
-    pinyin: string;
-    meaning: string;
-    explanation: string;
-  }>;
-  meaning: string;
-  culturalNotes: string;
-  personalityMatch: string;
-  style: string;
-}
+import type { ComparedName, NameData } from '@/types/chinese-names';
 
 interface UserData {
   englishName: string;
@@ -25,6 +12,7 @@ interface UserData {
 
 interface PDFOptions {
   format?: 'A4' | 'Letter';
+  landscape?: boolean;
   margin?: {
     top?: string;
     right?: string;
@@ -106,6 +94,7 @@ export async function generatePDF(
       // Generate PDF with specified options
       const pdfBuffer = await page.pdf({
         format: options.format || 'A4',
+        landscape: options.landscape || false,
         printBackground: true,
         margin: {
           top: options.margin?.top || '0.5cm',
@@ -165,6 +154,28 @@ export async function generateNameCertificate(
   };
 }
 
+/**
+ * Generate a side-by-side comparison PDF of up to four names
+ */
+export async function generateNameComparison(
+  names: ComparedName[]
+): Promise<{ buffer: Buffer; fileName: string }> {
+  const { generateComparisonHTML } = await import('@/utils/pdf-templates/name-comparison');
+
+  const htmlContent = generateComparisonHTML(names);
+  const pdfBuffer = await generatePDF(htmlContent, {
+    format: 'A4',
+    landscape: true,
+  });
+
+  const fileName = `${names.map(name => name.chinese).join('_')}_comparison.pdf`;
+
+  return {
+    buffer: pdfBuffer,
+    fileName
+  };
+}
+
 /**
  * Check if PDF generation is available
  */
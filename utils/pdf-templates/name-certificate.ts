@@ -1,19 +1,7 @@
-// PDF模板生成函数
-interface NameData {
-  chinese: string;
-  pinyin: string;
-  characters: Array<{
-    character: string;
-    pinyin: string;
-    meaning: string;
-    explanation: string;
-  }>;
-  meaning: string;
-  culturalNotes: string;
-  personalityMatch: string;
-  style: string;
-}
+import type { NameData } from '@/types/chinese-names';
+import { ELEMENT_LABELS, FIVE_ELEMENTS, formatPillars } from '@/utils/chinese-names/bazi';
 
+// PDF模板生成函数
 interface UserData {
   englishName: string;
   gender: string;
@@ -26,6 +14,26 @@ export function generateCertificateHTML(nameData: NameData, userData: UserData):
     day: 'numeric'
   });
 
+  // 八字五行（仅当名字基于出生时间生成时）
+  const bazi = nameData.baziAnalysis;
+  const baziSection = bazi ? `
+                <div class="characters-section">
+                    <h3 class="card-title">八字五行</h3>
+                    <p class="card-content">
+                        八字：${formatPillars(bazi)}　
+                        五行：${FIVE_ELEMENTS.map(element => `${ELEMENT_LABELS[element].chinese}${bazi.elementCounts[element]}`).join(' ')}　
+                        日主：${ELEMENT_LABELS[bazi.dayMaster].chinese}　
+                        喜用：${bazi.favourableElements.map(element => ELEMENT_LABELS[element].chinese).join('、')}
+                    </p>
+                </div>` : '';
+
+  // 繁体、粤拼与威妥玛拼音
+  const romanizations = [
+    nameData.traditional && nameData.traditional !== nameData.chinese ? `繁體：${nameData.traditional}` : '',
+    nameData.jyutping ? `粤拼：${nameData.jyutping}` : '',
+    nameData.wadeGiles ? `Wade-Giles: ${nameData.wadeGiles}` : '',
+  ].filter(Boolean).join('　');
+
   return `
 <!DOCTYPE html>
 <html lang="zh-CN">
@@ -213,6 +221,12 @@ export function generateCertificateHTML(nameData: NameData, userData: UserData):
             margin-bottom: 2mm;
         }
         
+        .romanizations {
+            font-size: 11px;
+            color: #888;
+            margin-bottom: 2mm;
+        }
+        
         .style-badge {
             display: inline-block;
             background: #c41e3a;
@@ -393,6 +407,7 @@ export function generateCertificateHTML(nameData: NameData, userData: UserData):
                 <div class="english-name">English Name: ${userData.englishName}</div>
                 <div class="chinese-name">${nameData.chinese}</div>
                 <div class="pinyin">${nameData.pinyin}</div>
+                ${romanizations ? `<div class="romanizations">${romanizations}</div>` : ''}
                 <div class="style-badge">${nameData.style}</div>
             </div>
             
@@ -429,13 +444,16 @@ export function generateCertificateHTML(nameData: NameData, userData: UserData):
                         ${nameData.characters.map(char => `
                             <div class="character-item">
                                 <div class="character">${char.character}</div>
-                                <div class="character-pinyin">${char.pinyin}</div>
+                                <div class="character-pinyin">${char.pinyin}${char.jyutping ? ` · ${char.jyutping}` : ''}</div>
+                                ${char.traditional && char.traditional !== char.character ? `<div class="character-pinyin">繁體：${char.traditional}</div>` : ''}
                                 <div class="character-meaning">${char.meaning}</div>
                                 <div class="character-explanation">${char.explanation}</div>
+                                ${char.element ? `<div class="character-pinyin">五行：${ELEMENT_LABELS[char.element].chinese}</div>` : ''}
                             </div>
                         `).join('')}
                     </div>
                 </div>
+                ${baziSection}
             </div>
             
             <!-- 底部信息 -->
@@ -0,0 +1,171 @@
+import type { ComparedName } from '@/types/chinese-names';
+import { getCharacterFacts, getTotalStrokes } from '@/utils/chinese-names/compare';
+
+// 名字对比表模板（横版 A4，每个名字一列）
+export function generateComparisonHTML(names: ComparedName[]): string {
+  const currentDate = new Date().toLocaleDateString('zh-CN', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+
+  // 每行一个对比项，每列一个名字
+  const row = (label: string, cells: string[]) => `
+            <tr>
+                <th>${label}</th>
+                ${cells.map(cell => `<td>${cell}</td>`).join('')}
+            </tr>`;
+
+  const characterCell = (name: ComparedName) => getCharacterFacts(name).map(entry => `
+                    <div class="character-item">
+                        <span class="character">${entry.character}</span>
+                        <span class="character-pinyin">${entry.pinyin} · 第${entry.tone === 5 ? '轻' : entry.tone}声${entry.strokes ? ` · ${entry.strokes}画` : ''}</span>
+                        <div class="character-meaning">${entry.meaning}</div>
+                    </div>`).join('');
+
+  return `
+<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>名字对比 - ${names.map(name => name.chinese).join(' / ')}</title>
+    <style>
+        @import url('https://fonts.googleapis.com/css2?family=Noto+Serif+SC:wght@400;700;900&display=swap');
+
+        * {
+            margin: 0;
+            padding: 0;
+            box-sizing: border-box;
+        }
+
+        body {
+            font-family: 'Noto Serif SC', 'Microsoft YaHei', 'SimSun', serif;
+            background: white;
+            color: #333;
+            padding: 8mm;
+        }
+
+        .header {
+            text-align: center;
+            margin-bottom: 6mm;
+        }
+
+        .title {
+            font-size: 24px;
+            font-weight: 900;
+            color: #c41e3a;
+        }
+
+        .subtitle {
+            font-size: 12px;
+            color: #888;
+            margin-top: 1mm;
+        }
+
+        table {
+            width: 100%;
+            border-collapse: collapse;
+            table-layout: fixed;
+        }
+
+        th, td {
+            border: 1px solid #e0a0a0;
+            padding: 2.5mm;
+            vertical-align: top;
+            font-size: 11px;
+            line-height: 1.5;
+        }
+
+        th {
+            width: 28mm;
+            background: rgba(196, 30, 58, 0.06);
+            color: #c41e3a;
+            text-align: left;
+        }
+
+        .name-row td {
+            text-align: center;
+        }
+
+        .chinese-name {
+            font-size: 32px;
+            font-weight: 900;
+            color: #c41e3a;
+            letter-spacing: 4px;
+        }
+
+        .pinyin {
+            font-size: 13px;
+            color: #666;
+            font-style: italic;
+        }
+
+        .winner {
+            display: inline-block;
+            margin-top: 1mm;
+            padding: 0.5mm 2mm;
+            border-radius: 2mm;
+            background: #c41e3a;
+            color: white;
+            font-size: 10px;
+        }
+
+        .character-item + .character-item {
+            margin-top: 1.5mm;
+        }
+
+        .character {
+            font-size: 16px;
+            font-weight: 700;
+        }
+
+        .character-pinyin {
+            margin-left: 1.5mm;
+            color: #666;
+        }
+
+        .character-meaning {
+            color: #555;
+        }
+
+        .footer {
+            margin-top: 5mm;
+            display: flex;
+            justify-content: space-between;
+            font-size: 10px;
+            color: #999;
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1 class="title">名字对比</h1>
+        <p class="subtitle">Chinese Name Comparison</p>
+    </div>
+
+    <table>
+        <tr class="name-row">
+            <th>名字</th>
+            ${names.map(name => `
+            <td>
+                <div class="chinese-name">${name.chinese}</div>
+                <div class="pinyin">${name.pinyin}</div>
+                ${name.isSelected ? '<div class="winner">已选定 Selected</div>' : ''}
+            </td>`).join('')}
+        </tr>
+        ${row('字符详解', names.map(characterCell))}
+        ${row('总笔画', names.map(name => `${getTotalStrokes(name) ?? '—'}`))}
+        ${row('整体含义', names.map(name => name.meaning))}
+        ${row('文化背景', names.map(name => name.culturalNotes))}
+        ${row('风格', names.map(name => name.style))}
+    </table>
+
+    <div class="footer">
+        <div class="date">生成日期：${currentDate}</div>
+        <div class="brand">由 AI 中文名字生成器 专业生成</div>
+    </div>
+</body>
+</html>
+  `;
+}
@@ -0,0 +1,144 @@
+import { createServiceRoleClient } from "./service-role";
+import type {
+  GenerateNameRequest,
+  GenerationErrorBody,
+  GenerationJob,
+  GenerationResultSummary,
+  NameData,
+} from "@/types/chinese-names";
+
+// A running job with no progress for this long died with its function instance;
+// longer than the generate route's maxDuration, so a live job is never mistaken for one
+const STALLED_JOB_MINUTES = 6;
+
+const STALLED_JOB_ERROR: GenerationErrorBody = {
+  error: "Name generation stopped unexpectedly. Please try again.",
+  code: "JOB_STALLED",
+};
+
+interface GenerationJobRow {
+  id: string;
+  user_id: string | null;
+  reservation_id: string | null;
+  status: GenerationJob["status"];
+  request: GenerateNameRequest;
+  expected_count: number;
+  names: NameData[];
+  result: GenerationResultSummary | null;
+  error: GenerationErrorBody | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function isStalled(row: GenerationJobRow): boolean {
+  return row.status === "running" &&
+    Date.now() - new Date(row.updated_at).getTime() > STALLED_JOB_MINUTES * 60000;
+}
+
+function toGenerationJob(row: GenerationJobRow): GenerationJob {
+  const { continueBatch: _continueBatch, batchId: _batchId, ...request } = row.request;
+  const stalled = isStalled(row);
+
+  return {
+    id: row.id,
+    status: stalled ? "failed" : row.status,
+    expected: row.expected_count,
+    names: row.names || [],
+    request,
+    result: row.result,
+    error: stalled ? STALLED_JOB_ERROR : row.error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function createGenerationJob(
+  userId: string | null,
+  request: GenerateNameRequest,
+  expected: number,
+  reservationId: string | null = null
+): Promise<GenerationJob> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase
+    .from("generation_jobs")
+    .insert({
+      user_id: userId,
+      reservation_id: reservationId,
+      request,
+      expected_count: expected,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toGenerationJob(data);
+}
+
+/**
+ * Load a job for `userId`. Jobs of signed-in users are private to them;
+ * anonymous jobs are reachable by id alone. Resolves to null when not found.
+ * A stalled job is failed here and its credit reservation released.
+ */
+export async function getGenerationJob(jobId: string, userId: string | null): Promise<GenerationJob | null> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase
+    .from("generation_jobs")
+    .select("*")
+    .eq("id", jobId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || (data.user_id && data.user_id !== userId)) return null;
+
+  if (isStalled(data)) {
+    const { error: stallError } = await supabase.rpc("fail_stalled_generation_job", {
+      p_job_id: jobId,
+      p_stall_after: `${STALLED_JOB_MINUTES} minutes`,
+      p_error: STALLED_JOB_ERROR,
+    });
+    if (stallError) {
+      console.error("Failed to settle stalled generation job:", { jobId, error: stallError });
+    }
+  }
+
+  return toGenerationJob(data);
+}
+
+/**
+ * Update a job that is still running. Resolves to false when it is not, e.g.
+ * because a poll failed it as stalled and released its reservation.
+ */
+async function updateRunningJob(jobId: string, update: Record<string, unknown>): Promise<boolean> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase
+    .from("generation_jobs")
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq("id", jobId)
+    .eq("status", "running")
+    .select("id");
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+/**
+ * Replace the names generated so far; also serves as the job's heartbeat
+ */
+export async function updateGenerationJobNames(jobId: string, names: NameData[]): Promise<boolean> {
+  return updateRunningJob(jobId, { names });
+}
+
+export async function completeGenerationJob(
+  jobId: string,
+  names: NameData[],
+  result: GenerationResultSummary
+): Promise<boolean> {
+  return updateRunningJob(jobId, { status: "completed", names, result });
+}
+
+export async function failGenerationJob(jobId: string, jobError: GenerationErrorBody): Promise<boolean> {
+  return updateRunningJob(jobId, { status: "failed", error: jobError });
+}
@@ -0,0 +1,149 @@
+import { createServiceRoleClient } from "./service-role";
+import { getCreditValueUsd } from "@/utils/chinese-names/billing";
+import { summarizeUsage, type LLMUsageTracker } from "@/utils/llm/usage";
+import type { LLMTrafficClass } from "@/utils/env-config";
+import type { LLMCostReport, LLMCostReportRow, PlanType } from "@/types/chinese-names";
+
+// Users listed in the cost report, most expensive first
+const MAX_REPORT_USERS = 50;
+
+interface LLMCostReportRecord {
+  dimension: "plan" | "day" | "user" | "total";
+  plan_type: PlanType | null;
+  day: string | null;
+  user_id: string | null;
+  generations: number;
+  calls: number;
+  retries: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number | string;
+  unpriced_calls: number;
+  credits_charged: number;
+}
+
+export interface LLMSpendTotals {
+  dailyUsd: number;
+  monthlyUsd: number;
+}
+
+export interface LLMUsageRecord {
+  userId: string | null;
+  batchId: string | null;
+  generationRound: number | null;
+  planType: PlanType;
+  usage: LLMUsageTracker;
+  creditsCharged: number;
+}
+
+/**
+ * Store the LLM usage of one generation (see the llm_usage table). Failures are
+ * logged and swallowed: accounting must never fail a generation.
+ */
+export async function recordLLMUsage(record: LLMUsageRecord): Promise<void> {
+  const summary = summarizeUsage(record.usage.calls);
+
+  try {
+    const supabase = createServiceRoleClient();
+    const { error } = await supabase.from("llm_usage").insert({
+      user_id: record.userId,
+      batch_id: record.batchId,
+      generation_round: record.generationRound,
+      plan_type: record.planType,
+      models: summary.models,
+      calls: summary.calls,
+      retries: summary.retries,
+      failed_calls: summary.failedCalls,
+      provider_fallbacks: summary.providerFallbacks,
+      prompt_tokens: summary.promptTokens,
+      completion_tokens: summary.completionTokens,
+      cost_usd: summary.costUsd,
+      unpriced_calls: summary.unpricedCalls,
+      latency_ms: summary.latencyMs,
+      credits_charged: record.creditsCharged,
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error("Failed to record LLM usage:", { summary, error });
+  }
+}
+
+function toReportRow(row: LLMCostReportRecord, creditValueUsd: number): LLMCostReportRow {
+  const costUsd = Number(row.cost_usd);
+  const creditsCharged = Number(row.credits_charged);
+  const revenueUsd = creditsCharged * creditValueUsd;
+
+  return {
+    generations: Number(row.generations),
+    calls: Number(row.calls),
+    retries: Number(row.retries),
+    promptTokens: Number(row.prompt_tokens),
+    completionTokens: Number(row.completion_tokens),
+    costUsd,
+    unpricedCalls: Number(row.unpriced_calls),
+    creditsCharged,
+    revenueUsd,
+    marginUsd: revenueUsd - costUsd,
+    marginPercent: revenueUsd > 0 ? Math.round(((revenueUsd - costUsd) / revenueUsd) * 1000) / 10 : null,
+  };
+}
+
+/**
+ * LLM cost and margin per plan type, per day and per user (see the
+ * llm_cost_report SQL function). Pass `since` to limit the window.
+ */
+export async function getLLMCostReport(since?: Date): Promise<LLMCostReport> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase.rpc("llm_cost_report", {
+    p_since: since ? since.toISOString() : null,
+  });
+
+  if (error) throw error;
+
+  const rows = (data || []) as LLMCostReportRecord[];
+  const creditValueUsd = getCreditValueUsd();
+  const total = rows.find((row) => row.dimension === "total");
+
+  return {
+    since: since?.toISOString() ?? null,
+    creditValueUsd,
+    total: total
+      ? toReportRow(total, creditValueUsd)
+      : toReportRow({ dimension: "total", plan_type: null, day: null, user_id: null, generations: 0, calls: 0, retries: 0, prompt_tokens: 0, completion_tokens: 0, cost_usd: 0, unpriced_calls: 0, credits_charged: 0 }, creditValueUsd),
+    byPlan: rows
+      .filter((row) => row.dimension === "plan")
+      .map((row) => ({ planType: row.plan_type as PlanType, ...toReportRow(row, creditValueUsd) })),
+    byDay: rows
+      .filter((row) => row.dimension === "day")
+      .map((row) => ({ day: row.day as string, ...toReportRow(row, creditValueUsd) })),
+    byUser: rows
+      .filter((row) => row.dimension === "user")
+      .map((row) => ({ userId: row.user_id, ...toReportRow(row, creditValueUsd) }))
+      .sort((a, b) => b.costUsd - a.costUsd)
+      .slice(0, MAX_REPORT_USERS),
+  };
+}
+
+/**
+ * Estimated LLM spend of the current UTC day and month per traffic class
+ * (see the llm_spend_totals SQL function)
+ */
+export async function getLLMSpendTotals(): Promise<Record<LLMTrafficClass, LLMSpendTotals>> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase.rpc("llm_spend_totals");
+
+  if (error) throw error;
+
+  const totals: Record<LLMTrafficClass, LLMSpendTotals> = {
+    anonymous: { dailyUsd: 0, monthlyUsd: 0 },
+    standard: { dailyUsd: 0, monthlyUsd: 0 },
+    premium: { dailyUsd: 0, monthlyUsd: 0 },
+  };
+  for (const row of (data || []) as { traffic_class: LLMTrafficClass; day_cost_usd: number | string; month_cost_usd: number | string }[]) {
+    totals[row.traffic_class] = { dailyUsd: Number(row.day_cost_usd), monthlyUsd: Number(row.month_cost_usd) };
+  }
+  return totals;
+}
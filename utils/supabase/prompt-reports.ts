@@ -0,0 +1,39 @@
+import { createServiceRoleClient } from "./service-role";
+import type { PlanType, PromptVersionReportRow } from "@/types/chinese-names";
+
+interface PromptVersionReportRecord {
+  prompt_version: string;
+  plan_type: PlanType;
+  batches: number;
+  names: number;
+  fallback_names: number;
+  likes: number;
+  saves: number;
+  selections: number;
+}
+
+/**
+ * Batches, names and likes/saves/selections per prompt version and plan type,
+ * crediting each name to the version of the round it came from (see the
+ * prompt_version_report SQL function). Pass `since` to limit the window.
+ */
+export async function getPromptVersionReport(since?: Date): Promise<PromptVersionReportRow[]> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase.rpc("prompt_version_report", {
+    p_since: since ? since.toISOString() : null,
+  });
+
+  if (error) throw error;
+
+  return ((data || []) as PromptVersionReportRecord[]).map((row) => ({
+    promptVersion: row.prompt_version,
+    planType: row.plan_type,
+    batches: Number(row.batches),
+    names: Number(row.names),
+    fallbackNames: Number(row.fallback_names),
+    likes: Number(row.likes),
+    saves: Number(row.saves),
+    selections: Number(row.selections),
+  }));
+}
@@ -1,5 +1,7 @@
 import { createServiceRoleClient } from "./service-role";
 import { CreemCustomer, CreemSubscription } from "@/types/creem";
+import { ProductTier } from "@/types/subscriptions";
+import { SUBSCRIPTION_TIERS } from "@/config/subscriptions";
 
 export async function createOrUpdateCustomer(
   creemCustomer: CreemCustomer,
@@ -124,6 +126,16 @@ export async function getUserSubscription(userId: string) {
   return data;
 }
 
+/**
+ * The tier of the user's active subscription, or null without one
+ */
+export async function getUserSubscriptionTier(userId: string): Promise<ProductTier | null> {
+  const subscription = await getUserSubscription(userId);
+  if (!subscription) return null;
+
+  return SUBSCRIPTION_TIERS.find((tier) => tier.productId === subscription.creem_product_id) ?? null;
+}
+
 export async function addCreditsToCustomer(
   customerId: string,
   credits: number,
@@ -207,6 +219,86 @@ export async function useCredits(
   return newCredits;
 }
 
+/**
+ * Atomically take credits for an in-flight request (see the reserve_credits SQL
+ * function). Resolves to the reservation id, or null when the balance is too low.
+ */
+export async function reserveCredits(
+  customerId: string,
+  credits: number,
+  operation: string,
+  metadata: Record<string, unknown> = {}
+): Promise<string | null> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase.rpc("reserve_credits", {
+    p_customer_id: customerId,
+    p_amount: credits,
+    p_operation: operation,
+    p_metadata: metadata,
+  });
+
+  if (error) throw error;
+  return data ?? null;
+}
+
+/**
+ * Keep a reservation, giving `refund` credits of it back. Resolves to the
+ * credits finally charged, or null if the reservation was already settled.
+ */
+export async function commitCreditReservation(
+  reservationId: string,
+  refund: number = 0,
+  metadata: Record<string, unknown> = {}
+): Promise<number | null> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase.rpc("commit_credit_reservation", {
+    p_reservation_id: reservationId,
+    p_refund: refund,
+    p_metadata: metadata,
+  });
+
+  if (error) throw error;
+  return data ?? null;
+}
+
+/**
+ * Mark a pending reservation whose commit failed for reconciliation, keeping the
+ * refund its commit should give. Resolves to false if it was no longer pending.
+ */
+export async function flagCreditReservationForReconcile(
+  reservationId: string,
+  refund: number = 0,
+  metadata: Record<string, unknown> = {}
+): Promise<boolean> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase.rpc("flag_credit_reservation_for_reconcile", {
+    p_reservation_id: reservationId,
+    p_refund: refund,
+    p_metadata: metadata,
+  });
+
+  if (error) throw error;
+  return !!data;
+}
+
+/**
+ * Return all credits of a pending reservation. Safe to call more than once.
+ */
+export async function releaseCreditReservation(reservationId: string, reason: string): Promise<boolean> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase.rpc("release_credit_reservation", {
+    p_reservation_id: reservationId,
+    p_reason: reason,
+  });
+
+  if (error) throw error;
+  return !!data;
+}
+
 export async function getCustomerCredits(customerId: string) {
   const supabase = createServiceRoleClient();
 
@@ -0,0 +1,27 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./', import.meta.url)),
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**', '.next/**'],
+    // Placeholders so utils/env-config.ts validates; tests never reach these services.
+    // BASE_URL is set because Vitest otherwise exposes its own '/' under that name.
+    env: {
+      BASE_URL: 'http://localhost:3000',
+      NEXT_PUBLIC_SUPABASE_URL: 'http://localhost:54321',
+      NEXT_PUBLIC_SUPABASE_ANON_KEY: 'test-anon-key',
+      SUPABASE_SERVICE_ROLE_KEY: 'test-service-role-key',
+      OPENAI_API_KEY: 'test-openai-key',
+      CREEM_API_KEY: 'test-creem-key',
+      CREEM_WEBHOOK_SECRET: 'test-creem-webhook-secret',
+      CREEM_API_URL: 'http://localhost:3001',
+    },
+  },
+});